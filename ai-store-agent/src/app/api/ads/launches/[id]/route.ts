@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+
+import { AdLaunchError, deleteAdLaunch, getAdLaunch } from "@/lib/ads/launches";
+import { authorize } from "@/lib/auth/guard";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const launch = await getAdLaunch(id);
+
+  if (!launch) {
+    return NextResponse.json({ error: "Launch not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(launch);
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  let removed: boolean;
+
+  try {
+    removed = await deleteAdLaunch(id);
+  } catch (error) {
+    if (error instanceof AdLaunchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  if (!removed) {
+    return NextResponse.json({ error: "Launch not found" }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
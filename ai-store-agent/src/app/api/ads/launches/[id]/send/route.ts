@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { AdLaunchError } from "@/lib/ads/launches";
+import { sendAdLaunch } from "@/lib/ads/send";
+import { authorize } from "@/lib/auth/guard";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "approver");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+
+  try {
+    return NextResponse.json(await sendAdLaunch(id, new URL(request.url).origin));
+  } catch (error) {
+    if (error instanceof AdLaunchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
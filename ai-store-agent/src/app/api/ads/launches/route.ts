@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { AdLaunchError, createAdLaunches, listAdLaunches } from "@/lib/ads/launches";
+import { authorize } from "@/lib/auth/guard";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+const launchPayloadSchema = z.object({
+  runId: z.string().min(1),
+  start: z.iso.datetime({ offset: true }).optional(),
+  end: z.iso.datetime({ offset: true }).optional(),
+  countries: z
+    .array(
+      z
+        .string()
+        .trim()
+        .transform((value) => value.toUpperCase())
+        .pipe(z.string().regex(/^[A-Z]{2}$/, "Use ISO 3166-1 alpha-2 country codes"))
+    )
+    .min(1)
+    .optional(),
+  landingUrl: z.url().optional(),
+});
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const runId = new URL(request.url).searchParams.get("runId") ?? undefined;
+  return NextResponse.json({ launches: await listAdLaunches(runId) });
+}
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof launchPayloadSchema>;
+
+  try {
+    parsed = launchPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await createAdLaunches(parsed, new URL(request.url).origin, workspace.id), { status: 201 });
+  } catch (error) {
+    if (error instanceof AdLaunchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
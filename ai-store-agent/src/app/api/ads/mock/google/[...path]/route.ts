@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+import { mockGoogleMutate } from "@/lib/ads/mock";
+
+interface RouteParams {
+  params: Promise<{ path: string[] }>;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { path } = await params;
+  const body: unknown = await request.json().catch(() => null);
+  const reply = mockGoogleMutate(path, body);
+  return NextResponse.json(reply.body, { status: reply.status });
+}
@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { EXPORT_FORMATS, renderExport, type ExportContext } from "@/lib/plan-export";
+import { planSchema } from "@/lib/plan-schema";
+import { getRun } from "@/lib/runs";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+import type { AgentOutput, ExportFormat } from "@/types/agent";
+
+const formatSchema = z.union([z.literal("markdown"), z.literal("csv"), z.literal("ics")]);
+
+const startSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .transform((value) => new Date(`${value}T00:00:00Z`));
+
+const localeSchema = z.string().refine(
+  (value) => {
+    try {
+      return Intl.getCanonicalLocales(value).length === 1;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Use a BCP 47 locale such as en-US" }
+);
+
+const exportPayloadSchema = z.object({
+  format: formatSchema,
+  plan: planSchema,
+  objective: z.string().optional(),
+  start: startSchema.optional(),
+  locale: localeSchema.optional(),
+});
+
+function exportResponse(
+  format: ExportFormat,
+  plan: AgentOutput,
+  context: ExportContext,
+  fileStem: string
+) {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+
+  return new Response(renderExport(format, plan, context), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileStem}.${extension}"`,
+    },
+  });
+}
+
+function invalidRequest(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      error: "Invalid export request",
+      issues: error.flatten(),
+    },
+    { status: 400 }
+  );
+}
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { searchParams } = new URL(request.url);
+  const query = z
+    .object({
+      runId: z.string().min(1),
+      format: formatSchema.default("markdown"),
+      start: startSchema.optional(),
+      locale: localeSchema.optional(),
+    })
+    .safeParse({
+      runId: searchParams.get("runId") ?? undefined,
+      format: searchParams.get("format") ?? undefined,
+      start: searchParams.get("start") ?? undefined,
+      locale: searchParams.get("locale") ?? undefined,
+    });
+
+  if (!query.success) {
+    return invalidRequest(query.error);
+  }
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const run = await getRun(query.data.runId, workspace.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  return exportResponse(
+    query.data.format,
+    run.response.plan,
+    {
+      objective: run.brief.objective,
+      generatedAt: new Date(run.completedAt),
+      start: query.data.start,
+      locale: query.data.locale,
+      uidPrefix: run.id,
+      loyaltyProgramName: workspace.profile.loyaltyProgramName,
+    },
+    `storepilot-plan-${run.id.slice(0, 8)}`
+  );
+}
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    const parsed = exportPayloadSchema.parse(await request.json());
+    const generatedAt = new Date();
+
+    return exportResponse(
+      parsed.format,
+      parsed.plan,
+      {
+        objective: parsed.objective,
+        generatedAt,
+        start: parsed.start,
+        locale: parsed.locale,
+        loyaltyProgramName: workspace.profile.loyaltyProgramName,
+      },
+      `storepilot-plan-${generatedAt.toISOString().slice(0, 10)}`
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error);
+    }
+
+    console.error("Plan export failure", error);
+    return NextResponse.json({ error: "Export unavailable" }, { status: 500 });
+  }
+}
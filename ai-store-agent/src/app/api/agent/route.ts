@@ -1,17 +1,31 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
 import { z } from "zod";
 
-import { buildAgentPrompt } from "@/lib/prompt";
-import { SAMPLE_AGENT_RESPONSE } from "@/lib/sample-plan";
-import type { AgentBrief, AgentResponse, MediaAttachment } from "@/types/agent";
+import { fallbackResponse, runAgent, type RunOptions } from "@/lib/agent-runner";
+import { requestPlanApprovals } from "@/lib/approvals";
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { withBudgetAllocation } from "@/lib/budget-allocation";
+import { withCatalogReferences } from "@/lib/catalog/context";
+import { currencyCodeSchema } from "@/lib/currency";
+import { loadCurrencySettings } from "@/lib/fx-rates";
+import { withLoyaltyProposals } from "@/lib/loyalty/proposals";
+import { describeMediaAnalysis, mediaAnalysisSchema } from "@/lib/media-analysis";
+import { AGENT_STREAM_CONTENT_TYPE, encodeStreamEvent, splitPlanSections } from "@/lib/plan-stream";
+import { providerSelectionSchema } from "@/lib/providers";
+import { getRun, saveRun } from "@/lib/runs";
+import { admitAgentRun, limitExceeded } from "@/lib/usage/limits";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+import type { AgentBrief, AgentResponse, AgentStreamEvent, MediaAttachment } from "@/types/agent";
+import type { UserRef } from "@/types/auth";
+import type { AgentRunRecord } from "@/types/runs";
 
 const mediaSchema = z.object({
   id: z.string(),
   name: z.string(),
   kind: z.union([z.literal("image"), z.literal("video")]),
-  dataUrl: z.string(),
   notes: z.string().optional(),
+  analysis: mediaAnalysisSchema.optional(),
 });
 
 const payloadSchema = z.object({
@@ -35,7 +49,7 @@ const payloadSchema = z.object({
   budget: z
     .object({
       amount: z.number().positive(),
-      currency: z.string(),
+      currency: currencyCodeSchema,
       cadence: z.union([
         z.literal("daily"),
         z.literal("weekly"),
@@ -44,47 +58,172 @@ const payloadSchema = z.object({
       platform: z.union([z.literal("meta"), z.literal("google"), z.literal("both")]).optional(),
     })
     .optional(),
+  replanOf: z.string().min(1).optional(),
+  provider: providerSelectionSchema.optional(),
 });
 
 function deriveMediaTokens(media: MediaAttachment[]): string[] {
   return media.map((item) => {
     const descriptor = item.notes ? `Notes: ${item.notes}` : "No notes provided";
-    return `${item.kind.toUpperCase()} - ${item.name} (${descriptor})`;
+    const findings = item.analysis ? ` [Findings: ${describeMediaAnalysis(item.analysis)}]` : "";
+    return `${item.kind.toUpperCase()} - ${item.name} (${descriptor})${findings}`;
   });
 }
 
-async function runModel(brief: AgentBrief, mediaTokens: string[]): Promise<AgentResponse> {
-  const apiKey = process.env.OPENAI_API_KEY;
+async function allocateBudget(brief: AgentBrief, response: AgentResponse): Promise<AgentResponse> {
+  if (!brief.budget) return response;
 
-  if (!apiKey) {
-    return SAMPLE_AGENT_RESPONSE;
+  try {
+    const settings = await loadCurrencySettings();
+    return { ...response, plan: withBudgetAllocation(response.plan, brief.budget, brief.targetChannels, settings) };
+  } catch (error) {
+    console.error("Budget allocation failure", error);
+    return response;
   }
+}
 
-  const client = new OpenAI({ apiKey });
-  const prompt = buildAgentPrompt(brief, mediaTokens);
+async function linkCatalog(response: AgentResponse): Promise<AgentResponse> {
+  if (response.usedSample) return response;
 
-  const response = await client.responses.create({
-    model: "gpt-4.1-mini",
-    input: prompt,
-    max_output_tokens: 1400,
-  });
+  try {
+    return { ...response, plan: await withCatalogReferences(response.plan) };
+  } catch (error) {
+    console.error("Catalog reference failure", error);
+    return response;
+  }
+}
+
+async function proposeLoyaltyRules(response: AgentResponse): Promise<AgentResponse> {
+  if (response.usedSample) return response;
+
+  try {
+    return { ...response, plan: await withLoyaltyProposals(response.plan) };
+  } catch (error) {
+    console.error("Loyalty proposal failure", error);
+    return response;
+  }
+}
+
+/** Adds the server-computed plan fields before the run is archived. */
+async function enrichPlan(brief: AgentBrief, response: AgentResponse): Promise<AgentResponse> {
+  return proposeLoyaltyRules(await linkCatalog(await allocateBudget(brief, response)));
+}
+
+async function recordRun(
+  brief: AgentBrief,
+  response: AgentResponse,
+  startedAt: Date,
+  workspaceId: string | undefined,
+  createdBy: UserRef
+): Promise<AgentResponse> {
+  let run: AgentRunRecord;
+  try {
+    run = await saveRun(brief, response, startedAt, workspaceId, createdBy);
+  } catch (error) {
+    console.error("Run history write failure", error);
+    return response;
+  }
 
-  const outputText = response.output_text;
+  if (!run.usedSample) {
+    try {
+      await requestPlanApprovals(run.response.plan, run.id);
+    } catch (error) {
+      console.error("Approval queue write failure", error);
+    }
+  }
+  return run.response;
+}
+
+function wantsStream(request: Request): boolean {
+  const url = new URL(request.url);
+  return (
+    url.searchParams.get("stream") === "1" ||
+    (request.headers.get("accept") ?? "").includes(AGENT_STREAM_CONTENT_TYPE)
+  );
+}
+
+function streamAgentRun(
+  request: Request,
+  brief: AgentBrief,
+  mediaTokens: string[],
+  options: RunOptions,
+  createdBy: UserRef
+): Response {
+  const startedAt = new Date();
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  let cancelled = false;
+  request.signal.addEventListener("abort", () => upstream.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AgentStreamEvent) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        }
+      };
 
-  const parsedPlan = JSON.parse(outputText);
+      const finish = async (response: AgentResponse) => {
+        if (response.usedSample) {
+          splitPlanSections(response.plan).forEach((section) => send({ type: "section", ...section }));
+        }
+        const enriched = await enrichPlan(brief, response);
+        send({ type: "done", response: await recordRun(brief, enriched, startedAt, options.workspace?.id, createdBy) });
+      };
+
+      try {
+        await finish(
+          await runAgent(brief, mediaTokens, {
+            ...options,
+            signal: upstream.signal,
+            onSection: (section) => send({ type: "section", ...section }),
+            onRetry: (attempt) => send({ type: "reset", attempt }),
+          })
+        );
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error("Agent stream failure", error);
+          await finish(fallbackResponse("model-error"));
+        }
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      upstream.abort();
+    },
+  });
 
-  return {
-    plan: parsedPlan,
-    raw: outputText,
-    usedSample: false,
-  };
+  return new Response(body, {
+    headers: {
+      "Content-Type": AGENT_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
 }
 
 export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
   try {
     const json = await request.json();
     const parsed = payloadSchema.parse(json);
 
+    if (parsed.replanOf && !(await getRun(parsed.replanOf, workspace.id))) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    const createdBy = userRef(user);
+    const breach = await admitAgentRun(createdBy, workspace.id, parsed.provider);
+    if (breach) return limitExceeded(breach);
+
     const brief: AgentBrief = {
       objective: parsed.objective,
       focusAreas: parsed.focusAreas,
@@ -94,12 +233,24 @@ export async function POST(request: Request) {
       tasks: parsed.tasks,
       media: parsed.media,
       budget: parsed.budget,
+      ...(parsed.replanOf ? { replanOf: parsed.replanOf } : {}),
     };
 
     const mediaTokens = deriveMediaTokens(parsed.media);
-    const agentResponse = await runModel(brief, mediaTokens);
+    const options: RunOptions = { provider: parsed.provider, workspace, user: createdBy };
+
+    if (wantsStream(request)) {
+      return streamAgentRun(request, brief, mediaTokens, options, createdBy);
+    }
+
+    const startedAt = new Date();
+    const agentResponse = await runAgent(brief, mediaTokens, options).catch((error) => {
+      console.error("Agent run failure", error);
+      return fallbackResponse("model-error");
+    });
 
-    return NextResponse.json(agentResponse);
+    const enriched = await enrichPlan(brief, agentResponse);
+    return NextResponse.json(await recordRun(brief, enriched, startedAt, workspace.id, createdBy));
   } catch (error) {
     console.error("Agent API failure", error);
 
@@ -114,7 +265,7 @@ export async function POST(request: Request) {
     }
 
     try {
-      return NextResponse.json(SAMPLE_AGENT_RESPONSE);
+      return NextResponse.json(fallbackResponse("model-error"));
     } catch (fallbackError) {
       console.error("Fallback response failure", fallbackError);
       return NextResponse.json(
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { revokeApiKey } from "@/lib/auth/api-keys";
+import { authorize } from "@/lib/auth/guard";
+import { hasRole } from "@/lib/auth/roles";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/** Owners revoke their own keys; admins can revoke anyone's. */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+
+  const removed = await revokeApiKey(id, hasRole(user.role, "admin") ? undefined : user.id);
+  if (!removed) {
+    return NextResponse.json({ error: "API key not found" }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
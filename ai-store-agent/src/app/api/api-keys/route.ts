@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { createApiKey, listApiKeys } from "@/lib/auth/api-keys";
+import { authorize } from "@/lib/auth/guard";
+import { hasRole } from "@/lib/auth/roles";
+import { apiKeyInputSchema } from "@/lib/auth/schema";
+
+/** The caller's keys; admins can add `?all=1` to see everyone's. */
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const all = new URL(request.url).searchParams.get("all") === "1" && hasRole(user.role, "admin");
+  return NextResponse.json({ keys: await listApiKeys(all ? undefined : user.id) });
+}
+
+/** Keys act as the user who created them, with that user's role at the time of each call. */
+export async function POST(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof apiKeyInputSchema>;
+
+  try {
+    parsed = apiKeyInputSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { key, record } = await createApiKey(user.id, parsed.name);
+  return NextResponse.json({ ...record, key }, { status: 201 });
+}
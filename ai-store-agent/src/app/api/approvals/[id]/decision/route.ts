@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApprovalError, decideApproval } from "@/lib/approvals";
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { runApprovedAction } from "@/lib/automation/engine";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const decisionPayloadSchema = z.object({
+  decision: z.union([z.literal("approve"), z.literal("reject")]),
+  note: z.string().trim().min(1).optional(),
+});
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "approver");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  let parsed: z.infer<typeof decisionPayloadSchema>;
+
+  try {
+    parsed = decisionPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  let approval;
+  try {
+    approval = await decideApproval(id, parsed.decision, userRef(user), parsed.note);
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  try {
+    return NextResponse.json({ approval, execution: await runApprovedAction(approval) });
+  } catch (error) {
+    console.error("Approved action failure", error);
+    return NextResponse.json({ approval, execution: null, error: "Approved, but the action could not be run" });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ApprovalError, editApproval, getApproval, listAuditTrail } from "@/lib/approvals";
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const editPayloadSchema = z.object({
+  details: z.record(z.string(), z.union([z.string(), z.number()])),
+  note: z.string().trim().min(1).optional(),
+});
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const approval = await getApproval(id);
+
+  if (!approval) {
+    return NextResponse.json({ error: "Approval not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ approval, audit: await listAuditTrail(id) });
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "approver");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  let parsed: z.infer<typeof editPayloadSchema>;
+
+  try {
+    parsed = editPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await editApproval(id, userRef(user), parsed.details, parsed.note));
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
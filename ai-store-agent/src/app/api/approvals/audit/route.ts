@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+
+import { listAuditTrail } from "@/lib/approvals";
+import { authorize } from "@/lib/auth/guard";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const approvalId = new URL(request.url).searchParams.get("approvalId") ?? undefined;
+  return NextResponse.json({ entries: await listAuditTrail(approvalId) });
+}
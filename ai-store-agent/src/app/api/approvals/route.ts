@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { listApprovals } from "@/lib/approvals";
+import { authorize } from "@/lib/auth/guard";
+import type { ApprovalStatus } from "@/types/approvals";
+
+const STATUSES: ApprovalStatus[] = ["pending", "approved", "rejected"];
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const status = new URL(request.url).searchParams.get("status") as ApprovalStatus | null;
+
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(", ")}` }, { status: 400 });
+  }
+
+  return NextResponse.json({ approvals: await listApprovals(status ?? undefined) });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { setSessionCookie } from "@/lib/auth/guard";
+import { credentialsSchema } from "@/lib/auth/schema";
+import { createSession } from "@/lib/auth/sessions";
+import { authenticate } from "@/lib/auth/users";
+
+export async function POST(request: Request) {
+  let parsed: z.infer<typeof credentialsSchema>;
+
+  try {
+    parsed = credentialsSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const user = await authenticate(parsed.email, parsed.password);
+  if (!user) {
+    return NextResponse.json({ error: "Wrong email or password" }, { status: 401 });
+  }
+
+  const { token, session } = await createSession(user.id);
+  return setSessionCookie(NextResponse.json({ user }), token, session);
+}
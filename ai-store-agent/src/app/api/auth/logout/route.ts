@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+
+import { clearSessionCookie, sessionToken } from "@/lib/auth/guard";
+import { deleteSession } from "@/lib/auth/sessions";
+
+export async function POST(request: Request) {
+  const token = sessionToken(request);
+  if (token) await deleteSession(token);
+
+  return clearSessionCookie(new NextResponse(null, { status: 204 }));
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize, sessionToken } from "@/lib/auth/guard";
+import { passwordChangeSchema } from "@/lib/auth/schema";
+import { updateUser, verifyUserPassword } from "@/lib/auth/users";
+
+/** Changes the caller's own password and signs out their other sessions. */
+export async function PUT(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof passwordChangeSchema>;
+
+  try {
+    parsed = passwordChangeSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!(await verifyUserPassword(user.id, parsed.currentPassword))) {
+    return NextResponse.json({ error: "The current password is wrong" }, { status: 400 });
+  }
+
+  await updateUser(user.id, { password: parsed.newPassword }, sessionToken(request) ?? undefined);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+
+import { userFromRequest } from "@/lib/auth/guard";
+import { setupRequired } from "@/lib/auth/users";
+
+export async function GET(request: Request) {
+  const [user, setup] = await Promise.all([userFromRequest(request), setupRequired()]);
+  return NextResponse.json({ user, setupRequired: setup });
+}
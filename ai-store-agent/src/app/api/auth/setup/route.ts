@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { setSessionCookie } from "@/lib/auth/guard";
+import { setupSchema } from "@/lib/auth/schema";
+import { createSession } from "@/lib/auth/sessions";
+import { AuthError, createFirstAdmin, setupRequired } from "@/lib/auth/users";
+
+/** Creates the first admin and signs them in; closed once any account exists. */
+export async function POST(request: Request) {
+  if (!(await setupRequired())) {
+    return NextResponse.json({ error: "Setup is already done; sign in instead" }, { status: 409 });
+  }
+
+  let parsed: z.infer<typeof setupSchema>;
+
+  try {
+    parsed = setupSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const user = await createFirstAdmin(parsed);
+    const { token, session } = await createSession(user.id);
+    return setSessionCookie(NextResponse.json({ user }, { status: 201 }), token, session);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
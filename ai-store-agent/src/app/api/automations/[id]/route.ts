@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { AutomationRuleError, deleteRule, updateRule } from "@/lib/automation/rules";
+import { automationActionSchema, automationTriggerSchema } from "@/lib/automation/schema";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ruleChangeSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  enabled: z.boolean().optional(),
+  trigger: automationTriggerSchema.optional(),
+  action: automationActionSchema.optional(),
+});
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  let change: z.infer<typeof ruleChangeSchema>;
+
+  try {
+    change = ruleChangeSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const rule = await updateRule(id, change);
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+    return NextResponse.json(rule);
+  } catch (error) {
+    if (error instanceof AutomationRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const removed = await deleteRule(id);
+
+  if (!removed) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { publishStoreEvent } from "@/lib/automation/engine";
+import { storeEventPayloadSchema, storeEventTypeSchema } from "@/lib/automation/schema";
+
+const eventPayloadSchema = z.object({
+  type: storeEventTypeSchema,
+  payload: storeEventPayloadSchema.default({}),
+  dryRun: z.boolean().default(false),
+});
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof eventPayloadSchema>;
+
+  try {
+    parsed = eventPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await publishStoreEvent(parsed.type, parsed.payload, { dryRun: parsed.dryRun }));
+  } catch (error) {
+    console.error("Automation event failure", error);
+    return NextResponse.json({ error: "Event could not be processed" }, { status: 500 });
+  }
+}
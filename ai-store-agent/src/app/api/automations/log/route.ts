@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { listExecutions } from "@/lib/automation/rules";
+
+const MAX_LIMIT = 200;
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { searchParams } = new URL(request.url);
+  const ruleId = searchParams.get("ruleId") ?? undefined;
+  const limit = Math.min(Number(searchParams.get("limit")) || 50, MAX_LIMIT);
+
+  return NextResponse.json({ executions: await listExecutions({ ruleId, limit }) });
+}
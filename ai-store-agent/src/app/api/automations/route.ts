@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { createRulesFromPlan, listRules } from "@/lib/automation/rules";
+import { agentOutputSchema } from "@/lib/plan-schema";
+import { getRun } from "@/lib/runs";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+const importPayloadSchema = z.union([
+  z.object({ runId: z.string().min(1) }),
+  z.object({ automations: agentOutputSchema.shape.automations }),
+]);
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json({ rules: await listRules() });
+}
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof importPayloadSchema>;
+
+  try {
+    parsed = importPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if ("automations" in parsed) {
+    return NextResponse.json({ rules: await createRulesFromPlan(parsed.automations) }, { status: 201 });
+  }
+
+  const run = await getRun(parsed.runId, workspace.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const rules = await createRulesFromPlan(run.response.plan.automations ?? [], run.id);
+  return NextResponse.json({ rules }, { status: 201 });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { runDueSchedules } from "@/lib/automation/scheduler";
+
+/** Lets an external cron drive schedule rules when the in-process scheduler is off. */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  try {
+    return NextResponse.json({ executions: await runDueSchedules() });
+  } catch (error) {
+    console.error("Automation schedule failure", error);
+    return NextResponse.json({ error: "Schedules could not be run" }, { status: 500 });
+  }
+}
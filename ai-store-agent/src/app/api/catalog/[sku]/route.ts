@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { deleteProduct, getProduct } from "@/lib/catalog/store";
+
+interface RouteParams {
+  params: Promise<{ sku: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { sku } = await params;
+  const product = await getProduct(sku);
+
+  if (!product) {
+    return NextResponse.json({ error: "Product not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(product);
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { sku } = await params;
+  const removed = await deleteProduct(sku);
+
+  if (!removed) {
+    return NextResponse.json({ error: "Product not found" }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { parseCatalogCsv, parseShopifyProducts, shopifyExportSchema } from "@/lib/catalog/parsers";
+import { importCatalog } from "@/lib/catalog/store";
+import { formatBytes } from "@/lib/media-limits";
+import type { CatalogImportFormat } from "@/types/catalog";
+
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+function importFormat(request: Request): CatalogImportFormat | null {
+  const requested = new URL(request.url).searchParams.get("format");
+  if (requested === "csv" || requested === "shopify") return requested;
+  if (requested) return null;
+
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.includes("json")) return "shopify";
+  if (contentType.includes("csv") || contentType.startsWith("text/plain")) return "csv";
+  return null;
+}
+
+/**
+ * Imports a product CSV or a Shopify product JSON export sent as the raw body.
+ * `?replace=1` removes products missing from the file.
+ */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const format = importFormat(request);
+  if (!format) {
+    return NextResponse.json(
+      { error: "Send text/csv or application/json, or pass ?format=csv|shopify" },
+      { status: 415 }
+    );
+  }
+
+  if (Number(request.headers.get("content-length")) > MAX_IMPORT_BYTES) {
+    return NextResponse.json({ error: `Imports are limited to ${formatBytes(MAX_IMPORT_BYTES)}` }, { status: 413 });
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_IMPORT_BYTES) {
+    return NextResponse.json({ error: `Imports are limited to ${formatBytes(MAX_IMPORT_BYTES)}` }, { status: 413 });
+  }
+
+  let parsed;
+  if (format === "csv") {
+    parsed = parseCatalogCsv(text);
+  } else {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const shape = shopifyExportSchema.safeParse(data);
+    if (!shape.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: shape.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    parsed = parseShopifyProducts(shape.data);
+  }
+
+  if (parsed.products.length === 0) {
+    return NextResponse.json({ error: "No importable products found", skipped: parsed.skipped }, { status: 422 });
+  }
+
+  try {
+    const replace = new URL(request.url).searchParams.get("replace") === "1";
+    return NextResponse.json(await importCatalog(format, parsed, { replace }), { status: 201 });
+  } catch (error) {
+    console.error("Catalog import failure", error);
+    return NextResponse.json({ error: "Import failed" }, { status: 500 });
+  }
+}
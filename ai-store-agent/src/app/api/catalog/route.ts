@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { searchProducts } from "@/lib/catalog/store";
+
+const MAX_PAGE_SIZE = 500;
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { searchParams } = new URL(request.url);
+
+  return NextResponse.json(
+    await searchProducts({
+      q: searchParams.get("q") ?? undefined,
+      tag: searchParams.get("tag") ?? undefined,
+      limit: Math.min(Number(searchParams.get("limit")) || 100, MAX_PAGE_SIZE),
+      offset: Math.max(Number(searchParams.get("offset")) || 0, 0),
+    })
+  );
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { ExperimentError, assignVisitor } from "@/lib/experiments/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/** Storefront servers call this, with an API key, to learn which price a visitor should see. */
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const visitorId = new URL(request.url).searchParams.get("visitorId");
+
+  if (!visitorId) {
+    return NextResponse.json({ error: "visitorId is required" }, { status: 400 });
+  }
+
+  try {
+    const variant = await assignVisitor(id, visitorId);
+    if (!variant) {
+      return NextResponse.json({ error: "Experiment is not running" }, { status: 409 });
+    }
+    return NextResponse.json({ variantId: variant.id, price: variant.price });
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
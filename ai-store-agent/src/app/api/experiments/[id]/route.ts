@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import {
+  ExperimentError,
+  deleteExperiment,
+  getExperimentResults,
+  setExperimentStatus,
+} from "@/lib/experiments/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const statusPayloadSchema = z.object({
+  status: z.union([z.literal("running"), z.literal("stopped")]),
+});
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const entry = await getExperimentResults(id);
+
+  if (!entry) {
+    return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(entry);
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  let parsed: z.infer<typeof statusPayloadSchema>;
+
+  try {
+    parsed = statusPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await setExperimentStatus(id, parsed.status));
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const removed = await deleteExperiment(id);
+
+  if (!removed) {
+    return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { recordExperimentEvents } from "@/lib/experiments/store";
+
+const MAX_BATCH = 1000;
+
+const eventSchema = z.object({
+  experimentId: z.string().min(1),
+  type: z.union([z.literal("exposure"), z.literal("order")]),
+  visitorId: z.string().min(1),
+  orderId: z.string().min(1).optional(),
+  revenue: z.number().nonnegative().optional(),
+  occurredAt: z.iso.datetime().optional(),
+});
+
+const ingestPayloadSchema = z.union([
+  z.object({ events: z.array(eventSchema).min(1).max(MAX_BATCH) }),
+  eventSchema.transform((event) => ({ events: [event] })),
+]);
+
+/** Storefront servers report traffic here with a planner's API key; orders can settle a test. */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof ingestPayloadSchema>;
+
+  try {
+    parsed = ingestPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const result = await recordExperimentEvents(parsed.events);
+    return NextResponse.json(result, { status: result.accepted > 0 ? 202 : 422 });
+  } catch (error) {
+    console.error("Experiment event failure", error);
+    return NextResponse.json({ error: "Events could not be recorded" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { proposePriceExperiments } from "@/lib/experiments/proposals";
+import { getRun } from "@/lib/runs";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+const proposePayloadSchema = z.object({ runId: z.string().min(1) });
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof proposePayloadSchema>;
+
+  try {
+    parsed = proposePayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const run = await getRun(parsed.runId, workspace.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ experiments: await proposePriceExperiments(run) }, { status: 201 });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { ExperimentError, createExperiment, getExperimentResults, listExperiments } from "@/lib/experiments/store";
+
+const experimentPayloadSchema = z.object({
+  sku: z.string().trim().min(1),
+  title: z.string().trim().min(1).optional(),
+  hypothesis: z.string().optional(),
+  variants: z.array(
+    z.object({
+      price: z.number().positive(),
+      weight: z.number().positive().max(1).optional(),
+    })
+  ),
+  stoppingRules: z
+    .object({
+      minVisitorsPerVariant: z.number().int().positive(),
+      minDays: z.number().nonnegative(),
+      maxDays: z.number().positive(),
+      confidence: z.union([z.literal(0.9), z.literal(0.95), z.literal(0.99)]),
+    })
+    .partial()
+    .optional(),
+});
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const experiments = await listExperiments();
+  const settled = await Promise.all(experiments.map((experiment) => getExperimentResults(experiment.id)));
+  return NextResponse.json({ experiments: settled.filter((entry) => entry !== null) });
+}
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof experimentPayloadSchema>;
+
+  try {
+    parsed = experimentPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await createExperiment(parsed), { status: 201 });
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
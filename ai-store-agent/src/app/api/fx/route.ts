@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { loadCurrencySettings } from "@/lib/fx-rates";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  try {
+    return NextResponse.json(await loadCurrencySettings());
+  } catch (error) {
+    console.error("FX table failure", error);
+    return NextResponse.json({ error: "Exchange rates unavailable" }, { status: 500 });
+  }
+}
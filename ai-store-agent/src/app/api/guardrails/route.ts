@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { guardrailSettingsSchema } from "@/lib/guardrails/schema";
+import { getGuardrailSettings, saveGuardrailSettings } from "@/lib/guardrails/settings";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(await getGuardrailSettings(workspace.id));
+}
+
+export async function PUT(request: Request) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof guardrailSettingsSchema>;
+
+  try {
+    parsed = guardrailSettingsSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  return NextResponse.json(await saveGuardrailSettings(parsed, workspace.id));
+}
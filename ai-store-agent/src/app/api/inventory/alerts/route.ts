@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { listAlerts } from "@/lib/inventory/store";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const status = new URL(request.url).searchParams.get("status") ?? "open";
+  if (status !== "open" && status !== "resolved" && status !== "all") {
+    return NextResponse.json({ error: "status must be open, resolved or all" }, { status: 400 });
+  }
+
+  return NextResponse.json({ alerts: await listAlerts(status) });
+}
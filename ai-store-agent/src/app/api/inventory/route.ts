@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { listInventory } from "@/lib/inventory/store";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const health = new URL(request.url).searchParams.get("health");
+  const inventory = await listInventory();
+  return NextResponse.json({ inventory: health ? inventory.filter((item) => item.health === health) : inventory });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { getInventorySettings, saveInventorySettings } from "@/lib/inventory/store";
+
+const settingsPayloadSchema = z
+  .object({
+    lowStockDays: z.number().positive(),
+    overstockDays: z.number().positive(),
+    velocityWindowDays: z.number().int().min(1).max(365),
+  })
+  .refine((settings) => settings.lowStockDays < settings.overstockDays, {
+    message: "lowStockDays must be below overstockDays",
+    path: ["overstockDays"],
+  });
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json(await getInventorySettings());
+}
+
+export async function PUT(request: Request) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof settingsPayloadSchema>;
+
+  try {
+    parsed = settingsPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  return NextResponse.json(await saveInventorySettings(parsed));
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { parseSnapshotCsv, snapshotSchema, type ParsedSnapshots } from "@/lib/inventory/parsers";
+import { ingestSnapshots } from "@/lib/inventory/store";
+import { formatBytes } from "@/lib/media-limits";
+import type { InventorySnapshotSource } from "@/types/inventory";
+
+const MAX_SNAPSHOT_BYTES = 5 * 1024 * 1024;
+const MAX_BATCH = 5000;
+
+const webhookPayloadSchema = z.union([
+  z.object({ snapshots: z.array(snapshotSchema).min(1).max(MAX_BATCH) }),
+  snapshotSchema.transform((snapshot) => ({ snapshots: [snapshot] })),
+]);
+
+/**
+ * Takes a stock count as a CSV upload (`text/csv`) or as JSON from a webhook,
+ * either one snapshot or `{ "snapshots": [...] }`.
+ */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const contentType = request.headers.get("content-type") ?? "";
+  const source: InventorySnapshotSource | null = contentType.includes("json")
+    ? "webhook"
+    : contentType.includes("csv") || contentType.startsWith("text/plain")
+      ? "csv"
+      : null;
+  if (!source) {
+    return NextResponse.json({ error: "Send text/csv or application/json" }, { status: 415 });
+  }
+
+  if (Number(request.headers.get("content-length")) > MAX_SNAPSHOT_BYTES) {
+    return NextResponse.json({ error: `Snapshots are limited to ${formatBytes(MAX_SNAPSHOT_BYTES)}` }, { status: 413 });
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_SNAPSHOT_BYTES) {
+    return NextResponse.json({ error: `Snapshots are limited to ${formatBytes(MAX_SNAPSHOT_BYTES)}` }, { status: 413 });
+  }
+
+  let parsed: ParsedSnapshots;
+  if (source === "csv") {
+    parsed = parseSnapshotCsv(text);
+  } else {
+    try {
+      parsed = { snapshots: webhookPayloadSchema.parse(JSON.parse(text)).snapshots, skipped: [] };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            error: "Invalid payload",
+            issues: error.flatten(),
+          },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+  }
+
+  if (parsed.snapshots.length === 0) {
+    return NextResponse.json({ error: "No stock levels found", skipped: parsed.skipped }, { status: 422 });
+  }
+
+  try {
+    return NextResponse.json(await ingestSnapshots(parsed, source), { status: 201 });
+  } catch (error) {
+    console.error("Inventory snapshot failure", error);
+    return NextResponse.json({ error: "Snapshot could not be stored" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { listCustomers } from "@/lib/loyalty/ledger";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const url = new URL(request.url);
+  const limit = Number(url.searchParams.get("limit") ?? 50);
+  const customers = await listCustomers();
+
+  return NextResponse.json({
+    customers: customers.slice(0, Number.isFinite(limit) && limit > 0 ? limit : 50),
+    total: customers.length,
+  });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { getLoyaltyProgram, saveLoyaltyProgram } from "@/lib/loyalty/program";
+import { loyaltyProgramSchema } from "@/lib/loyalty/schema";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json(await getLoyaltyProgram());
+}
+
+export async function PUT(request: Request) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof loyaltyProgramSchema>;
+
+  try {
+    parsed = loyaltyProgramSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  return NextResponse.json(await saveLoyaltyProgram(parsed));
+}
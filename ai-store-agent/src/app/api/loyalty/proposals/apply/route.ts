@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { LoyaltyError } from "@/lib/loyalty/ledger";
+import { applyProposals, selectProposals } from "@/lib/loyalty/proposals";
+import { getRun } from "@/lib/runs";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+const applyPayloadSchema = z.object({
+  runId: z.string().min(1),
+  proposalIds: z.array(z.string()).optional(),
+});
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "approver");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof applyPayloadSchema>;
+
+  try {
+    parsed = applyPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const run = await getRun(parsed.runId, workspace.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  try {
+    const proposals = await selectProposals(run, parsed.proposalIds);
+    return NextResponse.json({ program: await applyProposals(proposals), applied: proposals.map((item) => item.id) });
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { getLoyaltySummary } from "@/lib/loyalty/ledger";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json(await getLoyaltySummary());
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { LoyaltyError, adjustPoints, burnPoints, earnPoints } from "@/lib/loyalty/ledger";
+
+const customerIdSchema = z.string().trim().min(1);
+
+const transactionPayloadSchema = z.union([
+  z.object({
+    type: z.literal("earn"),
+    customerId: customerIdSchema,
+    amount: z.number().positive(),
+    channel: z.string().trim().min(1).optional(),
+    campaign: z.string().trim().min(1).optional(),
+    orderId: z.string().trim().min(1).optional(),
+    occurredAt: z.iso.datetime().optional(),
+  }),
+  z.object({
+    type: z.literal("burn"),
+    customerId: customerIdSchema,
+    points: z.number().int().positive(),
+    orderId: z.string().trim().min(1).optional(),
+    note: z.string().optional(),
+    occurredAt: z.iso.datetime().optional(),
+  }),
+  z.object({
+    type: z.literal("adjust"),
+    customerId: customerIdSchema,
+    points: z
+      .number()
+      .int()
+      .refine((points) => points !== 0, "Adjustment cannot be zero"),
+    note: z.string().trim().min(1, "Explain the adjustment"),
+    occurredAt: z.iso.datetime().optional(),
+  }),
+]);
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof transactionPayloadSchema>;
+
+  try {
+    parsed = transactionPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const transaction =
+      parsed.type === "earn"
+        ? await earnPoints(parsed)
+        : parsed.type === "burn"
+          ? await burnPoints(parsed)
+          : await adjustPoints(parsed);
+    return NextResponse.json(transaction, { status: 201 });
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
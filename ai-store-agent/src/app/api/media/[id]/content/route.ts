@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { getMediaAsset, openMediaVariant } from "@/lib/media-assets";
+import { parseRange, resolveRange } from "@/lib/media-storage/range";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+import type { MediaVariant } from "@/types/media";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const VARIANTS: MediaVariant[] = ["original", "thumbnail", "poster", "keyframe"];
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const url = new URL(request.url);
+  const variant = (url.searchParams.get("variant") ?? "original") as MediaVariant;
+
+  if (!VARIANTS.includes(variant)) {
+    return NextResponse.json({ error: `variant must be one of ${VARIANTS.join(", ")}` }, { status: 400 });
+  }
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const asset = await getMediaAsset(id, workspace.id);
+  if (!asset) {
+    return NextResponse.json({ error: "Media asset not found" }, { status: 404 });
+  }
+
+  const range = parseRange(request.headers.get("range"));
+  if (range && variant === "original" && !resolveRange(range, asset.size)) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${asset.size}` } });
+  }
+
+  const stored = await openMediaVariant(asset, variant, {
+    index: Number(url.searchParams.get("index")) || 0,
+    range: variant === "original" ? range : undefined,
+  });
+  if (!stored) {
+    return NextResponse.json({ error: `No ${variant} stored for this asset` }, { status: 404 });
+  }
+
+  // Originals never change and support seeking; renditions can be regenerated by the browser.
+  const headers: Record<string, string> =
+    variant === "original"
+      ? { "Content-Type": stored.mimeType, "Accept-Ranges": "bytes", "Cache-Control": "private, max-age=31536000, immutable" }
+      : { "Content-Type": stored.mimeType, "Cache-Control": "private, no-cache" };
+
+  if (stored.range) {
+    headers["Content-Range"] = `bytes ${stored.range.start}-${stored.range.end}/${stored.size}`;
+    headers["Content-Length"] = String(stored.range.end - stored.range.start + 1);
+    return new Response(stored.body, { status: 206, headers });
+  }
+
+  headers["Content-Length"] = String(stored.size);
+  return new Response(stored.body, { headers });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { MediaUploadError, getMediaAsset, storeMediaRendition, uploadFromRequest } from "@/lib/media-assets";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+import type { MediaRendition } from "@/types/media";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const RENDITION_VARIANTS: Array<MediaRendition["variant"]> = ["thumbnail", "poster", "keyframe"];
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const variant = new URL(request.url).searchParams.get("variant") as MediaRendition["variant"] | null;
+
+  if (!variant || !RENDITION_VARIANTS.includes(variant)) {
+    return NextResponse.json(
+      { error: `variant must be one of ${RENDITION_VARIANTS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const asset = await getMediaAsset(id, workspace.id);
+  if (!asset) {
+    return NextResponse.json({ error: "Media asset not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json(await storeMediaRendition(asset, variant, uploadFromRequest(request)), {
+      status: 201,
+    });
+  } catch (error) {
+    if (error instanceof MediaUploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Media rendition failure", error);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
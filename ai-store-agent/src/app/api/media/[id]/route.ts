@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { deleteMediaAsset, getMediaAsset } from "@/lib/media-assets";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const asset = await getMediaAsset(id, workspace.id);
+
+  if (!asset) {
+    return NextResponse.json({ error: "Media asset not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(asset);
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const removed = (await getMediaAsset(id, workspace.id)) !== null && (await deleteMediaAsset(id));
+
+  if (!removed) {
+    return NextResponse.json({ error: "Media asset not found" }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { analyzeMediaAsset, heuristicAnalysis } from "@/lib/media-analysis";
+import { getMediaAsset, loadModelImages, saveMediaAnalysis } from "@/lib/media-assets";
+import { providerSelectionSchema } from "@/lib/providers";
+import { checkQuotas, limitExceeded } from "@/lib/usage/limits";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+const analyzePayloadSchema = z.object({
+  assetId: z.string().min(1),
+  notes: z.string().optional(),
+  channels: z.array(z.string()).default([]),
+  provider: providerSelectionSchema.optional(),
+});
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof analyzePayloadSchema>;
+
+  try {
+    parsed = analyzePayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { assetId, notes, channels, provider } = parsed;
+  const stored = await getMediaAsset(assetId, workspace.id);
+
+  if (!stored) {
+    return NextResponse.json({ error: "Media asset not found" }, { status: 404 });
+  }
+
+  const usage = { user: userRef(user), workspaceId: workspace.id };
+  const breach = await checkQuotas(usage, provider);
+  if (breach) return limitExceeded(breach);
+
+  const asset = { name: stored.name, kind: stored.kind, notes };
+
+  try {
+    const analysis = await analyzeMediaAsset(asset, await loadModelImages(stored), channels, {
+      provider,
+      usage,
+      signal: request.signal,
+    });
+    await saveMediaAnalysis(assetId, analysis);
+    return NextResponse.json({ analysis });
+  } catch (error) {
+    console.error("Media analysis failure", error);
+    return NextResponse.json({ analysis: heuristicAnalysis(asset, channels) });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { MediaUploadError, listMediaAssets, storeMediaUpload, uploadFromRequest } from "@/lib/media-assets";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+function decodeFileName(value: string | null): string {
+  try {
+    return decodeURIComponent(value ?? "");
+  } catch {
+    return value ?? "";
+  }
+}
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({ assets: await listMediaAssets(workspace.id) });
+  } catch (error) {
+    console.error("Media list failure", error);
+    return NextResponse.json({ error: "Media library unavailable" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    const asset = await storeMediaUpload(
+      decodeFileName(request.headers.get("x-file-name")),
+      uploadFromRequest(request),
+      workspace.id
+    );
+    return NextResponse.json(asset, { status: 201 });
+  } catch (error) {
+    if (error instanceof MediaUploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Media upload failure", error);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { formatBytes } from "@/lib/media-limits";
+import { metricQuerySchema, metricRowSchema, parseMetricCsv, type ParsedMetrics } from "@/lib/metrics/parsers";
+import { MetricsError, defaultScorecardRunId, ingestMetrics, listMetricRows } from "@/lib/metrics/store";
+import { getRun } from "@/lib/runs";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+import type { MetricSource } from "@/types/metrics";
+
+const MAX_METRICS_BYTES = 5 * 1024 * 1024;
+const MAX_BATCH = 5000;
+
+const apiPayloadSchema = z.union([
+  z.object({ rows: z.array(metricRowSchema).min(1).max(MAX_BATCH) }),
+  metricRowSchema.transform((row) => ({ rows: [row] })),
+]);
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const query = metricQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid query", issues: query.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const runId = query.data.runId ?? (await defaultScorecardRunId(workspace.id));
+    if (!(await getRun(runId, workspace.id))) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+    return NextResponse.json({ runId, rows: await listMetricRows(runId, query.data) });
+  } catch (error) {
+    if (error instanceof MetricsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Takes daily performance as a CSV upload (`text/csv`) or as JSON from an API
+ * client, either one row or `{ "rows": [...] }`. Rows without a run go to the
+ * `runId` search param, or to the store's latest run.
+ */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const contentType = request.headers.get("content-type") ?? "";
+  const source: MetricSource | null = contentType.includes("json")
+    ? "api"
+    : contentType.includes("csv") || contentType.startsWith("text/plain")
+      ? "csv"
+      : null;
+  if (!source) {
+    return NextResponse.json({ error: "Send text/csv or application/json" }, { status: 415 });
+  }
+
+  if (Number(request.headers.get("content-length")) > MAX_METRICS_BYTES) {
+    return NextResponse.json({ error: `Metrics are limited to ${formatBytes(MAX_METRICS_BYTES)}` }, { status: 413 });
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_METRICS_BYTES) {
+    return NextResponse.json({ error: `Metrics are limited to ${formatBytes(MAX_METRICS_BYTES)}` }, { status: 413 });
+  }
+
+  let parsed: ParsedMetrics;
+  if (source === "csv") {
+    parsed = parseMetricCsv(text);
+  } else {
+    try {
+      parsed = { rows: apiPayloadSchema.parse(JSON.parse(text)).rows, skipped: [] };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            error: "Invalid payload",
+            issues: error.flatten(),
+          },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+  }
+
+  if (parsed.rows.length === 0) {
+    return NextResponse.json({ error: "No metric rows found", skipped: parsed.skipped }, { status: 422 });
+  }
+
+  try {
+    const runId = new URL(request.url).searchParams.get("runId") ?? undefined;
+    return NextResponse.json(await ingestMetrics(parsed, source, runId, workspace.id), { status: 201 });
+  } catch (error) {
+    console.error("Metrics ingest failure", error);
+    return NextResponse.json({ error: "Metrics could not be stored" }, { status: 500 });
+  }
+}
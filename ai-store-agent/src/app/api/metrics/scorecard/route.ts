@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { metricQuerySchema } from "@/lib/metrics/parsers";
+import { MetricsError, buildScorecard, defaultScorecardRunId } from "@/lib/metrics/store";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const query = metricQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid query", issues: query.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const runId = query.data.runId ?? (await defaultScorecardRunId(workspace.id));
+    return NextResponse.json(await buildScorecard(runId, query.data, workspace.id));
+  } catch (error) {
+    if (error instanceof MetricsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { REPORT_FORMATS, renderReport } from "@/lib/reports/render";
+import { deleteReport, getReport } from "@/lib/reports/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const formatSchema = z.union([z.literal("markdown"), z.literal("html")]);
+
+/** Returns the report as JSON, or as a download with `?format=markdown|html`. */
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const report = await getReport(id);
+
+  if (!report) {
+    return NextResponse.json({ error: "Report not found" }, { status: 404 });
+  }
+
+  const requested = new URL(request.url).searchParams.get("format");
+  if (requested === null) return NextResponse.json(report);
+
+  const format = formatSchema.safeParse(requested);
+  if (!format.success) {
+    return NextResponse.json({ error: "Use format=markdown or format=html" }, { status: 400 });
+  }
+
+  const { contentType, extension } = REPORT_FORMATS[format.data];
+  return new Response(renderReport(format.data, report), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="storepilot-report-${report.from}-${report.to}.${extension}"`,
+    },
+  });
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const removed = await deleteReport(id);
+
+  if (!removed) {
+    return NextResponse.json({ error: "Report not found" }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
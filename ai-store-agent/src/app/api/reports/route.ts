@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { providerSelectionSchema } from "@/lib/providers";
+import { ReportError, generateReport, listReports } from "@/lib/reports/store";
+import { checkQuotas, limitExceeded } from "@/lib/usage/limits";
+
+const reportPayloadSchema = z
+  .object({
+    from: z.iso.date().optional(),
+    to: z.iso.date().optional(),
+    provider: providerSelectionSchema.optional(),
+  })
+  .refine((payload) => !payload.from === !payload.to, { message: "Send both from and to, or neither" });
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json({ reports: await listReports() });
+}
+
+/** Compiles a report for `from`..`to`, or for the last seven full days. */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof reportPayloadSchema>;
+
+  try {
+    parsed = reportPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const usage = { user: userRef(user) };
+  const breach = await checkQuotas(usage, parsed.provider);
+  if (breach) return limitExceeded(breach);
+
+  try {
+    const range = parsed.from && parsed.to ? { from: parsed.from, to: parsed.to } : undefined;
+    return NextResponse.json(await generateReport(range, { provider: parsed.provider, usage }), { status: 201 });
+  } catch (error) {
+    if (error instanceof ReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Report generation failure", error);
+    return NextResponse.json({ error: "Report could not be generated" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { getReportSchedule, runDueReport, saveReportSchedule } from "@/lib/reports/store";
+
+const schedulePayloadSchema = z.object({
+  enabled: z.boolean(),
+  weekday: z.number().int().min(0).max(6),
+  hour: z.number().int().min(0).max(23),
+});
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json(await getReportSchedule());
+}
+
+export async function PUT(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof schedulePayloadSchema>;
+
+  try {
+    parsed = schedulePayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  return NextResponse.json(await saveReportSchedule(parsed));
+}
+
+/** Lets an external cron drive the weekly report when the in-process scheduler is off. */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  try {
+    return NextResponse.json({ report: await runDueReport() });
+  } catch (error) {
+    console.error("Report schedule failure", error);
+    return NextResponse.json({ error: "Scheduled report could not be run" }, { status: 500 });
+  }
+}
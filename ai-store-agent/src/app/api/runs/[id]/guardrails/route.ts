@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { GuardrailError, checkRun, rewriteRun } from "@/lib/guardrails/review";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const rewritePayloadSchema = z.object({
+  violationIds: z.array(z.string().min(1)).min(1).optional(),
+});
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json(await checkRun(id, workspace.id));
+  } catch (error) {
+    if (error instanceof GuardrailError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+/** Rewrites flagged passages in the stored plan: every fixable one, or `violationIds`. */
+export async function POST(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof rewritePayloadSchema>;
+
+  try {
+    parsed = rewritePayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await rewriteRun(id, parsed.violationIds, workspace.id));
+  } catch (error) {
+    if (error instanceof GuardrailError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
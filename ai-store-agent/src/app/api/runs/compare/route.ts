@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { diffPlans } from "@/lib/plan-diff";
+import { getRun, summarizeRun } from "@/lib/runs";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+import type { RunComparison } from "@/types/diff";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { searchParams } = new URL(request.url);
+  const baseId = searchParams.get("base");
+  const targetId = searchParams.get("target");
+
+  if (!baseId || !targetId) {
+    return NextResponse.json(
+      { error: "Both base and target run ids are required" },
+      { status: 400 }
+    );
+  }
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const [base, target] = await Promise.all([getRun(baseId, workspace.id), getRun(targetId, workspace.id)]);
+
+  if (!base || !target) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const comparison: RunComparison = {
+    base: summarizeRun(base),
+    target: summarizeRun(target),
+    diff: diffPlans(base.response.plan, target.response.plan),
+  };
+
+  return NextResponse.json(comparison);
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { listRuns } from "@/lib/runs";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({ runs: await listRuns(workspace.id) });
+  } catch (error) {
+    console.error("Run history read failure", error);
+    return NextResponse.json({ error: "Run history unavailable" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { ticketIntentSchema } from "@/lib/support/classify";
+import { getSupportSettings, saveSupportSettings } from "@/lib/support/tickets";
+
+const urgencySchema = z.union([z.literal("low"), z.literal("normal"), z.literal("high"), z.literal("urgent")]);
+
+const slaTargetSchema = z
+  .object({
+    firstResponse: z.number().int().positive(),
+    resolution: z.number().int().positive(),
+  })
+  .refine((target) => target.firstResponse <= target.resolution, {
+    message: "firstResponse cannot exceed resolution",
+  });
+
+const escalationRuleSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  team: z.string().trim().min(1),
+  intents: z.array(ticketIntentSchema).optional(),
+  urgencies: z.array(urgencySchema).optional(),
+  sentiments: z.array(z.union([z.literal("positive"), z.literal("neutral"), z.literal("negative")])).optional(),
+  keywords: z.array(z.string().trim().min(1)).optional(),
+  onBreach: z.boolean().optional(),
+});
+
+const settingsPayloadSchema = z.object({
+  sla: z.object({
+    low: slaTargetSchema,
+    normal: slaTargetSchema,
+    high: slaTargetSchema,
+    urgent: slaTargetSchema,
+  }),
+  escalationRules: z
+    .array(escalationRuleSchema)
+    .refine((rules) => new Set(rules.map((rule) => rule.id)).size === rules.length, {
+      message: "Rule ids must be unique",
+    }),
+});
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json(await getSupportSettings());
+}
+
+export async function PUT(request: Request) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof settingsPayloadSchema>;
+
+  try {
+    parsed = settingsPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  return NextResponse.json(await saveSupportSettings(parsed));
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { providerSelectionSchema } from "@/lib/providers";
+import { SupportError, redraftTicket } from "@/lib/support/tickets";
+import { checkQuotas, limitExceeded } from "@/lib/usage/limits";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const draftPayloadSchema = z.object({
+  tone: z.string().trim().min(1).optional(),
+  provider: providerSelectionSchema.optional(),
+});
+
+/** Redrafts the reply, in `tone` when given or the tone of the active store's latest brief otherwise. */
+export async function POST(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const { id } = await params;
+  let parsed: z.infer<typeof draftPayloadSchema>;
+
+  try {
+    parsed = draftPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const usage = { user: userRef(user) };
+  const breach = await checkQuotas(usage, parsed.provider);
+  if (breach) return limitExceeded(breach);
+
+  try {
+    return NextResponse.json(await redraftTicket(id, { ...parsed, workspaceId: workspace.id, usage }));
+  } catch (error) {
+    if (error instanceof SupportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { SupportError, getTicket, updateTicket } from "@/lib/support/tickets";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ticketPatchSchema = z
+  .object({
+    status: z.union([z.literal("open"), z.literal("replied"), z.literal("resolved")]).optional(),
+    reply: z.string().optional(),
+  })
+  .refine((change) => change.status !== undefined || change.reply !== undefined, {
+    message: "Provide a status or a reply",
+  });
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const ticket = await getTicket(id);
+
+  if (!ticket) {
+    return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(ticket);
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  let parsed: z.infer<typeof ticketPatchSchema>;
+
+  try {
+    parsed = ticketPatchSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await updateTicket(id, parsed));
+  } catch (error) {
+    if (error instanceof SupportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
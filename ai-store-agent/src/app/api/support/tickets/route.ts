@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { parseTicketPayload } from "@/lib/support/intake";
+import { ingestTicket, listTickets, type TicketFilter } from "@/lib/support/tickets";
+import { checkQuotas, limitExceeded } from "@/lib/usage/limits";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+const FILTERS: TicketFilter[] = ["active", "all", "open", "escalated", "replied", "resolved"];
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const status = (new URL(request.url).searchParams.get("status") ?? "active") as TicketFilter;
+  if (!FILTERS.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${FILTERS.join(", ")}` }, { status: 400 });
+  }
+
+  return NextResponse.json({ tickets: await listTickets(status) });
+}
+
+/**
+ * Support webhook. Takes a ticket (`{ subject, body, customer, ... }`) or an
+ * inbound email (`from`, `subject`, `text`/`html`, or Postmark's `From`,
+ * `Subject`, `TextBody`); classifies it and drafts a reply in the tone of the
+ * active store's latest brief.
+ */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseTicketPayload(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const usage = { user: userRef(user) };
+  const breach = await checkQuotas(usage);
+  if (breach) return limitExceeded(breach);
+
+  try {
+    const { ticket, duplicate } = await ingestTicket(parsed.ticket, { workspaceId: workspace.id, usage });
+    return NextResponse.json(ticket, { status: duplicate ? 200 : 201 });
+  } catch (error) {
+    console.error("Support ticket intake failure", error);
+    return NextResponse.json({ error: "Ticket could not be stored" }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { templateInputSchema } from "@/lib/templates/schema";
+import { TemplateError, deleteTemplate, getTemplate, updateTemplate } from "@/lib/templates/store";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const templateChangeSchema = templateInputSchema.partial();
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const template = await getTemplate(id, workspace.id);
+
+  if (!template) {
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(template);
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let change: z.infer<typeof templateChangeSchema>;
+
+  try {
+    change = templateChangeSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const template = await updateTemplate(id, change, workspace.id);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    const removed = await deleteTemplate(id, workspace.id);
+    if (!removed) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  return new Response(null, { status: 204 });
+}
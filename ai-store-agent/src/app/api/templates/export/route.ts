@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { exportTemplates } from "@/lib/templates/store";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+/** Downloads the store's templates, tasks and tones as JSON; `?builtIn=1` includes the built-in templates. */
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const includeBuiltIn = new URL(request.url).searchParams.get("builtIn") === "1";
+  const data = await exportTemplates(workspace.id, { includeBuiltIn });
+
+  return new Response(JSON.stringify(data, null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="storepilot-templates-${data.exportedAt.slice(0, 10)}.json"`,
+    },
+  });
+}
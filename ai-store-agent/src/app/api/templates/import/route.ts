@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { templateExportSchema } from "@/lib/templates/schema";
+import { importTemplates } from "@/lib/templates/store";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+/**
+ * Imports a file from `GET /api/templates/export`. `?replace=1` removes team
+ * templates missing from the file.
+ */
+export async function POST(request: Request) {
+  const user = await authorize(request, "planner");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  let parsed: z.infer<typeof templateExportSchema>;
+
+  try {
+    parsed = templateExportSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const replace = new URL(request.url).searchParams.get("replace") === "1";
+  return NextResponse.json(await importTemplates(parsed, workspace.id, { replace }), { status: 201 });
+}
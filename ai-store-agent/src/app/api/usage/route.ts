@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+
+import { authorize } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { quotaStatus } from "@/lib/usage/limits";
+import { getUsageSettings, monthOf, summarizeUsage } from "@/lib/usage/store";
+import { workspaceFromRequest } from "@/lib/workspaces/store";
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Model spend for `?month=YYYY-MM` (default: this month) across every store,
+ * with the signed-in user's and the active store's budgets.
+ */
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const workspace = await workspaceFromRequest(request);
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  const month = new URL(request.url).searchParams.get("month") ?? monthOf(new Date());
+  if (!MONTH_PATTERN.test(month)) {
+    return NextResponse.json({ error: "month must be YYYY-MM" }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    summary: await summarizeUsage(month),
+    quotas: await quotaStatus(userRef(user), workspace.id),
+    settings: await getUsageSettings(),
+  });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { getUsageSettings, saveUsageSettings } from "@/lib/usage/store";
+
+const rateLimitSchema = z.object({
+  requests: z.number().int().min(1),
+  windowSeconds: z.number().int().min(1).max(24 * 60 * 60),
+});
+
+const settingsPayloadSchema = z.object({
+  userRateLimit: rateLimitSchema.nullable(),
+  workspaceRateLimit: rateLimitSchema.nullable(),
+  userMonthlyBudget: z.number().positive().nullable(),
+  workspaceMonthlyBudget: z.number().positive().nullable(),
+});
+
+export async function GET(request: Request) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  return NextResponse.json(await getUsageSettings());
+}
+
+export async function PUT(request: Request) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  let parsed: z.infer<typeof settingsPayloadSchema>;
+
+  try {
+    parsed = settingsPayloadSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  return NextResponse.json(await saveUsageSettings(parsed));
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { userChangeSchema } from "@/lib/auth/schema";
+import { AuthError, deleteUser, updateUser } from "@/lib/auth/users";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+
+  let change: z.infer<typeof userChangeSchema>;
+
+  try {
+    change = userChangeSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const updated = await updateUser(id, change);
+    if (!updated) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+
+  try {
+    const removed = await deleteUser(id);
+    if (!removed) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authorize } from "@/lib/auth/guard";
+import { getGuardrailSettings } from "@/lib/guardrails/settings";
+import { workspaceChangeSchema } from "@/lib/workspaces/schema";
+import { WorkspaceError, deleteWorkspace, getWorkspace, updateWorkspace } from "@/lib/workspaces/store";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "viewer");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const workspace = await getWorkspace(id);
+
+  if (!workspace) {
+    return NextResponse.json({ error: "Store not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ...workspace, guardrails: await getGuardrailSettings(id) });
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  let change: z.infer<typeof workspaceChangeSchema>;
+
+  try {
+    change = workspaceChangeSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payload",
+          issues: error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const workspace = await updateWorkspace(id, change);
+    if (!workspace) {
+      return NextResponse.json({ error: "Store not found" }, { status: 404 });
+    }
+    return NextResponse.json(workspace);
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const user = await authorize(request, "admin");
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+
+  try {
+    const removed = await deleteWorkspace(id);
+    if (!removed) {
+      return NextResponse.json({ error: "Store not found" }, { status: 404 });
+    }
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  return new Response(null, { status: 204 });
+}
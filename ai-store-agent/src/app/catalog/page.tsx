@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+
+import { CatalogManager } from "@/components/CatalogManager";
+
+export const metadata: Metadata = {
+  title: "Catalog – StorePilot",
+};
+
+export default function CatalogPage() {
+  return <CatalogManager />;
+}
@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+
+import { LoginForm } from "@/components/LoginForm";
+
+export const metadata: Metadata = {
+  title: "Sign in – StorePilot",
+};
+
+export default function LoginPage() {
+  return <LoginForm />;
+}
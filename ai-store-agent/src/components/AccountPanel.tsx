@@ -0,0 +1,400 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { KeyRound, LoaderCircle, LogOut, Trash2, UserPlus, UserRound } from "lucide-react";
+import { toast } from "sonner";
+
+import { ROLES, ROLE_LABELS } from "@/lib/auth/roles";
+import { formatDateTime } from "@/lib/format";
+import type { ApiKeySummary, Role, User } from "@/types/auth";
+
+interface ApiError {
+  error?: string;
+  issues?: { fieldErrors?: Record<string, string[]> };
+}
+
+/** The first field error when zod rejected the payload, else the route's message. */
+function errorMessage(data: ApiError, fallback: string): string {
+  return Object.values(data.issues?.fieldErrors ?? {}).flat()[0] ?? data.error ?? fallback;
+}
+
+const emptyInvite = { name: "", email: "", role: "planner" as Role, password: "" };
+
+function UsersSection({ currentUserId }: { currentUserId: string }) {
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [usersKey, setUsersKey] = useState(0);
+  const [invite, setInvite] = useState(emptyInvite);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/users")
+      .then((res) => {
+        if (!res.ok) throw new Error("Users unavailable");
+        return res.json() as Promise<{ users: User[] }>;
+      })
+      .then((data) => {
+        if (active) setUsers(data.users);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setUsers([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [usersKey]);
+
+  const addUser = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(invite),
+      });
+      const data = (await res.json()) as User & ApiError;
+      if (!res.ok) throw new Error(errorMessage(data, "Could not add the user"));
+      toast.success(`Added ${data.email}. Share the temporary password with them directly.`);
+      setInvite(emptyInvite);
+      setUsersKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not add the user.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeRole = async (user: User, role: Role) => {
+    try {
+      const res = await fetch(`/api/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const data = (await res.json()) as User & ApiError;
+      if (!res.ok) throw new Error(errorMessage(data, "Role change failed"));
+      setUsersKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not change the role.");
+    }
+  };
+
+  const removeUser = async (user: User) => {
+    if (!window.confirm(`Remove ${user.email}? Their API keys stop working too.`)) return;
+    try {
+      const res = await fetch(`/api/users/${user.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(errorMessage((await res.json().catch(() => ({}))) as ApiError, "Delete failed"));
+      setUsersKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not remove the user.");
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      <span className="font-semibold uppercase tracking-wide text-slate-400">Team</span>
+      {users === null ? (
+        <p className="flex items-center gap-2 text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading users…
+        </p>
+      ) : (
+        <ul className="grid gap-2">
+          {users.map((user) => (
+            <li key={user.id} className="flex flex-wrap items-center gap-3">
+              <span className="flex-1 text-slate-200">
+                {user.name} <span className="text-slate-500">{user.email}</span>
+              </span>
+              <select
+                value={user.role}
+                onChange={(event) => changeRole(user, event.target.value as Role)}
+                className="rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1 text-slate-100"
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role} className="bg-slate-900 text-slate-100">
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+              {user.id !== currentUserId && (
+                <button
+                  type="button"
+                  onClick={() => removeUser(user)}
+                  className="text-slate-500 transition hover:text-red-400"
+                >
+                  <Trash2 className="size-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid gap-2 md:grid-cols-[1fr_1fr_auto_1fr_auto]">
+        <input
+          value={invite.name}
+          onChange={(event) => setInvite((prev) => ({ ...prev, name: event.target.value }))}
+          placeholder="Name"
+          className="rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1.5 text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <input
+          type="email"
+          value={invite.email}
+          onChange={(event) => setInvite((prev) => ({ ...prev, email: event.target.value }))}
+          placeholder="Email"
+          className="rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1.5 text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <select
+          value={invite.role}
+          onChange={(event) => setInvite((prev) => ({ ...prev, role: event.target.value as Role }))}
+          className="rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1.5 text-slate-100"
+        >
+          {ROLES.map((role) => (
+            <option key={role} value={role} className="bg-slate-900 text-slate-100">
+              {ROLE_LABELS[role]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="password"
+          value={invite.password}
+          onChange={(event) => setInvite((prev) => ({ ...prev, password: event.target.value }))}
+          placeholder="Temporary password"
+          autoComplete="new-password"
+          className="rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1.5 text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <button
+          type="button"
+          disabled={saving}
+          onClick={addUser}
+          className="inline-flex items-center justify-center gap-1 rounded-full border border-slate-500 px-3 py-1.5 text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+        >
+          {saving ? <LoaderCircle className="size-3 animate-spin" /> : <UserPlus className="size-3" />}
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ApiKeysSection() {
+  const [keys, setKeys] = useState<ApiKeySummary[] | null>(null);
+  const [keysKey, setKeysKey] = useState(0);
+  const [name, setName] = useState("");
+  const [created, setCreated] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/api-keys")
+      .then((res) => {
+        if (!res.ok) throw new Error("API keys unavailable");
+        return res.json() as Promise<{ keys: ApiKeySummary[] }>;
+      })
+      .then((data) => {
+        if (active) setKeys(data.keys);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setKeys([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [keysKey]);
+
+  const createKey = async () => {
+    try {
+      const res = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const data = (await res.json()) as ApiKeySummary & { key?: string } & ApiError;
+      if (!res.ok || !data.key) throw new Error(errorMessage(data, "Could not create the key"));
+      setCreated(data.key);
+      setName("");
+      setKeysKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not create the key.");
+    }
+  };
+
+  const revokeKey = async (key: ApiKeySummary) => {
+    try {
+      const res = await fetch(`/api/api-keys/${key.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Revoke failed");
+      setKeysKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not revoke that key.");
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      <span className="font-semibold uppercase tracking-wide text-slate-400">API keys</span>
+      <p className="text-slate-500">
+        Scripts send a key as <code>Authorization: Bearer sp_…</code> and act with your role.
+      </p>
+      {created && (
+        <p className="break-all rounded-xl border border-amber-400/40 bg-amber-400/5 p-3 text-amber-100">
+          Copy this key now; it will not be shown again: <code>{created}</code>
+        </p>
+      )}
+      {keys?.map((key) => (
+        <div key={key.id} className="flex flex-wrap items-center gap-3">
+          <span className="flex-1 text-slate-200">
+            {key.name} <code className="text-slate-500">{key.prefix}…</code>
+          </span>
+          <span className="text-slate-500">
+            {key.lastUsedAt ? `Used ${formatDateTime(key.lastUsedAt)}` : "Never used"}
+          </span>
+          <button type="button" onClick={() => revokeKey(key)} className="text-slate-500 transition hover:text-red-400">
+            <Trash2 className="size-3" />
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Key name, e.g. Nightly metrics import"
+          className="flex-1 rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1.5 text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <button
+          type="button"
+          disabled={!name.trim()}
+          onClick={createKey}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-500 px-3 py-1.5 text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+        >
+          <KeyRound className="size-3" /> Create key
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PasswordSection() {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+
+  const save = async () => {
+    try {
+      const res = await fetch("/api/auth/password", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      if (!res.ok) throw new Error(errorMessage((await res.json()) as ApiError, "Password change failed"));
+      setCurrentPassword("");
+      setNewPassword("");
+      toast.success("Password changed. Other sessions were signed out.");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not change the password.");
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      <span className="font-semibold uppercase tracking-wide text-slate-400">Password</span>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="password"
+          value={currentPassword}
+          onChange={(event) => setCurrentPassword(event.target.value)}
+          placeholder="Current password"
+          autoComplete="current-password"
+          className="flex-1 rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1.5 text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <input
+          type="password"
+          value={newPassword}
+          onChange={(event) => setNewPassword(event.target.value)}
+          placeholder="New password (10+ characters)"
+          autoComplete="new-password"
+          className="flex-1 rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1.5 text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <button
+          type="button"
+          disabled={!currentPassword || !newPassword}
+          onClick={save}
+          className="rounded-full border border-slate-500 px-3 py-1.5 text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+        >
+          Change
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Signed-in user, sign-out, API keys and, for admins, the team's accounts. */
+export function AccountPanel() {
+  const [user, setUser] = useState<User | null>(null);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/auth/session")
+      .then((res) => res.json() as Promise<{ user: User | null }>)
+      .then((data) => {
+        if (!active) return;
+        if (!data.user) {
+          window.location.replace(`/login?next=${encodeURIComponent(window.location.pathname)}`);
+          return;
+        }
+        setUser(data.user);
+      })
+      .catch((error) => console.error(error));
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch((error) => console.error(error));
+    window.location.replace("/login");
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="flex flex-col gap-3 text-xs normal-case tracking-normal">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="inline-flex items-center gap-2 rounded-full border border-slate-600/50 px-4 py-1.5 text-slate-200 transition hover:border-emerald-400"
+        >
+          <UserRound className="size-4 text-emerald-400" />
+          {user.name}
+          <span className="text-slate-500">{ROLE_LABELS[user.role]}</span>
+        </button>
+        <button
+          type="button"
+          onClick={signOut}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-600/50 px-3 py-1.5 text-slate-300 transition hover:border-red-400/60 hover:text-red-200"
+        >
+          <LogOut className="size-3" /> Sign out
+        </button>
+      </div>
+
+      {open && (
+        <div className="glass-panel grid max-w-3xl gap-5 rounded-2xl p-4 text-slate-300">
+          <PasswordSection />
+          <ApiKeysSection />
+          {user.role === "admin" && <UsersSection currentUserId={user.id} />}
+        </div>
+      )}
+    </div>
+  );
+}
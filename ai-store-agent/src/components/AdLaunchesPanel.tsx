@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Braces, LoaderCircle, Megaphone, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatDateTime, formatMoney } from "@/lib/format";
+import type { AdLaunch, AdLaunchSkip, AdLaunchStatus } from "@/types/ads";
+
+interface AdLaunchesPanelProps {
+  refreshKey: number;
+  runId?: string;
+}
+
+const statusStyles: Record<AdLaunchStatus, string> = {
+  draft: "border-slate-600/60 text-slate-300",
+  sent: "border-emerald-400/60 text-emerald-200",
+  failed: "border-red-400/60 text-red-200",
+};
+
+const platformLabels: Record<AdLaunch["platform"], string> = { meta: "Meta", google: "Google" };
+
+function requestCount(launch: AdLaunch): number {
+  return launch.payload.platform === "meta"
+    ? launch.payload.requests.length
+    : launch.payload.request.mutateOperations.length;
+}
+
+export function AdLaunchesPanel({ refreshKey, runId }: AdLaunchesPanelProps) {
+  const [launches, setLaunches] = useState<AdLaunch[] | null>(null);
+  const [skipped, setSkipped] = useState<AdLaunchSkip[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [building, setBuilding] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch(runId ? `/api/ads/launches?${new URLSearchParams({ runId })}` : "/api/ads/launches")
+      .then((res) => {
+        if (!res.ok) throw new Error("Ad launches unavailable");
+        return res.json() as Promise<{ launches: AdLaunch[] }>;
+      })
+      .then((data) => {
+        if (active) setLaunches(data.launches);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setLaunches([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, reloadKey, runId]);
+
+  const build = async () => {
+    if (!runId) return;
+
+    setBuilding(true);
+    try {
+      const res = await fetch("/api/ads/launches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ runId }),
+      });
+      const data = (await res.json()) as { launches?: AdLaunch[]; skipped?: AdLaunchSkip[]; error?: string };
+      if (!res.ok || !data.launches) throw new Error(data.error ?? "Build failed");
+      setSkipped(data.skipped ?? []);
+      toast.success(
+        data.launches.length === 0
+          ? "No approved ad items could be turned into a launch."
+          : `Built ${data.launches.length} paused launch${data.launches.length === 1 ? "" : "es"} for review.`
+      );
+      setReloadKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not build ad launches.");
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const send = async (id: string) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/ads/launches/${id}/send`, { method: "POST" });
+      const data = (await res.json()) as AdLaunch & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Send failed");
+      toast.success(`Sent to ${data.result?.endpoint ?? "the ad platform"}. Everything was created paused.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not send that launch.");
+    } finally {
+      setPendingId(null);
+      setReloadKey((prev) => prev + 1);
+    }
+  };
+
+  const remove = async (id: string) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/ads/launches/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setLaunches((prev) => prev?.filter((launch) => launch.id !== id) ?? null);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not delete that launch.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <Megaphone className="size-5 text-rose-300" /> Ad Launches
+        </h2>
+        {runId && (
+          <button
+            type="button"
+            disabled={building}
+            onClick={build}
+            className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-rose-200 disabled:opacity-50"
+          >
+            {building ? <LoaderCircle className="size-3 animate-spin" /> : <Megaphone className="size-3" />}
+            Build from approved ads
+          </button>
+        )}
+      </div>
+
+      {skipped.length > 0 && (
+        <ul className="space-y-1 text-xs text-amber-200">
+          {skipped.map((skip) => (
+            <li key={skip.index}>
+              Ad item #{skip.index + 1}: {skip.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {launches === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading launches…
+        </p>
+      ) : launches.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Approve ad strategy items in the queue, then build them into Meta and Google payloads to review here.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {launches.map((launch) => (
+            <li key={launch.id} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span
+                  className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${statusStyles[launch.status]}`}
+                >
+                  {launch.status}
+                </span>
+                <p className="font-semibold text-slate-100">{platformLabels[launch.platform]}</p>
+                <span className="text-slate-400">
+                  {formatMoney(launch.dailyBudget, launch.currency)}/day · from {formatDateTime(launch.schedule.start)}
+                  {launch.schedule.end && ` to ${formatDateTime(launch.schedule.end)}`}
+                </span>
+                <div className="ml-auto flex items-center gap-3 text-slate-300">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId((prev) => (prev === launch.id ? null : launch.id))}
+                    className="inline-flex items-center gap-1 transition hover:text-rose-200"
+                  >
+                    <Braces className="size-3" /> {expandedId === launch.id ? "Hide JSON" : "JSON"}
+                  </button>
+                  {launch.status !== "sent" && (
+                    <>
+                      <button
+                        type="button"
+                        disabled={pendingId === launch.id}
+                        onClick={() => send(launch.id)}
+                        className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+                      >
+                        <Send className="size-3" /> {launch.status === "failed" ? "Retry" : "Send"}
+                      </button>
+                      <button
+                        type="button"
+                        disabled={pendingId === launch.id}
+                        onClick={() => remove(launch.id)}
+                        className="text-slate-500 transition hover:text-red-400 disabled:opacity-50"
+                      >
+                        <Trash2 className="size-3" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <p className="mt-2 text-slate-400">
+                {launch.items.length} ad {launch.payload.platform === "meta" ? "set" : "group"}
+                {launch.items.length === 1 ? "" : "s"} · {requestCount(launch)}{" "}
+                {launch.payload.platform === "meta" ? "API calls" : "mutate operations"}
+              </p>
+              <ul className="mt-2 space-y-1 text-slate-300">
+                {launch.items.map((item) => (
+                  <li key={item.index}>
+                    #{item.index + 1} {item.audience}
+                    <span className="text-slate-500">
+                      {" "}
+                      · {item.targeting.countries.join(", ")} · {item.targeting.ageMin}-{item.targeting.ageMax}
+                      {item.creatives.length > 0 && ` · ${item.creatives.map((creative) => creative.name).join(", ")}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {launch.notes.length > 0 && (
+                <ul className="mt-2 list-disc space-y-1 pl-4 text-amber-200/80">
+                  {launch.notes.map((note) => (
+                    <li key={note}>{note}</li>
+                  ))}
+                </ul>
+              )}
+              {launch.error && <p className="mt-2 text-red-300">{launch.error}</p>}
+              {launch.result && (
+                <p className="mt-2 text-emerald-200">
+                  Created {Object.keys(launch.result.created).length} objects at {formatDateTime(launch.result.sentAt)}.
+                </p>
+              )}
+
+              {expandedId === launch.id && (
+                <pre className="scroll-shadow-y mt-3 max-h-[360px] overflow-auto rounded-xl border border-slate-700/60 bg-slate-950/80 p-3 text-[11px] text-slate-300">
+                  {JSON.stringify(launch.payload, null, 2)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, History, LoaderCircle, Pencil, ShieldCheck, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatDateTime } from "@/lib/format";
+import type {
+  ApprovalAuditEntry,
+  ApprovalCategory,
+  ApprovalDecision,
+  ApprovalDetails,
+  ApprovalRequest,
+} from "@/types/approvals";
+
+interface ApprovalQueuePanelProps {
+  refreshKey: number;
+}
+
+const categoryLabels: Record<ApprovalCategory, string> = {
+  spend: "Spends money",
+  publish: "Publishes content",
+  pricing: "Changes prices",
+};
+
+const auditLabels: Record<ApprovalAuditEntry["action"], string> = {
+  requested: "requested approval",
+  edited: "edited",
+  approved: "approved",
+  rejected: "rejected",
+};
+
+function describeSource(approval: ApprovalRequest): string {
+  const { source } = approval;
+  return source.type === "plan"
+    ? `Run ${source.runId.slice(0, 8)} · ${source.section} #${source.index + 1}`
+    : `Automation rule · ${source.event.type}`;
+}
+
+export function ApprovalQueuePanel({ refreshKey }: ApprovalQueuePanelProps) {
+  const [showDecided, setShowDecided] = useState(false);
+  const [approvals, setApprovals] = useState<ApprovalRequest[] | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<{ id: string; details: ApprovalDetails } | null>(null);
+  const [trail, setTrail] = useState<{ id: string; entries: ApprovalAuditEntry[] } | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch(showDecided ? "/api/approvals" : "/api/approvals?status=pending")
+      .then((res) => {
+        if (!res.ok) throw new Error("Approval queue unavailable");
+        return res.json() as Promise<{ approvals: ApprovalRequest[] }>;
+      })
+      .then((data) => {
+        if (active) setApprovals(data.approvals);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setApprovals([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, showDecided]);
+
+  const replaceApproval = (updated: ApprovalRequest) => {
+    setApprovals(
+      (prev) =>
+        prev
+          ?.map((item) => (item.id === updated.id ? updated : item))
+          .filter((item) => showDecided || item.status === "pending") ?? null
+    );
+  };
+
+  const saveEdits = async () => {
+    if (!editing) return;
+
+    setPendingId(editing.id);
+    try {
+      const res = await fetch(`/api/approvals/${editing.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ details: editing.details, note: notes[editing.id] || undefined }),
+      });
+      const data = (await res.json()) as ApprovalRequest & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Edit failed");
+      replaceApproval(data);
+      setEditing(null);
+      toast.success("Edits saved.");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not save the edits.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const decide = async (id: string, decision: ApprovalDecision) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/approvals/${id}/decision`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, note: notes[id] || undefined }),
+      });
+      const data = (await res.json()) as {
+        approval?: ApprovalRequest;
+        execution?: { status: string; output: string } | null;
+        error?: string;
+      };
+      if (!data.approval) throw new Error(data.error ?? "Decision failed");
+      replaceApproval(data.approval);
+      if (data.error) {
+        toast.error(data.error);
+      } else if (data.execution) {
+        toast.success(`Approved and ran: ${data.execution.output}`);
+      } else {
+        toast.success(decision === "approve" ? "Approved." : "Rejected.");
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not record the decision.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const toggleTrail = async (id: string) => {
+    if (trail?.id === id) {
+      setTrail(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/approvals/audit?${new URLSearchParams({ approvalId: id })}`);
+      if (!res.ok) throw new Error("Audit trail unavailable");
+      setTrail({ id, entries: ((await res.json()) as { entries: ApprovalAuditEntry[] }).entries });
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not load the audit trail.");
+    }
+  };
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <ShieldCheck className="size-5 text-amber-300" /> Approval Queue
+        </h2>
+        <button
+          type="button"
+          onClick={() => setShowDecided((prev) => !prev)}
+          className="text-xs text-slate-400 underline-offset-4 transition hover:text-amber-200 hover:underline"
+        >
+          {showDecided ? "Pending only" : "Include decided"}
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">Decisions are recorded under your account and need the Approver role.</p>
+
+      {approvals === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading approvals…
+        </p>
+      ) : approvals.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Plan items and automation actions that spend money, publish content or change prices wait here for review.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {approvals.map((approval) => {
+            const isEditing = editing?.id === approval.id;
+            const details = isEditing ? editing.details : approval.details;
+
+            return (
+              <li key={approval.id} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="rounded-full border border-amber-400/40 px-2 py-0.5 text-[10px] uppercase tracking-wide text-amber-200">
+                    {categoryLabels[approval.category]}
+                  </span>
+                  {approval.status !== "pending" && (
+                    <span
+                      className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${
+                        approval.status === "approved"
+                          ? "border-emerald-400/40 text-emerald-200"
+                          : "border-red-400/40 text-red-200"
+                      }`}
+                    >
+                      {approval.status}
+                    </span>
+                  )}
+                  <span className="text-slate-500">{describeSource(approval)}</span>
+                </div>
+                <p className="mt-2 font-semibold text-slate-100">{approval.title}</p>
+
+                <dl className="mt-2 space-y-1">
+                  {Object.entries(details).map(([field, value]) => (
+                    <div key={field} className="grid grid-cols-[110px_1fr] gap-2">
+                      <dt className="text-slate-500">{field}</dt>
+                      {isEditing && field !== "type" ? (
+                        <dd>
+                          <input
+                            type={typeof value === "number" ? "number" : "text"}
+                            value={value}
+                            onChange={(event) =>
+                              setEditing({
+                                id: approval.id,
+                                details: {
+                                  ...editing.details,
+                                  [field]: typeof value === "number" ? Number(event.target.value) : event.target.value,
+                                },
+                              })
+                            }
+                            className="w-full rounded-lg border border-slate-700/60 bg-slate-950/60 px-2 py-1 text-slate-100"
+                          />
+                        </dd>
+                      ) : (
+                        <dd className="text-slate-300">{value}</dd>
+                      )}
+                    </div>
+                  ))}
+                </dl>
+
+                {approval.status === "pending" ? (
+                  <>
+                    <input
+                      value={notes[approval.id] ?? ""}
+                      onChange={(event) => setNotes((prev) => ({ ...prev, [approval.id]: event.target.value }))}
+                      placeholder="Note for the audit trail (optional)"
+                      className="mt-3 w-full rounded-lg border border-slate-700/60 bg-slate-950/60 px-2 py-1 text-slate-100"
+                    />
+                    <div className="mt-3 flex items-center gap-3 text-slate-300">
+                      {isEditing ? (
+                        <>
+                          <button
+                            type="button"
+                            disabled={pendingId === approval.id}
+                            onClick={saveEdits}
+                            className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+                          >
+                            <Check className="size-3" /> Save edits
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="inline-flex items-center gap-1 transition hover:text-slate-100"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            disabled={pendingId === approval.id}
+                            onClick={() => decide(approval.id, "approve")}
+                            className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+                          >
+                            <Check className="size-3" /> Approve
+                          </button>
+                          <button
+                            type="button"
+                            disabled={pendingId === approval.id}
+                            onClick={() => decide(approval.id, "reject")}
+                            className="inline-flex items-center gap-1 transition hover:text-red-300 disabled:opacity-50"
+                          >
+                            <X className="size-3" /> Reject
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditing({ id: approval.id, details: { ...approval.details } })}
+                            className="inline-flex items-center gap-1 transition hover:text-indigo-200"
+                          >
+                            <Pencil className="size-3" /> Edit
+                          </button>
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => toggleTrail(approval.id)}
+                        className="ml-auto inline-flex items-center gap-1 text-slate-500 transition hover:text-amber-200"
+                      >
+                        <History className="size-3" /> Trail
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="mt-3 flex items-center gap-3 text-slate-500">
+                    <span>
+                      {approval.decidedBy} · {approval.decidedAt && formatDateTime(approval.decidedAt)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => toggleTrail(approval.id)}
+                      className="ml-auto inline-flex items-center gap-1 transition hover:text-amber-200"
+                    >
+                      <History className="size-3" /> Trail
+                    </button>
+                  </div>
+                )}
+
+                {trail?.id === approval.id && (
+                  <ol className="mt-3 space-y-1 border-t border-slate-700/60 pt-3 text-slate-400">
+                    {trail.entries.map((entry) => (
+                      <li key={entry.id}>
+                        <span className="text-slate-500">{formatDateTime(entry.at)}</span>{" "}
+                        <span className="text-slate-200">{entry.actor}</span> {auditLabels[entry.action]}
+                        {entry.changes?.map((change) => (
+                          <span key={change.field} className="block pl-3 text-slate-500">
+                            {change.field}: {String(change.from)} → {String(change.to)}
+                          </span>
+                        ))}
+                        {entry.note && <span className="block pl-3 italic text-slate-500">“{entry.note}”</span>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FlaskConical, LoaderCircle, Trash2, TriangleAlert, Workflow } from "lucide-react";
+import { toast } from "sonner";
+
+import { describeAction, describeTrigger } from "@/lib/automation/parser";
+import { formatDateTime } from "@/lib/format";
+import type {
+  AutomationExecution,
+  AutomationRule,
+  StoreEventPayload,
+  StoreEventType,
+} from "@/types/automation";
+
+interface AutomationRulesPanelProps {
+  refreshKey: number;
+}
+
+const TEST_EVENTS: Array<{ type: StoreEventType; sample: string }> = [
+  { type: "inventory.updated", sample: "sku=TEE-01, quantity=3" },
+  { type: "order.created", sample: "total=120, customerOrderCount=1" },
+  { type: "cart.abandoned", sample: "value=85" },
+  { type: "review.posted", sample: "rating=2" },
+  { type: "ad.performance", sample: "platform=meta, roas=1.4, cpa=42" },
+];
+
+/** Parses "key=value, key=value" into an event payload, keeping numbers and booleans typed. */
+function parsePayload(text: string): StoreEventPayload {
+  const payload: StoreEventPayload = {};
+  for (const pair of text.split(",")) {
+    const [key, ...rest] = pair.split("=");
+    const raw = rest.join("=").trim();
+    if (!key.trim() || !raw) continue;
+    payload[key.trim()] =
+      raw === "true" || raw === "false" ? raw === "true" : Number.isFinite(Number(raw)) ? Number(raw) : raw;
+  }
+  return payload;
+}
+
+export function AutomationRulesPanel({ refreshKey }: AutomationRulesPanelProps) {
+  const [rules, setRules] = useState<AutomationRule[] | null>(null);
+  const [executions, setExecutions] = useState<AutomationExecution[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [testEvent, setTestEvent] = useState<StoreEventType>(TEST_EVENTS[0].type);
+  const [testPayload, setTestPayload] = useState(TEST_EVENTS[0].sample);
+  const [testing, setTesting] = useState(false);
+  const [logKey, setLogKey] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/automations")
+      .then((res) => {
+        if (!res.ok) throw new Error("Automation rules unavailable");
+        return res.json() as Promise<{ rules: AutomationRule[] }>;
+      })
+      .then((data) => {
+        if (active) setRules(data.rules);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setRules([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey]);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/automations/log?limit=10")
+      .then((res) => {
+        if (!res.ok) throw new Error("Execution log unavailable");
+        return res.json() as Promise<{ executions: AutomationExecution[] }>;
+      })
+      .then((data) => {
+        if (active) setExecutions(data.executions);
+      })
+      .catch(console.error);
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, logKey]);
+
+  const toggleRule = async (rule: AutomationRule) => {
+    setPendingId(rule.id);
+    try {
+      const res = await fetch(`/api/automations/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      const data = (await res.json()) as AutomationRule & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Update failed");
+      setRules((prev) => prev?.map((item) => (item.id === rule.id ? data : item)) ?? null);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not update that rule.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/automations/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setRules((prev) => prev?.filter((rule) => rule.id !== id) ?? null);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not delete that rule.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const runDryRun = async () => {
+    setTesting(true);
+    try {
+      const res = await fetch("/api/automations/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: testEvent, payload: parsePayload(testPayload), dryRun: true }),
+      });
+      if (!res.ok) throw new Error("Dry run failed");
+      const { executions: results } = (await res.json()) as { executions: AutomationExecution[] };
+      toast.success(
+        results.length === 0
+          ? "No enabled rule matched that event."
+          : `${results.length} rule${results.length === 1 ? "" : "s"} would run.`
+      );
+      setLogKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not run the dry run.");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+        <Workflow className="size-5 text-indigo-400" /> Automation Rules
+      </h2>
+
+      {rules === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading rules…
+        </p>
+      ) : rules.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Save a blueprint&apos;s automations as rules to run them against store events.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {rules.map((rule) => (
+            <li key={rule.id} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+              <div className="flex items-start justify-between gap-3">
+                <p className="font-semibold text-slate-100">{rule.title}</p>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    disabled={pendingId === rule.id || !rule.trigger || !rule.action}
+                    onClick={() => toggleRule(rule)}
+                    className={`rounded-full border px-3 py-1 transition disabled:opacity-50 ${
+                      rule.enabled
+                        ? "border-emerald-400/60 text-emerald-200"
+                        : "border-slate-700/60 text-slate-400 hover:border-emerald-400/60"
+                    }`}
+                  >
+                    {rule.enabled ? "Enabled" : "Disabled"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={pendingId === rule.id}
+                    onClick={() => deleteRule(rule.id)}
+                    className="text-slate-500 transition hover:text-red-400 disabled:opacity-50"
+                  >
+                    <Trash2 className="size-3" />
+                  </button>
+                </div>
+              </div>
+              <p className="mt-2 text-indigo-300">
+                When: {rule.trigger ? describeTrigger(rule.trigger) : `unparsed (${rule.source.trigger})`}
+              </p>
+              <p className="text-emerald-300">
+                Do: {rule.action ? describeAction(rule.action) : `unparsed (${rule.source.action})`}
+              </p>
+              {rule.issues.map((issue) => (
+                <p key={issue} className="mt-1 flex items-start gap-1 text-amber-200">
+                  <TriangleAlert className="mt-0.5 size-3 shrink-0" /> {issue}
+                </p>
+              ))}
+              {rule.lastRunAt && <p className="mt-1 text-slate-500">Last ran {formatDateTime(rule.lastRunAt)}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs text-slate-300">
+        <p className="font-semibold text-slate-100">Test with an event</p>
+        <div className="mt-3 flex flex-col gap-2 md:flex-row">
+          <select
+            value={testEvent}
+            onChange={(event) => {
+              const type = event.target.value as StoreEventType;
+              setTestEvent(type);
+              setTestPayload(TEST_EVENTS.find((item) => item.type === type)?.sample ?? "");
+            }}
+            className="rounded-xl border border-slate-700/60 bg-slate-950/60 px-3 py-2 text-slate-100"
+          >
+            {TEST_EVENTS.map((item) => (
+              <option key={item.type} value={item.type}>
+                {item.type}
+              </option>
+            ))}
+          </select>
+          <input
+            value={testPayload}
+            onChange={(event) => setTestPayload(event.target.value)}
+            placeholder="field=value, field=value"
+            className="flex-1 rounded-xl border border-slate-700/60 bg-slate-950/60 px-3 py-2 text-slate-100"
+          />
+          <button
+            type="button"
+            disabled={testing}
+            onClick={runDryRun}
+            className="inline-flex items-center justify-center gap-1 rounded-xl border border-indigo-400/60 px-3 py-2 text-indigo-100 transition hover:border-indigo-300 disabled:opacity-50"
+          >
+            <FlaskConical className="size-3" /> Dry run
+          </button>
+        </div>
+      </div>
+
+      {executions.length > 0 && (
+        <div className="text-xs">
+          <p className="font-semibold text-slate-100">Recent executions</p>
+          <ul className="mt-2 space-y-2">
+            {executions.map((execution) => (
+              <li key={execution.id} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-3">
+                <div className="flex flex-wrap items-center gap-2 text-slate-500">
+                  <span className="text-slate-200">{execution.ruleTitle}</span>
+                  <span>{execution.eventType}</span>
+                  <span>{formatDateTime(execution.startedAt)}</span>
+                  {execution.dryRun && (
+                    <span className="rounded-full border border-indigo-400/40 px-2 py-0.5 text-[10px] uppercase tracking-wide text-indigo-200">
+                      Dry run
+                    </span>
+                  )}
+                </div>
+                <p className={`mt-1 ${execution.status === "failed" ? "text-red-300" : "text-slate-400"}`}>
+                  {execution.output}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
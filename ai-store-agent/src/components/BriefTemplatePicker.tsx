@@ -0,0 +1,343 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, LayoutTemplate, LoaderCircle, Save, Star, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import type { BriefTemplate, TeamLibrary, TemplateBrief, TemplateImportResult } from "@/types/templates";
+
+interface BriefTemplatePickerProps {
+  templates: BriefTemplate[] | null;
+  library: TeamLibrary;
+  currentBrief: TemplateBrief;
+  onApply: (template: BriefTemplate) => void;
+  onChange: () => void;
+}
+
+function LabelEditor({
+  title,
+  items,
+  placeholder,
+  onSave,
+}: {
+  title: string;
+  items: string[];
+  placeholder: string;
+  onSave: (items: string[]) => void;
+}) {
+  const [draft, setDraft] = useState("");
+
+  const add = () => {
+    const value = draft.trim();
+    if (!value) return;
+    if (items.some((item) => item.toLowerCase() === value.toLowerCase())) {
+      toast.error(`"${value}" is already in the library.`);
+      return;
+    }
+    onSave([...items, value]);
+    setDraft("");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-slate-500">{title}</span>
+      <div className="flex flex-wrap gap-2">
+        {items.map((item) => (
+          <span key={item} className="inline-flex items-center gap-2 rounded-full border border-slate-600/50 px-3 py-1">
+            {item}
+            <button
+              type="button"
+              onClick={() => onSave(items.filter((other) => other !== item))}
+              className="text-slate-500 transition hover:text-red-400"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+      <input
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            event.preventDefault();
+            add();
+          }
+        }}
+        placeholder={placeholder}
+        className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-xs text-slate-100 outline-none focus:border-emerald-400"
+      />
+    </div>
+  );
+}
+
+export function BriefTemplatePicker({ templates, library, currentBrief, onApply, onChange }: BriefTemplatePickerProps) {
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = templates?.find((template) => template.id === selectedId) ?? null;
+
+  const saveTemplate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error("Name the template first.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: trimmed, brief: currentBrief }),
+      });
+      const data = (await res.json()) as BriefTemplate & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Save failed");
+      setSelectedId(data.id);
+      setName("");
+      toast.success(`Saved "${data.name}" to the team templates.`);
+      onChange();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not save the template.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const overwriteTemplate = async (template: BriefTemplate) => {
+    try {
+      const res = await fetch(`/api/templates/${template.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ brief: currentBrief }),
+      });
+      if (!res.ok) throw new Error("Update failed");
+      toast.success(`Updated "${template.name}" from the current brief.`);
+      onChange();
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not update that template.");
+    }
+  };
+
+  const removeTemplate = async (template: BriefTemplate) => {
+    try {
+      const res = await fetch(`/api/templates/${template.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setSelectedId("");
+      onChange();
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not delete that template.");
+    }
+  };
+
+  const saveLibrary = async (change: Partial<TeamLibrary>) => {
+    try {
+      const res = await fetch("/api/templates/library", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tasks: change.tasks ?? library.tasks,
+          tones: change.tones ?? library.tones,
+          defaultTemplateId: change.defaultTemplateId !== undefined ? change.defaultTemplateId : library.defaultTemplateId,
+        }),
+      });
+      const data = (await res.json()) as TeamLibrary & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Library update failed");
+      onChange();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not update the team library.");
+    }
+  };
+
+  const exportFile = async () => {
+    try {
+      const res = await fetch("/api/templates/export");
+      if (!res.ok) throw new Error("Export failed");
+
+      const filename =
+        res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "storepilot-templates.json";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not export the templates.");
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setImporting(true);
+    try {
+      const res = await fetch("/api/templates/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const data = (await res.json()) as TemplateImportResult & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Import failed");
+      toast.success(
+        `Imported ${data.created} new and ${data.updated} updated templates, ${data.tasksAdded} tasks and ${data.tonesAdded} tones.`
+      );
+      onChange();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not import those templates.");
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="grid gap-3 rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 font-semibold uppercase tracking-wide text-slate-400">
+          <LayoutTemplate className="size-4 text-emerald-400" /> Templates
+        </span>
+        <div className="flex items-center gap-3 text-slate-400">
+          <button
+            type="button"
+            onClick={exportFile}
+            className="inline-flex items-center gap-1 transition hover:text-emerald-200"
+          >
+            <Download className="size-3" /> Export
+          </button>
+          <button
+            type="button"
+            disabled={importing}
+            onClick={() => fileInput.current?.click()}
+            className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+          >
+            {importing ? <LoaderCircle className="size-3 animate-spin" /> : <Upload className="size-3" />}
+            Import
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void importFile(file);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(event) => setSelectedId(event.target.value)}
+          disabled={templates === null}
+          className="flex-1 rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+        >
+          <option value="" className="bg-slate-900 text-slate-100">
+            {templates === null ? "Loading templates…" : "Start from a template"}
+          </option>
+          {templates?.map((template) => (
+            <option key={template.id} value={template.id} className="bg-slate-900 text-slate-100">
+              {template.name}
+              {template.builtIn ? " (built-in)" : ""}
+              {template.id === library.defaultTemplateId ? " ★" : ""}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={!selected}
+          onClick={() => selected && onApply(selected)}
+          className="rounded-full border border-slate-500 px-3 py-2 text-xs text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+
+      {selected && (
+        <div className="flex flex-wrap items-center gap-3 text-slate-400">
+          {selected.description && <span className="w-full text-slate-500">{selected.description}</span>}
+          <button
+            type="button"
+            onClick={() =>
+              saveLibrary({ defaultTemplateId: selected.id === library.defaultTemplateId ? null : selected.id })
+            }
+            className="inline-flex items-center gap-1 transition hover:text-amber-200"
+          >
+            <Star className="size-3" />
+            {selected.id === library.defaultTemplateId ? "Clear default" : "Use as default"}
+          </button>
+          {!selected.builtIn && (
+            <>
+              <button
+                type="button"
+                onClick={() => overwriteTemplate(selected)}
+                className="inline-flex items-center gap-1 transition hover:text-emerald-200"
+              >
+                <Save className="size-3" /> Update from brief
+              </button>
+              <button
+                type="button"
+                onClick={() => removeTemplate(selected)}
+                className="inline-flex items-center gap-1 transition hover:text-red-400"
+              >
+                <Trash2 className="size-3" /> Delete
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Save the current brief as…"
+          className="flex-1 rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-xs text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <button
+          type="button"
+          disabled={saving}
+          onClick={saveTemplate}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-500 px-3 py-2 text-xs text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+        >
+          {saving ? <LoaderCircle className="size-3 animate-spin" /> : <Save className="size-3" />}
+          Save
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowLibrary((prev) => !prev)}
+        className="text-left text-slate-400 transition hover:text-emerald-200"
+      >
+        {showLibrary ? "Hide" : "Manage"} team tasks and tones
+      </button>
+      {showLibrary && (
+        <div className="grid gap-4">
+          <LabelEditor
+            title="Tasks"
+            items={library.tasks}
+            placeholder="Add a team task and press enter"
+            onSave={(tasks) => saveLibrary({ tasks })}
+          />
+          <LabelEditor
+            title="Tones"
+            items={library.tones}
+            placeholder="Add a team tone and press enter"
+            onSave={(tones) => saveLibrary({ tones })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { Calculator, TriangleAlert } from "lucide-react";
+
+import { formatMoney } from "@/lib/format";
+import type { BudgetAllocation, BudgetNoteCheck } from "@/types/agent";
+
+interface BudgetAllocationTableProps {
+  allocation: BudgetAllocation;
+}
+
+const platformLabels: Record<string, string> = { meta: "Meta", google: "Google" };
+
+export function BudgetNoteFlag({ check }: { check?: BudgetNoteCheck }) {
+  if (check?.status !== "contradiction") return null;
+
+  return (
+    <p className="mt-2 flex items-start gap-1 text-xs text-amber-300">
+      <TriangleAlert className="mt-0.5 size-3 shrink-0" /> {check.message}
+    </p>
+  );
+}
+
+export function BudgetAllocationTable({ allocation }: BudgetAllocationTableProps) {
+  const money = (value: number) => formatMoney(value, allocation.currency);
+  const reporting = allocation.reporting?.currency !== allocation.currency ? allocation.reporting : undefined;
+  const contradictions = allocation.noteChecks.filter((check) => check.status === "contradiction");
+
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-base font-semibold text-white">
+          <Calculator className="size-4 text-emerald-300" /> Budget Allocation
+        </h3>
+        <span className="text-xs text-slate-400">
+          {money(allocation.amount)} {allocation.cadence} · {money(allocation.daily)}/day pacing
+        </span>
+      </div>
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="py-2 font-medium">Platform</th>
+              <th className="py-2 font-medium">Channel</th>
+              <th className="py-2 text-right font-medium">Share</th>
+              <th className="py-2 text-right font-medium">Daily</th>
+              <th className="py-2 text-right font-medium">Weekly</th>
+              <th className="py-2 text-right font-medium">Monthly</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {allocation.lines.map((line) => (
+              <tr key={`${line.platform}-${line.channel}`} className="text-slate-300">
+                <td className="py-2">{platformLabels[line.platform] ?? line.platform}</td>
+                <td className="py-2">{line.channel}</td>
+                <td className="py-2 text-right">{Math.round(line.share * 100)}%</td>
+                <td className="py-2 text-right">{money(line.daily)}</td>
+                <td className="py-2 text-right">{money(line.weekly)}</td>
+                <td className="py-2 text-right">{money(line.monthly)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold text-slate-100">
+              <td className="py-2" colSpan={3}>
+                Total
+              </td>
+              <td className="py-2 text-right">{money(allocation.daily)}</td>
+              <td className="py-2 text-right">{money(allocation.weekly)}</td>
+              <td className="py-2 text-right">{money(allocation.monthly)}</td>
+            </tr>
+            {reporting && (
+              <tr className="text-slate-400" title={`Rates as of ${reporting.asOf}`}>
+                <td className="py-1" colSpan={3}>
+                  In {reporting.currency}
+                </td>
+                <td className="py-1 text-right">{formatMoney(reporting.daily, reporting.currency)}</td>
+                <td className="py-1 text-right">{formatMoney(reporting.weekly, reporting.currency)}</td>
+                <td className="py-1 text-right">{formatMoney(reporting.monthly, reporting.currency)}</td>
+              </tr>
+            )}
+          </tfoot>
+        </table>
+      </div>
+
+      {[...allocation.warnings, ...contradictions.map((check) => `${check.platform}: ${check.message}`)].map(
+        (message) => (
+          <p key={message} className="mt-2 flex items-start gap-1 text-xs text-amber-300">
+            <TriangleAlert className="mt-0.5 size-3 shrink-0" /> {message}
+          </p>
+        )
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import Link from "next/link";
+import { Package } from "lucide-react";
+
+import { formatMoney } from "@/lib/format";
+import type { CatalogReference } from "@/types/catalog";
+
+export function catalogProductHref(sku: string): string {
+  return `/catalog#sku-${encodeURIComponent(sku)}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+interface CatalogLinkedTextProps {
+  text: string;
+  references?: CatalogReference[];
+}
+
+/** Renders plan text with every referenced SKU, bracketed or bare, linked to its catalog entry. */
+export function CatalogLinkedText({ text, references }: CatalogLinkedTextProps) {
+  if (!references || references.length === 0) return <>{text}</>;
+
+  const bySku = new Map(references.map((reference) => [reference.sku, reference]));
+  const alternatives = [...bySku.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`\\[?(?<![A-Za-z0-9])(${alternatives.join("|")})(?![A-Za-z0-9])\\]?`, "g");
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(pattern)) {
+    const reference = bySku.get(match[1])!;
+    parts.push(text.slice(cursor, match.index));
+    parts.push(
+      <Link
+        key={`${match.index}-${reference.sku}`}
+        href={catalogProductHref(reference.sku)}
+        title={reference.title}
+        className="rounded bg-sky-400/10 px-1 font-mono text-sky-200 underline-offset-2 hover:underline"
+      >
+        {reference.sku}
+      </Link>
+    );
+    cursor = match.index + match[0].length;
+  }
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
+
+interface CatalogReferenceListProps {
+  references: CatalogReference[];
+}
+
+export function CatalogReferenceList({ references }: CatalogReferenceListProps) {
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+      <h3 className="flex items-center gap-2 text-base font-semibold text-white">
+        <Package className="size-4 text-sky-300" /> Referenced Products
+      </h3>
+      <ul className="mt-3 grid gap-2 md:grid-cols-2">
+        {references.map((reference) => (
+          <li key={reference.sku}>
+            <Link
+              href={catalogProductHref(reference.sku)}
+              className="block rounded-xl border border-slate-700/60 bg-slate-900/40 p-3 text-xs transition hover:border-sky-400/60"
+            >
+              <span className="font-mono text-sky-200">{reference.sku}</span>
+              <span className="mt-1 block text-slate-100">{reference.title}</span>
+              <span className="mt-1 block text-slate-400">
+                {reference.currency ? formatMoney(reference.price, reference.currency) : reference.price.toFixed(2)} ·{" "}
+                {reference.stock} in stock
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeft, LoaderCircle, Package, Search, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatDateTime, formatMoney } from "@/lib/format";
+import type { CatalogImportResult, CatalogProduct } from "@/types/catalog";
+
+const PAGE_SIZE = 100;
+
+function formatPrice(value: number, currency?: string): string {
+  return currency ? formatMoney(value, currency) : value.toFixed(2);
+}
+
+export function CatalogManager() {
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState<{ products: CatalogProduct[]; total: number } | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [importing, setImporting] = useState(false);
+  const [replace, setReplace] = useState(false);
+  const [lastImport, setLastImport] = useState<CatalogImportResult | null>(null);
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const readHash = () => {
+      const match = window.location.hash.match(/^#sku-(.+)$/);
+      setHighlighted(match ? decodeURIComponent(match[1]) : null);
+    };
+    readHash();
+    window.addEventListener("hashchange", readHash);
+    return () => window.removeEventListener("hashchange", readHash);
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (query.trim()) params.set("q", query.trim());
+    // A linked SKU may sit beyond the first page, so look it up directly.
+    else if (highlighted) params.set("q", highlighted);
+
+    fetch(`/api/catalog?${params}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Catalog unavailable");
+        return res.json() as Promise<{ products: CatalogProduct[]; total: number }>;
+      })
+      .then((data) => {
+        if (active) setPage(data);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setPage({ products: [], total: 0 });
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [query, highlighted, refreshKey]);
+
+  useEffect(() => {
+    if (highlighted && page) {
+      document.getElementById(`sku-${highlighted}`)?.scrollIntoView({ block: "center" });
+    }
+  }, [highlighted, page]);
+
+  const importFile = async (file: File) => {
+    setImporting(true);
+    try {
+      const isJson = file.name.toLowerCase().endsWith(".json") || file.type.includes("json");
+      const params = new URLSearchParams({ format: isJson ? "shopify" : "csv" });
+      if (replace) params.set("replace", "1");
+
+      const res = await fetch(`/api/catalog/import?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": isJson ? "application/json" : "text/csv" },
+        body: file,
+      });
+      const data = (await res.json()) as CatalogImportResult & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Import failed");
+
+      setLastImport(data);
+      setRefreshKey((prev) => prev + 1);
+      toast.success(`Imported ${data.created + data.updated} products from ${file.name}.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not import that file.");
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const removeProduct = async (sku: string) => {
+    try {
+      const res = await fetch(`/api/catalog/${encodeURIComponent(sku)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setRefreshKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not delete that product.");
+    }
+  };
+
+  return (
+    <div className="mx-auto flex min-h-screen max-w-6xl flex-col gap-6 px-6 py-10">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link href="/" className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-emerald-200">
+            <ArrowLeft className="size-3" /> Dashboard
+          </Link>
+          <h1 className="mt-2 flex items-center gap-2 text-2xl font-semibold text-white">
+            <Package className="size-6 text-sky-300" /> Catalog
+          </h1>
+          <p className="mt-1 text-sm text-slate-400">
+            Products the agent plans against. Runs cite these SKUs, and plan links land here.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-slate-300">
+          <label className="inline-flex items-center gap-2">
+            <input type="checkbox" checked={replace} onChange={(event) => setReplace(event.target.checked)} />
+            Replace products missing from the file
+          </label>
+          <button
+            type="button"
+            disabled={importing}
+            onClick={() => fileInput.current?.click()}
+            className="inline-flex items-center gap-2 rounded-full border border-sky-400/60 px-4 py-2 text-sky-100 transition hover:border-sky-300 disabled:opacity-50"
+          >
+            {importing ? <LoaderCircle className="size-4 animate-spin" /> : <Upload className="size-4" />}
+            Import CSV or Shopify JSON
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv,.json,application/json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void importFile(file);
+            }}
+          />
+        </div>
+      </header>
+
+      {lastImport && (
+        <div className="glass-panel rounded-2xl p-4 text-xs text-slate-300">
+          <p>
+            {lastImport.created} added, {lastImport.updated} updated
+            {lastImport.removed > 0 && `, ${lastImport.removed} removed`}
+            {lastImport.skipped.length > 0 && `, ${lastImport.skipped.length} skipped`}.
+          </p>
+          {lastImport.skipped.length > 0 && (
+            <ul className="mt-2 space-y-1 text-amber-200">
+              {lastImport.skipped.slice(0, 20).map((issue, index) => (
+                <li key={index}>
+                  {issue.row !== undefined && `Row ${issue.row}: `}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+        <label className="flex items-center gap-2 rounded-xl border border-slate-700/60 bg-slate-950/60 px-3 py-2 text-sm">
+          <Search className="size-4 text-slate-500" />
+          <input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search by SKU, title or tag"
+            className="flex-1 bg-transparent text-slate-100 outline-none"
+          />
+        </label>
+
+        {page === null ? (
+          <p className="flex items-center gap-2 text-xs text-slate-400">
+            <LoaderCircle className="size-3 animate-spin" /> Loading catalog…
+          </p>
+        ) : page.products.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            No products yet. Import a CSV with sku, title, price, stock and tags columns, or a Shopify product export.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-500">
+              Showing {page.products.length} of {page.total} products
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">SKU</th>
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 text-right font-medium">Price</th>
+                    <th className="py-2 pr-4 text-right font-medium">Stock</th>
+                    <th className="py-2 pr-4 font-medium">Tags</th>
+                    <th className="py-2 pr-4 font-medium">Imported</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {page.products.map((product) => (
+                    <tr
+                      key={product.id}
+                      id={`sku-${product.id}`}
+                      className={`border-t border-slate-800 ${
+                        product.id === highlighted ? "bg-sky-400/10" : ""
+                      } ${product.status === "active" ? "text-slate-200" : "text-slate-500"}`}
+                    >
+                      <td className="py-2 pr-4 font-mono text-sky-200">{product.id}</td>
+                      <td className="py-2 pr-4">
+                        {product.title}
+                        {product.status !== "active" && (
+                          <span className="ml-2 text-[10px] uppercase tracking-wide">{product.status}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatPrice(product.price, product.currency)}
+                        {product.compareAtPrice !== undefined && (
+                          <span className="ml-1 text-slate-500 line-through">
+                            {formatPrice(product.compareAtPrice, product.currency)}
+                          </span>
+                        )}
+                      </td>
+                      <td className={`py-2 pr-4 text-right ${product.stock <= 5 ? "text-amber-200" : ""}`}>
+                        {product.stock}
+                      </td>
+                      <td className="py-2 pr-4 text-slate-400">{product.tags.join(", ")}</td>
+                      <td className="py-2 pr-4 text-slate-500">{formatDateTime(product.importedAt)}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => removeProduct(product.id)}
+                          className="text-slate-500 transition hover:text-red-400"
+                        >
+                          <Trash2 className="size-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
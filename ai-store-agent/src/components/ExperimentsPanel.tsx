@@ -0,0 +1,259 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { FlaskConical, LoaderCircle, Pause, Play, Trash2, Trophy } from "lucide-react";
+import { toast } from "sonner";
+
+import { catalogProductHref } from "@/components/CatalogLinks";
+import { formatMoney } from "@/lib/format";
+import type { ExperimentResults, ExperimentStatus, Interval, PriceExperiment } from "@/types/experiments";
+
+interface ExperimentsPanelProps {
+  refreshKey: number;
+  runId?: string;
+}
+
+interface ExperimentEntry {
+  experiment: PriceExperiment;
+  results: ExperimentResults;
+}
+
+const statusStyles: Record<ExperimentStatus, string> = {
+  draft: "border-slate-600/60 text-slate-300",
+  running: "border-emerald-400/60 text-emerald-200",
+  stopped: "border-amber-400/60 text-amber-200",
+  completed: "border-sky-400/60 text-sky-200",
+};
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function money(value: number, currency?: string): string {
+  return currency ? formatMoney(value, currency) : value.toFixed(2);
+}
+
+function range(interval: Interval, format: (value: number) => string): string {
+  return Number.isFinite(interval.low) ? `${format(interval.low)} – ${format(interval.high)}` : "n/a";
+}
+
+export function ExperimentsPanel({ refreshKey, runId }: ExperimentsPanelProps) {
+  const [entries, setEntries] = useState<ExperimentEntry[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [proposing, setProposing] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/experiments")
+      .then((res) => {
+        if (!res.ok) throw new Error("Experiments unavailable");
+        return res.json() as Promise<{ experiments: ExperimentEntry[] }>;
+      })
+      .then((data) => {
+        if (active) setEntries(data.experiments);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setEntries([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, reloadKey]);
+
+  const propose = async () => {
+    if (!runId) return;
+
+    setProposing(true);
+    try {
+      const res = await fetch("/api/experiments/propose", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ runId }),
+      });
+      if (!res.ok) throw new Error("Proposal failed");
+      const { experiments } = (await res.json()) as { experiments: PriceExperiment[] };
+      toast.success(
+        experiments.length === 0
+          ? "This plan has no price tests for catalog SKUs."
+          : `Drafted ${experiments.length} price test${experiments.length === 1 ? "" : "s"}.`
+      );
+      setReloadKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not propose price tests.");
+    } finally {
+      setProposing(false);
+    }
+  };
+
+  const changeStatus = async (id: string, status: "running" | "stopped") => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/experiments/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const data = (await res.json()) as { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Update failed");
+      setReloadKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not update that experiment.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const remove = async (id: string) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/experiments/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setEntries((prev) => prev?.filter((entry) => entry.experiment.id !== id) ?? null);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not delete that experiment.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <FlaskConical className="size-5 text-sky-300" /> Price Experiments
+        </h2>
+        {runId && (
+          <button
+            type="button"
+            disabled={proposing}
+            onClick={propose}
+            className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-sky-200 disabled:opacity-50"
+          >
+            {proposing ? <LoaderCircle className="size-3 animate-spin" /> : <FlaskConical className="size-3" />}
+            Propose from this plan
+          </button>
+        )}
+      </div>
+
+      {entries === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading experiments…
+        </p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Price tests proposed from a plan, or created through the API, show their results here.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {entries.map(({ experiment, results }) => (
+            <li key={experiment.id} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span
+                  className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${statusStyles[experiment.status]}`}
+                >
+                  {experiment.status}
+                </span>
+                <p className="font-semibold text-slate-100">{experiment.title}</p>
+                <Link href={catalogProductHref(experiment.sku)} className="font-mono text-sky-200 hover:underline">
+                  {experiment.sku}
+                </Link>
+                <div className="ml-auto flex items-center gap-3 text-slate-300">
+                  {(experiment.status === "draft" || experiment.status === "stopped") && (
+                    <button
+                      type="button"
+                      disabled={pendingId === experiment.id}
+                      onClick={() => changeStatus(experiment.id, "running")}
+                      className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+                    >
+                      <Play className="size-3" /> {experiment.status === "draft" ? "Start" : "Resume"}
+                    </button>
+                  )}
+                  {experiment.status === "running" && (
+                    <button
+                      type="button"
+                      disabled={pendingId === experiment.id}
+                      onClick={() => changeStatus(experiment.id, "stopped")}
+                      className="inline-flex items-center gap-1 transition hover:text-amber-200 disabled:opacity-50"
+                    >
+                      <Pause className="size-3" /> Stop
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={pendingId === experiment.id}
+                    onClick={() => remove(experiment.id)}
+                    className="text-slate-500 transition hover:text-red-400 disabled:opacity-50"
+                  >
+                    <Trash2 className="size-3" />
+                  </button>
+                </div>
+              </div>
+              {experiment.hypothesis && <p className="mt-2 text-slate-400">{experiment.hypothesis}</p>}
+
+              <div className="mt-3 overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">Variant</th>
+                      <th className="py-1 pr-3 text-right font-medium">Price</th>
+                      <th className="py-1 pr-3 text-right font-medium">Visitors</th>
+                      <th className="py-1 pr-3 text-right font-medium">Conversion</th>
+                      <th className="py-1 pr-3 text-right font-medium">Revenue / visitor</th>
+                      <th className="py-1 text-right font-medium">Lift vs A</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-slate-200">
+                    {results.variants.map((variant) => (
+                      <tr key={variant.variantId} className="border-t border-slate-800">
+                        <td className="py-1 pr-3">
+                          <span className="inline-flex items-center gap-1">
+                            {variant.variantId}
+                            {experiment.winner === variant.variantId && <Trophy className="size-3 text-amber-300" />}
+                          </span>
+                        </td>
+                        <td className="py-1 pr-3 text-right">{money(variant.price, experiment.currency)}</td>
+                        <td className="py-1 pr-3 text-right">{variant.visitors}</td>
+                        <td className="py-1 pr-3 text-right">
+                          {percent(variant.conversionRate)}
+                          <span className="block text-[10px] text-slate-500">{range(variant.conversionInterval, percent)}</span>
+                        </td>
+                        <td className="py-1 pr-3 text-right">
+                          {money(variant.revenuePerVisitor, experiment.currency)}
+                          <span className="block text-[10px] text-slate-500">
+                            {range(variant.revenuePerVisitorInterval, (value) => money(value, experiment.currency))}
+                          </span>
+                        </td>
+                        <td className="py-1 text-right text-slate-400">
+                          {variant.liftInterval
+                            ? range(variant.liftInterval, (value) => money(value, experiment.currency))
+                            : "control"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {experiment.conclusion ? (
+                <p className="mt-2 text-sky-200">{experiment.conclusion}</p>
+              ) : (
+                experiment.status === "running" &&
+                results.pending.length > 0 && (
+                  <p className="mt-2 text-slate-500">Waiting on: {results.pending.join("; ")}</p>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LoaderCircle, ShieldAlert, ShieldCheck, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+
+import type { GuardrailKind, GuardrailReport, GuardrailViolation } from "@/types/guardrails";
+import type { AgentRunRecord } from "@/types/runs";
+
+interface GuardrailsPanelProps {
+  refreshKey: number;
+  runId?: string;
+  onRewrite: (run: AgentRunRecord) => void;
+}
+
+const kindLabels: Record<GuardrailKind, string> = {
+  "banned-word": "Banned word",
+  claim: "Claim",
+  disclaimer: "Disclaimer",
+  discount: "Discount cap",
+  "ad-policy": "Ad policy",
+};
+
+function describeFix(violation: GuardrailViolation): string | null {
+  if (!violation.fix) return null;
+  if (violation.fix.type === "append") return `add "${violation.fix.text}"`;
+  return violation.fix.replace ? `"${violation.excerpt}" → "${violation.fix.replace}"` : `remove "${violation.excerpt}"`;
+}
+
+export function GuardrailsPanel({ refreshKey, runId, onRewrite }: GuardrailsPanelProps) {
+  const [report, setReport] = useState<GuardrailReport | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!runId) return;
+    let active = true;
+
+    fetch(`/api/runs/${runId}/guardrails`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Guardrail check unavailable");
+        return res.json() as Promise<GuardrailReport>;
+      })
+      .then((data) => {
+        if (active) setReport(data);
+      })
+      .catch((error) => console.error(error));
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, runId]);
+
+  const rewrite = async (violationIds?: string[]) => {
+    if (!runId) return;
+
+    setPending(violationIds?.[0] ?? "all");
+    try {
+      const res = await fetch(`/api/runs/${runId}/guardrails`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ violationIds }),
+      });
+      const data = (await res.json()) as { rewritten?: number; report?: GuardrailReport; error?: string };
+      if (!res.ok || !data.report) throw new Error(data.error ?? "Rewrite failed");
+      setReport(data.report);
+
+      const runRes = await fetch(`/api/runs/${runId}`);
+      if (runRes.ok) onRewrite((await runRes.json()) as AgentRunRecord);
+      toast.success(`Rewrote ${data.rewritten} passage${data.rewritten === 1 ? "" : "s"}.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not rewrite the plan.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const current = report && report.runId === runId ? report : null;
+  const fixable = current?.violations.filter((violation) => violation.fix).length ?? 0;
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          {current && current.violations.length === 0 ? (
+            <ShieldCheck className="size-5 text-emerald-300" />
+          ) : (
+            <ShieldAlert className="size-5 text-amber-300" />
+          )}
+          Brand Guardrails
+        </h2>
+        {fixable > 0 && (
+          <button
+            type="button"
+            disabled={pending !== null}
+            onClick={() => rewrite()}
+            className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-amber-200 disabled:opacity-50"
+          >
+            {pending === "all" ? <LoaderCircle className="size-3 animate-spin" /> : <Wand2 className="size-3" />}
+            Rewrite all ({fixable})
+          </button>
+        )}
+      </div>
+
+      {!runId ? (
+        <p className="text-xs text-slate-500">Run the agent to check its plan against the brand rules.</p>
+      ) : !current ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Checking plan…
+        </p>
+      ) : current.violations.length === 0 ? (
+        <p className="text-xs text-emerald-200/80">No violations. Plan items can be approved.</p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400">
+            {current.violations.length} violation{current.violations.length === 1 ? "" : "s"}. Plan items with
+            violations cannot be approved until they are rewritten or edited in the queue.
+            {current.constraintTerms.length > 0 && ` Also avoiding from the brief: ${current.constraintTerms.join(", ")}.`}
+          </p>
+          <ul className="flex flex-col gap-2">
+            {current.violations.map((violation) => (
+              <li key={violation.id} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-3 text-xs">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="rounded-full border border-amber-400/60 px-2 py-0.5 text-[10px] uppercase tracking-wide text-amber-200">
+                    {kindLabels[violation.kind]}
+                  </span>
+                  <code className="text-slate-400">{violation.location.path}</code>
+                  {violation.fix && (
+                    <button
+                      type="button"
+                      disabled={pending !== null}
+                      onClick={() => rewrite([violation.id])}
+                      className="ml-auto inline-flex items-center gap-1 text-slate-300 transition hover:text-amber-200 disabled:opacity-50"
+                    >
+                      {pending === violation.id ? (
+                        <LoaderCircle className="size-3 animate-spin" />
+                      ) : (
+                        <Wand2 className="size-3" />
+                      )}
+                      Rewrite
+                    </button>
+                  )}
+                </div>
+                <p className="mt-2 text-slate-200">{violation.message}</p>
+                <p className="mt-1 text-slate-500">
+                  {describeFix(violation) ?? "Needs a manual rewrite."}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { Boxes, LoaderCircle, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { catalogProductHref } from "@/components/CatalogLinks";
+import { formatDateTime } from "@/lib/format";
+import type { InventoryAlert, InventoryAlertKind, SnapshotIngestResult } from "@/types/inventory";
+
+interface InventoryAlertsPanelProps {
+  refreshKey: number;
+}
+
+const kindStyles: Record<InventoryAlertKind, { label: string; className: string }> = {
+  "out-of-stock": { label: "Out of stock", className: "border-red-400/60 text-red-200" },
+  "low-stock": { label: "Low stock", className: "border-amber-400/60 text-amber-200" },
+  overstock: { label: "Overstock", className: "border-sky-400/60 text-sky-200" },
+};
+
+export function InventoryAlertsPanel({ refreshKey }: InventoryAlertsPanelProps) {
+  const [alerts, setAlerts] = useState<InventoryAlert[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/inventory/alerts")
+      .then((res) => {
+        if (!res.ok) throw new Error("Inventory alerts unavailable");
+        return res.json() as Promise<{ alerts: InventoryAlert[] }>;
+      })
+      .then((data) => {
+        if (active) setAlerts(data.alerts);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setAlerts([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, reloadKey]);
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    try {
+      const res = await fetch("/api/inventory/snapshots", {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: file,
+      });
+      const data = (await res.json()) as SnapshotIngestResult & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Upload failed");
+
+      toast.success(
+        `Recorded ${data.accepted} stock levels: ${data.raised.length} new alert${data.raised.length === 1 ? "" : "s"}, ${
+          data.resolved.length
+        } resolved${data.skipped.length > 0 ? `, ${data.skipped.length} rows skipped` : ""}.`
+      );
+      setReloadKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not upload that snapshot.");
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <Boxes className="size-5 text-emerald-300" /> Inventory Alerts
+        </h2>
+        <button
+          type="button"
+          disabled={uploading}
+          onClick={() => fileInput.current?.click()}
+          className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-emerald-200 disabled:opacity-50"
+        >
+          {uploading ? <LoaderCircle className="size-3 animate-spin" /> : <Upload className="size-3" />}
+          Upload stock CSV
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) void upload(file);
+          }}
+        />
+      </div>
+
+      {alerts === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading alerts…
+        </p>
+      ) : alerts.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Upload a CSV with sku and quantity columns, or post counts to the snapshot webhook. SKUs running low or
+          piling up show here and steer the next plan.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {alerts.map((alert) => (
+            <li key={alert.id} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-3 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span
+                  className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${kindStyles[alert.kind].className}`}
+                >
+                  {kindStyles[alert.kind].label}
+                </span>
+                <Link href={catalogProductHref(alert.sku)} className="font-mono text-sky-200 hover:underline">
+                  {alert.sku}
+                </Link>
+                <span className="ml-auto text-slate-500">{formatDateTime(alert.updatedAt)}</span>
+              </div>
+              <p className="mt-2 text-slate-300">{alert.message}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
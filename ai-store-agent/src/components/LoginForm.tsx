@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LoaderCircle, LogIn, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+
+import type { User } from "@/types/auth";
+
+/**
+ * Only same-origin targets, so the `next` parameter cannot send people
+ * elsewhere. Resolving it catches forms such as `/\evil.com` that browsers
+ * read as `//evil.com`.
+ */
+function nextPath(): string {
+  const next = new URL(window.location.href).searchParams.get("next");
+  if (!next || !URL.canParse(next, window.location.origin)) return "/";
+  const target = new URL(next, window.location.origin);
+  return target.origin === window.location.origin ? `${target.pathname}${target.search}${target.hash}` : "/";
+}
+
+export function LoginForm() {
+  const [setupRequired, setSetupRequired] = useState<boolean | null>(null);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/auth/session")
+      .then((res) => res.json() as Promise<{ user: User | null; setupRequired: boolean }>)
+      .then((data) => {
+        if (!active) return;
+        if (data.user) {
+          window.location.replace(nextPath());
+          return;
+        }
+        setSetupRequired(data.setupRequired);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setSetupRequired(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      const res = await fetch(setupRequired ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(setupRequired ? { name, email, password } : { email, password }),
+      });
+      const data = (await res.json()) as {
+        user?: User;
+        error?: string;
+        issues?: { fieldErrors?: Record<string, string[]> };
+      };
+      if (!res.ok) {
+        const detail = Object.values(data.issues?.fieldErrors ?? {}).flat()[0];
+        throw new Error(detail ?? data.error ?? "Sign-in failed");
+      }
+      window.location.replace(nextPath());
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not sign in.");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-6 py-10">
+      <form onSubmit={submit} className="glass-panel flex w-full max-w-sm flex-col gap-4 rounded-3xl p-6 text-sm">
+        <span className="inline-flex items-center gap-2 text-xs uppercase tracking-[0.35em] text-slate-400">
+          <Sparkles className="size-4" /> StorePilot
+        </span>
+        <h1 className="text-xl font-semibold text-white">
+          {setupRequired ? "Create the first admin" : "Sign in"}
+        </h1>
+        {setupRequired && (
+          <p className="text-xs text-slate-400">
+            No accounts exist yet. This account gets the Admin role and can invite the rest of the team.
+          </p>
+        )}
+
+        {setupRequired && (
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Name</span>
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              autoComplete="name"
+              required
+              className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-slate-100 outline-none focus:border-emerald-400"
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-slate-500">Email</span>
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            autoComplete="email"
+            required
+            className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-slate-100 outline-none focus:border-emerald-400"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-slate-500">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete={setupRequired ? "new-password" : "current-password"}
+            minLength={setupRequired ? 10 : undefined}
+            required
+            className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-slate-100 outline-none focus:border-emerald-400"
+          />
+        </label>
+
+        <button
+          type="submit"
+          disabled={submitting || setupRequired === null}
+          className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-3 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-700/60"
+        >
+          {submitting ? <LoaderCircle className="size-4 animate-spin" /> : <LogIn className="size-4" />}
+          {setupRequired ? "Create account" : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Coins, Eye, LoaderCircle } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatMoney } from "@/lib/format";
+import type { LoyaltyPreview, LoyaltyPreviewTotals, LoyaltyRuleProposal, LoyaltySummary } from "@/types/loyalty";
+
+interface LoyaltyPanelProps {
+  refreshKey: number;
+  /** The active store's loyalty program name. */
+  programName: string;
+  runId?: string;
+  proposals?: LoyaltyRuleProposal[];
+}
+
+function describeTiers(tiers: Record<string, number>): string {
+  const entries = Object.entries(tiers);
+  return entries.length === 0 ? "—" : entries.map(([tier, count]) => `${tier} ${count}`).join(" · ");
+}
+
+export function LoyaltyPanel({ refreshKey, programName, runId, proposals }: LoyaltyPanelProps) {
+  const [summary, setSummary] = useState<LoyaltySummary | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [preview, setPreview] = useState<{ runId: string; result: LoyaltyPreview } | null>(null);
+  const [pending, setPending] = useState<"preview" | "apply" | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/loyalty")
+      .then((res) => {
+        if (!res.ok) throw new Error("Loyalty program unavailable");
+        return res.json() as Promise<LoyaltySummary>;
+      })
+      .then((data) => {
+        if (active) setSummary(data);
+      })
+      .catch((error) => {
+        console.error(error);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, reloadKey]);
+
+  const chosenIds = (proposals ?? []).filter((proposal) => selected[proposal.id] !== false).map((item) => item.id);
+
+  const send = async (action: "preview" | "apply") => {
+    if (!runId || chosenIds.length === 0) return;
+
+    setPending(action);
+    try {
+      const res = await fetch(`/api/loyalty/proposals/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ runId, proposalIds: chosenIds }),
+      });
+      const data = (await res.json()) as LoyaltyPreview & { applied?: string[]; error?: string };
+      if (!res.ok) throw new Error(data.error ?? `${action} failed`);
+
+      if (action === "preview") {
+        setPreview({ runId, result: data });
+      } else {
+        toast.success(`Applied ${data.applied?.length ?? 0} loyalty rule${data.applied?.length === 1 ? "" : "s"}.`);
+        setPreview(null);
+        setReloadKey((prev) => prev + 1);
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not reach the loyalty ledger.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const program = summary?.program;
+  const shownPreview = preview && preview.runId === runId ? preview.result : null;
+  const rows: Array<[string, (totals: LoyaltyPreviewTotals) => string]> = [
+    ["Points issued", (totals) => totals.pointsIssued.toLocaleString()],
+    ["Cost", (totals) => (program ? formatMoney(totals.cost, program.currency) : totals.cost.toFixed(2))],
+    ["Outstanding points", (totals) => totals.outstandingPoints.toLocaleString()],
+    ["Tiers", (totals) => describeTiers(totals.tiers)],
+  ];
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+        <Coins className="size-5 text-amber-300" /> {programName} Ledger
+      </h2>
+
+      {summary === null || !program ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading loyalty program…
+        </p>
+      ) : (
+        <div className="grid gap-2 text-xs text-slate-300 md:grid-cols-2">
+          <p>
+            {program.pointsPerUnit} pt per {program.currency} 1 ·{" "}
+            {program.expiryDays > 0 ? `expire after ${program.expiryDays} days` : "no expiry"}
+          </p>
+          <p>
+            {summary.customers} members · {summary.outstandingPoints.toLocaleString()} pts outstanding (
+            {formatMoney(summary.liability, program.currency)})
+          </p>
+          <p className="md:col-span-2 text-slate-400">
+            Tiers:{" "}
+            {program.tiers.map((tier) => `${tier.name} ${tier.minPoints}+ at ${tier.multiplier}x`).join(" · ")}
+          </p>
+          {program.multipliers.length > 0 && (
+            <p className="md:col-span-2 text-slate-400">
+              Multipliers:{" "}
+              {program.multipliers.map((rule) => `${rule.multiplier}x ${rule.scope} ${rule.match}`).join(" · ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {runId && proposals && proposals.length > 0 ? (
+        <div className="flex flex-col gap-3 border-t border-slate-700/60 pt-4 text-xs">
+          <p className="text-slate-400">Rules proposed by this plan</p>
+          <ul className="flex flex-col gap-2">
+            {proposals.map((proposal) => (
+              <li key={proposal.id}>
+                <label className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected[proposal.id] !== false}
+                    onChange={(event) => setSelected((prev) => ({ ...prev, [proposal.id]: event.target.checked }))}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-semibold text-slate-100">{proposal.summary}</span>
+                    <span className="block text-slate-500">“{proposal.source}”</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-3 text-slate-300">
+            <button
+              type="button"
+              disabled={pending !== null || chosenIds.length === 0}
+              onClick={() => send("preview")}
+              className="inline-flex items-center gap-1 transition hover:text-sky-200 disabled:opacity-50"
+            >
+              {pending === "preview" ? <LoaderCircle className="size-3 animate-spin" /> : <Eye className="size-3" />}
+              Preview against ledger
+            </button>
+            <button
+              type="button"
+              disabled={pending !== null || chosenIds.length === 0}
+              onClick={() => send("apply")}
+              className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+            >
+              {pending === "apply" ? <LoaderCircle className="size-3 animate-spin" /> : <Check className="size-3" />}
+              Apply
+            </button>
+          </div>
+
+          {shownPreview && (
+            <div className="overflow-x-auto">
+              <p className="mb-2 text-slate-500">
+                Last {shownPreview.days} days · {shownPreview.transactions} transactions ·{" "}
+                {shownPreview.tierChanges.length} tier change{shownPreview.tierChanges.length === 1 ? "" : "s"}
+              </p>
+              <table className="w-full text-left">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium" />
+                    <th className="py-1 pr-3 text-right font-medium">Current</th>
+                    <th className="py-1 text-right font-medium">Proposed</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {rows.map(([label, format]) => (
+                    <tr key={label} className="border-t border-slate-800">
+                      <td className="py-1 pr-3 text-slate-400">{label}</td>
+                      <td className="py-1 pr-3 text-right">{format(shownPreview.current)}</td>
+                      <td className="py-1 text-right">{format(shownPreview.proposed)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          Loyalty plans with concrete multipliers, tiers, expiry or earn rates show up here as rules to preview and apply.
+        </p>
+      )}
+    </div>
+  );
+}
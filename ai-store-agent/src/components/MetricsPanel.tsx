@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Gauge, LoaderCircle, RefreshCcw, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import type { MetricIngestResult, MetricTotals, Scorecard, TargetResult, TargetStatus } from "@/types/metrics";
+
+interface MetricsPanelProps {
+  refreshKey: number;
+  runId?: string;
+  replanning: boolean;
+  onReplan: (runId: string) => void;
+}
+
+const statusStyles: Record<TargetStatus, string> = {
+  "on-track": "border-emerald-400/60 text-emerald-200",
+  "off-track": "border-red-400/60 text-red-200",
+  "no-data": "border-slate-600/60 text-slate-400",
+};
+
+const metricLabels: Record<TargetResult["target"]["metric"], string> = {
+  spend: "Spend",
+  impressions: "Impressions",
+  clicks: "Clicks",
+  conversions: "Conversions",
+  revenue: "Revenue",
+  loyaltySignups: "Loyalty sign-ups",
+  roas: "ROAS",
+  cpa: "CPA",
+  ctr: "CTR",
+  conversionRate: "Conversion rate",
+};
+
+function formatMetric(metric: keyof MetricTotals, value: number | null): string {
+  if (value === null) return "—";
+  if (metric === "ctr" || metric === "conversionRate") return `${(value * 100).toFixed(2)}%`;
+  if (metric === "roas") return `${value.toFixed(2)}x`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+export function MetricsPanel({ refreshKey, runId, replanning, onReplan }: MetricsPanelProps) {
+  const [scorecard, setScorecard] = useState<Scorecard | null>(null);
+  const [loadedRunId, setLoadedRunId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!runId) return;
+    let active = true;
+
+    fetch(`/api/metrics/scorecard?${new URLSearchParams({ runId })}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Scorecard unavailable");
+        return res.json() as Promise<Scorecard>;
+      })
+      .then((data) => {
+        if (!active) return;
+        setScorecard(data);
+        setLoadedRunId(runId);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (!active) return;
+        setScorecard(null);
+        setLoadedRunId(runId);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, reloadKey, runId]);
+
+  const upload = async (file: File) => {
+    if (!runId) return;
+
+    setUploading(true);
+    try {
+      const res = await fetch(`/api/metrics?${new URLSearchParams({ runId })}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: file,
+      });
+      const data = (await res.json()) as MetricIngestResult & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Upload failed");
+
+      toast.success(
+        `Recorded ${data.created} new and ${data.updated} updated rows${
+          data.skipped.length > 0 ? `, ${data.skipped.length} skipped` : ""
+        }.`
+      );
+      setReloadKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not upload those metrics.");
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const current = runId && loadedRunId === runId ? scorecard : null;
+  const hasData = !!current?.from;
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <Gauge className="size-5 text-cyan-300" /> Performance
+        </h2>
+        {runId && (
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              disabled={uploading}
+              onClick={() => fileInput.current?.click()}
+              className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-cyan-200 disabled:opacity-50"
+            >
+              {uploading ? <LoaderCircle className="size-3 animate-spin" /> : <Upload className="size-3" />}
+              Upload metrics CSV
+            </button>
+            <button
+              type="button"
+              disabled={!hasData || replanning}
+              onClick={() => onReplan(runId)}
+              className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-cyan-200 disabled:opacity-50"
+            >
+              {replanning ? <LoaderCircle className="size-3 animate-spin" /> : <RefreshCcw className="size-3" />}
+              Re-plan with actuals
+            </button>
+          </div>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) void upload(file);
+          }}
+        />
+      </div>
+
+      {!runId ? (
+        <p className="text-xs text-slate-500">Run the agent to score its plan against daily performance.</p>
+      ) : loadedRunId !== runId ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading scorecard…
+        </p>
+      ) : !current || !hasData ? (
+        <p className="text-xs text-slate-500">
+          Upload a CSV with date, channel, task and spend, impressions, clicks, conversions, revenue or loyalty sign-ups
+          columns, or post rows to the metrics API. Each task is then scored against its success metric.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400">
+            {current.from} to {current.to} · {current.days} day{current.days === 1 ? "" : "s"} · ROAS{" "}
+            {formatMetric("roas", current.totals.roas)} · CPA {formatMetric("cpa", current.totals.cpa)} · CTR{" "}
+            {formatMetric("ctr", current.totals.ctr)}
+          </p>
+          {current.channels.length > 0 && (
+            <ul className="flex flex-wrap gap-2 text-[11px] text-slate-300">
+              {current.channels.map(({ channel, totals }) => (
+                <li key={channel} className="rounded-full border border-slate-700/60 px-2 py-0.5">
+                  {channel}: {formatMetric("spend", totals.spend)} spend · ROAS {formatMetric("roas", totals.roas)}
+                </li>
+              ))}
+            </ul>
+          )}
+          <ul className="flex flex-col gap-2">
+            {current.tasks.map((task) => (
+              <li key={task.index} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-3 text-xs">
+                <p className="font-semibold text-slate-100">
+                  #{task.index + 1} {task.title}
+                </p>
+                <p className="mt-1 text-slate-400">
+                  {task.successMetric}
+                  {task.scope === "run" && <span className="text-slate-500"> · scored on the whole run</span>}
+                </p>
+                {task.targets.length === 0 ? (
+                  <p className="mt-2 text-slate-500">No measurable target in this success metric.</p>
+                ) : (
+                  <ul className="mt-2 space-y-1">
+                    {task.targets.map((result) => (
+                      <li key={result.target.metric} className="flex flex-wrap items-center gap-2 text-slate-300">
+                        <span
+                          className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${statusStyles[result.status]}`}
+                        >
+                          {result.status}
+                        </span>
+                        {metricLabels[result.target.metric]} {result.target.direction === "min" ? "≥" : "≤"}{" "}
+                        {formatMetric(result.target.metric, result.expected)}
+                        <span className="text-slate-500">
+                          · actual {formatMetric(result.target.metric, result.actual)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
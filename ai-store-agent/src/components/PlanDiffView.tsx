@@ -0,0 +1,138 @@
+"use client";
+
+import { GitCompareArrows, X } from "lucide-react";
+
+import { formatDateTime } from "@/lib/format";
+import type { DiffStatus, ListItemDiff, RunComparison, TextDiffSegment } from "@/types/diff";
+
+interface PlanDiffViewProps {
+  comparison: RunComparison;
+  /** The active store's loyalty program name, for the loyalty heading. */
+  loyaltyName: string;
+  onClose: () => void;
+}
+
+const statusStyles: Record<DiffStatus, string> = {
+  added: "border-emerald-400/50 text-emerald-200",
+  removed: "border-red-400/50 text-red-200",
+  changed: "border-amber-400/50 text-amber-200",
+  unchanged: "border-slate-600/50 text-slate-400",
+};
+
+function TextDiff({ title, changed, segments }: { title: string; changed: boolean; segments: TextDiffSegment[] }) {
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-white">{title}</h3>
+        <span className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${statusStyles[changed ? "changed" : "unchanged"]}`}>
+          {changed ? "changed" : "unchanged"}
+        </span>
+      </div>
+      <p className="mt-2 leading-relaxed text-slate-300">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={
+              segment.type === "added"
+                ? "rounded bg-emerald-400/20 text-emerald-100"
+                : segment.type === "removed"
+                  ? "rounded bg-red-400/20 text-red-200 line-through"
+                  : undefined
+            }
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </section>
+  );
+}
+
+function ListDiff<T extends object>({
+  title,
+  items,
+  label,
+}: {
+  title: string;
+  items: Array<ListItemDiff<T>>;
+  label: (item: T) => string;
+}) {
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+      <h3 className="text-base font-semibold text-white">{title}</h3>
+      {items.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-500">Neither run produced items here.</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {items.map((item) => {
+            const current = (item.after ?? item.before) as T;
+            return (
+              <div key={`${item.status}-${item.key}`} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4 text-xs">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="font-semibold text-slate-100">{label(current)}</p>
+                  <span className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${statusStyles[item.status]}`}>
+                    {item.status}
+                  </span>
+                </div>
+                {item.status === "changed" && item.before && item.after && (
+                  <ul className="mt-2 space-y-1">
+                    {item.changedFields.map((field) => (
+                      <li key={field} className="text-slate-400">
+                        <span className="text-slate-300">{field}:</span>{" "}
+                        <span className="text-red-200 line-through">{String(item.before?.[field])}</span>{" "}
+                        → <span className="text-emerald-200">{String(item.after?.[field])}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
+
+export function PlanDiffView({ comparison, loyaltyName, onClose }: PlanDiffViewProps) {
+  const { base, target, diff } = comparison;
+
+  return (
+    <div className="glass-panel rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <GitCompareArrows className="size-5 text-amber-300" /> Plan Comparison
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full p-1 text-slate-400 transition hover:text-slate-200"
+        >
+          <X className="size-4" />
+        </button>
+      </div>
+      <div className="mt-3 grid gap-3 text-xs text-slate-400 md:grid-cols-2">
+        <p>
+          <span className="font-semibold text-red-200">Before</span> · {formatDateTime(base.createdAt)}
+          <span className="mt-1 block text-slate-300">{base.objective}</span>
+        </p>
+        <p>
+          <span className="font-semibold text-emerald-200">After</span> · {formatDateTime(target.createdAt)}
+          <span className="mt-1 block text-slate-300">{target.objective}</span>
+        </p>
+      </div>
+
+      <div className="mt-4 space-y-6">
+        <TextDiff title="Executive Summary" {...diff.executiveSummary} />
+        <ListDiff title="Task Matrix" items={diff.taskMatrix} label={(task) => task.title} />
+        <ListDiff title="Automations" items={diff.automations} label={(automation) => automation.title} />
+        <ListDiff title="Channel Playbooks" items={diff.channelPlaybooks} label={(playbook) => playbook.channel} />
+        <ListDiff title="Paid Media Strategy" items={diff.adStrategy} label={(ad) => ad.platform} />
+        <div className="grid gap-4 md:grid-cols-2">
+          <TextDiff title="SU / SEO" {...diff.seoPlan} />
+          <TextDiff title={`${loyaltyName} Loyalty`} {...diff.loyaltyPlan} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, FileText, LoaderCircle, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatDateTime } from "@/lib/format";
+import { formatKpiChange, formatKpiValue } from "@/lib/reports/render";
+import type { GrowthReport, ReportSchedule } from "@/types/reports";
+
+interface ReportsPanelProps {
+  refreshKey: number;
+}
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function ReportList({ title, items, className }: { title: string; items: string[]; className: string }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="text-[11px] uppercase tracking-wide text-slate-500">{title}</p>
+      <ul className={`mt-1 list-disc space-y-1 pl-4 ${className}`}>
+        {items.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function ReportsPanel({ refreshKey }: ReportsPanelProps) {
+  const [reports, setReports] = useState<GrowthReport[] | null>(null);
+  const [schedule, setSchedule] = useState<ReportSchedule | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/reports")
+      .then((res) => {
+        if (!res.ok) throw new Error("Reports unavailable");
+        return res.json() as Promise<{ reports: GrowthReport[] }>;
+      })
+      .then((data) => {
+        if (active) setReports(data.reports);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setReports([]);
+      });
+
+    fetch("/api/reports/schedule")
+      .then((res) => (res.ok ? (res.json() as Promise<ReportSchedule>) : null))
+      .then((data) => {
+        if (active) setSchedule(data);
+      })
+      .catch((error) => console.error(error));
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey, reloadKey]);
+
+  const generate = async () => {
+    setGenerating(true);
+    try {
+      const res = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = (await res.json()) as GrowthReport & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Report failed");
+      setSelectedId(data.id);
+      toast.success(`Report for ${data.from} to ${data.to} is ready.`);
+      setReloadKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not generate the report.");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      const res = await fetch(`/api/reports/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setReports((prev) => prev?.filter((report) => report.id !== id) ?? null);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not delete that report.");
+    }
+  };
+
+  const saveSchedule = async (change: Partial<ReportSchedule>) => {
+    if (!schedule) return;
+    try {
+      const res = await fetch("/api/reports/schedule", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          enabled: change.enabled ?? schedule.enabled,
+          weekday: change.weekday ?? schedule.weekday,
+          hour: change.hour ?? schedule.hour,
+        }),
+      });
+      if (!res.ok) throw new Error("Schedule update failed");
+      setSchedule((await res.json()) as ReportSchedule);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not update the report schedule.");
+    }
+  };
+
+  const selected = reports?.find((report) => report.id === selectedId) ?? reports?.[0] ?? null;
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <FileText className="size-5 text-violet-300" /> Growth Reports
+        </h2>
+        <button
+          type="button"
+          disabled={generating}
+          onClick={generate}
+          className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-violet-200 disabled:opacity-50"
+        >
+          {generating ? <LoaderCircle className="size-3 animate-spin" /> : <FileText className="size-3" />}
+          Draft weekly report
+        </button>
+      </div>
+
+      {schedule && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={schedule.enabled}
+              onChange={(event) => saveSchedule({ enabled: event.target.checked })}
+            />
+            Generate every
+          </label>
+          <select
+            value={schedule.weekday}
+            onChange={(event) => saveSchedule({ weekday: Number(event.target.value) })}
+            className="rounded-lg border border-slate-700/60 bg-slate-900/60 px-2 py-1 text-slate-200"
+          >
+            {weekdays.map((day, index) => (
+              <option key={day} value={index}>
+                {day}
+              </option>
+            ))}
+          </select>
+          <span>at {String(schedule.hour).padStart(2, "0")}:00 UTC</span>
+          {schedule.lastRunAt && <span className="text-slate-500">· last ran {formatDateTime(schedule.lastRunAt)}</span>}
+        </div>
+      )}
+
+      {reports === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading reports…
+        </p>
+      ) : !selected ? (
+        <p className="text-xs text-slate-500">
+          Reports roll up the week&apos;s runs, approvals, automation executions and performance metrics into KPIs,
+          wins, misses and next actions.
+        </p>
+      ) : (
+        <>
+          {reports.length > 1 && (
+            <select
+              value={selected.id}
+              onChange={(event) => setSelectedId(event.target.value)}
+              className="rounded-lg border border-slate-700/60 bg-slate-900/60 px-2 py-1 text-xs text-slate-200"
+            >
+              {reports.map((report) => (
+                <option key={report.id} value={report.id}>
+                  {report.from} to {report.to}
+                  {report.trigger === "schedule" ? " (scheduled)" : ""}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="font-semibold text-slate-100">
+                {selected.from} to {selected.to}
+              </p>
+              <span className="text-slate-500">generated {formatDateTime(selected.generatedAt)}</span>
+              <div className="ml-auto flex items-center gap-3 text-slate-300">
+                {(["markdown", "html"] as const).map((format) => (
+                  <a
+                    key={format}
+                    href={`/api/reports/${selected.id}?format=${format}`}
+                    className="inline-flex items-center gap-1 transition hover:text-violet-200"
+                  >
+                    <Download className="size-3" /> {format === "markdown" ? "Markdown" : "HTML"}
+                  </a>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => remove(selected.id)}
+                  className="text-slate-500 transition hover:text-red-400"
+                >
+                  <Trash2 className="size-3" />
+                </button>
+              </div>
+            </div>
+
+            <p className="mt-3 whitespace-pre-line text-slate-300">{selected.narrative.text}</p>
+
+            <table className="mt-3 w-full text-left">
+              <thead className="text-[11px] uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-1 font-normal">KPI</th>
+                  <th className="py-1 font-normal">This period</th>
+                  <th className="py-1 font-normal">Change</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {selected.kpis.map((kpi) => (
+                  <tr key={kpi.label} className="border-t border-slate-800">
+                    <td className="py-1">{kpi.label}</td>
+                    <td className="py-1">{formatKpiValue(kpi, kpi.value)}</td>
+                    <td className="py-1 text-slate-400">{formatKpiChange(kpi.change)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-3 flex flex-col gap-3">
+              <ReportList title="Wins" items={selected.wins} className="text-emerald-200/90" />
+              <ReportList title="Misses" items={selected.misses} className="text-red-200/90" />
+              <ReportList title="Next actions" items={selected.nextActions} className="text-slate-200" />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
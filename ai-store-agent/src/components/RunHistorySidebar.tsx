@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Copy, FolderOpen, GitCompareArrows, History, LoaderCircle, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatDateTime } from "@/lib/format";
+import type { AgentRunRecord, AgentRunSummary } from "@/types/runs";
+
+interface RunHistorySidebarProps {
+  refreshKey: number;
+  activeRunId?: string;
+  onOpen: (run: AgentRunRecord) => void;
+  onClone: (run: AgentRunRecord) => void;
+  onCompare: (baseId: string, targetId: string) => void;
+}
+
+export function RunHistorySidebar({
+  refreshKey,
+  activeRunId,
+  onOpen,
+  onClone,
+  onCompare,
+}: RunHistorySidebarProps) {
+  const [runs, setRuns] = useState<AgentRunSummary[] | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/runs")
+      .then((res) => {
+        if (!res.ok) throw new Error("Run history unavailable");
+        return res.json() as Promise<{ runs: AgentRunSummary[] }>;
+      })
+      .then((data) => {
+        if (active) setRuns(data.runs);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setRuns([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey]);
+
+  const loadRun = async (id: string, handler: (run: AgentRunRecord) => void) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/runs/${id}`);
+      if (!res.ok) throw new Error("Run not found");
+      handler((await res.json()) as AgentRunRecord);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not load that run.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const deleteRun = async (id: string) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/runs/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      setRuns((prev) => prev?.filter((run) => run.id !== id) ?? null);
+      setCompareIds((prev) => prev.filter((item) => item !== id));
+      toast.success("Run removed from history.");
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not delete that run.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const compareSelected = () => {
+    const [first, second] = (runs ?? [])
+      .filter((run) => compareIds.includes(run.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    if (first && second) onCompare(first.id, second.id);
+  };
+
+  return (
+    <aside className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <History className="size-5 text-amber-300" /> Run History
+        </h2>
+        {compareIds.length === 2 && (
+          <button
+            type="button"
+            onClick={compareSelected}
+            className="inline-flex items-center gap-1 rounded-full border border-amber-400/60 px-3 py-1 text-xs text-amber-100 transition hover:border-amber-300"
+          >
+            <GitCompareArrows className="size-3" /> Compare
+          </button>
+        )}
+      </div>
+
+      {runs === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading past runs…
+        </p>
+      ) : runs.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Completed runs are archived here so you can reopen a blueprint or clone its brief.
+        </p>
+      ) : (
+        <ul className="scroll-shadow-y flex max-h-[640px] flex-col gap-3 overflow-y-auto">
+          {runs.map((run) => (
+            <li
+              key={run.id}
+              className={`rounded-2xl border p-3 text-xs ${
+                run.id === activeRunId
+                  ? "border-emerald-400/60 bg-emerald-400/5"
+                  : "border-slate-700/60 bg-slate-900/30"
+              }`}
+            >
+              <p className="line-clamp-2 font-medium text-slate-100">{run.objective}</p>
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-slate-500">
+                <span>{formatDateTime(run.createdAt)}</span>
+                {run.createdBy && <span>by {run.createdBy.name}</span>}
+                {run.usedSample && (
+                  <span className="rounded-full border border-amber-400/40 px-2 py-0.5 text-[10px] uppercase tracking-wide text-amber-200">
+                    Sample
+                  </span>
+                )}
+              </div>
+              <div className="mt-3 flex items-center gap-3 text-slate-300">
+                <button
+                  type="button"
+                  disabled={pendingId === run.id}
+                  onClick={() => loadRun(run.id, onOpen)}
+                  className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+                >
+                  <FolderOpen className="size-3" /> Open
+                </button>
+                <button
+                  type="button"
+                  disabled={pendingId === run.id}
+                  onClick={() => loadRun(run.id, onClone)}
+                  className="inline-flex items-center gap-1 transition hover:text-indigo-200 disabled:opacity-50"
+                >
+                  <Copy className="size-3" /> Clone brief
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggleCompare(run.id)}
+                  className={`inline-flex items-center gap-1 transition hover:text-amber-200 ${
+                    compareIds.includes(run.id) ? "text-amber-200" : ""
+                  }`}
+                >
+                  <GitCompareArrows className="size-3" /> Diff
+                </button>
+                <button
+                  type="button"
+                  disabled={pendingId === run.id}
+                  onClick={() => deleteRun(run.id)}
+                  className="ml-auto text-slate-500 transition hover:text-red-400 disabled:opacity-50"
+                >
+                  <Trash2 className="size-3" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
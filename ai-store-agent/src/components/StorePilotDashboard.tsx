@@ -1,12 +1,16 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   ArrowRight,
   BadgeCheck,
   Check,
+  CircleStop,
+  Download,
   FileImage,
   LoaderCircle,
+  Package,
   Rocket,
   Sparkles,
   Target,
@@ -15,52 +19,56 @@ import {
 } from "lucide-react";
 import { toast } from "sonner";
 
+import { AccountPanel } from "@/components/AccountPanel";
+import { AdLaunchesPanel } from "@/components/AdLaunchesPanel";
+import { ApprovalQueuePanel } from "@/components/ApprovalQueuePanel";
+import { AutomationRulesPanel } from "@/components/AutomationRulesPanel";
+import { BriefTemplatePicker } from "@/components/BriefTemplatePicker";
+import { BudgetAllocationTable, BudgetNoteFlag } from "@/components/BudgetAllocationTable";
+import { CatalogLinkedText, CatalogReferenceList } from "@/components/CatalogLinks";
+import { ExperimentsPanel } from "@/components/ExperimentsPanel";
+import { GuardrailsPanel } from "@/components/GuardrailsPanel";
+import { InventoryAlertsPanel } from "@/components/InventoryAlertsPanel";
+import { LoyaltyPanel } from "@/components/LoyaltyPanel";
+import { MetricsPanel } from "@/components/MetricsPanel";
+import { PlanDiffView } from "@/components/PlanDiffView";
+import { ReportsPanel } from "@/components/ReportsPanel";
+import { RunHistorySidebar } from "@/components/RunHistorySidebar";
+import { SupportTriagePanel } from "@/components/SupportTriagePanel";
+import { UsagePanel } from "@/components/UsagePanel";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
 import { CAPABILITIES } from "@/lib/capabilities";
+import { ISO_4217_CODES, convertAmount, isCurrencyCode } from "@/lib/currency";
+import { formatMoney } from "@/lib/format";
+import { mediaContentUrl, uploadMediaFile } from "@/lib/media-client";
+import { MEDIA_MIME_TYPES, MEDIA_SIZE_LIMITS, formatBytes } from "@/lib/media-limits";
+import { AGENT_SECTION_ORDER, AGENT_STREAM_CONTENT_TYPE, readAgentStream } from "@/lib/plan-stream";
 import { SAMPLE_AGENT_RESPONSE } from "@/lib/sample-plan";
-import type { AgentResponse, MediaAttachment } from "@/types/agent";
-
-const focusOptions = [
-  { label: "Catalog", value: "catalog" },
-  { label: "Sales", value: "sales" },
-  { label: "Aeon Money", value: "loyalty" },
-  { label: "SU / SEO", value: "seo" },
-  { label: "Automation", value: "automation" },
-  { label: "Ads", value: "ads" },
-  { label: "Support", value: "support" },
- ] as const;
-
-const channelOptions = [
-  { label: "Instagram", value: "instagram" },
-  { label: "TikTok", value: "tiktok" },
-  { label: "YouTube", value: "youtube" },
-  { label: "Email", value: "email" },
-  { label: "Meta Ads", value: "meta-ads" },
-  { label: "Google Ads", value: "google-ads" },
-  { label: "Marketplace", value: "marketplace" },
-  { label: "In-store", value: "instore" },
- ] as const;
-
-type FocusKey = (typeof focusOptions)[number]["value"];
-type ChannelKey = (typeof channelOptions)[number]["value"];
-
-const taskLibrary = [
-  "List new arrivals with price testing",
-  "Launch Meta and Google campaigns",
-  "Schedule daily social drops",
-  "Refresh Aeon Money rewards",
-  "Draft weekly growth report",
-  "Monitor inventory gaps",
-  "Escalate support tickets",
-  "Coordinate influencer outreach",
-];
-
-const toneOptions = [
-  "Energetic merchandiser",
-  "Luxury concierge",
-  "Playful trendsetter",
-  "Data-first strategist",
-  "Calm professional",
-];
+import {
+  CHANNEL_OPTIONS,
+  DEFAULT_TEAM_LIBRARY,
+  DEFAULT_TONES,
+  FOCUS_OPTIONS,
+  isChannelKey,
+  type ChannelKey,
+  type FocusKey,
+} from "@/lib/templates/options";
+import { DEFAULT_BRAND_PROFILE } from "@/lib/workspaces/scope";
+import type {
+  AgentBrief,
+  AgentFallbackReason,
+  AgentOutput,
+  AgentResponse,
+  ExportFormat,
+  MediaAnalysis,
+  MediaAttachment,
+} from "@/types/agent";
+import type { CurrencySettings } from "@/types/currency";
+import type { RunComparison } from "@/types/diff";
+import type { ProviderId } from "@/types/provider";
+import type { AgentRunRecord } from "@/types/runs";
+import type { BriefTemplate, TeamLibrary, TemplateBrief } from "@/types/templates";
+import type { BrandProfile, Workspace } from "@/types/workspaces";
 
 interface FormState {
   objective: string;
@@ -73,6 +81,7 @@ interface FormState {
   budgetCurrency: string;
   budgetCadence: "daily" | "weekly" | "monthly";
   budgetPlatform: "meta" | "google" | "both" | "";
+  provider: ProviderId | "";
   customTask: string;
   media: MediaAttachment[];
 }
@@ -82,12 +91,13 @@ const initialState: FormState = {
   focusAreas: ["catalog", "sales", "loyalty"],
   targetChannels: ["instagram", "google-ads", "meta-ads"],
   tasks: ["List new arrivals with price testing"],
-  tone: toneOptions[0],
+  tone: DEFAULT_TONES[0],
   constraints: "Respect brand tone, stay compliant, and surface approvals as needed.",
   budgetAmount: "5000",
   budgetCurrency: "USD",
   budgetCadence: "monthly",
   budgetPlatform: "both",
+  provider: "",
   customTask: "",
   media: [],
 };
@@ -98,13 +108,171 @@ const budgetCadenceLabels: Record<FormState["budgetCadence"], string> = {
   monthly: "Monthly",
 };
 
+const providerLabels: Record<FormState["provider"], string> = {
+  "": "Server default",
+  "openai-responses": "OpenAI Responses",
+  "openai-chat": "Chat Completions (OpenAI-compatible)",
+  mock: "Offline mock",
+};
+
+/** Fills the form from a past run's brief or a template; templates keep the staged media. */
+function briefToFormState(brief: TemplateBrief & Partial<Pick<AgentBrief, "media">>, current: FormState): FormState {
+  return {
+    ...current,
+    objective: brief.objective,
+    focusAreas: brief.focusAreas,
+    targetChannels: brief.targetChannels.filter(isChannelKey),
+    tasks: brief.tasks,
+    tone: brief.tone ?? initialState.tone,
+    constraints: brief.constraints ?? "",
+    budgetAmount: brief.budget ? String(brief.budget.amount) : "",
+    budgetCurrency: brief.budget?.currency ?? current.budgetCurrency,
+    budgetCadence: brief.budget?.cadence ?? initialState.budgetCadence,
+    budgetPlatform: brief.budget?.platform ?? "",
+    customTask: "",
+    media: brief.media ?? current.media,
+  };
+}
+
+/** The blank brief for a store: its default currency, and only the channels it runs. */
+function withStoreDefaults(state: FormState, profile: BrandProfile): FormState {
+  return {
+    ...state,
+    targetChannels: state.targetChannels.filter((channel) => profile.enabledChannels.includes(channel)),
+    budgetCurrency: profile.defaultCurrency,
+  };
+}
+
+function formToTemplateBrief(state: FormState): TemplateBrief {
+  const amount = Number(state.budgetAmount);
+  return {
+    objective: state.objective.trim(),
+    focusAreas: state.focusAreas,
+    targetChannels: state.targetChannels,
+    tasks: state.tasks,
+    tone: state.tone || undefined,
+    constraints: state.constraints || undefined,
+    budget:
+      amount > 0 && isCurrencyCode(state.budgetCurrency)
+        ? {
+            amount,
+            currency: state.budgetCurrency,
+            cadence: state.budgetCadence,
+            platform: state.budgetPlatform === "" ? undefined : state.budgetPlatform,
+          }
+        : undefined,
+  };
+}
+
+const exportOptions: Array<{ label: string; format: ExportFormat }> = [
+  { label: "Markdown", format: "markdown" },
+  { label: "CSV", format: "csv" },
+  { label: "Calendar", format: "ics" },
+];
+
+const fallbackLabels: Record<AgentFallbackReason, string> = {
+  "missing-api-key": "No model API key is configured, so the sample blueprint is shown.",
+  "model-error": "The model call failed, so the sample blueprint is shown.",
+  "invalid-output": "The model output failed validation after every retry, so the sample blueprint is shown.",
+};
+
 export function StorePilotDashboard() {
   const [form, setForm] = useState<FormState>(initialState);
   const [submitting, setSubmitting] = useState(false);
   const [agentResponse, setAgentResponse] = useState<AgentResponse | null>(null);
+  const [streamedPlan, setStreamedPlan] = useState<Partial<AgentOutput> | null>(null);
   const [showRaw, setShowRaw] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [automationKey, setAutomationKey] = useState(0);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [analyzingIds, setAnalyzingIds] = useState<string[]>([]);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings | null>(null);
+  const [templates, setTemplates] = useState<BriefTemplate[] | null>(null);
+  const [library, setLibrary] = useState<TeamLibrary>(DEFAULT_TEAM_LIBRARY);
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [storeKey, setStoreKey] = useState(0);
+  const runController = useRef<AbortController | null>(null);
+  const defaultTemplateApplied = useRef(false);
+
+  useEffect(() => {
+    fetch("/api/fx")
+      .then((res) => (res.ok ? (res.json() as Promise<CurrencySettings>) : null))
+      .then(setCurrencySettings)
+      .catch((error) => console.error(error));
+  }, []);
+
+  useEffect(() => {
+    let active = true;
 
-  const hasObjective = form.objective.trim().length > 10;
+    Promise.all([
+      fetch("/api/templates").then((res) => {
+        if (!res.ok) throw new Error("Templates unavailable");
+        return res.json() as Promise<{ templates: BriefTemplate[]; library: TeamLibrary }>;
+      }),
+      fetch("/api/workspaces").then((res) => {
+        if (!res.ok) throw new Error("Stores unavailable");
+        return res.json() as Promise<{ workspaces: Workspace[]; activeId: string | null }>;
+      }),
+    ])
+      .then(([data, stores]) => {
+        if (!active) return;
+        setTemplates(data.templates);
+        setLibrary(data.library);
+        setWorkspaces(stores.workspaces);
+        setActiveWorkspaceId(stores.activeId);
+
+        if (defaultTemplateApplied.current) return;
+        defaultTemplateApplied.current = true;
+        const profile = stores.workspaces.find((store) => store.id === stores.activeId)?.profile;
+        const blank = withStoreDefaults(initialState, profile ?? DEFAULT_BRAND_PROFILE);
+        const preset = data.templates.find((template) => template.id === data.library.defaultTemplateId);
+        setForm((prev) => (prev === initialState ? (preset ? briefToFormState(preset.brief, blank) : blank) : prev));
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) {
+          setTemplates([]);
+          setWorkspaces([]);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [storeKey]);
+
+  const activeWorkspace = workspaces?.find((store) => store.id === activeWorkspaceId) ?? null;
+  const profile = activeWorkspace?.profile ?? DEFAULT_BRAND_PROFILE;
+  const loyaltyName = profile.loyaltyProgramName;
+
+  const blueprint = agentResponse?.plan ?? streamedPlan;
+  const skuReferences = blueprint?.catalogReferences;
+  const diagnostics = agentResponse?.diagnostics;
+  const showDiagnostics =
+    !!diagnostics && (!!diagnostics.fallback || diagnostics.repaired || diagnostics.attempts > 1);
+  const streamedSectionCount = streamedPlan ? Object.keys(streamedPlan).length : 0;
+
+  const budgetCurrencyValid = isCurrencyCode(form.budgetCurrency);
+
+  const reportingBudget = useMemo(() => {
+    const amount = Number(form.budgetAmount);
+    if (!currencySettings || !budgetCurrencyValid || !(amount > 0)) return null;
+    if (form.budgetCurrency === currencySettings.reportingCurrency) return null;
+
+    const converted = convertAmount(
+      currencySettings.table,
+      amount,
+      form.budgetCurrency,
+      currencySettings.reportingCurrency
+    );
+    return converted === null
+      ? `No exchange rate from ${form.budgetCurrency} to ${currencySettings.reportingCurrency}.`
+      : `≈ ${formatMoney(converted, currencySettings.reportingCurrency)} at rates as of ${currencySettings.table.asOf}`;
+  }, [budgetCurrencyValid, currencySettings, form.budgetAmount, form.budgetCurrency]);
+
+  const toneChoices = library.tones.includes(form.tone) || !form.tone ? library.tones : [...library.tones, form.tone];
 
   const derivedStats = useMemo(() => {
     const mediaImages = form.media.filter((item) => item.kind === "image");
@@ -126,91 +294,157 @@ export function StorePilotDashboard() {
       : [...list, value];
   };
 
-  const handleMediaUpload = async (files: FileList | null) => {
-    if (!files || files.length === 0) return;
-
-    const loaders = Array.from(files).map(
-      (file) =>
-        new Promise<MediaAttachment>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-            const dataUrl = reader.result;
-            if (typeof dataUrl !== "string") {
-              reject(new Error("Unable to read asset"));
-              return;
-            }
-
-            const kind = file.type.startsWith("video") ? "video" : "image";
-
-            resolve({
-              id: crypto.randomUUID(),
-              name: file.name,
-              kind,
-              dataUrl,
-              notes: kind === "video" ? "Auto-trim to 15s snippets" : "Ensure alt text references Aeon Money.",
-            });
-          };
-          reader.onerror = () => reject(reader.error ?? new Error("File read error"));
-          reader.readAsDataURL(file);
-        })
-    );
+  const handleMediaUpload = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const files = Array.from(fileList);
+    setUploadingCount((count) => count + files.length);
+
+    const results = await Promise.allSettled(files.map(uploadMediaFile));
+    setUploadingCount((count) => count - files.length);
+
+    const assets: MediaAttachment[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error(result.reason);
+        const reason = result.reason instanceof Error ? result.reason.message : "Upload failed";
+        toast.error(`${files[index].name}: ${reason}`);
+        return;
+      }
+
+      const { id, name, kind } = result.value;
+      assets.push({
+        id,
+        name,
+        kind,
+        notes: kind === "video" ? "Auto-trim to 15s snippets" : `Ensure alt text references ${loyaltyName}.`,
+      });
+    });
+
+    if (assets.length === 0) return;
+    setForm((prev) => ({ ...prev, media: [...prev.media, ...assets] }));
+    toast.success(`${assets.length} asset(s) staged for the agent.`);
+    assets.forEach(analyzeAsset);
+  };
+
+  const analyzeAsset = async (asset: MediaAttachment) => {
+    setAnalyzingIds((prev) => [...prev, asset.id]);
 
     try {
-      const assets = await Promise.all(loaders);
-      setForm((prev) => ({ ...prev, media: [...prev.media, ...assets] }));
-      toast.success(`${assets.length} asset(s) staged for the agent.`);
+      const res = await fetch("/api/media/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          assetId: asset.id,
+          notes: asset.notes,
+          channels: form.targetChannels,
+          provider: form.provider === "" ? undefined : { id: form.provider },
+        }),
+      });
+
+      if ([422, 429].includes(res.status)) {
+        // Over a budget, or a model that cannot be costed while one is set.
+        const data = (await res.json()) as { error: string };
+        toast.error(data.error);
+        return;
+      }
+      if (!res.ok) throw new Error("Media analysis failed");
+
+      const { analysis } = (await res.json()) as { analysis: MediaAnalysis };
+      setForm((prev) => ({
+        ...prev,
+        media: prev.media.map((item) => (item.id === asset.id ? { ...item, analysis } : item)),
+      }));
     } catch (error) {
       console.error(error);
-      toast.error("Could not parse one of the files.");
+      toast.error(`Could not analyze ${asset.name}.`);
+    } finally {
+      setAnalyzingIds((prev) => prev.filter((id) => id !== asset.id));
     }
   };
 
-  const handleSubmit = async () => {
-    if (!hasObjective) {
+  const startRun = async (state: FormState, replanOf?: string) => {
+    if (state.objective.trim().length <= 10) {
       toast.error("Describe what you need the agent to accomplish.");
       return;
     }
 
+    if (state.budgetAmount.trim() !== "" && !isCurrencyCode(state.budgetCurrency)) {
+      toast.error("Use an ISO 4217 currency code such as USD or EUR for the budget.");
+      return;
+    }
+
     setSubmitting(true);
     setShowRaw(false);
+    setAgentResponse(null);
+    setStreamedPlan({});
+
+    const controller = new AbortController();
+    runController.current = controller;
 
     const payload = {
-      objective: form.objective,
-      focusAreas: form.focusAreas,
-      targetChannels: form.targetChannels,
-      tasks: form.tasks,
-      tone: form.tone,
-      constraints: form.constraints,
+      objective: state.objective,
+      focusAreas: state.focusAreas,
+      targetChannels: state.targetChannels,
+      tasks: state.tasks,
+      tone: state.tone,
+      constraints: state.constraints,
       budget:
-        form.budgetAmount.trim() === ""
+        state.budgetAmount.trim() === ""
           ? undefined
           : {
-              amount: Number(form.budgetAmount),
-              currency: form.budgetCurrency || "USD",
-              cadence: form.budgetCadence,
-              platform: form.budgetPlatform === "" ? undefined : form.budgetPlatform,
+              amount: Number(state.budgetAmount),
+              currency: state.budgetCurrency,
+              cadence: state.budgetCadence,
+              platform: state.budgetPlatform === "" ? undefined : state.budgetPlatform,
             },
-      media: form.media.map((item) => ({
+      provider: state.provider === "" ? undefined : { id: state.provider },
+      replanOf,
+      media: state.media.map((item) => ({
         id: item.id,
         name: item.name,
         kind: item.kind,
-        dataUrl: item.dataUrl,
         notes: item.notes,
+        analysis: item.analysis,
       })),
     };
 
     try {
       const res = await fetch("/api/agent", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Accept: AGENT_STREAM_CONTENT_TYPE,
+        },
         body: JSON.stringify(payload),
+        signal: controller.signal,
       });
 
-      if (!res.ok) {
+      if (res.status === 401) {
+        window.location.assign("/login");
+        return;
+      }
+      if ([403, 404, 422, 429].includes(res.status)) {
+        // Missing role, unknown run or store, unpriced model, rate limit or budget: show why rather than loading the sample plan.
+        const data = (await res.json()) as { error: string };
+        toast.error(data.error);
+        return;
+      }
+
+      if (!res.ok || !res.body) {
         throw new Error("Agent returned an error");
       }
 
-      const data = (await res.json()) as AgentResponse;
+      const data = await readAgentStream(
+        res.body,
+        (section) => setStreamedPlan((prev) => ({ ...prev, [section.key]: section.value })),
+        () => setStreamedPlan({})
+      );
+
+      if (!data) {
+        throw new Error("Agent stream ended early");
+      }
+
       setAgentResponse(data);
       toast.success(
         data.usedSample
@@ -218,13 +452,122 @@ export function StorePilotDashboard() {
           : "StorePilot run complete."
       );
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info("Run cancelled. Sections received so far are kept.");
+        return;
+      }
       console.error(error);
       toast.error("Could not reach the agent. A sample plan has been loaded.");
       setAgentResponse(
         JSON.parse(JSON.stringify(SAMPLE_AGENT_RESPONSE)) as AgentResponse
       );
     } finally {
+      runController.current = null;
       setSubmitting(false);
+      setHistoryKey((prev) => prev + 1);
+    }
+  };
+
+  const handleSubmit = () => startRun(form);
+
+  const replanRun = async (runId: string) => {
+    try {
+      const res = await fetch(`/api/runs/${runId}`);
+      if (!res.ok) throw new Error("Run not found");
+      const run = (await res.json()) as AgentRunRecord;
+      const state = briefToFormState(run.brief, form);
+      setForm(state);
+      await startRun(state, runId);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not load that run to re-plan it.");
+    }
+  };
+
+  const openRun = (run: AgentRunRecord) => {
+    setAgentResponse(run.response);
+    setStreamedPlan(null);
+    setShowRaw(false);
+  };
+
+  const cloneRun = (run: AgentRunRecord) => {
+    setForm((prev) => briefToFormState(run.brief, prev));
+    toast.success("Brief cloned into the form.");
+  };
+
+  const applyTemplate = (template: BriefTemplate) => {
+    setForm((prev) => briefToFormState(template.brief, prev));
+    toast.success(`Brief filled from "${template.name}".`);
+  };
+
+  const cancelRun = () => {
+    runController.current?.abort();
+  };
+
+  const compareRuns = async (baseId: string, targetId: string) => {
+    try {
+      const params = new URLSearchParams({ base: baseId, target: targetId });
+      const res = await fetch(`/api/runs/compare?${params}`);
+      if (!res.ok) throw new Error("Comparison failed");
+      setComparison((await res.json()) as RunComparison);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not compare those runs.");
+    }
+  };
+
+  const exportPlan = async (format: ExportFormat) => {
+    if (!agentResponse) return;
+
+    const locale = navigator.language;
+
+    try {
+      const res = agentResponse.runId
+        ? await fetch(`/api/agent/export?${new URLSearchParams({ runId: agentResponse.runId, format, locale })}`)
+        : await fetch("/api/agent/export", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ format, plan: agentResponse.plan, locale }),
+          });
+
+      if (!res.ok) throw new Error("Export failed");
+
+      const filename =
+        res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `storepilot-plan.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not export the plan.");
+    }
+  };
+
+  const saveAutomationRules = async () => {
+    if (!agentResponse) return;
+
+    try {
+      const res = await fetch("/api/automations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          agentResponse.runId ? { runId: agentResponse.runId } : { automations: agentResponse.plan.automations }
+        ),
+      });
+      if (!res.ok) throw new Error("Rule import failed");
+      const { rules } = (await res.json()) as { rules: unknown[] };
+      toast.success(
+        rules.length === 0
+          ? "These automations are already saved as rules."
+          : `Saved ${rules.length} rule${rules.length === 1 ? "" : "s"}; review and enable them below.`
+      );
+      setAutomationKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not save the automations as rules.");
     }
   };
 
@@ -258,519 +601,786 @@ export function StorePilotDashboard() {
           <span className="inline-flex items-center gap-2 rounded-full border border-slate-600/50 px-4 py-1">
             <Workflow className="size-4" /> SU + Ads + Loyalty
           </span>
+          <Link
+            href="/catalog"
+            className="inline-flex items-center gap-2 rounded-full border border-slate-600/50 px-4 py-1 transition hover:border-sky-400/60 hover:text-sky-200"
+          >
+            <Package className="size-4" /> Catalog
+          </Link>
+        </div>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            active={activeWorkspace}
+            onChange={() => setStoreKey((prev) => prev + 1)}
+          />
+          <AccountPanel />
         </div>
         <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
           <div className="max-w-3xl space-y-3">
             <h1 className="text-3xl font-semibold text-white md:text-4xl">
-              Deploy an AI operator that ships listings, campaigns, and Aeon Money flows on autopilot.
+              Deploy an AI operator that ships listings, campaigns, and {loyaltyName} flows on autopilot.
             </h1>
             <p className="text-base text-slate-300 md:text-lg">
               Feed StorePilot your objectives, media, and guardrails. It will plan catalog tasks, schedule
-              SU pushes, launch Meta / Google ads, and keep Aeon Money loyalty humming even when you are offline.
+              SU pushes, launch Meta / Google ads, and keep {loyaltyName} loyalty humming even when you are offline.
             </p>
           </div>
-          <button
-            type="button"
-            onClick={handleSubmit}
-            disabled={submitting}
-            className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-3 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-700/60"
-          >
-            {submitting ? (
-              <>
-                <LoaderCircle className="size-4 animate-spin" />
-                Thinking
-              </>
-            ) : (
-              <>
-                Launch Run
-                <ArrowRight className="size-4" />
-              </>
+          <div className="flex items-center gap-3">
+            {submitting && (
+              <button
+                type="button"
+                onClick={cancelRun}
+                className="inline-flex items-center justify-center gap-2 rounded-full border border-red-400/60 px-5 py-3 text-sm font-semibold text-red-200 transition hover:border-red-300 hover:text-red-100"
+              >
+                <CircleStop className="size-4" />
+                Cancel
+              </button>
             )}
-          </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-3 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-700/60"
+            >
+              {submitting ? (
+                <>
+                  <LoaderCircle className="size-4 animate-spin" />
+                  Thinking
+                </>
+              ) : (
+                <>
+                  Launch Run
+                  <ArrowRight className="size-4" />
+                </>
+              )}
+            </button>
+          </div>
         </div>
       </header>
 
-      <main className="grid gap-6 xl:grid-cols-[420px_1fr]">
-        <section className="glass-panel flex flex-col gap-6 rounded-3xl p-6">
-          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
-            <Target className="size-5 text-emerald-400" /> Agent Brief
-          </h2>
-
-          <label className="flex flex-col gap-2 text-sm">
-            <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-              Objective
-            </span>
-            <textarea
-              value={form.objective}
-              onChange={(event) => updateForm("objective", event.target.value)}
-              placeholder="e.g. Launch our winter drop, scale ROAS to 4x, and move 500 units while growing Aeon Money sign-ups."
-              className="min-h-[120px] rounded-2xl border border-slate-700/60 bg-slate-900/40 px-4 py-3 text-sm text-slate-100 outline-none transition focus:border-emerald-400"
+      <div className="grid gap-6 2xl:grid-cols-[300px_1fr]">
+        <RunHistorySidebar
+          refreshKey={historyKey}
+          activeRunId={agentResponse?.runId}
+          onOpen={openRun}
+          onClone={cloneRun}
+          onCompare={compareRuns}
+        />
+
+        <main className="grid gap-6 xl:grid-cols-[420px_1fr]">
+          <section className="glass-panel flex flex-col gap-6 rounded-3xl p-6">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+              <Target className="size-5 text-emerald-400" /> Agent Brief
+            </h2>
+
+            <BriefTemplatePicker
+              templates={templates}
+              library={library}
+              currentBrief={formToTemplateBrief(form)}
+              onApply={applyTemplate}
+              onChange={() => setStoreKey((prev) => prev + 1)}
             />
-          </label>
-
-          <div className="flex flex-col gap-4">
-            <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-              Focus Areas
-            </span>
-            <div className="flex flex-wrap gap-2">
-              {focusOptions.map((option) => {
-                const active = form.focusAreas.includes(option.value);
-                return (
-                  <button
-                    key={option.value}
-                    type="button"
-                    onClick={() => updateForm("focusAreas", toggleSelection(form.focusAreas, option.value))}
-                    className={`inline-flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs transition ${
-                      active
-                        ? "border-emerald-400 bg-emerald-400/10 text-emerald-200"
-                        : "border-slate-600/50 text-slate-300 hover:border-slate-500"
-                    }`}
-                  >
-                    {active && <Check className="size-3" />}
-                    {option.label}
-                  </button>
-                );
-              })}
-            </div>
-          </div>
 
-          <div className="flex flex-col gap-4">
-            <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-              Target Channels
-            </span>
-            <div className="flex flex-wrap gap-2">
-              {channelOptions.map((option) => {
-                const active = form.targetChannels.includes(option.value);
-                return (
-                  <button
-                    key={option.value}
-                    type="button"
-                    onClick={() => updateForm("targetChannels", toggleSelection(form.targetChannels, option.value))}
-                    className={`inline-flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs transition ${
-                      active
-                        ? "border-indigo-400 bg-indigo-400/10 text-indigo-100"
-                        : "border-slate-600/50 text-slate-300 hover:border-slate-500"
-                    }`}
-                  >
-                    {active && <Check className="size-3" />}
-                    {option.label}
-                  </button>
-                );
-              })}
-            </div>
-          </div>
+            <label className="flex flex-col gap-2 text-sm">
+              <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+                Objective
+              </span>
+              <textarea
+                value={form.objective}
+                onChange={(event) => updateForm("objective", event.target.value)}
+                placeholder={`e.g. Launch our winter drop, scale ROAS to 4x, and move 500 units while growing ${loyaltyName} sign-ups.`}
+                className="min-h-[120px] rounded-2xl border border-slate-700/60 bg-slate-900/40 px-4 py-3 text-sm text-slate-100 outline-none transition focus:border-emerald-400"
+              />
+            </label>
 
-          <div className="flex flex-col gap-3">
-            <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-              Tasks to delegate
-            </span>
-            <div className="flex flex-wrap gap-2">
-              {taskLibrary.map((task) => {
-                const active = form.tasks.includes(task);
-                return (
-                  <button
-                    key={task}
-                    type="button"
-                    onClick={() =>
-                      active ? removeTask(task) : updateForm("tasks", [...form.tasks, task])
-                    }
-                    className={`rounded-full border px-3 py-1.5 text-xs transition ${
-                      active
-                        ? "border-amber-400 bg-amber-400/10 text-amber-100"
-                        : "border-slate-600/50 text-slate-300 hover:border-slate-500"
-                    }`}
-                  >
-                    {task}
-                  </button>
-                );
-              })}
+            <div className="flex flex-col gap-4">
+              <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+                Focus Areas
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {FOCUS_OPTIONS.map((option) => {
+                  const active = form.focusAreas.includes(option.value);
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => updateForm("focusAreas", toggleSelection(form.focusAreas, option.value))}
+                      className={`inline-flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs transition ${
+                        active
+                          ? "border-emerald-400 bg-emerald-400/10 text-emerald-200"
+                          : "border-slate-600/50 text-slate-300 hover:border-slate-500"
+                      }`}
+                    >
+                      {active && <Check className="size-3" />}
+                      {option.value === "loyalty" ? loyaltyName : option.label}
+                    </button>
+                  );
+                })}
+              </div>
             </div>
-            <div className="flex flex-wrap items-center gap-3">
-              <input
-                value={form.customTask}
-                onChange={(event) => updateForm("customTask", event.target.value)}
-                onKeyDown={(event) => {
-                  if (event.key === "Enter") {
-                    event.preventDefault();
-                    addTask(form.customTask);
-                  }
-                }}
-                placeholder="Add custom task and press enter"
-                className="flex-1 rounded-full border border-slate-600/50 bg-slate-900/40 px-4 py-2 text-xs text-slate-100 outline-none focus:border-emerald-400"
-              />
-              <button
-                type="button"
-                onClick={() => addTask(form.customTask)}
-                className="rounded-full border border-slate-500 px-3 py-2 text-xs text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200"
-              >
-                Add Task
-              </button>
+
+            <div className="flex flex-col gap-4">
+              <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+                Target Channels
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {CHANNEL_OPTIONS.map((option) => {
+                  const active = form.targetChannels.includes(option.value);
+                  // Channels the store does not run stay visible only while a cloned brief still selects them.
+                  if (!active && !profile.enabledChannels.includes(option.value)) return null;
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => updateForm("targetChannels", toggleSelection(form.targetChannels, option.value))}
+                      className={`inline-flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs transition ${
+                        active
+                          ? "border-indigo-400 bg-indigo-400/10 text-indigo-100"
+                          : "border-slate-600/50 text-slate-300 hover:border-slate-500"
+                      }`}
+                    >
+                      {active && <Check className="size-3" />}
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
             </div>
-            {form.tasks.length > 0 && (
-              <div className="flex flex-wrap gap-2 text-xs text-slate-400">
-                {form.tasks.map((task) => (
-                  <span
-                    key={task}
-                    className="inline-flex items-center gap-2 rounded-full border border-slate-600/50 px-3 py-1"
-                  >
-                    {task}
+
+            <div className="flex flex-col gap-3">
+              <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+                Tasks to delegate
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {library.tasks.map((task) => {
+                  const active = form.tasks.includes(task);
+                  return (
                     <button
+                      key={task}
                       type="button"
-                      onClick={() => removeTask(task)}
-                      className="text-slate-500 transition hover:text-red-400"
+                      onClick={() =>
+                        active ? removeTask(task) : updateForm("tasks", [...form.tasks, task])
+                      }
+                      className={`rounded-full border px-3 py-1.5 text-xs transition ${
+                        active
+                          ? "border-amber-400 bg-amber-400/10 text-amber-100"
+                          : "border-slate-600/50 text-slate-300 hover:border-slate-500"
+                      }`}
                     >
-                      ×
+                      {task}
                     </button>
-                  </span>
-                ))}
+                  );
+                })}
               </div>
-            )}
-          </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  value={form.customTask}
+                  onChange={(event) => updateForm("customTask", event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") {
+                      event.preventDefault();
+                      addTask(form.customTask);
+                    }
+                  }}
+                  placeholder="Add custom task and press enter"
+                  className="flex-1 rounded-full border border-slate-600/50 bg-slate-900/40 px-4 py-2 text-xs text-slate-100 outline-none focus:border-emerald-400"
+                />
+                <button
+                  type="button"
+                  onClick={() => addTask(form.customTask)}
+                  className="rounded-full border border-slate-500 px-3 py-2 text-xs text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200"
+                >
+                  Add Task
+                </button>
+              </div>
+              {form.tasks.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-xs text-slate-400">
+                  {form.tasks.map((task) => (
+                    <span
+                      key={task}
+                      className="inline-flex items-center gap-2 rounded-full border border-slate-600/50 px-3 py-1"
+                    >
+                      {task}
+                      <button
+                        type="button"
+                        onClick={() => removeTask(task)}
+                        className="text-slate-500 transition hover:text-red-400"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">Tone</span>
+                <select
+                  value={form.tone}
+                  onChange={(event) => updateForm("tone", event.target.value)}
+                  className="rounded-xl border border-slate-600/50 bg-slate-900/40 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+                >
+                  {toneChoices.map((tone) => (
+                    <option key={tone} value={tone} className="bg-slate-900 text-slate-100">
+                      {tone}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">
+                  Constraints & approvals
+                </span>
+                <textarea
+                  value={form.constraints}
+                  onChange={(event) => updateForm("constraints", event.target.value)}
+                  className="min-h-[80px] rounded-xl border border-slate-600/50 bg-slate-900/40 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+                />
+              </label>
+            </div>
+
+            <div className="grid gap-4 rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+              <span className="font-semibold uppercase tracking-wide text-slate-400">
+                Budget guidance
+              </span>
+              <div className="grid gap-3 md:grid-cols-2">
+                <label className="flex flex-col gap-1">
+                  <span className="text-slate-500">Amount</span>
+                  <input
+                    type="number"
+                    value={form.budgetAmount}
+                    onChange={(event) => updateForm("budgetAmount", event.target.value)}
+                    className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-slate-500">Currency</span>
+                  <input
+                    value={form.budgetCurrency}
+                    list="currency-codes"
+                    maxLength={3}
+                    onChange={(event) => updateForm("budgetCurrency", event.target.value.toUpperCase())}
+                    className={`rounded-full border bg-slate-950 px-4 py-2 text-sm uppercase text-slate-100 outline-none focus:border-emerald-400 ${
+                      budgetCurrencyValid ? "border-slate-600/50" : "border-red-400/70"
+                    }`}
+                  />
+                  <datalist id="currency-codes">
+                    {ISO_4217_CODES.map((code) => (
+                      <option key={code} value={code} />
+                    ))}
+                  </datalist>
+                </label>
+              </div>
+              {!budgetCurrencyValid ? (
+                <p className="text-red-300">Use an ISO 4217 currency code such as USD or EUR.</p>
+              ) : (
+                reportingBudget && <p className="text-slate-500">{reportingBudget}</p>
+              )}
+              <div className="grid gap-3 md:grid-cols-2">
+                <label className="flex flex-col gap-1">
+                  <span className="text-slate-500">Cadence</span>
+                  <select
+                    value={form.budgetCadence}
+                    onChange={(event) =>
+                      updateForm("budgetCadence", event.target.value as FormState["budgetCadence"])
+                    }
+                    className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+                  >
+                    {Object.entries(budgetCadenceLabels).map(([key, label]) => (
+                      <option key={key} value={key} className="bg-slate-900 text-slate-100">
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-slate-500">Ad platforms</span>
+                  <select
+                    value={form.budgetPlatform}
+                    onChange={(event) =>
+                      updateForm(
+                        "budgetPlatform",
+                        event.target.value as FormState["budgetPlatform"]
+                      )
+                    }
+                    className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+                  >
+                    <option value="" className="bg-slate-900 text-slate-100">
+                      Agent decide
+                    </option>
+                    <option value="meta" className="bg-slate-900 text-slate-100">
+                      Meta only
+                    </option>
+                    <option value="google" className="bg-slate-900 text-slate-100">
+                      Google only
+                    </option>
+                    <option value="both" className="bg-slate-900 text-slate-100">
+                      Meta + Google
+                    </option>
+                  </select>
+                </label>
+              </div>
+            </div>
 
-          <div className="grid gap-4 md:grid-cols-2">
             <label className="flex flex-col gap-2 text-xs">
-              <span className="font-medium uppercase tracking-wide text-slate-400">Tone</span>
+              <span className="font-medium uppercase tracking-wide text-slate-400">Model provider</span>
               <select
-                value={form.tone}
-                onChange={(event) => updateForm("tone", event.target.value)}
+                value={form.provider}
+                onChange={(event) => updateForm("provider", event.target.value as FormState["provider"])}
                 className="rounded-xl border border-slate-600/50 bg-slate-900/40 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
               >
-                {toneOptions.map((tone) => (
-                  <option key={tone} value={tone} className="bg-slate-900 text-slate-100">
-                    {tone}
+                {Object.entries(providerLabels).map(([key, label]) => (
+                  <option key={key} value={key} className="bg-slate-900 text-slate-100">
+                    {label}
                   </option>
                 ))}
               </select>
             </label>
 
-            <label className="flex flex-col gap-2 text-xs">
-              <span className="font-medium uppercase tracking-wide text-slate-400">
-                Constraints & approvals
+            <div className="flex flex-col gap-3">
+              <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+                Media staging
               </span>
-              <textarea
-                value={form.constraints}
-                onChange={(event) => updateForm("constraints", event.target.value)}
-                className="min-h-[80px] rounded-xl border border-slate-600/50 bg-slate-900/40 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
-              />
-            </label>
-          </div>
-
-          <div className="grid gap-4 rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
-            <span className="font-semibold uppercase tracking-wide text-slate-400">
-              Budget guidance
-            </span>
-            <div className="grid gap-3 md:grid-cols-2">
-              <label className="flex flex-col gap-1">
-                <span className="text-slate-500">Amount</span>
-                <input
-                  type="number"
-                  value={form.budgetAmount}
-                  onChange={(event) => updateForm("budgetAmount", event.target.value)}
-                  className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
-                />
-              </label>
-              <label className="flex flex-col gap-1">
-                <span className="text-slate-500">Currency</span>
+              <label
+                className="flex cursor-pointer flex-col items-center justify-center gap-3 rounded-3xl border border-dashed border-slate-600/60 bg-slate-900/30 px-6 py-10 text-center text-sm text-slate-400 transition hover:border-emerald-400"
+              >
+                <FileImage className="size-8 text-emerald-400" />
+                <span>
+                  {uploadingCount > 0
+                    ? `Uploading ${uploadingCount} file(s)…`
+                    : "Drop campaign images or video snippets"}
+                </span>
+                <span className="text-xs text-slate-500">
+                  JPEG, PNG, WebP, GIF up to {formatBytes(MEDIA_SIZE_LIMITS.image)} · MP4, MOV, WebM up to{" "}
+                  {formatBytes(MEDIA_SIZE_LIMITS.video)}
+                </span>
                 <input
-                  value={form.budgetCurrency}
-                  onChange={(event) => updateForm("budgetCurrency", event.target.value.toUpperCase())}
-                  className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm uppercase text-slate-100 outline-none focus:border-emerald-400"
+                  type="file"
+                  accept={Object.keys(MEDIA_MIME_TYPES).join(",")}
+                  multiple
+                  className="hidden"
+                  onChange={(event) => handleMediaUpload(event.target.files)}
                 />
               </label>
+
+              {form.media.length > 0 && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-xs text-slate-400">
+                    <span>
+                      {derivedStats.mediaCount} asset(s) staged • {derivedStats.imageCount} images · {derivedStats.videoCount}
+                      {" "}
+                      videos
+                    </span>
+                    <button
+                      type="button"
+                      className="text-red-300 transition hover:text-red-200"
+                      onClick={() => updateForm("media", [])}
+                    >
+                      Clear all
+                    </button>
+                  </div>
+                  <div className="grid gap-3 md:grid-cols-2">
+                    {form.media.map((asset) => (
+                      <div
+                        key={asset.id}
+                        className="group relative overflow-hidden rounded-2xl border border-slate-700/60 bg-slate-900/50"
+                      >
+                        <div className="absolute right-2 top-2 z-10 flex gap-2">
+                          <span className="rounded-full bg-slate-950/80 px-2 py-1 text-[10px] uppercase tracking-wide text-slate-300">
+                            {asset.kind}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => removeMedia(asset.id)}
+                            className="rounded-full bg-slate-950/80 p-1 text-slate-300 transition hover:text-red-400"
+                          >
+                            <Trash2 className="size-4" />
+                          </button>
+                        </div>
+                        <div className="aspect-video w-full overflow-hidden bg-slate-950/80">
+                          {asset.kind === "image" ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img
+                              src={mediaContentUrl(asset.id, "thumbnail")}
+                              alt={asset.analysis?.altText ?? asset.name}
+                              className="h-full w-full object-cover"
+                            />
+                          ) : (
+                            <video
+                              src={mediaContentUrl(asset.id)}
+                              poster={mediaContentUrl(asset.id, "poster")}
+                              className="h-full w-full object-cover"
+                              playsInline
+                              muted
+                              autoPlay
+                              loop
+                            />
+                          )}
+                        </div>
+                        <div className="space-y-1 p-4 text-xs">
+                          <p className="font-medium text-slate-100">{asset.name}</p>
+                          {asset.notes && <p className="text-slate-400">{asset.notes}</p>}
+                          {analyzingIds.includes(asset.id) && (
+                            <p className="flex items-center gap-2 pt-2 text-slate-500">
+                              <LoaderCircle className="size-3 animate-spin" /> Analyzing asset…
+                            </p>
+                          )}
+                          {asset.analysis && (
+                            <div className="space-y-2 pt-2 text-slate-300">
+                              {asset.analysis.productDetected && (
+                                <p>
+                                  <span className="text-slate-500">Product:</span> {asset.analysis.productDetected}
+                                </p>
+                              )}
+                              {asset.analysis.dominantColors.length > 0 && (
+                                <div className="flex items-center gap-1">
+                                  {asset.analysis.dominantColors.map((color) => (
+                                    <span
+                                      key={color}
+                                      title={color}
+                                      className="size-4 rounded-full border border-slate-700/60"
+                                      style={{ backgroundColor: color }}
+                                    />
+                                  ))}
+                                </div>
+                              )}
+                              <p>
+                                <span className="text-slate-500">Alt text:</span> {asset.analysis.altText}
+                              </p>
+                              {asset.analysis.cropSuggestions.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {asset.analysis.cropSuggestions.map((crop) => (
+                                    <span
+                                      key={`${crop.channel}-${crop.ratio}`}
+                                      title={crop.note}
+                                      className="rounded-full border border-slate-600/50 px-2 py-0.5 text-[10px] text-slate-400"
+                                    >
+                                      {crop.channel} {crop.ratio}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {asset.analysis.source === "heuristic" && (
+                                <p className="text-[10px] text-slate-500">
+                                  Offline estimate; connect a vision-capable provider for full findings.
+                                </p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
-            <div className="grid gap-3 md:grid-cols-2">
-              <label className="flex flex-col gap-1">
-                <span className="text-slate-500">Cadence</span>
-                <select
-                  value={form.budgetCadence}
-                  onChange={(event) =>
-                    updateForm("budgetCadence", event.target.value as FormState["budgetCadence"])
-                  }
-                  className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
-                >
-                  {Object.entries(budgetCadenceLabels).map(([key, label]) => (
-                    <option key={key} value={key} className="bg-slate-900 text-slate-100">
-                      {label}
-                    </option>
-                  ))}
-                </select>
-              </label>
-              <label className="flex flex-col gap-1">
-                <span className="text-slate-500">Ad platforms</span>
-                <select
-                  value={form.budgetPlatform}
-                  onChange={(event) =>
-                    updateForm(
-                      "budgetPlatform",
-                      event.target.value as FormState["budgetPlatform"]
-                    )
-                  }
-                  className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
-                >
-                  <option value="" className="bg-slate-900 text-slate-100">
-                    Agent decide
-                  </option>
-                  <option value="meta" className="bg-slate-900 text-slate-100">
-                    Meta only
-                  </option>
-                  <option value="google" className="bg-slate-900 text-slate-100">
-                    Google only
-                  </option>
-                  <option value="both" className="bg-slate-900 text-slate-100">
-                    Meta + Google
-                  </option>
-                </select>
-              </label>
-            </div>
-          </div>
+          </section>
 
-          <div className="flex flex-col gap-3">
-            <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-              Media staging
-            </span>
-            <label
-              className="flex cursor-pointer flex-col items-center justify-center gap-3 rounded-3xl border border-dashed border-slate-600/60 bg-slate-900/30 px-6 py-10 text-center text-sm text-slate-400 transition hover:border-emerald-400"
-            >
-              <FileImage className="size-8 text-emerald-400" />
-              <span>Drop campaign images or video snippets</span>
-              <span className="text-xs text-slate-500">JPEG, PNG, MP4 up to 25MB each</span>
-              <input
-                type="file"
-                accept="image/*,video/*"
-                multiple
-                className="hidden"
-                onChange={(event) => handleMediaUpload(event.target.files)}
-              />
-            </label>
+          <section className="flex flex-col gap-6">
+            {comparison && (
+              <PlanDiffView comparison={comparison} loyaltyName={loyaltyName} onClose={() => setComparison(null)} />
+            )}
 
-            {form.media.length > 0 && (
-              <div className="space-y-3">
-                <div className="flex items-center justify-between text-xs text-slate-400">
-                  <span>
-                    {derivedStats.mediaCount} asset(s) staged • {derivedStats.imageCount} images · {derivedStats.videoCount}
-                    {" "}
-                    videos
-                  </span>
-                  <button
-                    type="button"
-                    className="text-red-300 transition hover:text-red-200"
-                    onClick={() => updateForm("media", [])}
+            <div className="glass-panel rounded-3xl p-6">
+              <div className="flex items-center justify-between">
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+                  <Rocket className="size-5 text-indigo-400" /> Operating Canvas
+                </h2>
+                <span className="rounded-full border border-slate-700/60 px-3 py-1 text-xs text-slate-400">
+                  {form.focusAreas.length} focus lanes active
+                </span>
+              </div>
+              <p className="mt-2 text-sm text-slate-300">
+                The agent combines these playbooks to deliver a full-funnel growth plan. Bring your stack
+                (Shopify, Woo, custom) and StorePilot will orchestrate via workflows and webhooks.
+              </p>
+              <div className="mt-5 grid gap-4 lg:grid-cols-2">
+                {CAPABILITIES.map((capability) => (
+                  <article
+                    key={capability.id}
+                    className="rounded-3xl border border-slate-700/60 bg-slate-900/30 p-4"
                   >
-                    Clear all
-                  </button>
-                </div>
-                <div className="grid gap-3 md:grid-cols-2">
-                  {form.media.map((asset) => (
-                    <div
-                      key={asset.id}
-                      className="group relative overflow-hidden rounded-2xl border border-slate-700/60 bg-slate-900/50"
-                    >
-                      <div className="absolute right-2 top-2 z-10 flex gap-2">
-                        <span className="rounded-full bg-slate-950/80 px-2 py-1 text-[10px] uppercase tracking-wide text-slate-300">
-                          {asset.kind}
-                        </span>
-                        <button
-                          type="button"
-                          onClick={() => removeMedia(asset.id)}
-                          className="rounded-full bg-slate-950/80 p-1 text-slate-300 transition hover:text-red-400"
-                        >
-                          <Trash2 className="size-4" />
-                        </button>
+                    <h3 className="text-sm font-semibold text-slate-100">{capability.title}</h3>
+                    <p className="mt-1 text-xs text-slate-400">{capability.description}</p>
+                    <div className="mt-3 space-y-2 text-xs text-slate-300">
+                      <div>
+                        <span className="font-semibold text-slate-200">Outcomes</span>
+                        <ul className="mt-1 space-y-1 text-slate-400">
+                          {capability.outcomes.map((item) => (
+                            <li key={item} className="flex items-start gap-2">
+                              <BadgeCheck className="mt-0.5 size-3 text-emerald-400" />
+                              <span>{item}</span>
+                            </li>
+                          ))}
+                        </ul>
                       </div>
-                      <div className="aspect-video w-full overflow-hidden bg-slate-950/80">
-                        {asset.kind === "image" ? (
-                          // eslint-disable-next-line @next/next/no-img-element
-                          <img
-                            src={asset.dataUrl}
-                            alt={asset.name}
-                            className="h-full w-full object-cover"
-                          />
-                        ) : (
-                          <video
-                            src={asset.dataUrl}
-                            className="h-full w-full object-cover"
-                            playsInline
-                            muted
-                            autoPlay
-                            loop
-                          />
-                        )}
-                      </div>
-                      <div className="space-y-1 p-4 text-xs">
-                        <p className="font-medium text-slate-100">{asset.name}</p>
-                        {asset.notes && <p className="text-slate-400">{asset.notes}</p>}
+                      <div>
+                        <span className="font-semibold text-slate-200">Automations</span>
+                        <ul className="mt-1 space-y-1 text-slate-400">
+                          {capability.automations.map((item) => (
+                            <li key={item} className="flex items-start gap-2">
+                              <Workflow className="mt-0.5 size-3 text-indigo-400" />
+                              <span>{item}</span>
+                            </li>
+                          ))}
+                        </ul>
                       </div>
                     </div>
-                  ))}
-                </div>
+                  </article>
+                ))}
               </div>
-            )}
-          </div>
-        </section>
-
-        <section className="flex flex-col gap-6">
-          <div className="glass-panel rounded-3xl p-6">
-            <div className="flex items-center justify-between">
-              <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
-                <Rocket className="size-5 text-indigo-400" /> Operating Canvas
-              </h2>
-              <span className="rounded-full border border-slate-700/60 px-3 py-1 text-xs text-slate-400">
-                {form.focusAreas.length} focus lanes active
-              </span>
             </div>
-            <p className="mt-2 text-sm text-slate-300">
-              The agent combines these playbooks to deliver a full-funnel growth plan. Bring your stack
-              (Shopify, Woo, custom) and StorePilot will orchestrate via workflows and webhooks.
-            </p>
-            <div className="mt-5 grid gap-4 lg:grid-cols-2">
-              {CAPABILITIES.map((capability) => (
-                <article
-                  key={capability.id}
-                  className="rounded-3xl border border-slate-700/60 bg-slate-900/30 p-4"
-                >
-                  <h3 className="text-sm font-semibold text-slate-100">{capability.title}</h3>
-                  <p className="mt-1 text-xs text-slate-400">{capability.description}</p>
-                  <div className="mt-3 space-y-2 text-xs text-slate-300">
-                    <div>
-                      <span className="font-semibold text-slate-200">Outcomes</span>
-                      <ul className="mt-1 space-y-1 text-slate-400">
-                        {capability.outcomes.map((item) => (
-                          <li key={item} className="flex items-start gap-2">
-                            <BadgeCheck className="mt-0.5 size-3 text-emerald-400" />
-                            <span>{item}</span>
-                          </li>
-                        ))}
-                      </ul>
+
+            <div className="glass-panel rounded-3xl p-6">
+              <div className="flex items-center justify-between">
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+                  <Sparkles className="size-5 text-emerald-400" /> Agent Blueprint
+                </h2>
+                {submitting && (
+                  <span className="rounded-full border border-slate-700/60 px-3 py-1 text-xs text-slate-400">
+                    {streamedSectionCount}/{AGENT_SECTION_ORDER.length} sections streamed
+                  </span>
+                )}
+                {agentResponse && (
+                  <div className="flex items-center gap-3 text-xs text-slate-400">
+                    {exportOptions.map((option) => (
+                      <button
+                        key={option.format}
+                        type="button"
+                        onClick={() => exportPlan(option.format)}
+                        className="inline-flex items-center gap-1 transition hover:text-emerald-200"
+                      >
+                        <Download className="size-3" /> {option.label}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setShowRaw((prev) => !prev)}
+                      className="underline-offset-4 transition hover:text-emerald-200 hover:underline"
+                    >
+                      {showRaw ? "Hide raw JSON" : "View raw JSON"}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {!blueprint ? (
+                <div className="mt-4 grid gap-4 rounded-2xl border border-dashed border-slate-600 p-6 text-sm text-slate-400">
+                  <p>
+                    Launch the agent run to receive a structured plan covering catalog, sales ops, SU content,
+                    Meta/Google ads, and {loyaltyName} loyalty accelerators.
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    Provide your OpenAI API key as `OPENAI_API_KEY` during deployment for live execution. Without it we
+                    stage a sample response so you can explore the interface.
+                  </p>
+                </div>
+              ) : (
+                <div className="mt-4 space-y-6">
+                  {showDiagnostics && diagnostics && (
+                    <div className="rounded-2xl border border-amber-400/40 bg-amber-400/10 p-4 text-xs text-amber-100">
+                      <p className="font-semibold">
+                        {diagnostics.fallback
+                          ? fallbackLabels[diagnostics.fallback]
+                          : `Plan validated after ${diagnostics.attempts} attempt(s)${
+                              diagnostics.repaired ? " with automatic repairs" : ""
+                            }.`}
+                      </p>
+                      {diagnostics.repairs.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-amber-200/80">
+                          {diagnostics.repairs.map((repair) => (
+                            <li key={repair}>• {repair}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {diagnostics.issues.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-amber-200/60">
+                          {diagnostics.issues.map((issue) => (
+                            <li key={issue}>• {issue}</li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
-                    <div>
-                      <span className="font-semibold text-slate-200">Automations</span>
-                      <ul className="mt-1 space-y-1 text-slate-400">
-                        {capability.automations.map((item) => (
-                          <li key={item} className="flex items-start gap-2">
-                            <Workflow className="mt-0.5 size-3 text-indigo-400" />
-                            <span>{item}</span>
-                          </li>
-                        ))}
-                      </ul>
+                  )}
+
+                  {submitting && streamedSectionCount === 0 && (
+                    <div className="flex items-center gap-2 rounded-2xl border border-dashed border-slate-600 p-6 text-sm text-slate-400">
+                      <LoaderCircle className="size-4 animate-spin text-emerald-400" />
+                      Waiting for the first section of the blueprint…
                     </div>
-                  </div>
-                </article>
-              ))}
-            </div>
-          </div>
+                  )}
 
-          <div className="glass-panel rounded-3xl p-6">
-            <div className="flex items-center justify-between">
-              <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
-                <Sparkles className="size-5 text-emerald-400" /> Agent Blueprint
-              </h2>
-              {agentResponse && (
-                <button
-                  type="button"
-                  onClick={() => setShowRaw((prev) => !prev)}
-                  className="text-xs text-slate-400 underline-offset-4 transition hover:text-emerald-200 hover:underline"
-                >
-                  {showRaw ? "Hide raw JSON" : "View raw JSON"}
-                </button>
-              )}
-            </div>
+                  {blueprint.executiveSummary !== undefined && (
+                    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+                      <h3 className="text-base font-semibold text-white">Executive Summary</h3>
+                      <p className="mt-2 text-slate-300">
+                        <CatalogLinkedText text={blueprint.executiveSummary} references={skuReferences} />
+                      </p>
+                    </section>
+                  )}
 
-            {!agentResponse ? (
-              <div className="mt-4 grid gap-4 rounded-2xl border border-dashed border-slate-600 p-6 text-sm text-slate-400">
-                <p>
-                  Launch the agent run to receive a structured plan covering catalog, sales ops, SU content,
-                  Meta/Google ads, and Aeon Money loyalty accelerators.
-                </p>
-                <p className="text-xs text-slate-500">
-                  Provide your OpenAI API key as `OPENAI_API_KEY` during deployment for live execution. Without it we
-                  stage a sample response so you can explore the interface.
-                </p>
-              </div>
-            ) : (
-              <div className="mt-4 space-y-6">
-                <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
-                  <h3 className="text-base font-semibold text-white">Executive Summary</h3>
-                  <p className="mt-2 text-slate-300">{agentResponse.plan.executiveSummary}</p>
-                </section>
-
-                <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
-                  <h3 className="text-base font-semibold text-white">Task Matrix</h3>
-                  <div className="mt-3 grid gap-3 md:grid-cols-2">
-                    {agentResponse.plan.taskMatrix.map((task) => (
-                      <div key={task.title} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
-                        <p className="font-semibold text-slate-100">{task.title}</p>
-                        <p className="mt-2 text-xs text-slate-400">Owner: {task.owner}</p>
-                        <p className="text-xs text-slate-400">Cadence: {task.cadence}</p>
-                        <p className="mt-2 text-xs text-emerald-300">
-                          Success metric: {task.successMetric}
-                        </p>
+                  {blueprint.taskMatrix !== undefined && (
+                    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+                      <h3 className="text-base font-semibold text-white">Task Matrix</h3>
+                      <div className="mt-3 grid gap-3 md:grid-cols-2">
+                        {blueprint.taskMatrix.map((task) => (
+                          <div key={task.title} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
+                            <p className="font-semibold text-slate-100">
+                              <CatalogLinkedText text={task.title} references={skuReferences} />
+                            </p>
+                            <p className="mt-2 text-xs text-slate-400">Owner: {task.owner}</p>
+                            <p className="text-xs text-slate-400">Cadence: {task.cadence}</p>
+                            <p className="mt-2 text-xs text-emerald-300">
+                              Success metric: {task.successMetric}
+                            </p>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                </section>
-
-                <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
-                  <h3 className="text-base font-semibold text-white">Automations</h3>
-                  <div className="mt-3 space-y-3">
-                    {agentResponse.plan.automations.map((automation) => (
-                      <div key={automation.title} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
-                        <p className="font-semibold text-slate-100">{automation.title}</p>
-                        <p className="mt-2 text-xs text-slate-400">{automation.description}</p>
-                        <p className="mt-2 text-xs text-indigo-300">Trigger: {automation.trigger}</p>
-                        <p className="text-xs text-emerald-300">Action: {automation.action}</p>
+                    </section>
+                  )}
+
+                  {blueprint.automations !== undefined && (
+                    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-base font-semibold text-white">Automations</h3>
+                        {agentResponse && !submitting && (
+                          <button
+                            type="button"
+                            onClick={saveAutomationRules}
+                            className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-indigo-200"
+                          >
+                            <Workflow className="size-3" /> Save as rules
+                          </button>
+                        )}
                       </div>
-                    ))}
-                  </div>
-                </section>
-
-                <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
-                  <h3 className="text-base font-semibold text-white">Channel Playbooks</h3>
-                  <div className="mt-3 grid gap-3 md:grid-cols-2">
-                    {agentResponse.plan.channelPlaybooks.map((playbook) => (
-                      <div key={playbook.channel} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
-                        <p className="font-semibold text-slate-100">{playbook.channel}</p>
-                        <p className="mt-2 text-xs text-slate-400">{playbook.content}</p>
-                        <p className="mt-2 text-xs text-emerald-300">Cadence: {playbook.cadence}</p>
+                      <div className="mt-3 space-y-3">
+                        {blueprint.automations.map((automation) => (
+                          <div key={automation.title} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
+                            <p className="font-semibold text-slate-100">{automation.title}</p>
+                            <p className="mt-2 text-xs text-slate-400">
+                              <CatalogLinkedText text={automation.description} references={skuReferences} />
+                            </p>
+                            <p className="mt-2 text-xs text-indigo-300">Trigger: {automation.trigger}</p>
+                            <p className="text-xs text-emerald-300">
+                              Action: <CatalogLinkedText text={automation.action} references={skuReferences} />
+                            </p>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                </section>
-
-                <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
-                  <h3 className="text-base font-semibold text-white">Paid Media Strategy</h3>
-                  <div className="mt-3 space-y-3">
-                    {agentResponse.plan.adStrategy.map((ad) => (
-                      <div key={ad.platform} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
-                        <p className="font-semibold text-slate-100">{ad.platform}</p>
-                        <p className="mt-2 text-xs text-slate-400">Audience: {ad.audience}</p>
-                        <p className="text-xs text-slate-400">Creatives: {ad.creatives}</p>
-                        <p className="mt-2 text-xs text-emerald-300">Budget: {ad.budgetNotes}</p>
+                    </section>
+                  )}
+
+                  {blueprint.channelPlaybooks !== undefined && (
+                    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+                      <h3 className="text-base font-semibold text-white">Channel Playbooks</h3>
+                      <div className="mt-3 grid gap-3 md:grid-cols-2">
+                        {blueprint.channelPlaybooks.map((playbook) => (
+                          <div key={playbook.channel} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
+                            <p className="font-semibold text-slate-100">{playbook.channel}</p>
+                            <p className="mt-2 text-xs text-slate-400">
+                              <CatalogLinkedText text={playbook.content} references={skuReferences} />
+                            </p>
+                            <p className="mt-2 text-xs text-emerald-300">Cadence: {playbook.cadence}</p>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                </section>
+                    </section>
+                  )}
 
-                <section className="grid gap-4 md:grid-cols-2">
-                  <div className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
-                    <h3 className="text-base font-semibold text-white">SU / SEO</h3>
-                    <p className="mt-2 text-slate-300">{agentResponse.plan.seoPlan}</p>
-                  </div>
-                  <div className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
-                    <h3 className="text-base font-semibold text-white">Aeon Money Loyalty</h3>
-                    <p className="mt-2 text-slate-300">{agentResponse.plan.loyaltyPlan}</p>
-                  </div>
-                </section>
+                  {blueprint.adStrategy !== undefined && (
+                    <section className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+                      <h3 className="text-base font-semibold text-white">Paid Media Strategy</h3>
+                      <div className="mt-3 space-y-3">
+                        {blueprint.adStrategy.map((ad, index) => (
+                          <div key={ad.platform} className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-4">
+                            <p className="font-semibold text-slate-100">{ad.platform}</p>
+                            <p className="mt-2 text-xs text-slate-400">Audience: {ad.audience}</p>
+                            <p className="text-xs text-slate-400">
+                              Creatives: <CatalogLinkedText text={ad.creatives} references={skuReferences} />
+                            </p>
+                            <p className="mt-2 text-xs text-emerald-300">Budget: {ad.budgetNotes}</p>
+                            <BudgetNoteFlag check={blueprint.budgetAllocation?.noteChecks[index]} />
+                          </div>
+                        ))}
+                      </div>
+                    </section>
+                  )}
 
-                {showRaw && (
-                  <pre className="scroll-shadow-y max-h-[320px] overflow-y-auto rounded-2xl border border-slate-700/60 bg-slate-950/80 p-4 text-xs text-slate-300">
-                    {agentResponse.raw}
-                  </pre>
-                )}
-              </div>
-            )}
-          </div>
-        </section>
-      </main>
+                  {blueprint.budgetAllocation && <BudgetAllocationTable allocation={blueprint.budgetAllocation} />}
+
+                  {skuReferences && skuReferences.length > 0 && <CatalogReferenceList references={skuReferences} />}
+
+                  {(blueprint.seoPlan !== undefined || blueprint.loyaltyPlan !== undefined) && (
+                    <section className="grid gap-4 md:grid-cols-2">
+                      {blueprint.seoPlan !== undefined && (
+                        <div className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+                          <h3 className="text-base font-semibold text-white">SU / SEO</h3>
+                          <p className="mt-2 text-slate-300">{blueprint.seoPlan}</p>
+                        </div>
+                      )}
+                      {blueprint.loyaltyPlan !== undefined && (
+                        <div className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-5 text-sm text-slate-200">
+                          <h3 className="text-base font-semibold text-white">{loyaltyName} Loyalty</h3>
+                          <p className="mt-2 text-slate-300">{blueprint.loyaltyPlan}</p>
+                        </div>
+                      )}
+                    </section>
+                  )}
+
+                  {showRaw && agentResponse && (
+                    <pre className="scroll-shadow-y max-h-[320px] overflow-y-auto rounded-2xl border border-slate-700/60 bg-slate-950/80 p-4 text-xs text-slate-300">
+                      {agentResponse.raw}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <GuardrailsPanel
+              refreshKey={historyKey}
+              runId={agentResponse?.runId}
+              onRewrite={(run) => {
+                setAgentResponse(run.response);
+                setHistoryKey((prev) => prev + 1);
+              }}
+            />
+
+            <ApprovalQueuePanel refreshKey={historyKey} />
+
+            <MetricsPanel
+              refreshKey={historyKey}
+              runId={agentResponse?.runId}
+              replanning={submitting}
+              onReplan={replanRun}
+            />
+
+            <ReportsPanel refreshKey={historyKey} />
+
+            <AdLaunchesPanel refreshKey={historyKey} runId={agentResponse?.runId} />
+
+            <AutomationRulesPanel refreshKey={automationKey} />
+
+            <InventoryAlertsPanel refreshKey={historyKey} />
+
+            <SupportTriagePanel refreshKey={historyKey} tone={form.tone} />
+
+            <ExperimentsPanel refreshKey={historyKey} runId={agentResponse?.runId} />
+
+            <LoyaltyPanel
+              refreshKey={historyKey}
+              programName={loyaltyName}
+              runId={agentResponse?.runId}
+              proposals={agentResponse?.plan.loyaltyProposals}
+            />
+
+            <UsagePanel refreshKey={historyKey} />
+          </section>
+        </main>
+      </div>
     </div>
   );
 }
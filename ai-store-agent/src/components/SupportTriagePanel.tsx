@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, CheckCheck, Headset, LoaderCircle, RefreshCw, Siren } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatDateTime } from "@/lib/format";
+import type { SupportTicket, TicketUrgency } from "@/types/support";
+
+interface SupportTriagePanelProps {
+  refreshKey: number;
+  tone?: string;
+}
+
+const urgencyStyles: Record<TicketUrgency, string> = {
+  urgent: "border-red-400/60 text-red-200",
+  high: "border-amber-400/60 text-amber-200",
+  normal: "border-slate-500/60 text-slate-300",
+  low: "border-slate-700/60 text-slate-400",
+};
+
+export function SupportTriagePanel({ refreshKey, tone }: SupportTriagePanelProps) {
+  const [tickets, setTickets] = useState<SupportTicket[] | null>(null);
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch("/api/support/tickets")
+      .then((res) => {
+        if (!res.ok) throw new Error("Support queue unavailable");
+        return res.json() as Promise<{ tickets: SupportTicket[] }>;
+      })
+      .then((data) => {
+        if (active) setTickets(data.tickets);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setTickets([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [refreshKey]);
+
+  const replaceTicket = (updated: SupportTicket) => {
+    setTickets(
+      (prev) =>
+        prev
+          ?.map((ticket) => (ticket.id === updated.id ? updated : ticket))
+          .filter((ticket) => ticket.status !== "resolved") ?? null
+    );
+  };
+
+  const update = async (ticket: SupportTicket, status: "replied" | "resolved") => {
+    setPendingId(ticket.id);
+    try {
+      const reply = status === "replied" ? (replies[ticket.id] ?? ticket.draft?.text ?? "") : undefined;
+      const res = await fetch(`/api/support/tickets/${ticket.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, reply }),
+      });
+      const data = (await res.json()) as SupportTicket & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Update failed");
+      replaceTicket(data);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not update that ticket.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const redraft = async (id: string) => {
+    setPendingId(id);
+    try {
+      const res = await fetch(`/api/support/tickets/${id}/draft`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tone }),
+      });
+      const data = (await res.json()) as SupportTicket & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Redraft failed");
+      replaceTicket(data);
+      setReplies((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not redraft the reply.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+        <Headset className="size-5 text-indigo-300" /> Support Triage
+      </h2>
+
+      {tickets === null ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading tickets…
+        </p>
+      ) : tickets.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Tickets posted to the support webhook are classified, given a drafted reply and queued here by SLA.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {tickets.map((ticket) => (
+            <li key={ticket.id} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span
+                  className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${
+                    urgencyStyles[ticket.classification.urgency]
+                  }`}
+                >
+                  {ticket.classification.urgency}
+                </span>
+                <span className="text-slate-400">{ticket.classification.intent}</span>
+                {ticket.escalation && (
+                  <span className="inline-flex items-center gap-1 text-red-200" title={ticket.escalation.reason}>
+                    <Siren className="size-3" /> {ticket.escalation.team}
+                  </span>
+                )}
+                <span className={`ml-auto ${ticket.breaches.length > 0 ? "text-red-300" : "text-slate-500"}`}>
+                  {ticket.status === "replied"
+                    ? `Replied · resolve by ${formatDateTime(ticket.sla.resolveBy)}`
+                    : `${ticket.breaches.includes("response") ? "Reply overdue since" : "Reply by"} ${formatDateTime(
+                        ticket.sla.respondBy
+                      )}`}
+                </span>
+              </div>
+              <p className="mt-2 font-semibold text-slate-100">{ticket.classification.summary}</p>
+              <p className="mt-1 text-slate-500">
+                {ticket.customer.name ?? ticket.customer.email ?? "Unknown customer"} · {ticket.channel}
+                {ticket.orderId && ` · order ${ticket.orderId}`}
+              </p>
+              <p className="mt-2 whitespace-pre-line text-slate-300">{ticket.body}</p>
+
+              {ticket.status !== "replied" && (
+                <>
+                  <textarea
+                    value={replies[ticket.id] ?? ticket.draft?.text ?? ""}
+                    onChange={(event) => setReplies((prev) => ({ ...prev, [ticket.id]: event.target.value }))}
+                    rows={5}
+                    className="mt-3 w-full rounded-lg border border-slate-700/60 bg-slate-950/60 px-2 py-1 text-slate-100"
+                  />
+                  {ticket.draft && (
+                    <p className="mt-1 text-[10px] text-slate-500">
+                      {ticket.draft.source === "model" ? "Drafted" : "Template"} in a “{ticket.draft.tone}” tone
+                    </p>
+                  )}
+                </>
+              )}
+
+              <div className="mt-3 flex items-center gap-3 text-slate-300">
+                {ticket.status !== "replied" && (
+                  <>
+                    <button
+                      type="button"
+                      disabled={pendingId === ticket.id}
+                      onClick={() => update(ticket, "replied")}
+                      className="inline-flex items-center gap-1 transition hover:text-emerald-200 disabled:opacity-50"
+                    >
+                      <Check className="size-3" /> Mark replied
+                    </button>
+                    <button
+                      type="button"
+                      disabled={pendingId === ticket.id}
+                      onClick={() => redraft(ticket.id)}
+                      className="inline-flex items-center gap-1 transition hover:text-indigo-200 disabled:opacity-50"
+                    >
+                      <RefreshCw className="size-3" /> Redraft{tone ? " in brief tone" : ""}
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  disabled={pendingId === ticket.id}
+                  onClick={() => update(ticket, "resolved")}
+                  className="ml-auto inline-flex items-center gap-1 transition hover:text-sky-200 disabled:opacity-50"
+                >
+                  <CheckCheck className="size-3" /> Resolve
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
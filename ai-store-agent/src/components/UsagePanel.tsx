@@ -0,0 +1,313 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Gauge, LoaderCircle, Save, SlidersHorizontal } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatMoney } from "@/lib/format";
+import type { QuotaStatus, RateLimit, UsageBreakdown, UsageSettings, UsageSummary } from "@/types/usage";
+
+interface UsagePanelProps {
+  refreshKey: number;
+}
+
+interface UsageView {
+  summary: UsageSummary;
+  quotas: QuotaStatus[];
+  settings: UsageSettings;
+}
+
+/** Form fields as typed; an empty field turns that limit off. */
+interface LimitsDraft {
+  userRequests: string;
+  userWindowMinutes: string;
+  workspaceRequests: string;
+  workspaceWindowMinutes: string;
+  userMonthlyBudget: string;
+  workspaceMonthlyBudget: string;
+}
+
+const quotaLabels: Record<QuotaStatus["scope"], string> = {
+  user: "Your spend this month",
+  workspace: "This store this month",
+};
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function formatTokens(value: number): string {
+  return new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 }).format(value);
+}
+
+function toDraft(settings: UsageSettings): LimitsDraft {
+  const minutes = (limit: RateLimit | null) => (limit ? String(limit.windowSeconds / 60) : "");
+  return {
+    userRequests: settings.userRateLimit ? String(settings.userRateLimit.requests) : "",
+    userWindowMinutes: minutes(settings.userRateLimit),
+    workspaceRequests: settings.workspaceRateLimit ? String(settings.workspaceRateLimit.requests) : "",
+    workspaceWindowMinutes: minutes(settings.workspaceRateLimit),
+    userMonthlyBudget: settings.userMonthlyBudget === null ? "" : String(settings.userMonthlyBudget),
+    workspaceMonthlyBudget: settings.workspaceMonthlyBudget === null ? "" : String(settings.workspaceMonthlyBudget),
+  };
+}
+
+function toPayload(draft: LimitsDraft): Omit<UsageSettings, "updatedAt"> {
+  const rate = (requests: string, minutes: string): RateLimit | null =>
+    requests.trim() === ""
+      ? null
+      : { requests: Number(requests), windowSeconds: Math.round(Number(minutes || 1) * 60) };
+  const budget = (value: string) => (value.trim() === "" ? null : Number(value));
+  return {
+    userRateLimit: rate(draft.userRequests, draft.userWindowMinutes),
+    workspaceRateLimit: rate(draft.workspaceRequests, draft.workspaceWindowMinutes),
+    userMonthlyBudget: budget(draft.userMonthlyBudget),
+    workspaceMonthlyBudget: budget(draft.workspaceMonthlyBudget),
+  };
+}
+
+function BreakdownTable({ title, rows, currency }: { title: string; rows: UsageBreakdown[]; currency: string }) {
+  return (
+    <div>
+      <p className="text-[11px] uppercase tracking-wide text-slate-500">{title}</p>
+      {rows.length === 0 ? (
+        <p className="mt-1 text-slate-500">No model calls.</p>
+      ) : (
+        <table className="mt-1 w-full">
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-slate-800/60">
+                <td className="py-1 pr-2 text-slate-200">{row.label}</td>
+                <td className="py-1 pr-2 text-right text-slate-500">{row.calls} calls</td>
+                <td className="py-1 pr-2 text-right text-slate-500">
+                  {formatTokens(row.inputTokens + row.outputTokens)} tokens
+                </td>
+                <td className="py-1 text-right text-slate-100">{formatMoney(row.cost, currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function LimitInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <input
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      inputMode="decimal"
+      className="w-20 rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1 text-slate-100 outline-none focus:border-emerald-400"
+    />
+  );
+}
+
+export function UsagePanel({ refreshKey }: UsagePanelProps) {
+  const [month, setMonth] = useState(currentMonth);
+  const [view, setView] = useState<UsageView | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [draft, setDraft] = useState<LimitsDraft | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    fetch(`/api/usage?month=${month}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Usage unavailable");
+        return res.json() as Promise<UsageView>;
+      })
+      .then((data) => {
+        if (!active) return;
+        setView(data);
+        setFailed(false);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (active) setFailed(true);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [month, refreshKey, reloadKey]);
+
+  const updateDraft = (key: keyof LimitsDraft, value: string) => {
+    setDraft((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const saveLimits = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const res = await fetch("/api/usage/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(draft)),
+      });
+      const data = (await res.json()) as UsageSettings & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Save failed");
+      toast.success("Saved the usage limits.");
+      setDraft(null);
+      setReloadKey((prev) => prev + 1);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not save the limits.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const summary = view?.summary;
+  const busiestDay = Math.max(...(summary?.byDay.map((day) => day.cost) ?? []), 0);
+
+  return (
+    <div className="glass-panel flex flex-col gap-4 rounded-3xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <Gauge className="size-5 text-emerald-300" /> Model Usage
+        </h2>
+        <div className="flex items-center gap-3 text-xs">
+          <input
+            type="month"
+            value={month}
+            max={currentMonth()}
+            onChange={(event) => event.target.value && setMonth(event.target.value)}
+            className="rounded-full border border-slate-600/50 bg-slate-950 px-3 py-1 text-slate-100 outline-none focus:border-emerald-400"
+          />
+          <button
+            type="button"
+            disabled={!view}
+            onClick={() => setDraft((prev) => (prev || !view ? null : toDraft(view.settings)))}
+            className="inline-flex items-center gap-1 text-slate-400 transition hover:text-emerald-200 disabled:opacity-50"
+          >
+            <SlidersHorizontal className="size-3" /> Limits
+          </button>
+        </div>
+      </div>
+
+      {failed && !view ? (
+        <p className="text-xs text-slate-500">Usage could not be loaded.</p>
+      ) : !view || !summary ? (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <LoaderCircle className="size-3 animate-spin" /> Loading usage…
+        </p>
+      ) : (
+        <div className="flex flex-col gap-4 text-xs">
+          <div className="grid gap-3 md:grid-cols-2">
+            {view.quotas.map((quota) => (
+              <div key={quota.scope} className="rounded-2xl border border-slate-700/60 bg-slate-900/30 p-3">
+                <p className="text-slate-500">{quotaLabels[quota.scope]}</p>
+                <p className="mt-1 text-sm text-white">
+                  {formatMoney(quota.used, summary.currency)}
+                  <span className="text-slate-500">
+                    {quota.budget === null ? " · no budget" : ` of ${formatMoney(quota.budget, summary.currency)}`}
+                  </span>
+                </p>
+                {quota.budget !== null && (
+                  <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-slate-800">
+                    <div
+                      className={`h-full rounded-full ${quota.used >= quota.budget ? "bg-red-400" : "bg-emerald-400"}`}
+                      style={{ width: `${Math.min(100, (quota.used / quota.budget) * 100)}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <p className="text-slate-400">
+            {summary.month}:{" "}
+            <span className="text-slate-100">{formatMoney(summary.totals.cost, summary.currency)}</span>{" "}
+            across {summary.totals.calls} model calls, {formatTokens(summary.totals.inputTokens)} input and{" "}
+            {formatTokens(summary.totals.outputTokens)} output tokens.
+          </p>
+          {summary.unpricedModels.length > 0 && (
+            <p className="text-amber-200">
+              No price for {summary.unpricedModels.join(", ")}; add it to the model price table so these calls are
+              costed.
+            </p>
+          )}
+
+          {summary.byDay.length > 0 && (
+            <div className="flex h-20 items-end gap-0.5" aria-label="Spend by day">
+              {summary.byDay.map((day) => (
+                <div
+                  key={day.key}
+                  title={`${day.label}: ${formatMoney(day.cost, summary.currency)}, ${day.calls} calls`}
+                  className="flex-1 rounded-t bg-emerald-400/70"
+                  style={{ height: `${busiestDay > 0 ? Math.max(2, (day.cost / busiestDay) * 100) : 2}%` }}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <BreakdownTable title="By user" rows={summary.byUser} currency={summary.currency} />
+            <BreakdownTable title="By store" rows={summary.byWorkspace} currency={summary.currency} />
+          </div>
+
+          {draft && (
+            <div className="grid gap-3 rounded-2xl border border-slate-700/60 bg-slate-900/30 p-4 text-slate-300">
+              <p className="text-slate-500">
+                Agent runs over a rate limit, and any model call over a budget, are refused with a 429. While a budget
+                is set, models missing from the price table are refused. Leave a field empty to turn that limit off.
+                Only admins can change these.
+              </p>
+              <label className="flex flex-wrap items-center gap-2">
+                <span className="w-32 text-slate-500">Per user</span>
+                <LimitInput
+                  value={draft.userRequests}
+                  onChange={(value) => updateDraft("userRequests", value)}
+                />
+                runs every
+                <LimitInput
+                  value={draft.userWindowMinutes}
+                  onChange={(value) => updateDraft("userWindowMinutes", value)}
+                />
+                minutes
+              </label>
+              <label className="flex flex-wrap items-center gap-2">
+                <span className="w-32 text-slate-500">Per store</span>
+                <LimitInput
+                  value={draft.workspaceRequests}
+                  onChange={(value) => updateDraft("workspaceRequests", value)}
+                />
+                runs every
+                <LimitInput
+                  value={draft.workspaceWindowMinutes}
+                  onChange={(value) => updateDraft("workspaceWindowMinutes", value)}
+                />
+                minutes
+              </label>
+              <label className="flex flex-wrap items-center gap-2">
+                <span className="w-32 text-slate-500">Monthly budget</span>
+                <LimitInput
+                  value={draft.userMonthlyBudget}
+                  onChange={(value) => updateDraft("userMonthlyBudget", value)}
+                />
+                {summary.currency} per user,
+                <LimitInput
+                  value={draft.workspaceMonthlyBudget}
+                  onChange={(value) => updateDraft("workspaceMonthlyBudget", value)}
+                />
+                {summary.currency} per store
+              </label>
+              <button
+                type="button"
+                disabled={saving}
+                onClick={saveLimits}
+                className="inline-flex w-fit items-center gap-1 rounded-full border border-slate-500 px-3 py-2 text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+              >
+                {saving ? <LoaderCircle className="size-3 animate-spin" /> : <Save className="size-3" />}
+                Save limits
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
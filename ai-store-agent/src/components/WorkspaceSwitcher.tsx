@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { Check, LoaderCircle, Plus, Save, Store, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { isCurrencyCode } from "@/lib/currency";
+import { CHANNEL_OPTIONS } from "@/lib/templates/options";
+import { DEFAULT_BRAND_PROFILE, DEFAULT_WORKSPACE_ID, WORKSPACE_COOKIE } from "@/lib/workspaces/scope";
+import type { BrandProfile, Workspace } from "@/types/workspaces";
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[] | null;
+  active: Workspace | null;
+  onChange: () => void;
+}
+
+interface ProfileDraft {
+  name: string;
+  voice: string;
+  logoUrl: string;
+  loyaltyProgramName: string;
+  defaultCurrency: string;
+  enabledChannels: string[];
+}
+
+function toDraft(name: string, profile: BrandProfile): ProfileDraft {
+  return {
+    name,
+    voice: profile.voice,
+    logoUrl: profile.logoUrl ?? "",
+    loyaltyProgramName: profile.loyaltyProgramName,
+    defaultCurrency: profile.defaultCurrency,
+    enabledChannels: profile.enabledChannels,
+  };
+}
+
+function toPayload(draft: ProfileDraft): { name: string; profile: BrandProfile } {
+  return {
+    name: draft.name.trim(),
+    profile: {
+      voice: draft.voice.trim(),
+      logoUrl: draft.logoUrl.trim() || undefined,
+      loyaltyProgramName: draft.loyaltyProgramName.trim(),
+      defaultCurrency: draft.defaultCurrency.trim().toUpperCase(),
+      enabledChannels: draft.enabledChannels,
+    },
+  };
+}
+
+/** The dashboard and every API call read the store from this cookie, so switching reloads the page. */
+function switchTo(id: string) {
+  document.cookie = `${WORKSPACE_COOKIE}=${encodeURIComponent(id)}; path=/; max-age=31536000; samesite=lax`;
+  window.location.reload();
+}
+
+export function WorkspaceSwitcher({ workspaces, active, onChange }: WorkspaceSwitcherProps) {
+  const [mode, setMode] = useState<"closed" | "edit" | "create">("closed");
+  const [draft, setDraft] = useState<ProfileDraft>(() => toDraft("", DEFAULT_BRAND_PROFILE));
+  const [saving, setSaving] = useState(false);
+
+  const updateDraft = <K extends keyof ProfileDraft>(key: K, value: ProfileDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const open = (next: "edit" | "create") => {
+    if (mode === next) {
+      setMode("closed");
+      return;
+    }
+    setDraft(
+      next === "edit" && active
+        ? toDraft(active.name, active.profile)
+        : toDraft("", active?.profile ?? DEFAULT_BRAND_PROFILE)
+    );
+    setMode(next);
+  };
+
+  const save = async () => {
+    const payload = toPayload(draft);
+    if (!payload.name || !payload.profile.loyaltyProgramName) {
+      toast.error("Give the store a name and a loyalty program name.");
+      return;
+    }
+    if (!isCurrencyCode(payload.profile.defaultCurrency)) {
+      toast.error("Use an ISO 4217 currency code such as USD or EUR.");
+      return;
+    }
+    if (payload.profile.enabledChannels.length === 0) {
+      toast.error("Enable at least one channel.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const creating = mode === "create" || !active;
+      const res = await fetch(creating ? "/api/workspaces" : `/api/workspaces/${active.id}`, {
+        method: creating ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const data = (await res.json()) as Workspace & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Save failed");
+
+      if (creating) {
+        toast.success(`Created "${data.name}". Switching to it…`);
+        switchTo(data.id);
+        return;
+      }
+      toast.success(`Saved the "${data.name}" profile.`);
+      setMode("closed");
+      onChange();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not save the store.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!active || active.id === DEFAULT_WORKSPACE_ID) return;
+    if (!window.confirm(`Delete "${active.name}" with its templates and guardrails?`)) return;
+
+    try {
+      const res = await fetch(`/api/workspaces/${active.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error ?? "Delete failed");
+      }
+      switchTo(DEFAULT_WORKSPACE_ID);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not delete that store.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-xs normal-case tracking-normal">
+      <div className="flex flex-wrap items-center gap-2">
+        {active?.profile.logoUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={active.profile.logoUrl}
+            alt={`${active.name} logo`}
+            className="size-8 rounded-full border border-slate-600/50 object-cover"
+          />
+        )}
+        <span className="inline-flex items-center gap-2 rounded-full border border-slate-600/50 py-1 pl-4 pr-2">
+          <Store className="size-4 text-emerald-400" />
+          <select
+            value={active?.id ?? ""}
+            onChange={(event) => switchTo(event.target.value)}
+            disabled={workspaces === null}
+            className="bg-transparent text-sm text-slate-100 outline-none"
+          >
+            {workspaces === null && <option value="">Loading stores…</option>}
+            {workspaces?.map((workspace) => (
+              <option key={workspace.id} value={workspace.id} className="bg-slate-900 text-slate-100">
+                {workspace.name}
+              </option>
+            ))}
+          </select>
+        </span>
+        <button
+          type="button"
+          disabled={!active}
+          onClick={() => open("edit")}
+          className="rounded-full border border-slate-600/50 px-3 py-1.5 text-slate-300 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+        >
+          Brand profile
+        </button>
+        <button
+          type="button"
+          onClick={() => open("create")}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-600/50 px-3 py-1.5 text-slate-300 transition hover:border-emerald-400 hover:text-emerald-200"
+        >
+          <Plus className="size-3" /> New store
+        </button>
+      </div>
+
+      {mode !== "closed" && (
+        <div className="glass-panel grid max-w-3xl gap-3 rounded-2xl p-4 text-slate-300">
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-500">Store name</span>
+              <input
+                value={draft.name}
+                onChange={(event) => updateDraft("name", event.target.value)}
+                placeholder="e.g. Outlet store"
+                className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-slate-100 outline-none focus:border-emerald-400"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-500">Logo URL</span>
+              <input
+                value={draft.logoUrl}
+                onChange={(event) => updateDraft("logoUrl", event.target.value)}
+                placeholder="https://…"
+                className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-slate-100 outline-none focus:border-emerald-400"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-500">Loyalty program</span>
+              <input
+                value={draft.loyaltyProgramName}
+                onChange={(event) => updateDraft("loyaltyProgramName", event.target.value)}
+                className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 text-slate-100 outline-none focus:border-emerald-400"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-500">Default currency</span>
+              <input
+                value={draft.defaultCurrency}
+                onChange={(event) => updateDraft("defaultCurrency", event.target.value)}
+                maxLength={3}
+                className="rounded-full border border-slate-600/50 bg-slate-950 px-4 py-2 uppercase text-slate-100 outline-none focus:border-emerald-400"
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1">
+            <span className="text-slate-500">Brand voice</span>
+            <textarea
+              value={draft.voice}
+              onChange={(event) => updateDraft("voice", event.target.value)}
+              placeholder="e.g. Warm, witty and never pushy. Say 'crew' rather than 'customers'."
+              className="min-h-[72px] rounded-2xl border border-slate-600/50 bg-slate-950 px-4 py-2 text-slate-100 outline-none focus:border-emerald-400"
+            />
+          </label>
+          <div className="flex flex-col gap-1">
+            <span className="text-slate-500">Enabled channels</span>
+            <div className="flex flex-wrap gap-2">
+              {CHANNEL_OPTIONS.map((option) => {
+                const enabled = draft.enabledChannels.includes(option.value);
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() =>
+                      updateDraft(
+                        "enabledChannels",
+                        enabled
+                          ? draft.enabledChannels.filter((value) => value !== option.value)
+                          : [...draft.enabledChannels, option.value]
+                      )
+                    }
+                    className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 transition ${
+                      enabled
+                        ? "border-indigo-400 bg-indigo-400/10 text-indigo-100"
+                        : "border-slate-600/50 text-slate-400 hover:border-slate-500"
+                    }`}
+                  >
+                    {enabled && <Check className="size-3" />}
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <p className="text-slate-500">
+            {mode === "create"
+              ? "New stores start with the default guardrails, no team templates and no run history."
+              : "Guardrails for this store are edited in the guardrails panel."}
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={save}
+              className="inline-flex items-center gap-1 rounded-full border border-slate-500 px-3 py-2 text-slate-200 transition hover:border-emerald-400 hover:text-emerald-200 disabled:opacity-50"
+            >
+              {saving ? <LoaderCircle className="size-3 animate-spin" /> : <Save className="size-3" />}
+              {mode === "create" ? "Create store" : "Save profile"}
+            </button>
+            {mode === "edit" && active && active.id !== DEFAULT_WORKSPACE_ID && (
+              <button
+                type="button"
+                onClick={remove}
+                className="inline-flex items-center gap-1 text-slate-400 transition hover:text-red-400"
+              >
+                <Trash2 className="size-3" /> Delete store
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startAutomationScheduler } = await import("@/lib/automation/scheduler");
+  startAutomationScheduler();
+
+  const { startReportScheduler } = await import("@/lib/reports/scheduler");
+  startReportScheduler();
+
+  const { startUsagePruner } = await import("@/lib/usage/scheduler");
+  startUsagePruner();
+}
@@ -0,0 +1,234 @@
+import type { AdLaunchItem, AdSchedule, AdTargeting, GoogleLaunchPayload } from "@/types/ads";
+
+interface GoogleLaunchInput {
+  customerId: string;
+  campaignName: string;
+  dailyBudget: number;
+  schedule: AdSchedule;
+  landingUrl: string;
+  items: AdLaunchItem[];
+}
+
+/** Google Ads geo target constant IDs by ISO country code. */
+export const GEO_TARGET_CONSTANTS: Record<string, number> = {
+  US: 2840,
+  GB: 2826,
+  CA: 2124,
+  AU: 2036,
+  NZ: 2554,
+  IE: 2372,
+  DE: 2276,
+  FR: 2250,
+  ES: 2724,
+  IT: 2380,
+  NL: 2528,
+  SE: 2752,
+  JP: 2392,
+  SG: 2702,
+  IN: 2356,
+  MX: 2484,
+  BR: 2076,
+};
+
+/** Google Ads language constant IDs by ISO 639-1 code. */
+const LANGUAGE_CONSTANTS: Record<string, number> = {
+  en: 1000,
+  de: 1001,
+  fr: 1002,
+  es: 1003,
+  it: 1004,
+  ja: 1005,
+  nl: 1010,
+  pt: 1014,
+  sv: 1015,
+};
+
+const AGE_RANGES: Array<{ type: string; min: number; max: number }> = [
+  { type: "AGE_RANGE_18_24", min: 18, max: 24 },
+  { type: "AGE_RANGE_25_34", min: 25, max: 34 },
+  { type: "AGE_RANGE_35_44", min: 35, max: 44 },
+  { type: "AGE_RANGE_45_54", min: 45, max: 54 },
+  { type: "AGE_RANGE_55_64", min: 55, max: 64 },
+  { type: "AGE_RANGE_65_UP", min: 65, max: Infinity },
+];
+
+const FALLBACK_HEADLINES = ["Shop Now", "Browse the Collection", "See What's New"];
+const FALLBACK_DESCRIPTIONS = ["Browse the range and order online today.", "Find your favourites and shop online."];
+const MAX_KEYWORDS_PER_GROUP = 20;
+
+/** Stands in for an image asset's bytes, which the sender inlines as base64 when the launch goes out. */
+export function mediaPlaceholder(mediaId: string): string {
+  return `{media=${mediaId}}`;
+}
+
+/** Cuts text at a word boundary so it fits a field's character limit. */
+function fit(text: string, limit: number): string | null {
+  const clean = text
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.,;:!-]+$/, "")
+    .replace(/^\p{Ll}/u, (letter) => letter.toUpperCase());
+  if (clean.length <= limit) return clean || null;
+  const cut = clean.slice(0, limit + 1).replace(/\s+\S*$/, "");
+  return cut.length >= limit / 2 ? cut.replace(/[.,;:!-]+$/, "") : null;
+}
+
+/** Lines for an ad field from the item's copy: whole phrases first, then cut ones, then generic fallbacks. */
+function adCopy(copy: string, limit: number, count: { min: number; max: number }, fallback: string[]): string[] {
+  const fragments = copy.split(limit <= 30 ? /[.!?;,:—–]|\s-\s/ : /(?<=[.!?])\s+/);
+  const whole = fragments.map((fragment) => fragment.trim()).filter((fragment) => fragment && fragment.length <= limit);
+  const cut = whole.length >= count.min ? [] : fragments.filter((fragment) => fragment.trim().length > limit);
+  const lines = [...whole, ...cut].map((fragment) => fit(fragment, limit)).filter((line): line is string => line !== null);
+  const unique = [...new Set([...lines, ...fallback])];
+  return unique.slice(0, Math.max(count.min, Math.min(count.max, lines.length)));
+}
+
+/** Age ranges and genders outside the audience, which Google targets by exclusion. */
+function exclusions(targeting: AdTargeting): Array<Record<string, unknown>> {
+  const ages = AGE_RANGES.filter((range) => range.max < targeting.ageMin || range.min > targeting.ageMax).map(
+    (range) => ({ ageRange: { type: range.type } })
+  );
+  const genders =
+    targeting.genders.length === 1 ? [{ gender: { type: targeting.genders[0] === "female" ? "MALE" : "FEMALE" } }] : [];
+  return [...ages, ...genders];
+}
+
+function dateOf(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+/**
+ * Builds one `googleAds:mutate` request for a launch: a shared daily budget, a
+ * paused Search campaign with its schedule and location and language
+ * criteria, and per approved item an ad group with keywords, demographic
+ * exclusions, a responsive search ad and the item's images.
+ */
+export function buildGooglePayload({
+  customerId,
+  campaignName,
+  dailyBudget,
+  schedule,
+  landingUrl,
+  items,
+}: GoogleLaunchInput): GoogleLaunchPayload {
+  let nextId = -1;
+  const resource = (collection: string) => `customers/${customerId}/${collection}/${nextId--}`;
+
+  const budget = resource("campaignBudgets");
+  const campaign = resource("campaigns");
+  const countries = [...new Set(items.flatMap((item) => item.targeting.countries))];
+  const languages = [...new Set(items.flatMap((item) => item.targeting.languages))];
+
+  const operations: Array<Record<string, unknown>> = [
+    {
+      campaignBudgetOperation: {
+        create: {
+          resourceName: budget,
+          name: `${campaignName} budget`,
+          amountMicros: String(Math.round(dailyBudget * 100) * 10_000),
+          deliveryMethod: "STANDARD",
+          explicitlyShared: false,
+        },
+      },
+    },
+    {
+      campaignOperation: {
+        create: {
+          resourceName: campaign,
+          name: campaignName,
+          status: "PAUSED",
+          advertisingChannelType: "SEARCH",
+          campaignBudget: budget,
+          maximizeConversions: {},
+          networkSettings: {
+            targetGoogleSearch: true,
+            targetSearchNetwork: true,
+            targetContentNetwork: false,
+            targetPartnerSearchNetwork: false,
+          },
+          startDate: dateOf(schedule.start),
+          ...(schedule.end ? { endDate: dateOf(schedule.end) } : {}),
+        },
+      },
+    },
+    ...countries
+      .filter((code) => GEO_TARGET_CONSTANTS[code])
+      .map((code) => ({
+        campaignCriterionOperation: {
+          create: { campaign, location: { geoTargetConstant: `geoTargetConstants/${GEO_TARGET_CONSTANTS[code]}` } },
+        },
+      })),
+    ...languages
+      .filter((code) => LANGUAGE_CONSTANTS[code])
+      .map((code) => ({
+        campaignCriterionOperation: {
+          create: { campaign, language: { languageConstant: `languageConstants/${LANGUAGE_CONSTANTS[code]}` } },
+        },
+      })),
+  ];
+
+  const imageAssets = new Map<string, string>();
+
+  items.forEach((item) => {
+    const adGroup = resource("adGroups");
+    operations.push(
+      {
+        adGroupOperation: {
+          create: {
+            resourceName: adGroup,
+            name: `${campaignName} · ${item.audience}`.slice(0, 255),
+            campaign,
+            status: "PAUSED",
+            type: "SEARCH_STANDARD",
+          },
+        },
+      },
+      ...item.targeting.keywords.slice(0, MAX_KEYWORDS_PER_GROUP).map((text) => ({
+        adGroupCriterionOperation: { create: { adGroup, status: "ENABLED", keyword: { text, matchType: "BROAD" } } },
+      })),
+      ...exclusions(item.targeting).map((criterion) => ({
+        adGroupCriterionOperation: { create: { adGroup, negative: true, ...criterion } },
+      })),
+      {
+        adGroupAdOperation: {
+          create: {
+            adGroup,
+            status: "PAUSED",
+            ad: {
+              finalUrls: [landingUrl],
+              responsiveSearchAd: {
+                headlines: adCopy(item.copy, 30, { min: 3, max: 15 }, FALLBACK_HEADLINES).map((text) => ({ text })),
+                descriptions: adCopy(item.copy, 90, { min: 2, max: 4 }, FALLBACK_DESCRIPTIONS).map((text) => ({ text })),
+              },
+            },
+          },
+        },
+      }
+    );
+
+    for (const creative of item.creatives.filter((entry) => entry.kind === "image")) {
+      let asset = imageAssets.get(creative.mediaId);
+      if (!asset) {
+        asset = resource("assets");
+        imageAssets.set(creative.mediaId, asset);
+        operations.push({
+          assetOperation: {
+            create: {
+              resourceName: asset,
+              name: creative.name,
+              type: "IMAGE",
+              imageAsset: { data: mediaPlaceholder(creative.mediaId) },
+            },
+          },
+        });
+      }
+      operations.push({ adGroupAssetOperation: { create: { adGroup, asset, fieldType: "AD_IMAGE" } } });
+    }
+  });
+
+  return {
+    platform: "google",
+    customerId,
+    request: { mutateOperations: operations, partialFailure: false, validateOnly: false },
+  };
+}
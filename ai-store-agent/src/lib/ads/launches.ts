@@ -0,0 +1,288 @@
+import { buildGooglePayload } from "@/lib/ads/google";
+import { buildMetaPayload } from "@/lib/ads/meta";
+import { adLaunchPayloadSchema } from "@/lib/ads/schema";
+import { parseTargeting } from "@/lib/ads/targeting";
+import { listApprovals } from "@/lib/approvals";
+import { platformFromText } from "@/lib/budget-allocation";
+import { getMediaAsset } from "@/lib/media-assets";
+import { getRun } from "@/lib/runs";
+import { createCollection } from "@/lib/storage";
+import type { AdCreativeReference, AdLaunch, AdLaunchItem, AdLaunchPayload, AdLaunchSkip } from "@/types/ads";
+import type { AdPlatform } from "@/types/agent";
+import type { AgentRunRecord } from "@/types/runs";
+
+const launches = createCollection<AdLaunch>("ad-launches");
+
+const DEFAULT_COUNTRY = "US";
+const DEFAULT_META_AD_ACCOUNT_ID = "1234567890";
+const DEFAULT_META_PAGE_ID = "1234567890";
+const DEFAULT_GOOGLE_CUSTOMER_ID = "1234567890";
+
+const PLATFORM_LABELS: Record<AdPlatform, string> = { meta: "Meta", google: "Google" };
+
+export class AdLaunchError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "AdLaunchError";
+  }
+}
+
+export interface AdLaunchOptions {
+  runId: string;
+  /** ISO timestamp; defaults to the start of tomorrow (UTC). */
+  start?: string;
+  end?: string;
+  /** Countries for items whose audience names none. */
+  countries?: string[];
+  landingUrl?: string;
+}
+
+interface ApprovedItem {
+  platform: AdPlatform;
+  item: Omit<AdLaunchItem, "dailyBudget">;
+}
+
+function tomorrow(now: Date): string {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  return date.toISOString();
+}
+
+function defaultCountries(): string[] {
+  const configured = (process.env.ADS_DEFAULT_COUNTRIES ?? DEFAULT_COUNTRY)
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter((code) => /^[A-Z]{2}$/.test(code));
+  return configured.length > 0 ? configured : [DEFAULT_COUNTRY];
+}
+
+/**
+ * Media for one item: the brief's assets the creatives line names, or all of
+ * them when it names none. URLs point at this app's media route, so they must
+ * be publicly reachable before a real platform can fetch them.
+ */
+async function creativesFor(run: AgentRunRecord, creatives: string, origin: string): Promise<AdCreativeReference[]> {
+  const attached = run.brief.media;
+  const named = attached.filter((media) => creatives.toLowerCase().includes(media.name.toLowerCase()));
+  const chosen = named.length > 0 ? named : attached;
+  const base = process.env.ADS_MEDIA_BASE_URL ?? origin;
+
+  const references: AdCreativeReference[] = [];
+  for (const media of chosen) {
+    const asset = await getMediaAsset(media.id);
+    if (!asset) continue;
+    const url = `${base}/api/media/${asset.id}/content`;
+    references.push({
+      mediaId: asset.id,
+      name: asset.name,
+      kind: asset.kind,
+      url,
+      ...(asset.kind === "video" ? { thumbnailUrl: `${url}?variant=poster` } : {}),
+    });
+  }
+  return references;
+}
+
+async function approvedItems(
+  run: AgentRunRecord,
+  countries: string[],
+  origin: string
+): Promise<{ approved: ApprovedItem[]; skipped: AdLaunchSkip[] }> {
+  const approvals = (await listApprovals("approved")).filter(
+    (approval) =>
+      approval.source.type === "plan" && approval.source.runId === run.id && approval.source.section === "adStrategy"
+  );
+  const approved: ApprovedItem[] = [];
+  const skipped: AdLaunchSkip[] = [];
+
+  for (const approval of approvals) {
+    if (approval.source.type !== "plan") continue;
+    const { index } = approval.source;
+    const item = run.response.plan.adStrategy[index];
+    if (!item) {
+      skipped.push({ index, message: "The approved item is no longer in the plan" });
+      continue;
+    }
+
+    const platform = platformFromText(item.platform);
+    if (!platform) {
+      skipped.push({ index, message: `"${item.platform}" is neither a Meta nor a Google placement` });
+      continue;
+    }
+
+    approved.push({
+      platform,
+      item: {
+        index,
+        approvalId: approval.id,
+        audience: item.audience,
+        copy: item.creatives,
+        targeting: parseTargeting(item.audience, countries),
+        creatives: await creativesFor(run, item.creatives, origin),
+      },
+    });
+  }
+
+  return { approved: approved.sort((a, b) => a.item.index - b.item.index), skipped };
+}
+
+function validatePayload(payload: AdLaunchPayload): AdLaunchPayload {
+  const result = adLaunchPayloadSchema.safeParse(payload);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new AdLaunchError(
+      `Generated ${payload.platform} payload is invalid at ${issue.path.join(".")}: ${issue.message}`,
+      500
+    );
+  }
+  return payload;
+}
+
+function reviewNotes(platform: AdPlatform, items: AdLaunchItem[], landingUrl: string): string[] {
+  const notes: string[] = [];
+  const env = process.env;
+
+  if (platform === "meta") {
+    if (!env.META_AD_ACCOUNT_ID) notes.push("META_AD_ACCOUNT_ID is not set, so a placeholder ad account is used.");
+    if (!env.META_PAGE_ID) notes.push("META_PAGE_ID is not set, so creatives use a placeholder Page.");
+    const interests = [...new Set(items.flatMap((item) => item.targeting.interests))];
+    if (interests.length > 0) {
+      notes.push(
+        `Meta needs interest IDs from its targeting search for ${interests.join(", ")}; until then those ad sets use Advantage+ audience.`
+      );
+    }
+  } else {
+    if (!env.GOOGLE_ADS_CUSTOMER_ID) notes.push("GOOGLE_ADS_CUSTOMER_ID is not set, so a placeholder customer is used.");
+    if (items.some((item) => item.targeting.keywords.length === 0)) {
+      notes.push("Some ad groups have no keywords; add them before enabling the campaign.");
+    }
+    if (items.some((item) => item.creatives.some((creative) => creative.kind === "video"))) {
+      notes.push("Videos are left out of Google Search campaigns; upload them to YouTube to use them in video campaigns.");
+    }
+  }
+
+  if (/^https?:\/\/(localhost|127\.|\[::1\])/.test(landingUrl)) {
+    notes.push(`The landing page ${landingUrl} is local; set STORE_URL or pass landingUrl before a real launch.`);
+  }
+  if (items.some((item) => item.creatives.some((creative) => /^https?:\/\/(localhost|127\.)/.test(creative.url)))) {
+    notes.push("Media URLs are local; set ADS_MEDIA_BASE_URL to a public address before a real launch.");
+  }
+  return notes;
+}
+
+/**
+ * Turns a run's approved ad strategy into one paused launch per platform.
+ * Each platform's daily allocation is split evenly across its approved items.
+ * Regenerating replaces the run's unsent launches. The run must belong to
+ * `workspaceId` when one is given.
+ */
+export async function createAdLaunches(
+  options: AdLaunchOptions,
+  origin: string,
+  workspaceId?: string,
+  now = new Date()
+): Promise<{ launches: AdLaunch[]; skipped: AdLaunchSkip[] }> {
+  const run = await getRun(options.runId, workspaceId);
+  if (!run) throw new AdLaunchError("Run not found", 404);
+
+  const schedule = { start: options.start ?? tomorrow(now), ...(options.end ? { end: options.end } : {}) };
+  if (schedule.end && Date.parse(schedule.end) <= Date.parse(schedule.start)) {
+    throw new AdLaunchError("The end date must be after the start date", 400);
+  }
+
+  const { approved, skipped } = await approvedItems(run, options.countries ?? defaultCountries(), origin);
+  if (approved.length === 0 && skipped.length === 0) {
+    throw new AdLaunchError("This run has no approved ad strategy items", 409);
+  }
+
+  const allocation = run.response.plan.budgetAllocation;
+  const landingUrl = options.landingUrl ?? process.env.STORE_URL ?? origin;
+  const campaignName = `${run.brief.objective.slice(0, 80)} (${run.id.slice(0, 8)})`;
+  const created: AdLaunch[] = [];
+
+  for (const platform of ["meta", "google"] as AdPlatform[]) {
+    const entries = approved.filter((entry) => entry.platform === platform);
+    if (entries.length === 0) continue;
+
+    const dailyBudget = (allocation?.lines ?? [])
+      .filter((line) => line.platform === platform)
+      .reduce((sum, line) => sum + line.daily, 0);
+    if (!allocation || dailyBudget <= 0) {
+      entries.forEach(({ item }) =>
+        skipped.push({ index: item.index, message: `No ${PLATFORM_LABELS[platform]} budget was allocated for this run` })
+      );
+      continue;
+    }
+
+    const perItem = Math.floor((dailyBudget / entries.length) * 100) / 100;
+    const items: AdLaunchItem[] = entries.map(({ item }) => ({ ...item, dailyBudget: perItem }));
+    const payload = validatePayload(
+      platform === "meta"
+        ? buildMetaPayload({
+            account: {
+              adAccountId: (process.env.META_AD_ACCOUNT_ID ?? DEFAULT_META_AD_ACCOUNT_ID).replace(/^act_/, ""),
+              pageId: process.env.META_PAGE_ID ?? DEFAULT_META_PAGE_ID,
+            },
+            campaignName,
+            currency: allocation.currency,
+            schedule,
+            landingUrl,
+            items,
+          })
+        : buildGooglePayload({
+            customerId: (process.env.GOOGLE_ADS_CUSTOMER_ID ?? DEFAULT_GOOGLE_CUSTOMER_ID).replace(/-/g, ""),
+            campaignName,
+            dailyBudget,
+            schedule,
+            landingUrl,
+            items,
+          })
+    );
+
+    const timestamp = now.toISOString();
+    created.push({
+      id: crypto.randomUUID(),
+      runId: run.id,
+      platform,
+      status: "draft",
+      currency: allocation.currency,
+      dailyBudget: Math.round(dailyBudget * 100) / 100,
+      schedule,
+      landingUrl,
+      items,
+      payload,
+      notes: reviewNotes(platform, items, landingUrl),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+  }
+
+  const stale = (await launches.list()).filter((launch) => launch.runId === run.id && launch.status !== "sent");
+  await Promise.all(stale.map((launch) => launches.remove(launch.id)));
+  for (const launch of created) await launches.insert(launch);
+
+  return { launches: created, skipped: skipped.sort((a, b) => a.index - b.index) };
+}
+
+export async function listAdLaunches(runId?: string): Promise<AdLaunch[]> {
+  const records = await launches.list();
+  return records
+    .filter((launch) => !runId || launch.runId === runId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getAdLaunch(id: string): Promise<AdLaunch | null> {
+  return launches.get(id);
+}
+
+export async function deleteAdLaunch(id: string): Promise<boolean> {
+  const launch = await launches.get(id);
+  if (launch?.status === "sent") throw new AdLaunchError("Sent launches are kept as a record", 409);
+  return launches.remove(id);
+}
+
+export function updateAdLaunch(id: string, change: (launch: AdLaunch) => AdLaunch): Promise<AdLaunch | null> {
+  return launches.update(id, (launch) => ({ ...change(launch), updatedAt: new Date().toISOString() }));
+}
@@ -0,0 +1,139 @@
+import { toMinorUnits } from "@/lib/currency";
+import type { AdLaunchItem, AdSchedule, MetaLaunchPayload, MetaRequest } from "@/types/ads";
+
+export interface MetaAccount {
+  adAccountId: string;
+  pageId: string;
+}
+
+interface MetaLaunchInput {
+  account: MetaAccount;
+  campaignName: string;
+  currency: string;
+  schedule: AdSchedule;
+  landingUrl: string;
+  items: AdLaunchItem[];
+}
+
+const GENDER_CODES = { male: 1, female: 2 } as const;
+
+function reference(name: string): string {
+  return `{result=${name}:$.id}`;
+}
+
+/**
+ * Builds the Marketing API calls for one launch: a paused sales campaign, an
+ * ad set per approved item carrying its budget, schedule and targeting, and a
+ * creative plus ad per uploaded asset. Videos are uploaded from their URL
+ * first. Items without media get a single link ad that uses the landing
+ * page's preview image.
+ */
+export function buildMetaPayload({
+  account,
+  campaignName,
+  currency,
+  schedule,
+  landingUrl,
+  items,
+}: MetaLaunchInput): MetaLaunchPayload {
+  const edge = (name: string) => `act_${account.adAccountId}/${name}`;
+  const callToAction = { type: "SHOP_NOW", value: { link: landingUrl } };
+  const requests: MetaRequest[] = [
+    {
+      name: "campaign",
+      method: "POST",
+      path: edge("campaigns"),
+      body: {
+        name: campaignName,
+        objective: "OUTCOME_SALES",
+        status: "PAUSED",
+        special_ad_categories: [],
+        buying_type: "AUCTION",
+        is_adset_budget_sharing_enabled: false,
+      },
+    },
+  ];
+
+  for (const item of items) {
+    const adSet = `adset-${item.index}`;
+    const { targeting } = item;
+    requests.push({
+      name: adSet,
+      method: "POST",
+      path: edge("adsets"),
+      body: {
+        name: `${campaignName} · ${item.audience}`.slice(0, 200),
+        campaign_id: reference("campaign"),
+        status: "PAUSED",
+        daily_budget: toMinorUnits(item.dailyBudget, currency),
+        billing_event: "IMPRESSIONS",
+        optimization_goal: "OFFSITE_CONVERSIONS",
+        bid_strategy: "LOWEST_COST_WITHOUT_CAP",
+        start_time: schedule.start,
+        ...(schedule.end ? { end_time: schedule.end } : {}),
+        targeting: {
+          geo_locations: { countries: targeting.countries },
+          age_min: targeting.ageMin,
+          age_max: targeting.ageMax,
+          ...(targeting.genders.length > 0 ? { genders: targeting.genders.map((gender) => GENDER_CODES[gender]) } : {}),
+          targeting_automation: { advantage_audience: targeting.interests.length > 0 ? 1 : 0 },
+        },
+      },
+    });
+
+    const creatives = item.creatives.length > 0 ? item.creatives : [null];
+    creatives.forEach((creative, position) => {
+      const suffix = `${item.index}-${position}`;
+      let storySpec: Record<string, unknown>;
+
+      if (creative?.kind === "video") {
+        requests.push({
+          name: `video-${suffix}`,
+          method: "POST",
+          path: edge("advideos"),
+          body: { name: creative.name, file_url: creative.url },
+        });
+        storySpec = {
+          video_data: {
+            video_id: reference(`video-${suffix}`),
+            image_url: creative.thumbnailUrl ?? creative.url,
+            message: item.copy,
+            call_to_action: callToAction,
+          },
+        };
+      } else {
+        storySpec = {
+          link_data: {
+            link: landingUrl,
+            message: item.copy,
+            ...(creative ? { picture: creative.url } : {}),
+            call_to_action: callToAction,
+          },
+        };
+      }
+
+      const label = creative ? creative.name : "link";
+      requests.push(
+        {
+          name: `creative-${suffix}`,
+          method: "POST",
+          path: edge("adcreatives"),
+          body: { name: `${campaignName} · ${label}`, object_story_spec: { page_id: account.pageId, ...storySpec } },
+        },
+        {
+          name: `ad-${suffix}`,
+          method: "POST",
+          path: edge("ads"),
+          body: {
+            name: `${campaignName} · ${label}`,
+            adset_id: reference(adSet),
+            creative: { creative_id: reference(`creative-${suffix}`) },
+            status: "PAUSED",
+          },
+        }
+      );
+    });
+  }
+
+  return { platform: "meta", adAccountId: account.adAccountId, requests };
+}
@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+import { GOOGLE_OPERATION_TYPES, META_EDGE_PATTERN, META_EDGE_SCHEMAS, googleMutateRequestSchema } from "@/lib/ads/schema";
+
+/**
+ * Stand-ins for the Meta Marketing API and Google Ads API. They check requests
+ * against the same schemas launches are built with and answer in each API's
+ * response shape with made-up IDs, so a launch can be sent end to end without
+ * an ad account.
+ */
+
+export interface MockReply {
+  status: number;
+  body: unknown;
+}
+
+function fakeId(digits = 15): string {
+  return String(10 ** (digits - 1) + Math.floor(Math.random() * 9 * 10 ** (digits - 1)));
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`).join("; ");
+}
+
+/** `POST /{version}/act_{id}/{edge}` */
+export function mockMetaRequest(segments: string[], body: unknown): MockReply {
+  const [version, ...rest] = segments;
+  const path = rest.join("/");
+  const edge = path.match(META_EDGE_PATTERN)?.[1];
+
+  if (!/^v\d+\.\d+$/.test(version ?? "") || !edge) {
+    return {
+      status: 400,
+      body: { error: { message: `Unsupported request: POST /${segments.join("/")}`, type: "GraphMethodException", code: 100 } },
+    };
+  }
+
+  const result = META_EDGE_SCHEMAS[edge].safeParse(body);
+  if (!result.success) {
+    return {
+      status: 400,
+      body: { error: { message: `Invalid parameter (${describeIssues(result.error)})`, type: "OAuthException", code: 100 } },
+    };
+  }
+  if (JSON.stringify(body).includes("{result=")) {
+    return {
+      status: 400,
+      body: { error: { message: "Unresolved batch reference in request body", type: "OAuthException", code: 100 } },
+    };
+  }
+
+  return { status: 200, body: { id: fakeId() } };
+}
+
+/** `POST /{version}/customers/{customerId}/googleAds:mutate` */
+export function mockGoogleMutate(segments: string[], body: unknown): MockReply {
+  const [version, customers, customerId, method] = segments;
+  if (!/^v\d+$/.test(version ?? "") || customers !== "customers" || method !== "googleAds:mutate") {
+    return {
+      status: 404,
+      body: { error: { code: 404, message: `Unsupported request: POST /${segments.join("/")}`, status: "NOT_FOUND" } },
+    };
+  }
+
+  const invalid = (message: string): MockReply => ({
+    status: 400,
+    body: { error: { code: 400, message: `Request contains an invalid argument. ${message}`, status: "INVALID_ARGUMENT" } },
+  });
+
+  const result = googleMutateRequestSchema.safeParse(body);
+  if (!result.success) return invalid(describeIssues(result.error));
+
+  const serialized = JSON.stringify(result.data);
+  if (!serialized.includes(`customers/${customerId}/`)) return invalid("Resources belong to another customer.");
+  if (serialized.includes("{media=")) return invalid("Image asset data was not inlined.");
+
+  const ids = new Map<string, string>();
+  const permanent = (name: string) =>
+    name.replace(/\/(-\d+)$/, (_, temporary: string) => {
+      if (!ids.has(temporary)) ids.set(temporary, fakeId(10));
+      return `/${ids.get(temporary)}`;
+    });
+
+  const responses = result.data.mutateOperations.map((operation) => {
+    const type = Object.keys(operation)[0] as (typeof GOOGLE_OPERATION_TYPES)[number];
+    const create = (operation[type] as { create: Record<string, unknown> }).create;
+    const collection = type.replace(/Operation$/, "");
+    const plural = collection.endsWith("Criterion") ? collection.replace(/Criterion$/, "Criteria") : `${collection}s`;
+    const resourceName =
+      typeof create.resourceName === "string"
+        ? permanent(create.resourceName)
+        : `customers/${customerId}/${plural}/${fakeId(10)}~${fakeId(10)}`;
+    return { [`${collection}Result`]: { resourceName } };
+  });
+
+  return { status: 200, body: { mutateOperationResponses: responses } };
+}
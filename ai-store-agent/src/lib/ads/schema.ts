@@ -0,0 +1,222 @@
+import { z } from "zod";
+
+/**
+ * The subset of the Meta Marketing API and Google Ads API request shapes that
+ * launches produce. Launch payloads are checked against these before they are
+ * stored, and the mock ad servers check what they receive against them too.
+ */
+
+const status = z.union([z.literal("ACTIVE"), z.literal("PAUSED")]);
+const metaReference = z.string().regex(/^(\d+|\{result=[\w-]+:\$\.id\})$/, "Expected an ID or a {result=name:$.id} reference");
+const callToAction = z.object({
+  type: z.union([z.literal("SHOP_NOW"), z.literal("LEARN_MORE"), z.literal("SIGN_UP")]),
+  value: z.object({ link: z.url() }),
+});
+
+const metaCampaignSchema = z.object({
+  name: z.string().min(1),
+  objective: z.union([z.literal("OUTCOME_SALES"), z.literal("OUTCOME_TRAFFIC"), z.literal("OUTCOME_AWARENESS")]),
+  status,
+  special_ad_categories: z.array(z.string()),
+  buying_type: z.literal("AUCTION"),
+  is_adset_budget_sharing_enabled: z.boolean(),
+});
+
+const metaAdSetSchema = z.object({
+  name: z.string().min(1),
+  campaign_id: metaReference,
+  status,
+  daily_budget: z.number().int().positive(),
+  billing_event: z.literal("IMPRESSIONS"),
+  optimization_goal: z.union([z.literal("LINK_CLICKS"), z.literal("OFFSITE_CONVERSIONS")]),
+  bid_strategy: z.literal("LOWEST_COST_WITHOUT_CAP"),
+  start_time: z.iso.datetime({ offset: true }),
+  end_time: z.iso.datetime({ offset: true }).optional(),
+  targeting: z.object({
+    geo_locations: z.object({ countries: z.array(z.string().regex(/^[A-Z]{2}$/)).min(1) }),
+    age_min: z.number().int().min(13).max(65),
+    age_max: z.number().int().min(13).max(65),
+    genders: z.array(z.union([z.literal(1), z.literal(2)])).optional(),
+    targeting_automation: z.object({ advantage_audience: z.union([z.literal(0), z.literal(1)]) }).optional(),
+  }),
+});
+
+const metaVideoSchema = z.object({
+  name: z.string().min(1),
+  file_url: z.url(),
+});
+
+const metaCreativeSchema = z.object({
+  name: z.string().min(1),
+  object_story_spec: z
+    .object({
+      page_id: z.string().regex(/^\d+$/),
+      link_data: z
+        .object({
+          link: z.url(),
+          message: z.string(),
+          name: z.string().optional(),
+          picture: z.url().optional(),
+          call_to_action: callToAction,
+        })
+        .optional(),
+      video_data: z
+        .object({
+          video_id: metaReference,
+          image_url: z.url(),
+          message: z.string(),
+          title: z.string().optional(),
+          call_to_action: callToAction,
+        })
+        .optional(),
+    })
+    .refine((spec) => Boolean(spec.link_data) !== Boolean(spec.video_data), "Set exactly one of link_data or video_data"),
+});
+
+const metaAdSchema = z.object({
+  name: z.string().min(1),
+  adset_id: metaReference,
+  creative: z.object({ creative_id: metaReference }),
+  status,
+});
+
+/** Request body schemas by Marketing API edge, e.g. `act_123/adsets`. */
+export const META_EDGE_SCHEMAS: Record<string, z.ZodType> = {
+  campaigns: metaCampaignSchema,
+  adsets: metaAdSetSchema,
+  advideos: metaVideoSchema,
+  adcreatives: metaCreativeSchema,
+  ads: metaAdSchema,
+};
+
+export const META_EDGE_PATTERN = /^act_\d+\/(campaigns|adsets|advideos|adcreatives|ads)$/;
+
+export const metaRequestSchema = z
+  .object({
+    name: z.string().regex(/^[\w-]+$/),
+    method: z.literal("POST"),
+    path: z.string().regex(META_EDGE_PATTERN, "Unsupported Marketing API edge"),
+    body: z.record(z.string(), z.unknown()),
+  })
+  .superRefine((request, context) => {
+    const edge = request.path.match(META_EDGE_PATTERN)?.[1];
+    const result = edge ? META_EDGE_SCHEMAS[edge].safeParse(request.body) : null;
+    result?.error?.issues.forEach((issue) => context.addIssue({ ...issue, path: ["body", ...issue.path] }));
+  });
+
+export const metaLaunchPayloadSchema = z.object({
+  platform: z.literal("meta"),
+  adAccountId: z.string().regex(/^\d+$/),
+  requests: z.array(metaRequestSchema).min(1),
+});
+
+const googleStatus = z.union([z.literal("ENABLED"), z.literal("PAUSED")]);
+const googleDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const resourceName = (collection: string) =>
+  z.string().regex(new RegExp(`^customers/\\d+/${collection}/-?\\d+(~\\d+)?$`), `Expected a ${collection} resource name`);
+const create = <T extends z.ZodRawShape>(shape: T) => z.object({ create: z.object(shape) });
+
+const googleOperationSchemas = {
+  campaignBudgetOperation: create({
+    resourceName: resourceName("campaignBudgets"),
+    name: z.string().min(1),
+    amountMicros: z.string().regex(/^\d+$/),
+    deliveryMethod: z.literal("STANDARD"),
+    explicitlyShared: z.boolean(),
+  }),
+  campaignOperation: create({
+    resourceName: resourceName("campaigns"),
+    name: z.string().min(1),
+    status: googleStatus,
+    advertisingChannelType: z.literal("SEARCH"),
+    campaignBudget: resourceName("campaignBudgets"),
+    maximizeConversions: z.object({}),
+    networkSettings: z.object({
+      targetGoogleSearch: z.boolean(),
+      targetSearchNetwork: z.boolean(),
+      targetContentNetwork: z.boolean(),
+      targetPartnerSearchNetwork: z.boolean(),
+    }),
+    startDate: googleDate,
+    endDate: googleDate.optional(),
+  }),
+  campaignCriterionOperation: create({
+    campaign: resourceName("campaigns"),
+    location: z.object({ geoTargetConstant: z.string().regex(/^geoTargetConstants\/\d+$/) }).optional(),
+    language: z.object({ languageConstant: z.string().regex(/^languageConstants\/\d+$/) }).optional(),
+  }),
+  adGroupOperation: create({
+    resourceName: resourceName("adGroups"),
+    name: z.string().min(1),
+    campaign: resourceName("campaigns"),
+    status: googleStatus,
+    type: z.literal("SEARCH_STANDARD"),
+  }),
+  adGroupCriterionOperation: create({
+    adGroup: resourceName("adGroups"),
+    status: googleStatus.optional(),
+    negative: z.boolean().optional(),
+    keyword: z
+      .object({
+        text: z.string().min(1).max(80),
+        matchType: z.union([z.literal("BROAD"), z.literal("PHRASE"), z.literal("EXACT")]),
+      })
+      .optional(),
+    ageRange: z.object({ type: z.string().regex(/^AGE_RANGE_(\d+_\d+|65_UP|UNDETERMINED)$/) }).optional(),
+    gender: z.object({ type: z.union([z.literal("MALE"), z.literal("FEMALE"), z.literal("UNDETERMINED")]) }).optional(),
+  }),
+  adGroupAdOperation: create({
+    adGroup: resourceName("adGroups"),
+    status: googleStatus,
+    ad: z.object({
+      finalUrls: z.array(z.url()).min(1),
+      responsiveSearchAd: z.object({
+        headlines: z.array(z.object({ text: z.string().min(1).max(30) })).min(3).max(15),
+        descriptions: z.array(z.object({ text: z.string().min(1).max(90) })).min(2).max(4),
+      }),
+    }),
+  }),
+  assetOperation: create({
+    resourceName: resourceName("assets"),
+    name: z.string().min(1),
+    type: z.literal("IMAGE"),
+    imageAsset: z.object({ data: z.string().min(1) }),
+  }),
+  adGroupAssetOperation: create({
+    adGroup: resourceName("adGroups"),
+    asset: resourceName("assets"),
+    fieldType: z.literal("AD_IMAGE"),
+  }),
+};
+
+export type GoogleOperationType = keyof typeof googleOperationSchemas;
+
+export const GOOGLE_OPERATION_TYPES = Object.keys(googleOperationSchemas) as GoogleOperationType[];
+
+const googleOperationSchema = z.record(z.string(), z.unknown()).superRefine((operation, context) => {
+  const keys = Object.keys(operation);
+  const type = keys[0] as GoogleOperationType;
+  if (keys.length !== 1 || !GOOGLE_OPERATION_TYPES.includes(type)) {
+    context.addIssue({ code: "custom", message: `Expected exactly one of ${GOOGLE_OPERATION_TYPES.join(", ")}` });
+    return;
+  }
+  const result = googleOperationSchemas[type].safeParse(operation[type]);
+  result.error?.issues.forEach((issue) => context.addIssue({ ...issue, path: [type, ...issue.path] }));
+});
+
+export const googleMutateRequestSchema = z.object({
+  mutateOperations: z.array(googleOperationSchema).min(1).max(10_000),
+  partialFailure: z.boolean(),
+  validateOnly: z.boolean(),
+});
+
+export const googleLaunchPayloadSchema = z.object({
+  platform: z.literal("google"),
+  customerId: z.string().regex(/^\d{10}$/),
+  request: googleMutateRequestSchema,
+});
+
+export const adLaunchPayloadSchema = z.discriminatedUnion("platform", [
+  metaLaunchPayloadSchema,
+  googleLaunchPayloadSchema,
+]);
@@ -0,0 +1,118 @@
+import { AdLaunchError, getAdLaunch, updateAdLaunch } from "@/lib/ads/launches";
+import { getMediaAsset, openMediaVariant } from "@/lib/media-assets";
+import type { AdLaunch, AdLaunchResult, GoogleLaunchPayload, MetaLaunchPayload } from "@/types/ads";
+
+const META_API_VERSION = "v21.0";
+const GOOGLE_ADS_API_VERSION = "v20";
+const SEND_TIMEOUT_MS = 30_000;
+
+/** Real endpoints when configured, otherwise the mock ad servers this app serves under `/api/ads/mock`. */
+function endpointBase(platform: "meta" | "google", origin: string): string {
+  const configured = platform === "meta" ? process.env.META_API_BASE_URL : process.env.GOOGLE_ADS_API_BASE_URL;
+  return (configured ?? `${origin}/api/ads/mock/${platform}`).replace(/\/$/, "");
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>): Promise<Record<string, unknown>> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  const data = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  if (!response.ok) {
+    const error = data.error as { message?: string } | undefined;
+    throw new Error(`${url} responded with ${response.status}${error?.message ? `: ${error.message}` : ""}`);
+  }
+  return data;
+}
+
+/** Runs the Marketing API calls in order, filling `{result=name:$.id}` references from earlier responses. */
+async function sendMeta(payload: MetaLaunchPayload, origin: string): Promise<AdLaunchResult> {
+  const base = `${endpointBase("meta", origin)}/${process.env.META_API_VERSION ?? META_API_VERSION}`;
+  const headers: Record<string, string> = process.env.META_ACCESS_TOKEN
+    ? { Authorization: `Bearer ${process.env.META_ACCESS_TOKEN}` }
+    : {};
+  const created: Record<string, string> = {};
+
+  for (const request of payload.requests) {
+    const body = JSON.parse(
+      JSON.stringify(request.body).replace(/\{result=([\w-]+):\$\.id\}/g, (match, name: string) => {
+        if (!created[name]) throw new Error(`${request.name} refers to ${name} before it was created`);
+        return created[name];
+      })
+    ) as unknown;
+    const data = await postJson(`${base}/${request.path}`, body, headers);
+    if (typeof data.id !== "string") throw new Error(`${request.name} returned no id`);
+    created[request.name] = data.id;
+  }
+
+  return { created, endpoint: base, sentAt: new Date().toISOString() };
+}
+
+async function mediaAsBase64(mediaId: string): Promise<string> {
+  const asset = await getMediaAsset(mediaId);
+  const stored = asset && (await openMediaVariant(asset, "original"));
+  if (!stored) throw new Error(`Media asset ${mediaId} is no longer available`);
+  return Buffer.from(await new Response(stored.body).arrayBuffer()).toString("base64");
+}
+
+/** Sends the mutate request in one call after inlining the bytes of every referenced image. */
+async function sendGoogle(payload: GoogleLaunchPayload, origin: string): Promise<AdLaunchResult> {
+  const version = process.env.GOOGLE_ADS_API_VERSION ?? GOOGLE_ADS_API_VERSION;
+  const url = `${endpointBase("google", origin)}/${version}/customers/${payload.customerId}/googleAds:mutate`;
+  const headers: Record<string, string> = {};
+  if (process.env.GOOGLE_ADS_ACCESS_TOKEN) headers.Authorization = `Bearer ${process.env.GOOGLE_ADS_ACCESS_TOKEN}`;
+  if (process.env.GOOGLE_ADS_DEVELOPER_TOKEN) headers["developer-token"] = process.env.GOOGLE_ADS_DEVELOPER_TOKEN;
+  if (process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID) {
+    headers["login-customer-id"] = process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID.replace(/-/g, "");
+  }
+
+  let serialized = JSON.stringify(payload.request);
+  for (const [placeholder, mediaId] of serialized.matchAll(/\{media=([\w-]+)\}/g)) {
+    serialized = serialized.replace(placeholder, await mediaAsBase64(mediaId));
+  }
+
+  const data = await postJson(url, JSON.parse(serialized) as unknown, headers);
+  const responses = (data.mutateOperationResponses ?? []) as Array<Record<string, { resourceName?: string }>>;
+  const created: Record<string, string> = {};
+
+  payload.request.mutateOperations.forEach((operation, index) => {
+    const [type] = Object.keys(operation);
+    const temporary = (operation[type] as { create?: { resourceName?: string } }).create?.resourceName;
+    const result = Object.values(responses[index] ?? {})[0];
+    if (temporary && result?.resourceName) created[temporary] = result.resourceName;
+  });
+
+  return { created, endpoint: url, sentAt: new Date().toISOString() };
+}
+
+/**
+ * Sends a reviewed launch. Everything is created paused, so nothing spends
+ * until someone enables it in the ad platform. A failed send is recorded on
+ * the launch and can be retried.
+ */
+export async function sendAdLaunch(id: string, origin: string): Promise<AdLaunch> {
+  const launch = await getAdLaunch(id);
+  if (!launch) throw new AdLaunchError("Launch not found", 404);
+  if (launch.status === "sent") throw new AdLaunchError("This launch was already sent", 409);
+
+  let result: AdLaunchResult;
+  try {
+    result =
+      launch.payload.platform === "meta"
+        ? await sendMeta(launch.payload, origin)
+        : await sendGoogle(launch.payload, origin);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Send failed";
+    await updateAdLaunch(id, (record) => ({ ...record, status: "failed", error: message }));
+    throw new AdLaunchError(message, 502);
+  }
+
+  const updated = await updateAdLaunch(id, (record) => {
+    const sent: AdLaunch = { ...record, status: "sent", result };
+    delete sent.error;
+    return sent;
+  });
+  return updated ?? launch;
+}
@@ -0,0 +1,124 @@
+import type { AdGender, AdTargeting } from "@/types/ads";
+
+export const DEFAULT_AGE_MIN = 18;
+export const DEFAULT_AGE_MAX = 65;
+
+/** Country names and codes an audience line may use, by ISO code. */
+const COUNTRY_NAMES: Record<string, string[]> = {
+  US: ["us", "usa", "united states", "america"],
+  GB: ["uk", "united kingdom", "britain", "great britain", "england"],
+  CA: ["canada"],
+  AU: ["australia"],
+  NZ: ["new zealand"],
+  IE: ["ireland"],
+  DE: ["germany"],
+  FR: ["france"],
+  ES: ["spain"],
+  IT: ["italy"],
+  NL: ["netherlands"],
+  SE: ["sweden"],
+  JP: ["japan"],
+  SG: ["singapore"],
+  IN: ["india"],
+  MX: ["mexico"],
+  BR: ["brazil"],
+};
+
+const COUNTRY_LANGUAGES: Record<string, string> = {
+  DE: "de",
+  FR: "fr",
+  ES: "es",
+  MX: "es",
+  IT: "it",
+  NL: "nl",
+  SE: "sv",
+  JP: "ja",
+  BR: "pt",
+};
+
+const INTEREST_PATTERN = /\b(?:interested in|interests?(?: like| such as| in)?:?|who (?:love|like|follow|buy)|fans of|into)\s+([^.;()]+)/gi;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseAges(text: string): { ageMin: number; ageMax: number } {
+  const clamp = (value: number) => Math.min(DEFAULT_AGE_MAX, Math.max(DEFAULT_AGE_MIN, value));
+
+  const range = text.match(/\b(\d{2})\s*(?:-|–|to)\s*(\d{2})\b/);
+  if (range && Number(range[1]) < Number(range[2])) {
+    return { ageMin: clamp(Number(range[1])), ageMax: clamp(Number(range[2])) };
+  }
+  const over = text.match(/\b(\d{2})\s*\+|\b(?:over|aged?|above)\s+(\d{2})\b/i);
+  if (over) return { ageMin: clamp(Number(over[1] ?? over[2])), ageMax: DEFAULT_AGE_MAX };
+  const under = text.match(/\bunder\s+(\d{2})\b/i);
+  if (under) return { ageMin: DEFAULT_AGE_MIN, ageMax: clamp(Number(under[1])) };
+  if (/\bgen ?z\b/i.test(text)) return { ageMin: 18, ageMax: 28 };
+  if (/\bmillennials?\b/i.test(text)) return { ageMin: 28, ageMax: 44 };
+  return { ageMin: DEFAULT_AGE_MIN, ageMax: DEFAULT_AGE_MAX };
+}
+
+function parseGenders(text: string): AdGender[] {
+  const female = /\b(women|woman|female|females|mums|moms|mothers)\b/i.test(text);
+  const male = /\b(men|man|male|males|dads|fathers)\b/i.test(text);
+  if (female && !male) return ["female"];
+  if (male && !female) return ["male"];
+  return [];
+}
+
+function parseCountries(text: string): string[] {
+  const lower = text.toLowerCase();
+  return Object.entries(COUNTRY_NAMES)
+    .filter(([code, names]) =>
+      [code.toLowerCase(), ...names].some((name) =>
+        name.length <= 3
+          ? new RegExp(`(?<![A-Za-z])${escapeRegExp(name.toUpperCase())}(?![A-Za-z])`).test(text)
+          : new RegExp(`\\b${escapeRegExp(name)}\\b`).test(lower)
+      )
+    )
+    .map(([code]) => code);
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(/,|\band\b|\bor\b|\//i)
+    .map((part) => part.trim().replace(/^(the|a|an)\s+/i, "").toLowerCase())
+    .filter((part) => part.length > 1 && part.split(/\s+/).length <= 4);
+}
+
+function parseInterests(text: string): string[] {
+  const found = [...text.matchAll(INTEREST_PATTERN)].flatMap((match) => splitList(match[1]));
+  return [...new Set(found)];
+}
+
+/** Quoted phrases and the interests double as search keywords. */
+function parseKeywords(text: string, interests: string[]): string[] {
+  const quoted = [...text.matchAll(/["“]([^"”]{2,80})["”]/g)].map((match) => match[1].trim().toLowerCase());
+  return [...new Set([...quoted, ...interests])];
+}
+
+/**
+ * Reads targeting from an audience line such as "Women 25-44 in the UK and
+ * Ireland interested in yoga, pilates and wellness". Ages fall back to 18-65
+ * and countries to `defaultCountries` when the line does not name them.
+ */
+export function parseTargeting(audience: string, defaultCountries: string[]): AdTargeting {
+  const countries = parseCountries(audience);
+  const resolvedCountries = countries.length > 0 ? countries : defaultCountries;
+  const interests = parseInterests(audience);
+
+  return {
+    countries: resolvedCountries,
+    ...parseAges(audience),
+    genders: parseGenders(audience),
+    languages: [...new Set(resolvedCountries.map((code) => COUNTRY_LANGUAGES[code] ?? "en"))],
+    interests,
+    keywords: parseKeywords(audience, interests),
+  };
+}
+
+export function describeTargeting(targeting: AdTargeting): string {
+  const genders = targeting.genders.length === 0 ? "all genders" : targeting.genders.join(" and ");
+  const interests = targeting.interests.length > 0 ? `, interested in ${targeting.interests.join(", ")}` : "";
+  return `${targeting.countries.join(", ")} · ${targeting.ageMin}-${targeting.ageMax} · ${genders}${interests}`;
+}
@@ -0,0 +1,188 @@
+import { buildCatalogContext } from "@/lib/catalog/context";
+import { buildInventoryContext } from "@/lib/inventory/context";
+import { MAX_MODEL_IMAGES } from "@/lib/media-analysis";
+import { getMediaAsset, loadModelImages } from "@/lib/media-assets";
+import { buildPerformanceContext } from "@/lib/metrics/context";
+import { buildRepairPrompt, parsePlanOutput, parsePlanSection } from "@/lib/plan-schema";
+import { createSectionExtractor } from "@/lib/plan-stream";
+import { buildAgentPrompt } from "@/lib/prompt";
+import { resolveProvider } from "@/lib/providers";
+import { SAMPLE_AGENT_RESPONSE } from "@/lib/sample-plan";
+import { buildSupportContext } from "@/lib/support/context";
+import { meterProvider } from "@/lib/usage/meter";
+import { buildBrandContext } from "@/lib/workspaces/context";
+import type {
+  AgentBrief,
+  AgentDiagnostics,
+  AgentFallbackReason,
+  AgentResponse,
+  AgentSection,
+} from "@/types/agent";
+import type { UserRef } from "@/types/auth";
+import type {
+  ModelContentPart,
+  ModelMessage,
+  ModelProvider,
+  ProviderSelection,
+} from "@/types/provider";
+import type { Workspace } from "@/types/workspaces";
+
+const MAX_PLAN_ATTEMPTS = 3;
+
+export interface RunOptions {
+  provider?: ProviderSelection;
+  /** Store whose brand profile is given to the model and whose media the brief may attach. */
+  workspace?: Workspace;
+  /** Who started the run; model usage is billed to them and the store. */
+  user?: UserRef;
+  signal?: AbortSignal;
+  onSection?: (section: AgentSection) => void;
+  /** Called before each repair attempt; sections streamed by the failed attempt should be dropped. */
+  onRetry?: (attempt: number) => void;
+}
+
+export function fallbackResponse(
+  reason: AgentFallbackReason,
+  diagnostics: Partial<AgentDiagnostics> = {}
+): AgentResponse {
+  return {
+    ...SAMPLE_AGENT_RESPONSE,
+    diagnostics: {
+      attempts: 0,
+      repaired: false,
+      repairs: [],
+      issues: [],
+      ...diagnostics,
+      fallback: reason,
+    },
+  };
+}
+
+async function buildBriefMessage(
+  brief: AgentBrief,
+  mediaTokens: string[],
+  workspace: Workspace | undefined
+): Promise<ModelMessage> {
+  const catalog = await buildCatalogContext(brief).catch((error) => {
+    console.error("Catalog read failure", error);
+    return null;
+  });
+  const inventory = await buildInventoryContext().catch((error) => {
+    console.error("Inventory alert read failure", error);
+    return null;
+  });
+  const support = await buildSupportContext(brief).catch((error) => {
+    console.error("Support queue read failure", error);
+    return null;
+  });
+  const performance = await buildPerformanceContext(brief, workspace?.id).catch((error) => {
+    console.error("Performance metrics read failure", error);
+    return null;
+  });
+  const brand = workspace ? buildBrandContext(workspace) : null;
+  const prompt = [buildAgentPrompt(brief, mediaTokens), brand, catalog, inventory, support, performance]
+    .filter(Boolean)
+    .join("\n\n");
+  const content: ModelContentPart[] = [{ type: "text", text: prompt }];
+  let remaining = MAX_MODEL_IMAGES;
+
+  for (const asset of brief.media) {
+    const stored = await getMediaAsset(asset.id, workspace?.id);
+    const images = stored
+      ? await loadModelImages(stored, remaining).catch((error) => {
+          console.error("Media read failure", asset.id, error);
+          return [];
+        })
+      : [];
+    if (images.length === 0) continue;
+
+    const label = asset.kind === "video" ? `keyframes from video "${asset.name}"` : `image "${asset.name}"`;
+    content.push(
+      { type: "text", text: `Attached ${label}:` },
+      ...images.map((dataUrl) => ({ type: "image" as const, dataUrl }))
+    );
+    remaining -= images.length;
+    if (remaining === 0) break;
+  }
+
+  return { role: "user", content: content.length === 1 ? prompt : content };
+}
+
+async function requestOutput(
+  provider: ModelProvider,
+  messages: ModelMessage[],
+  { signal, onSection }: RunOptions
+): Promise<string> {
+  if (!onSection) {
+    return provider.complete({ messages, signal });
+  }
+
+  const extractSections = createSectionExtractor();
+  let outputText = "";
+
+  for await (const delta of provider.stream({ messages, signal })) {
+    outputText += delta;
+    for (const section of extractSections(delta)) {
+      const validSection = parsePlanSection(section);
+      if (validSection) onSection(validSection);
+    }
+  }
+
+  return outputText;
+}
+
+export async function runAgent(
+  brief: AgentBrief,
+  mediaTokens: string[],
+  options: RunOptions = {}
+): Promise<AgentResponse> {
+  const provider = meterProvider(resolveProvider(options.provider), "agent", {
+    user: options.user,
+    workspaceId: options.workspace?.id,
+  });
+
+  if (!provider) {
+    return fallbackResponse("missing-api-key");
+  }
+
+  const messages: ModelMessage[] = [await buildBriefMessage(brief, mediaTokens, options.workspace)];
+  const issues: string[] = [];
+  let repairs: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_PLAN_ATTEMPTS; attempt++) {
+    const outputText = await requestOutput(provider, messages, options);
+    const result = parsePlanOutput(outputText);
+    repairs = result.repairs;
+
+    if (result.success) {
+      return {
+        plan: result.plan,
+        raw: outputText,
+        usedSample: false,
+        diagnostics: {
+          provider: provider.id,
+          model: provider.model,
+          attempts: attempt,
+          repaired: result.repairs.length > 0,
+          repairs: result.repairs,
+          issues,
+        },
+      };
+    }
+
+    issues.push(...result.issues.map((issue) => `Attempt ${attempt}: ${issue}`));
+    messages.push(
+      { role: "assistant", content: outputText },
+      { role: "user", content: buildRepairPrompt(result.issues) }
+    );
+    if (attempt < MAX_PLAN_ATTEMPTS) options.onRetry?.(attempt + 1);
+  }
+
+  return fallbackResponse("invalid-output", {
+    provider: provider.id,
+    model: provider.model,
+    attempts: MAX_PLAN_ATTEMPTS,
+    repairs,
+    issues,
+  });
+}
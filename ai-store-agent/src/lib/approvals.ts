@@ -0,0 +1,260 @@
+import { parseAction } from "@/lib/automation/parser";
+import { checkPlanItem } from "@/lib/guardrails/check";
+import { getGuardrailSettings } from "@/lib/guardrails/settings";
+import { getRun, updateRunPlan } from "@/lib/runs";
+import { createCollection } from "@/lib/storage";
+import type { AgentOutput } from "@/types/agent";
+import type { UserRef } from "@/types/auth";
+import type {
+  ApprovalAuditEntry,
+  ApprovalCategory,
+  ApprovalDecision,
+  ApprovalDetails,
+  ApprovalFieldChange,
+  ApprovalRequest,
+  ApprovalSource,
+  ApprovalStatus,
+  PlanApprovalSection,
+} from "@/types/approvals";
+import type { AutomationAction } from "@/types/automation";
+
+/** Actor recorded for approvals the system itself requests. */
+export const SYSTEM_ACTOR = "StorePilot";
+
+/** The signed-in user behind an edit, or `SYSTEM_ACTOR` for StorePilot's own rewrites. */
+export type Reviewer = UserRef | typeof SYSTEM_ACTOR;
+
+function actorOf(reviewer: Reviewer): Pick<ApprovalAuditEntry, "actor" | "actorId"> {
+  return typeof reviewer === "string" ? { actor: reviewer } : { actor: reviewer.name, actorId: reviewer.id };
+}
+
+const approvals = createCollection<ApprovalRequest>("approvals");
+const audit = createCollection<ApprovalAuditEntry>("approval-audit");
+
+const PRICING_PATTERN = /\b(price|pricing|discount|markdown|coupon|promo code)\b/i;
+
+export class ApprovalError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+export interface ApprovalCandidate {
+  category: ApprovalCategory;
+  title: string;
+  details: ApprovalDetails;
+}
+
+/** Automation actions that spend money, publish to customers or change prices need a reviewer. */
+export function approvalCategoryForAction(action: AutomationAction): ApprovalCategory | null {
+  switch (action.type) {
+    case "adjust-budget":
+      return action.changePercent > 0 ? "spend" : null;
+    case "update-price":
+      return "pricing";
+    case "send-email":
+      return action.audience === "customer" ? "publish" : null;
+    default:
+      return null;
+  }
+}
+
+function planCandidates(plan: AgentOutput): Array<ApprovalCandidate & { section: PlanApprovalSection; index: number }> {
+  const candidates: Array<ApprovalCandidate & { section: PlanApprovalSection; index: number }> = [];
+
+  plan.adStrategy.forEach((item, index) => {
+    candidates.push({ section: "adStrategy", index, category: "spend", title: `Ad spend: ${item.platform}`, details: { ...item } });
+  });
+
+  plan.channelPlaybooks.forEach((item, index) => {
+    candidates.push({ section: "channelPlaybooks", index, category: "publish", title: `Publish: ${item.channel}`, details: { ...item } });
+  });
+
+  plan.automations.forEach((item, index) => {
+    const action = parseAction(item.action).value;
+    const category = action ? approvalCategoryForAction(action) : null;
+    if (category) {
+      candidates.push({ section: "automations", index, category, title: `Automation: ${item.title}`, details: { ...item } });
+    }
+  });
+
+  plan.taskMatrix.forEach((item, index) => {
+    if (PRICING_PATTERN.test(`${item.title} ${item.successMetric}`)) {
+      candidates.push({ section: "taskMatrix", index, category: "pricing", title: `Pricing task: ${item.title}`, details: { ...item } });
+    }
+  });
+
+  return candidates;
+}
+
+async function appendAudit(entry: Omit<ApprovalAuditEntry, "id" | "at">): Promise<void> {
+  await audit.insert({ id: crypto.randomUUID(), at: new Date().toISOString(), ...entry });
+}
+
+export async function requestApproval(candidate: ApprovalCandidate, source: ApprovalSource): Promise<ApprovalRequest> {
+  const now = new Date().toISOString();
+  const approval = await approvals.insert({
+    id: crypto.randomUUID(),
+    ...candidate,
+    status: "pending",
+    source,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await appendAudit({ approvalId: approval.id, action: "requested", actor: SYSTEM_ACTOR });
+  return approval;
+}
+
+/** Queues every plan item that would spend money, publish content or change prices. */
+export async function requestPlanApprovals(plan: AgentOutput, runId: string): Promise<ApprovalRequest[]> {
+  const queued: ApprovalRequest[] = [];
+  for (const { section, index, ...candidate } of planCandidates(plan)) {
+    queued.push(await requestApproval(candidate, { type: "plan", runId, section, index }));
+  }
+  return queued;
+}
+
+export async function listApprovals(status?: ApprovalStatus): Promise<ApprovalRequest[]> {
+  const records = await approvals.list();
+  return records
+    .filter((approval) => !status || approval.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getApproval(id: string): Promise<ApprovalRequest | null> {
+  return approvals.get(id);
+}
+
+export async function listAuditTrail(approvalId?: string): Promise<ApprovalAuditEntry[]> {
+  const entries = await audit.list();
+  return entries
+    .filter((entry) => !approvalId || entry.approvalId === approvalId)
+    .sort((a, b) => b.at.localeCompare(a.at));
+}
+
+async function pendingApproval(id: string): Promise<ApprovalRequest> {
+  const approval = await approvals.get(id);
+  if (!approval) throw new ApprovalError("Approval not found", 404);
+  if (approval.status !== "pending") throw new ApprovalError(`Approval is already ${approval.status}`, 409);
+  return approval;
+}
+
+/**
+ * Changes an approval only if it is still pending when the write lands. The
+ * check in `pendingApproval` runs before the lock, so two reviewers acting at
+ * once could otherwise both pass it; the later one gets a 409 here.
+ */
+async function updatePending(
+  id: string,
+  change: (record: ApprovalRequest) => ApprovalRequest
+): Promise<ApprovalRequest> {
+  const updated = await approvals.update(id, (record) => {
+    if (record.status !== "pending") throw new ApprovalError(`Approval is already ${record.status}`, 409);
+    return change(record);
+  });
+  if (!updated) throw new ApprovalError("Approval not found", 404);
+  return updated;
+}
+
+/**
+ * Applies a reviewer's edits to a pending item. Only existing fields can be
+ * changed and each keeps its type; the action type of automation items is fixed.
+ */
+export async function editApproval(
+  id: string,
+  reviewer: Reviewer,
+  details: ApprovalDetails,
+  note?: string
+): Promise<ApprovalRequest> {
+  const approval = await pendingApproval(id);
+  const changes: ApprovalFieldChange[] = [];
+
+  for (const [field, value] of Object.entries(details)) {
+    const current = approval.details[field];
+    if (current === undefined) throw new ApprovalError(`Unknown field "${field}"`, 400);
+    if (typeof current !== typeof value) throw new ApprovalError(`Field "${field}" must be a ${typeof current}`, 400);
+    if (approval.source.type === "automation" && field === "type" && value !== current) {
+      throw new ApprovalError("The action type cannot be changed", 400);
+    }
+    if (value !== current) changes.push({ field, from: current, to: value });
+  }
+
+  if (changes.length === 0) return approval;
+
+  const updated = await updatePending(id, (record) => ({
+    ...record,
+    details: { ...record.details, ...details },
+    updatedAt: new Date().toISOString(),
+  }));
+  await appendAudit({ approvalId: id, action: "edited", ...actorOf(reviewer), note, changes });
+  return updated;
+}
+
+/**
+ * Loads what the brand guardrails need for a plan item and returns a check to
+ * run on its details, or null for other sources. The check runs inside the
+ * locked decision so it sees edits that land after this read.
+ */
+async function guardrailCheck(approval: ApprovalRequest): Promise<((details: ApprovalDetails) => void) | null> {
+  if (approval.source.type !== "plan") return null;
+
+  const { runId, section, index } = approval.source;
+  const run = await getRun(runId);
+  const settings = await getGuardrailSettings(run?.workspaceId);
+
+  return (details) => {
+    const violations = checkPlanItem(section, index, details, settings, run?.brief);
+    if (violations.length === 0) return;
+
+    const listed = violations
+      .slice(0, 3)
+      .map((violation) => `${violation.location.field}: ${violation.message}`)
+      .join("; ");
+    throw new ApprovalError(
+      `Resolve ${violations.length} guardrail violation${violations.length === 1 ? "" : "s"} before approving (${listed})`,
+      422
+    );
+  };
+}
+
+/**
+ * Records a decision. Approved plan items write the reviewed details back into
+ * the archived run, and must pass the brand guardrails first.
+ */
+export async function decideApproval(
+  id: string,
+  decision: ApprovalDecision,
+  reviewer: UserRef,
+  note?: string
+): Promise<ApprovalRequest> {
+  const approval = await pendingApproval(id);
+  const assertGuardrails = decision === "approve" ? await guardrailCheck(approval) : null;
+  const status: ApprovalStatus = decision === "approve" ? "approved" : "rejected";
+  const now = new Date().toISOString();
+
+  const decided = await updatePending(id, (record) => {
+    assertGuardrails?.(record.details);
+    return {
+      ...record,
+      status,
+      decidedBy: reviewer.name,
+      decidedById: reviewer.id,
+      decidedAt: now,
+      updatedAt: now,
+    };
+  });
+  await appendAudit({ approvalId: id, action: status, ...actorOf(reviewer), note });
+
+  const { source } = decided;
+  if (status === "approved" && source.type === "plan") {
+    await updateRunPlan(source.runId, (plan) => {
+      const items = plan[source.section] as unknown as ApprovalDetails[];
+      if (!items[source.index]) return plan;
+      const next = items.map((item, index) => (index === source.index ? { ...item, ...decided.details } : item));
+      return { ...plan, [source.section]: next };
+    });
+  }
+
+  return decided;
+}
@@ -0,0 +1,60 @@
+import { hashToken, randomToken } from "@/lib/auth/passwords";
+import { createCollection } from "@/lib/storage";
+import type { ApiKey, ApiKeySummary } from "@/types/auth";
+
+/** Every key starts with this, so leaked keys are easy to search for. */
+const KEY_PREFIX = "sp_";
+
+const apiKeys = createCollection<ApiKey>("api-keys");
+
+function summarize(key: ApiKey): ApiKeySummary {
+  return {
+    id: key.id,
+    userId: key.userId,
+    name: key.name,
+    prefix: key.prefix,
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+  };
+}
+
+export async function listApiKeys(userId?: string): Promise<ApiKeySummary[]> {
+  const keys = await apiKeys.list();
+  return keys.filter((key) => !userId || key.userId === userId).map(summarize);
+}
+
+/** Returns the key itself once; only its digest is stored. */
+export async function createApiKey(userId: string, name: string): Promise<{ key: string; record: ApiKeySummary }> {
+  const key = `${KEY_PREFIX}${randomToken()}`;
+  const record = await apiKeys.insert({
+    id: crypto.randomUUID(),
+    userId,
+    name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    hash: hashToken(key),
+    createdAt: new Date().toISOString(),
+  });
+  return { key, record: summarize(record) };
+}
+
+/** Revokes a key; with `userId`, only if that user owns it. */
+export async function revokeApiKey(id: string, userId?: string): Promise<boolean> {
+  const key = await apiKeys.get(id);
+  if (!key || (userId && key.userId !== userId)) return false;
+  return apiKeys.remove(id);
+}
+
+export async function revokeUserApiKeys(userId: string): Promise<void> {
+  const remaining = (await apiKeys.list()).filter((key) => key.userId !== userId);
+  await apiKeys.upsertMany(remaining, { replace: true });
+}
+
+/** Resolves a presented key to its record and notes when it was last used. */
+export async function findApiKey(key: string): Promise<ApiKey | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const hash = hashToken(key);
+  const match = (await apiKeys.list()).find((record) => record.hash === hash);
+  if (!match) return null;
+
+  return apiKeys.update(match.id, (record) => ({ ...record, lastUsedAt: new Date().toISOString() }));
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+
+import { findApiKey } from "@/lib/auth/api-keys";
+import { ROLE_LABELS, SESSION_COOKIE, hasRole } from "@/lib/auth/roles";
+import { getSession } from "@/lib/auth/sessions";
+import { getUser } from "@/lib/auth/users";
+import { cookieValue } from "@/lib/cookies";
+import type { Role, Session, User } from "@/types/auth";
+
+/** Header scripts can send an API key in, as an alternative to `Authorization: Bearer`. */
+export const API_KEY_HEADER = "x-api-key";
+
+export function sessionToken(request: Request): string | null {
+  return cookieValue(request, SESSION_COOKIE);
+}
+
+function presentedApiKey(request: Request): string | null {
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? request.headers.get(API_KEY_HEADER);
+}
+
+/**
+ * The signed-in user behind a request: an API key when one is sent, else the
+ * session cookie. A key that does not match is not retried against the cookie.
+ */
+export async function userFromRequest(request: Request): Promise<User | null> {
+  const key = presentedApiKey(request);
+  if (key) {
+    const record = await findApiKey(key);
+    return record && getUser(record.userId);
+  }
+
+  const token = sessionToken(request);
+  const session = token ? await getSession(token) : null;
+  return session && getUser(session.userId);
+}
+
+/**
+ * Every API route starts here. Returns the user when they hold `role` or a
+ * higher one, otherwise the 401 or 403 response to send back.
+ */
+export async function authorize(request: Request, role: Role): Promise<User | NextResponse> {
+  const user = await userFromRequest(request);
+  if (!user) {
+    return NextResponse.json({ error: "Sign in or send an API key" }, { status: 401 });
+  }
+  if (!hasRole(user.role, role)) {
+    return NextResponse.json({ error: `Requires the ${ROLE_LABELS[role]} role or higher` }, { status: 403 });
+  }
+  return user;
+}
+
+export function setSessionCookie(response: NextResponse, token: string, session: Session): NextResponse {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(session.expiresAt),
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,17 @@
+import type { Role } from "@/types/auth";
+
+export const ROLES: Role[] = ["viewer", "planner", "approver", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Viewer",
+  planner: "Planner",
+  approver: "Approver",
+  admin: "Admin",
+};
+
+/** Cookie holding the session token; httpOnly, so only the server reads it. */
+export const SESSION_COOKIE = "storepilot-session";
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
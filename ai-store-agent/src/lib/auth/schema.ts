@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+import { ROLES } from "@/lib/auth/roles";
+
+const password = z.string().min(10, "Use at least 10 characters").max(200);
+
+export const credentialsSchema = z.object({
+  email: z.email(),
+  password: z.string().min(1).max(200),
+});
+
+export const setupSchema = z.object({
+  email: z.email(),
+  name: z.string().trim().min(1).max(80),
+  password,
+});
+
+export const userInputSchema = setupSchema.extend({
+  role: z.enum(ROLES),
+});
+
+export const userChangeSchema = userInputSchema.omit({ email: true }).partial();
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: password,
+});
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
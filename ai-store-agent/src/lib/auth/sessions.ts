@@ -0,0 +1,40 @@
+import { hashToken, randomToken } from "@/lib/auth/passwords";
+import { createCollection } from "@/lib/storage";
+import type { Session } from "@/types/auth";
+
+export const SESSION_TTL_DAYS = 14;
+
+const sessions = createCollection<Session>("sessions");
+
+/** Starts a session and returns the token for the cookie; expired sessions are dropped on the way. */
+export async function createSession(userId: string): Promise<{ token: string; session: Session }> {
+  const now = new Date();
+  const token = randomToken();
+  const session: Session = {
+    id: hashToken(token),
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_TTL_DAYS * 86_400_000).toISOString(),
+  };
+
+  const live = (await sessions.list()).filter((record) => record.expiresAt > session.createdAt);
+  await sessions.upsertMany([...live, session], { replace: true });
+  return { token, session };
+}
+
+export async function getSession(token: string): Promise<Session | null> {
+  const session = await sessions.get(hashToken(token));
+  if (!session || session.expiresAt <= new Date().toISOString()) return null;
+  return session;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await sessions.remove(hashToken(token));
+}
+
+/** Signs a user out everywhere, e.g. after a password change or when the account is removed. */
+export async function deleteUserSessions(userId: string, exceptToken?: string): Promise<void> {
+  const keep = exceptToken ? hashToken(exceptToken) : null;
+  const remaining = (await sessions.list()).filter((record) => record.userId !== userId || record.id === keep);
+  await sessions.upsertMany(remaining, { replace: true });
+}
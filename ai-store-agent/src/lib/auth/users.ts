@@ -0,0 +1,143 @@
+import { revokeUserApiKeys } from "@/lib/auth/api-keys";
+import { hashPassword, randomToken, verifyPassword } from "@/lib/auth/passwords";
+import { deleteUserSessions } from "@/lib/auth/sessions";
+import { createCollection } from "@/lib/storage";
+import type { Role, User, UserAccount, UserRef } from "@/types/auth";
+
+const users = createCollection<UserAccount>("users");
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface UserInput {
+  email: string;
+  name: string;
+  role: Role;
+  password: string;
+}
+
+function toUser(account: UserAccount): User {
+  return {
+    id: account.id,
+    email: account.email,
+    name: account.name,
+    role: account.role,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+  };
+}
+
+/** What records keep about the user who created or decided them. */
+export function userRef({ id, name }: User): UserRef {
+  return { id, name };
+}
+
+export async function listUsers(): Promise<User[]> {
+  const accounts = await users.list();
+  return accounts.map(toUser).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getUser(id: string): Promise<User | null> {
+  const account = await users.get(id);
+  return account && toUser(account);
+}
+
+/** True until the first admin is created; the sign-in page offers setup only then. */
+export async function setupRequired(): Promise<boolean> {
+  return (await users.list()).length === 0;
+}
+
+/** Checks for an existing email, and for `firstOnly` any account at all, in the same locked write as the insert. */
+async function insertAccount(input: UserInput, firstOnly: boolean): Promise<User> {
+  const email = input.email.toLowerCase();
+  const passwordHash = await hashPassword(input.password);
+  const now = new Date().toISOString();
+
+  const account = await users.insertWith((records) => {
+    if (firstOnly && records.length > 0) throw new AuthError("Setup is already done; sign in instead", 409);
+    if (records.some((record) => record.email === email)) {
+      throw new AuthError(`${email} already has an account`, 409);
+    }
+    return {
+      id: crypto.randomUUID(),
+      email,
+      name: input.name,
+      role: input.role,
+      passwordHash,
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+  return toUser(account);
+}
+
+export function createUser(input: UserInput): Promise<User> {
+  return insertAccount(input, false);
+}
+
+/** The first admin; refused once any account exists, so two racing setups cannot both succeed. */
+export function createFirstAdmin(input: Omit<UserInput, "role">): Promise<User> {
+  return insertAccount({ ...input, role: "admin" }, true);
+}
+
+async function assertAdminRemains(id: string): Promise<void> {
+  const admins = (await users.list()).filter((account) => account.role === "admin");
+  if (admins.length === 1 && admins[0].id === id) {
+    throw new AuthError("Keep at least one admin", 409);
+  }
+}
+
+/** A password change signs the user out of every other session. */
+export async function updateUser(
+  id: string,
+  change: Partial<Omit<UserInput, "email">>,
+  currentToken?: string
+): Promise<User | null> {
+  const account = await users.get(id);
+  if (!account) return null;
+  if (change.role && change.role !== "admin" && account.role === "admin") await assertAdminRemains(id);
+
+  const passwordHash = change.password ? await hashPassword(change.password) : account.passwordHash;
+  const updated = await users.update(id, (record) => ({
+    ...record,
+    name: change.name ?? record.name,
+    role: change.role ?? record.role,
+    passwordHash,
+    updatedAt: new Date().toISOString(),
+  }));
+  if (change.password) await deleteUserSessions(id, currentToken);
+  return updated && toUser(updated);
+}
+
+export async function deleteUser(id: string): Promise<boolean> {
+  const account = await users.get(id);
+  if (!account) return false;
+  if (account.role === "admin") await assertAdminRemains(id);
+
+  await deleteUserSessions(id);
+  await revokeUserApiKeys(id);
+  return users.remove(id);
+}
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * The account for an email and password, or null. Unknown emails are checked
+ * against a throwaway hash, so neither the answer nor the time taken shows
+ * which emails have accounts.
+ */
+export async function authenticate(email: string, password: string): Promise<User | null> {
+  const account = (await users.list()).find((record) => record.email === email.toLowerCase());
+  dummyHash ??= hashPassword(randomToken());
+  const valid = await verifyPassword(password, account?.passwordHash ?? (await dummyHash));
+  return account && valid ? toUser(account) : null;
+}
+
+export async function verifyUserPassword(id: string, password: string): Promise<boolean> {
+  const account = await users.get(id);
+  return !!account && (await verifyPassword(password, account.passwordHash));
+}
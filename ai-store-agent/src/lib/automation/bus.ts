@@ -0,0 +1,37 @@
+import type { StoreEvent, StoreEventType } from "@/types/automation";
+
+export type StoreEventListener = (event: StoreEvent) => void | Promise<void>;
+
+export interface StoreEventBus {
+  /** Subscribes to one event type, or to every event with `"*"`. Returns an unsubscribe function. */
+  on(type: StoreEventType | "*", listener: StoreEventListener): () => void;
+  emit(event: StoreEvent): Promise<void>;
+}
+
+export function createStoreEventBus(): StoreEventBus {
+  const listeners = new Map<StoreEventType | "*", Set<StoreEventListener>>();
+
+  return {
+    on(type, listener) {
+      const set = listeners.get(type) ?? new Set();
+      set.add(listener);
+      listeners.set(type, set);
+      return () => set.delete(listener);
+    },
+
+    async emit(event) {
+      const targets = [...(listeners.get(event.type) ?? []), ...(listeners.get("*") ?? [])];
+      const results = await Promise.allSettled(targets.map(async (listener) => listener(event)));
+      for (const result of results) {
+        if (result.status === "rejected") {
+          console.error(`Store event listener failed for ${event.type}`, result.reason);
+        }
+      }
+    },
+  };
+}
+
+const globalBus = globalThis as typeof globalThis & { storePilotEvents?: StoreEventBus };
+
+/** Process-wide bus; kept on globalThis so dev-server reloads share one instance. */
+export const storeEvents = (globalBus.storePilotEvents ??= createStoreEventBus());
@@ -0,0 +1,142 @@
+import { approvalCategoryForAction, requestApproval } from "@/lib/approvals";
+import { storeEvents } from "@/lib/automation/bus";
+import { getActionHandler } from "@/lib/automation/handlers";
+import { getRule, listRules, markRuleRun, recordExecution } from "@/lib/automation/rules";
+import { automationActionSchema } from "@/lib/automation/schema";
+import type { ApprovalRequest } from "@/types/approvals";
+import type {
+  AutomationAction,
+  AutomationExecution,
+  AutomationRule,
+  StoreEvent,
+  StoreEventPayload,
+  StoreEventType,
+  TriggerCondition,
+} from "@/types/automation";
+
+export interface PublishOptions {
+  dryRun?: boolean;
+}
+
+function conditionHolds(condition: TriggerCondition, payload: StoreEventPayload): boolean {
+  const actual = payload[condition.field];
+  if (actual === undefined) return false;
+
+  if (condition.operator === "eq") {
+    return String(actual).toLowerCase() === String(condition.value).toLowerCase();
+  }
+
+  const left = Number(actual);
+  const right = Number(condition.value);
+  if (!Number.isFinite(left) || !Number.isFinite(right)) return false;
+  return condition.operator === "lt" ? left < right : left > right;
+}
+
+export function ruleMatches(rule: AutomationRule, event: StoreEvent): boolean {
+  const { trigger } = rule;
+  if (!trigger) return false;
+
+  if (trigger.type === "schedule") {
+    return event.type === "schedule.tick" && event.payload.ruleId === rule.id;
+  }
+  return trigger.event === event.type && trigger.conditions.every((condition) => conditionHolds(condition, event.payload));
+}
+
+export function isDryRunForced(): boolean {
+  return process.env.AUTOMATION_DRY_RUN === "true";
+}
+
+async function runRule(
+  rule: AutomationRule,
+  action: AutomationAction,
+  event: StoreEvent,
+  { dryRun, approved }: { dryRun: boolean; approved: boolean }
+): Promise<AutomationExecution> {
+  const startedAt = new Date().toISOString();
+  const handler = getActionHandler(action.type);
+  const context = { rule, event };
+  const category = approved ? null : approvalCategoryForAction(action);
+
+  let status: AutomationExecution["status"] = "succeeded";
+  let output: string;
+  try {
+    if (dryRun) {
+      output = handler.describe(action, context) + (category ? `; needs ${category} approval` : "");
+    } else if (category) {
+      const approval = await requestApproval(
+        { category, title: rule.title, details: { ...action } },
+        { type: "automation", ruleId: rule.id, event }
+      );
+      status = "awaiting-approval";
+      output = `Queued for ${category} approval (${approval.id.slice(0, 8)})`;
+    } else {
+      output = await handler.execute(action, context);
+    }
+  } catch (error) {
+    status = "failed";
+    output = error instanceof Error ? error.message : String(error);
+  }
+
+  const execution: AutomationExecution = {
+    id: crypto.randomUUID(),
+    ruleId: rule.id,
+    ruleTitle: rule.title,
+    eventId: event.id,
+    eventType: event.type,
+    dryRun,
+    status,
+    output,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+
+  await recordExecution(execution);
+  if (!dryRun) await markRuleRun(rule.id, startedAt);
+  return execution;
+}
+
+/**
+ * Runs every enabled rule whose trigger matches the event. Dry runs record
+ * what each handler would do without performing the action;
+ * `AUTOMATION_DRY_RUN=true` forces dry runs for the whole process.
+ */
+export async function runAutomations(event: StoreEvent, options: PublishOptions = {}): Promise<AutomationExecution[]> {
+  const dryRun = options.dryRun === true || isDryRunForced();
+  const results: AutomationExecution[] = [];
+  for (const rule of await listRules()) {
+    if (!rule.enabled || !rule.action || !ruleMatches(rule, event)) continue;
+    results.push(await runRule(rule, rule.action, event, { dryRun, approved: false }));
+  }
+  return results;
+}
+
+/**
+ * Performs an approved automation action with the reviewer's edits. Returns
+ * null for plan approvals, or when the rule has since been deleted.
+ */
+export async function runApprovedAction(approval: ApprovalRequest): Promise<AutomationExecution | null> {
+  if (approval.source.type !== "automation" || approval.status !== "approved") return null;
+
+  const rule = await getRule(approval.source.ruleId);
+  if (!rule) return null;
+
+  const action = automationActionSchema.parse(approval.details);
+  return runRule(rule, action, approval.source.event, { dryRun: isDryRunForced(), approved: true });
+}
+
+/** Notifies bus subscribers of a store event, then runs the matching automation rules. */
+export async function publishStoreEvent(
+  type: StoreEventType,
+  payload: StoreEventPayload,
+  options: PublishOptions = {}
+): Promise<{ event: StoreEvent; executions: AutomationExecution[] }> {
+  const event: StoreEvent = {
+    id: crypto.randomUUID(),
+    type,
+    payload,
+    occurredAt: new Date().toISOString(),
+  };
+
+  await storeEvents.emit(event);
+  return { event, executions: await runAutomations(event, options) };
+}
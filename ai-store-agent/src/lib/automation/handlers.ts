@@ -0,0 +1,62 @@
+import { describeAction } from "@/lib/automation/parser";
+import type { AutomationAction, AutomationActionType, AutomationRule, StoreEvent } from "@/types/automation";
+
+export interface ActionContext {
+  rule: AutomationRule;
+  event: StoreEvent;
+}
+
+export interface ActionHandler<A extends AutomationAction = AutomationAction> {
+  /** What the handler would do; used for dry runs. */
+  describe(action: A, context: ActionContext): string;
+  /** Performs the action and returns a short summary for the execution log. */
+  execute(action: A, context: ActionContext): Promise<string>;
+}
+
+type ActionOf<K extends AutomationActionType> = Extract<AutomationAction, { type: K }>;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Fallback for action types without a registered integration: forwards the
+ * action to `AUTOMATION_WEBHOOK_URL` when set, otherwise only logs it.
+ */
+const webhookHandler: ActionHandler = {
+  describe(action, { event }) {
+    const target = process.env.AUTOMATION_WEBHOOK_URL ? "via webhook" : "log only, no handler configured";
+    return `Would ${describeAction(action)} for ${event.type} (${target})`;
+  },
+
+  async execute(action, { rule, event }) {
+    const url = process.env.AUTOMATION_WEBHOOK_URL;
+    if (!url) {
+      console.info(`[automation] ${rule.title}: ${describeAction(action)}`);
+      return `Logged "${describeAction(action)}"; no handler configured`;
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ruleId: rule.id, ruleTitle: rule.title, action, event }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+    return `Sent "${describeAction(action)}" to webhook (${response.status})`;
+  },
+};
+
+const handlers = new Map<AutomationActionType, ActionHandler>();
+
+/** Replaces the handler for one action type, e.g. with a real ad-platform integration. */
+export function registerActionHandler<K extends AutomationActionType>(
+  type: K,
+  handler: ActionHandler<ActionOf<K>>
+): void {
+  handlers.set(type, handler as ActionHandler);
+}
+
+export function getActionHandler(type: AutomationActionType): ActionHandler {
+  return handlers.get(type) ?? webhookHandler;
+}
@@ -0,0 +1,190 @@
+import type { AdPlatform } from "@/types/agent";
+import type { AutomationAction, AutomationTrigger, TriggerCondition } from "@/types/automation";
+
+export interface ParseResult<T> {
+  value: T | null;
+  issues: string[];
+}
+
+const DEFAULT_STOCK_THRESHOLD = 10;
+const DEFAULT_BUDGET_CHANGE = 20;
+
+function firstNumber(text: string): number | null {
+  const match = text.match(/(\d+(?:[.,]\d+)?)/);
+  return match ? Number(match[1].replace(",", ".")) : null;
+}
+
+function percentIn(text: string): number | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s?%/);
+  return match ? Number(match[1]) : null;
+}
+
+function comparatorIn(text: string): TriggerCondition["operator"] | null {
+  if (/\b(below|under|less than|drops?|falls?|lower than|fewer than)\b|</.test(text)) return "lt";
+  if (/\b(above|over|more than|exceeds?|greater than|higher than|at least)\b|>/.test(text)) return "gt";
+  return null;
+}
+
+function platformIn(text: string): AdPlatform | "all" {
+  if (/\b(meta|facebook|instagram)\b/.test(text)) return "meta";
+  if (/\b(google|youtube|search|pmax)\b/.test(text)) return "google";
+  return "all";
+}
+
+function numericCondition(
+  text: string,
+  field: string,
+  fallback: TriggerCondition["operator"]
+): TriggerCondition | null {
+  const value = firstNumber(text);
+  return value === null ? null : { field, operator: comparatorIn(text) ?? fallback, value };
+}
+
+/**
+ * Turns a free-text trigger such as "Inventory below 5 units" or "Every Monday"
+ * into a typed trigger. Unrecognised text yields null plus an issue.
+ */
+export function parseTrigger(source: string): ParseResult<AutomationTrigger> {
+  const text = source.toLowerCase();
+  const issues: string[] = [];
+
+  const schedule = text.match(/\b(hourly|daily|weekly|nightly|every (hour|day|night|morning|week|monday|tuesday|wednesday|thursday|friday|saturday|sunday))\b/);
+  if (schedule) {
+    const every = /hour/.test(schedule[0]) ? "hour" : /\b(daily|nightly|day|night|morning)\b/.test(schedule[0]) ? "day" : "week";
+    return { value: { type: "schedule", every }, issues };
+  }
+
+  if (/\b(inventory|stock|units? left|sell-?through)\b/.test(text)) {
+    let condition = numericCondition(text, "quantity", "lt");
+    if (!condition) {
+      condition = { field: "quantity", operator: "lt", value: DEFAULT_STOCK_THRESHOLD };
+      issues.push(`No stock threshold given; using fewer than ${DEFAULT_STOCK_THRESHOLD} units.`);
+    }
+    return { value: { type: "event", event: "inventory.updated", conditions: [condition] }, issues };
+  }
+
+  if (/\babandon/.test(text)) {
+    const condition = /[$€£]|\bvalue\b|\bcart (over|above)/.test(text) ? numericCondition(text, "value", "gt") : null;
+    return {
+      value: { type: "event", event: "cart.abandoned", conditions: condition ? [condition] : [] },
+      issues,
+    };
+  }
+
+  if (/\b(review|rating|stars?)\b/.test(text)) {
+    const condition = numericCondition(text, "rating", "lt");
+    return {
+      value: { type: "event", event: "review.posted", conditions: condition ? [condition] : [] },
+      issues,
+    };
+  }
+
+  const metric = text.match(/\b(roas|cpa|cpc|ctr|spend)\b/);
+  if (metric) {
+    const fallback = metric[1] === "roas" || metric[1] === "ctr" ? "lt" : "gt";
+    const condition = numericCondition(text, metric[1], fallback);
+    const conditions: TriggerCondition[] = condition ? [condition] : [];
+    const platform = platformIn(text);
+    if (platform !== "all") conditions.push({ field: "platform", operator: "eq", value: platform });
+    if (!condition) issues.push(`No ${metric[1].toUpperCase()} threshold given; the rule fires on every report.`);
+    return { value: { type: "event", event: "ad.performance", conditions }, issues };
+  }
+
+  if (/\b(order|purchase|checkout|buys?|customer)\b/.test(text)) {
+    const conditions: TriggerCondition[] = [];
+    if (/\bfirst\b/.test(text)) conditions.push({ field: "customerOrderCount", operator: "eq", value: 1 });
+    const total = numericCondition(text, "total", "gt");
+    if (total && comparatorIn(text)) conditions.push(total);
+    return { value: { type: "event", event: "order.created", conditions }, issues };
+  }
+
+  return { value: null, issues: [`Unrecognised trigger: "${source}"`] };
+}
+
+/**
+ * Turns a free-text action such as "Pause Meta ad sets" or "Email a 10%
+ * win-back code" into a typed action. Unrecognised text yields null plus an issue.
+ */
+export function parseAction(source: string): ParseResult<AutomationAction> {
+  const text = source.toLowerCase();
+  const issues: string[] = [];
+
+  if (/\bpause\b/.test(text) && /\b(ads?|ad ?sets?|campaigns?|spend|boost)\b/.test(text)) {
+    return { value: { type: "pause-ads", platform: platformIn(text) }, issues };
+  }
+
+  const budget = text.match(/\b(increase|raise|boost|scale|decrease|reduce|lower|cut|shift)\b.*\bbudgets?\b/);
+  if (budget) {
+    let change = percentIn(text);
+    if (change === null) {
+      change = DEFAULT_BUDGET_CHANGE;
+      issues.push(`No budget change given; using ${DEFAULT_BUDGET_CHANGE}%.`);
+    }
+    const sign = /^(decrease|reduce|lower|cut)$/.test(budget[1]) ? -1 : 1;
+    return {
+      value: { type: "adjust-budget", platform: platformIn(text), changePercent: sign * change },
+      issues,
+    };
+  }
+
+  if (/\b(e-?mail|sms|text message|send)\b/.test(text)) {
+    const audience = /\b(team|merchandis|ops|owner|staff|manager)/.test(text) ? "team" : "customer";
+    return { value: { type: "send-email", audience, template: source.trim() }, issues };
+  }
+
+  if (/\b(notify|alert|slack|ping|flag)\b/.test(text)) {
+    return {
+      value: { type: "notify", channel: /\bslack\b/.test(text) ? "slack" : "dashboard", message: source.trim() },
+      issues,
+    };
+  }
+
+  if (/\b(price|discount|markdown|mark down)\b/.test(text)) {
+    const change = percentIn(text);
+    if (change === null) {
+      return { value: null, issues: [`Price action has no percentage: "${source}"`] };
+    }
+    const sign = /\b(raise|increase)\b/.test(text) ? 1 : -1;
+    return { value: { type: "update-price", changePercent: sign * change }, issues };
+  }
+
+  const tag = text.match(/\b(?:tag|segment|label)\b(?:\s+\w+)?\s+(?:as|with|into)\s+["']?([\w -]+?)["']?$/);
+  if (tag) {
+    return { value: { type: "tag-customer", tag: tag[1].trim() }, issues };
+  }
+
+  if (/\b(task|ticket|reorder|restock|purchase order|create|assign)\b/.test(text)) {
+    return { value: { type: "create-task", title: source.trim() }, issues };
+  }
+
+  return { value: null, issues: [`Unrecognised action: "${source}"`] };
+}
+
+export function describeTrigger(trigger: AutomationTrigger): string {
+  if (trigger.type === "schedule") return `every ${trigger.every}`;
+
+  const symbols = { lt: "<", gt: ">", eq: "=" };
+  const conditions = trigger.conditions.map(
+    (condition) => `${condition.field} ${symbols[condition.operator]} ${condition.value}`
+  );
+  return conditions.length > 0 ? `${trigger.event} where ${conditions.join(" and ")}` : trigger.event;
+}
+
+export function describeAction(action: AutomationAction): string {
+  switch (action.type) {
+    case "pause-ads":
+      return `pause ${action.platform === "all" ? "all" : action.platform} ads`;
+    case "adjust-budget":
+      return `${action.changePercent >= 0 ? "raise" : "cut"} ${action.platform === "all" ? "ad" : action.platform} budget by ${Math.abs(action.changePercent)}%`;
+    case "send-email":
+      return `email ${action.audience}: ${action.template}`;
+    case "notify":
+      return `notify ${action.channel}: ${action.message}`;
+    case "update-price":
+      return `${action.changePercent >= 0 ? "raise" : "cut"} price by ${Math.abs(action.changePercent)}%`;
+    case "tag-customer":
+      return `tag customer "${action.tag}"`;
+    case "create-task":
+      return `create task: ${action.title}`;
+  }
+}
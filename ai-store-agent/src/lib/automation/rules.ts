@@ -0,0 +1,120 @@
+import { parseAction, parseTrigger } from "@/lib/automation/parser";
+import { createCollection } from "@/lib/storage";
+import type { AgentOutput } from "@/types/agent";
+import type { AutomationAction, AutomationExecution, AutomationRule, AutomationTrigger } from "@/types/automation";
+
+const MAX_LOG_ENTRIES = 1000;
+
+const rules = createCollection<AutomationRule>("automation-rules");
+const executions = createCollection<AutomationExecution>("automation-log");
+
+export type PlanAutomation = AgentOutput["automations"][number];
+
+export interface RuleChange {
+  title?: string;
+  enabled?: boolean;
+  trigger?: AutomationTrigger;
+  action?: AutomationAction;
+}
+
+export class AutomationRuleError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AutomationRuleError";
+  }
+}
+
+function sourceKey(trigger: string, action: string): string {
+  return `${trigger.trim().toLowerCase()}\n${action.trim().toLowerCase()}`;
+}
+
+export async function listRules(): Promise<AutomationRule[]> {
+  const records = await rules.list();
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getRule(id: string): Promise<AutomationRule | null> {
+  return rules.get(id);
+}
+
+/**
+ * Parses plan automations into rules. Rules start disabled so nothing runs
+ * until someone has reviewed the parsed trigger and action; automations that
+ * already exist as rules (same trigger and action text) are skipped.
+ */
+export async function createRulesFromPlan(
+  automations: PlanAutomation[],
+  runId?: string
+): Promise<AutomationRule[]> {
+  const existing = new Set(
+    (await rules.list()).map((rule) => sourceKey(rule.source.trigger, rule.source.action))
+  );
+  const created: AutomationRule[] = [];
+
+  for (const automation of automations) {
+    const key = sourceKey(automation.trigger, automation.action);
+    if (existing.has(key)) continue;
+    existing.add(key);
+
+    const trigger = parseTrigger(automation.trigger);
+    const action = parseAction(automation.action);
+    const now = new Date().toISOString();
+
+    created.push(
+      await rules.insert({
+        id: crypto.randomUUID(),
+        title: automation.title,
+        description: automation.description,
+        source: { runId, trigger: automation.trigger, action: automation.action },
+        trigger: trigger.value,
+        action: action.value,
+        enabled: false,
+        issues: [...trigger.issues, ...action.issues],
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+  }
+
+  return created;
+}
+
+export async function updateRule(id: string, change: RuleChange): Promise<AutomationRule | null> {
+  const current = await rules.get(id);
+  if (!current) return null;
+
+  const trigger = change.trigger ?? current.trigger;
+  const action = change.action ?? current.action;
+  if (change.enabled && (!trigger || !action)) {
+    throw new AutomationRuleError("A rule needs a trigger and an action before it can be enabled", 409);
+  }
+
+  return rules.update(id, (rule) => ({
+    ...rule,
+    ...change,
+    // Hand-edited definitions replace the parser's guesses, so its warnings no longer apply.
+    issues: change.trigger || change.action ? [] : rule.issues,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+export function markRuleRun(id: string, at: string): Promise<AutomationRule | null> {
+  return rules.update(id, (rule) => ({ ...rule, lastRunAt: at }));
+}
+
+export async function deleteRule(id: string): Promise<boolean> {
+  return rules.remove(id);
+}
+
+export async function recordExecution(execution: AutomationExecution): Promise<void> {
+  await executions.insert(execution);
+  await executions.prune(MAX_LOG_ENTRIES);
+}
+
+export async function listExecutions(options: { ruleId?: string; limit?: number } = {}): Promise<AutomationExecution[]> {
+  const records = await executions.list();
+  return records
+    .filter((execution) => !options.ruleId || execution.ruleId === options.ruleId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, options.limit ?? 50);
+}
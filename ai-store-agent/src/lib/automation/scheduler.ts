@@ -0,0 +1,54 @@
+import { publishStoreEvent } from "@/lib/automation/engine";
+import { listRules, markRuleRun } from "@/lib/automation/rules";
+import type { AutomationExecution, ScheduleInterval } from "@/types/automation";
+
+const TICK_MS = 60_000;
+
+const INTERVAL_MS: Record<ScheduleInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Emits a `schedule.tick` for every enabled schedule rule whose interval has elapsed. */
+export async function runDueSchedules(now = new Date()): Promise<AutomationExecution[]> {
+  const due = (await listRules()).filter((rule) => {
+    if (!rule.enabled || rule.trigger?.type !== "schedule") return false;
+    const last = Date.parse(rule.lastRunAt ?? rule.updatedAt);
+    return now.getTime() - last >= INTERVAL_MS[rule.trigger.every];
+  });
+
+  const results: AutomationExecution[] = [];
+  for (const rule of due) {
+    // Stamped here rather than only after a real execution, so dry runs
+    // (`AUTOMATION_DRY_RUN=true`) wait for the next interval like live ones.
+    await markRuleRun(rule.id, now.toISOString());
+    const { executions } = await publishStoreEvent("schedule.tick", { ruleId: rule.id });
+    results.push(...executions);
+  }
+  return results;
+}
+
+const globalScheduler = globalThis as typeof globalThis & { storePilotScheduler?: NodeJS.Timeout };
+
+/**
+ * Checks schedule rules once a minute for the lifetime of the server process.
+ * Set `AUTOMATION_SCHEDULER=off` when an external cron calls
+ * `POST /api/automations/schedule` instead.
+ */
+export function startAutomationScheduler(): void {
+  if (process.env.AUTOMATION_SCHEDULER === "off" || globalScheduler.storePilotScheduler) return;
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runDueSchedules()
+      .catch((error) => console.error("Automation scheduler tick failed", error))
+      .finally(() => {
+        running = false;
+      });
+  }, TICK_MS);
+  timer.unref();
+  globalScheduler.storePilotScheduler = timer;
+}
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+const platformSchema = z.union([z.literal("meta"), z.literal("google"), z.literal("all")]);
+
+const triggerEventSchema = z.union([
+  z.literal("inventory.updated"),
+  z.literal("order.created"),
+  z.literal("cart.abandoned"),
+  z.literal("review.posted"),
+  z.literal("ad.performance"),
+]);
+
+export const storeEventTypeSchema = z.union([triggerEventSchema, z.literal("schedule.tick")]);
+
+export const storeEventPayloadSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+
+export const automationTriggerSchema = z.union([
+  z.object({
+    type: z.literal("event"),
+    event: triggerEventSchema,
+    conditions: z.array(
+      z.object({
+        field: z.string().min(1),
+        operator: z.union([z.literal("lt"), z.literal("gt"), z.literal("eq")]),
+        value: z.union([z.string(), z.number(), z.boolean()]),
+      })
+    ),
+  }),
+  z.object({
+    type: z.literal("schedule"),
+    every: z.union([z.literal("hour"), z.literal("day"), z.literal("week")]),
+  }),
+]);
+
+export const automationActionSchema = z.union([
+  z.object({ type: z.literal("pause-ads"), platform: platformSchema }),
+  z.object({ type: z.literal("adjust-budget"), platform: platformSchema, changePercent: z.number() }),
+  z.object({
+    type: z.literal("send-email"),
+    audience: z.union([z.literal("customer"), z.literal("team")]),
+    template: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("notify"),
+    channel: z.union([z.literal("slack"), z.literal("dashboard")]),
+    message: z.string().min(1),
+  }),
+  z.object({ type: z.literal("update-price"), changePercent: z.number() }),
+  z.object({ type: z.literal("tag-customer"), tag: z.string().min(1) }),
+  z.object({ type: z.literal("create-task"), title: z.string().min(1) }),
+]);
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import { allocateBudget, checkBudgetNotes } from "@/lib/budget-allocation";
+import type { AgentOutput } from "@/types/agent";
+
+describe("allocateBudget", () => {
+  it("splits the budget evenly across the targeted channels", () => {
+    const allocation = allocateBudget({ amount: 300, currency: "USD", cadence: "weekly", platform: "both" }, [
+      "meta-ads",
+      "instagram",
+    ]);
+
+    expect(allocation).toMatchObject({ daily: 42.86, weekly: 300, monthly: 1303.57, warnings: [] });
+    expect(allocation.lines.map((line) => [line.channel, line.weekly])).toEqual([
+      ["meta-ads", 100],
+      ["instagram", 100],
+      ["google-ads", 100],
+    ]);
+  });
+
+  it("infers the platforms from the target channels when none is given", () => {
+    const allocation = allocateBudget({ amount: 50, currency: "USD", cadence: "daily" }, ["youtube"]);
+
+    expect(allocation.lines).toEqual([
+      { platform: "google", channel: "youtube", share: 1, daily: 50, weekly: 350, monthly: 1520.83 },
+    ]);
+  });
+
+  it("pins a platform that would fall below its minimum and re-splits the rest", () => {
+    const allocation = allocateBudget({ amount: 18, currency: "USD", cadence: "daily", platform: "both" }, [
+      "meta-ads",
+      "instagram",
+    ]);
+
+    const google = allocation.lines.filter((line) => line.platform === "google");
+    const meta = allocation.lines.filter((line) => line.platform === "meta");
+    expect(google.map((line) => line.daily)).toEqual([10]);
+    expect(meta.map((line) => line.daily)).toEqual([4, 4]);
+  });
+
+  it("drops a platform when the budget cannot cover every minimum", () => {
+    const allocation = allocateBudget({ amount: 12, currency: "USD", cadence: "daily", platform: "both" }, []);
+
+    expect(allocation.lines.map((line) => line.platform)).toEqual(["meta"]);
+    expect(allocation.warnings).toEqual(["$12.00/day cannot cover every platform minimum, so Google gets no budget."]);
+  });
+
+  it("rounds to each currency's minor units", () => {
+    const yen = allocateBudget({ amount: 10000, currency: "JPY", cadence: "weekly", platform: "meta" }, []);
+    expect(yen).toMatchObject({ daily: 1429, monthly: 43452 });
+    expect(yen.reporting).toMatchObject({ currency: "USD", amount: 69.44, daily: 9.92 });
+
+    const dinar = allocateBudget({ amount: 100, currency: "KWD", cadence: "weekly", platform: "meta" }, []);
+    expect(dinar).toMatchObject({ daily: 14.286, monthly: 434.524 });
+  });
+
+  it("warns and omits reporting totals when a rate is missing", () => {
+    const allocation = allocateBudget({ amount: 100, currency: "KWD", cadence: "weekly", platform: "meta" }, []);
+
+    expect(allocation.reporting).toBeUndefined();
+    expect(allocation.warnings).toEqual([
+      "No exchange rate for KWD, so platform minimums are applied as USD amounts.",
+      "No exchange rate from KWD to USD, so reporting totals are omitted.",
+    ]);
+  });
+});
+
+describe("checkBudgetNotes", () => {
+  const allocation = allocateBudget({ amount: 300, currency: "USD", cadence: "weekly", platform: "both" }, [
+    "meta-ads",
+    "instagram",
+  ]);
+
+  const ad = (platform: string, budgetNotes: string): AgentOutput["adStrategy"][number] => ({
+    platform,
+    audience: "Repeat buyers",
+    creatives: "Carousel",
+    budgetNotes,
+  });
+
+  it("classifies each platform's notes against the allocation", () => {
+    const checks = checkBudgetNotes(
+      [
+        ad("Meta", "$200 per week on prospecting"),
+        ad("Google Ads", "Spend $400 weekly"),
+        ad("TikTok", "$50 per week"),
+        ad("Google Shopping", "Keep it lean"),
+      ],
+      allocation
+    );
+
+    expect(checks.map((check) => check.status)).toEqual([
+      "consistent",
+      "contradiction",
+      "unverifiable",
+      "unverifiable",
+    ]);
+    expect(checks[1].message).toBe("Notes state $400.00 weekly but the allocation is $100.00 weekly.");
+  });
+
+  it("accepts a stated share within tolerance", () => {
+    const [check] = checkBudgetNotes([ad("Google", "Allocate 35% of spend to Shopping")], allocation);
+
+    expect(check.status).toBe("consistent");
+  });
+});
@@ -0,0 +1,331 @@
+import {
+  DEFAULT_FX_TABLE,
+  DEFAULT_REPORTING_CURRENCY,
+  convertAmount,
+  exchangeRate,
+  isCurrencyCode,
+  roundToMinorUnits,
+} from "@/lib/currency";
+import { formatMoney } from "@/lib/format";
+import type {
+  AdPlatform,
+  AgentOutput,
+  BudgetAllocation,
+  BudgetAllocationLine,
+  BudgetCadence,
+  BudgetNoteCheck,
+  CampaignBudget,
+} from "@/types/agent";
+import type { CurrencySettings, FxTable } from "@/types/currency";
+
+const DAYS_PER_CADENCE: Record<BudgetCadence, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 365 / 12,
+};
+
+/** Smallest daily spend, in USD, that lets a platform exit its learning phase. */
+export const PLATFORM_MIN_DAILY_SPEND: Record<AdPlatform, number> = {
+  meta: 5,
+  google: 10,
+};
+
+const PLATFORM_CHANNELS: Record<AdPlatform, string[]> = {
+  meta: ["meta-ads", "instagram"],
+  google: ["google-ads", "youtube"],
+};
+
+const PLATFORM_LABELS: Record<AdPlatform, string> = { meta: "Meta", google: "Google" };
+
+const NOTE_TOLERANCE = 0.1;
+
+const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  table: DEFAULT_FX_TABLE,
+  reportingCurrency: DEFAULT_REPORTING_CURRENCY,
+};
+
+function resolvePlatforms(budget: CampaignBudget, targetChannels: string[]): AdPlatform[] {
+  if (budget.platform === "both") return ["meta", "google"];
+  if (budget.platform) return [budget.platform];
+
+  const inferred = (Object.keys(PLATFORM_CHANNELS) as AdPlatform[]).filter((platform) =>
+    PLATFORM_CHANNELS[platform].some((channel) => targetChannels.includes(channel))
+  );
+  return inferred.length > 0 ? inferred : ["meta", "google"];
+}
+
+/**
+ * Splits the daily amount across platforms by weight while keeping every
+ * platform at or above its minimum: platforms that would fall below it are
+ * pinned to the minimum and the remainder is re-split among the rest.
+ */
+function splitWithMinimums(
+  daily: number,
+  weights: Map<AdPlatform, number>,
+  minimums: Record<AdPlatform, number>
+): Map<AdPlatform, number> {
+  const pinned = new Map<AdPlatform, number>();
+
+  for (;;) {
+    const free = [...weights.keys()].filter((platform) => !pinned.has(platform));
+    const remaining = daily - [...pinned.values()].reduce((sum, value) => sum + value, 0);
+    const freeWeight = free.reduce((sum, platform) => sum + (weights.get(platform) ?? 0), 0);
+
+    const amounts = new Map(
+      free.map((platform) => [platform, (remaining * (weights.get(platform) ?? 0)) / freeWeight])
+    );
+    const short = free.filter((platform) => (amounts.get(platform) ?? 0) < minimums[platform]);
+
+    if (short.length === 0 || short.length === free.length) {
+      return new Map([...pinned, ...amounts]);
+    }
+    short.forEach((platform) => pinned.set(platform, minimums[platform]));
+  }
+}
+
+export function allocateBudget(
+  budget: CampaignBudget,
+  targetChannels: string[],
+  { table, reportingCurrency }: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): BudgetAllocation {
+  const daily = budget.amount / DAYS_PER_CADENCE[budget.cadence];
+  const warnings: string[] = [];
+  const roundMoney = (value: number) => roundToMinorUnits(value, budget.currency);
+  const roundReporting = (value: number) => roundToMinorUnits(value, reportingCurrency);
+
+  const minimumRate = exchangeRate(table, "USD", budget.currency);
+  if (minimumRate === null) {
+    warnings.push(`No exchange rate for ${budget.currency}, so platform minimums are applied as USD amounts.`);
+  }
+  const minimums = Object.fromEntries(
+    Object.entries(PLATFORM_MIN_DAILY_SPEND).map(([platform, value]) => [platform, value * (minimumRate ?? 1)])
+  ) as Record<AdPlatform, number>;
+
+  const channelsByPlatform = new Map<AdPlatform, string[]>(
+    resolvePlatforms(budget, targetChannels).map((platform) => {
+      const targeted = PLATFORM_CHANNELS[platform].filter((channel) => targetChannels.includes(channel));
+      return [platform, targeted.length > 0 ? targeted : PLATFORM_CHANNELS[platform].slice(0, 1)];
+    })
+  );
+
+  const minimumFor = (platforms: AdPlatform[]) =>
+    platforms.reduce((sum, platform) => sum + minimums[platform], 0);
+
+  while (channelsByPlatform.size > 1 && daily < minimumFor([...channelsByPlatform.keys()])) {
+    const [dropped] = [...channelsByPlatform.keys()].sort(
+      (a, b) =>
+        (channelsByPlatform.get(a)?.length ?? 0) - (channelsByPlatform.get(b)?.length ?? 0) ||
+        minimums[b] - minimums[a]
+    );
+    channelsByPlatform.delete(dropped);
+    warnings.push(
+      `${formatMoney(daily, budget.currency)}/day cannot cover every platform minimum, so ${PLATFORM_LABELS[dropped]} gets no budget.`
+    );
+  }
+
+  const platforms = [...channelsByPlatform.keys()];
+  if (platforms.length === 1 && daily < minimums[platforms[0]]) {
+    warnings.push(
+      `${formatMoney(daily, budget.currency)}/day is below the ${PLATFORM_LABELS[platforms[0]]} minimum of ${formatMoney(minimums[platforms[0]], budget.currency)}/day.`
+    );
+  }
+
+  const platformDaily = splitWithMinimums(
+    daily,
+    new Map(platforms.map((platform) => [platform, channelsByPlatform.get(platform)?.length ?? 1])),
+    minimums
+  );
+
+  const lines: BudgetAllocationLine[] = platforms.flatMap((platform) => {
+    const channels = channelsByPlatform.get(platform) ?? [];
+    const perChannel = (platformDaily.get(platform) ?? 0) / channels.length;
+    return channels.map((channel) => ({
+      platform,
+      channel,
+      share: Math.round((perChannel / daily) * 10000) / 10000,
+      daily: roundMoney(perChannel),
+      weekly: roundMoney(perChannel * DAYS_PER_CADENCE.weekly),
+      monthly: roundMoney(perChannel * DAYS_PER_CADENCE.monthly),
+    }));
+  });
+
+  const reportingRate = exchangeRate(table, budget.currency, reportingCurrency);
+  if (reportingRate === null) {
+    warnings.push(`No exchange rate from ${budget.currency} to ${reportingCurrency}, so reporting totals are omitted.`);
+  }
+
+  return {
+    currency: budget.currency,
+    cadence: budget.cadence,
+    amount: budget.amount,
+    daily: roundMoney(daily),
+    weekly: roundMoney(daily * DAYS_PER_CADENCE.weekly),
+    monthly: roundMoney(daily * DAYS_PER_CADENCE.monthly),
+    lines,
+    warnings,
+    noteChecks: [],
+    reporting:
+      reportingRate === null
+        ? undefined
+        : {
+            currency: reportingCurrency,
+            rate: reportingRate,
+            asOf: table.asOf,
+            amount: roundReporting(budget.amount * reportingRate),
+            daily: roundReporting(daily * reportingRate),
+            weekly: roundReporting(daily * DAYS_PER_CADENCE.weekly * reportingRate),
+            monthly: roundReporting(daily * DAYS_PER_CADENCE.monthly * reportingRate),
+          },
+  };
+}
+
+export function platformFromText(text: string): AdPlatform | null {
+  const value = text.toLowerCase();
+  if (/\b(meta|facebook|instagram|fb|ig)\b/.test(value)) return "meta";
+  if (/\b(google|youtube|search|pmax|performance max|shopping)\b/.test(value)) return "google";
+  return null;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string[]> = {
+  $: ["USD", "CAD", "AUD", "NZD", "SGD", "HKD", "MXN"],
+  "€": ["EUR"],
+  "£": ["GBP"],
+  "¥": ["JPY", "CNY"],
+  "₹": ["INR"],
+};
+
+interface StatedAmount {
+  value: number;
+  currency: string;
+  cadence: BudgetCadence | null;
+}
+
+const AMOUNT_PATTERN =
+  /(?:([$€£¥₹])\s?|\b([A-Z]{3})\s)(\d[\d,]*(?:\.\d+)?)(k)?\b|\b(\d[\d,]*(?:\.\d+)?)(k)?\s?([A-Z]{3})\b/g;
+
+function cadenceFromText(text: string): BudgetCadence | null {
+  if (/^\s*(\/\s?(day|d)\b|per day|a day|daily)/i.test(text)) return "daily";
+  if (/^\s*(\/\s?(week|wk|w)\b|per week|a week|weekly)/i.test(text)) return "weekly";
+  if (/^\s*(\/\s?(month|mo|m)\b|per month|a month|monthly)/i.test(text)) return "monthly";
+  return null;
+}
+
+function parseStatedAmounts(notes: string, budgetCurrency: string): StatedAmount[] {
+  return [...notes.matchAll(AMOUNT_PATTERN)].flatMap((match) => {
+    const [whole, symbol, prefixCode, prefixValue, prefixK, suffixValue, suffixK, suffixCode] = match;
+    const raw = Number((prefixValue ?? suffixValue).replace(/,/g, ""));
+    const value = prefixK || suffixK ? raw * 1000 : raw;
+    const code = prefixCode ?? suffixCode;
+    // Three capitals next to a number are often metrics ("30 CPA"), not currencies.
+    if (code && !isCurrencyCode(code)) return [];
+    const symbolCurrencies = CURRENCY_SYMBOLS[symbol] ?? [];
+    const currency = code ?? (symbolCurrencies.includes(budgetCurrency) ? budgetCurrency : symbolCurrencies[0]);
+
+    return [
+      {
+        value,
+        currency,
+        cadence: cadenceFromText(notes.slice((match.index ?? 0) + whole.length)),
+      },
+    ];
+  });
+}
+
+function parseStatedShares(notes: string): number[] {
+  return [...notes.matchAll(/\b(?:allocate|allocation|split|share|put)\D{0,20}?(\d+(?:\.\d+)?)\s?%|(\d+(?:\.\d+)?)\s?%\s+of\b/gi)].map(
+    (match) => Number(match[1] ?? match[2]) / 100
+  );
+}
+
+/**
+ * Compares the amounts and shares the model wrote in `adStrategy[].budgetNotes`
+ * with the computed allocation and flags notes that disagree with it.
+ */
+export function checkBudgetNotes(
+  adStrategy: AgentOutput["adStrategy"],
+  allocation: BudgetAllocation,
+  table: FxTable = DEFAULT_FX_TABLE
+): BudgetNoteCheck[] {
+  return adStrategy.map(({ platform: label, budgetNotes }) => {
+    const platform = platformFromText(label);
+    const amounts = parseStatedAmounts(budgetNotes, allocation.currency);
+    const shares = parseStatedShares(budgetNotes);
+
+    if (!platform) {
+      return { platform: label, status: "unverifiable", message: "Platform is outside the allocator's scope." };
+    }
+
+    const platformLines = allocation.lines.filter((line) => line.platform === platform);
+    const platformTotal = (cadence: BudgetCadence) =>
+      roundToMinorUnits(
+        platformLines.reduce((sum, line) => sum + line[cadence], 0),
+        allocation.currency
+      );
+
+    if (amounts.length === 0 && shares.length === 0) {
+      return { platform: label, status: "unverifiable", message: "Notes state no amount or share to check." };
+    }
+
+    if (platformLines.length === 0) {
+      return {
+        platform: label,
+        status: "contradiction",
+        message: `Notes budget spend for ${PLATFORM_LABELS[platform]}, but the allocation gives it nothing.`,
+      };
+    }
+
+    const comparable = amounts.flatMap((amount) => {
+      const value = convertAmount(table, amount.value, amount.currency, allocation.currency);
+      return value === null ? [] : [{ ...amount, converted: value }];
+    });
+    if (comparable.length === 0 && shares.length === 0) {
+      return {
+        platform: label,
+        status: "unverifiable",
+        message: `No exchange rate to compare ${amounts.map((amount) => amount.currency).join(", ")} with ${allocation.currency}.`,
+      };
+    }
+
+    const within = (stated: number, expected: number) =>
+      Math.abs(stated - expected) <= Math.max(expected * NOTE_TOLERANCE, 0.01);
+
+    const expectedShare = platformLines.reduce((sum, line) => sum + line.share, 0);
+    const amountMatches = comparable.map((amount) => {
+      const cadence = amount.cadence ?? allocation.cadence;
+      return { amount, cadence, expected: platformTotal(cadence) };
+    });
+
+    if (
+      amountMatches.some(({ amount, expected }) => within(amount.converted, expected)) ||
+      shares.some((share) => Math.abs(share - expectedShare) <= NOTE_TOLERANCE)
+    ) {
+      return { platform: label, status: "consistent", message: "Notes match the computed allocation." };
+    }
+
+    const [first] = amountMatches;
+    const stated = first && formatMoney(first.amount.value, first.amount.currency);
+    return {
+      platform: label,
+      status: "contradiction",
+      message: first
+        ? `Notes state ${first.amount.currency === allocation.currency ? stated : `${stated} (${formatMoney(first.amount.converted, allocation.currency)})`} ${first.cadence} but the allocation is ${formatMoney(first.expected, allocation.currency)} ${first.cadence}.`
+        : `Notes state a ${Math.round(shares[0] * 100)}% share but the allocation is ${Math.round(expectedShare * 100)}%.`,
+    };
+  });
+}
+
+/** Attaches the computed allocation and note checks to a plan when the brief has a budget. */
+export function withBudgetAllocation(
+  plan: AgentOutput,
+  budget: CampaignBudget | undefined,
+  targetChannels: string[],
+  settings: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): AgentOutput {
+  if (!budget) return plan;
+
+  const allocation = allocateBudget(budget, targetChannels, settings);
+  return {
+    ...plan,
+    budgetAllocation: { ...allocation, noteChecks: checkBudgetNotes(plan.adStrategy, allocation, settings.table) },
+  };
+}
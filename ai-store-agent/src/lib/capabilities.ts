@@ -0,0 +1,53 @@
+export interface Capability {
+  id: string;
+  title: string;
+  description: string;
+  outcomes: string[];
+  automations: string[];
+}
+
+/** Playbooks shown on the dashboard; the agent draws on them when it plans. */
+export const CAPABILITIES: Capability[] = [
+  {
+    id: "catalog",
+    title: "Catalog & merchandising",
+    description: "Keeps listings complete, priced to test and ordered by what sells.",
+    outcomes: ["Launch-ready listings with SEO copy", "Price tests on new arrivals"],
+    automations: ["Flag listings missing images or alt text", "Rotate bestsellers into hero slots"],
+  },
+  {
+    id: "sales",
+    title: "Sales & campaigns",
+    description: "Plans drops, bundles and promotions around stock and margin.",
+    outcomes: ["Weekly promotion calendar", "Bundles that clear overstock"],
+    automations: ["Start a promo when stock passes its overstock threshold", "Pause offers on sold-out SKUs"],
+  },
+  {
+    id: "loyalty",
+    title: "Loyalty & retention",
+    description: "Tunes earn rates, tiers and expiry so repeat buyers come back sooner.",
+    outcomes: ["Campaign point multipliers", "Tier thresholds matched to spend"],
+    automations: ["Remind members before points expire", "Welcome new tier members"],
+  },
+  {
+    id: "seo",
+    title: "SU / SEO",
+    description: "Builds search demand with keyword-led collections and content.",
+    outcomes: ["Keyword map per collection", "Monthly content briefs"],
+    automations: ["Alert on pages losing rank", "Refresh meta descriptions on new SKUs"],
+  },
+  {
+    id: "ads",
+    title: "Paid ads",
+    description: "Splits budget across Meta and Google and briefs the creatives.",
+    outcomes: ["Audience and creative matrix", "Budget split per platform"],
+    automations: ["Shift spend to the better ROAS platform", "Pause ads for out-of-stock SKUs"],
+  },
+  {
+    id: "support",
+    title: "Support",
+    description: "Drafts replies in the brand voice and escalates what needs a person.",
+    outcomes: ["Reply drafts for the open queue", "Escalation rules by urgency"],
+    automations: ["Escalate tickets waiting past their SLA", "Tag refund requests for review"],
+  },
+];
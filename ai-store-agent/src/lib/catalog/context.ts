@@ -0,0 +1,111 @@
+import { listProducts } from "@/lib/catalog/store";
+import type { AgentBrief, AgentOutput } from "@/types/agent";
+import type { CatalogProduct, CatalogReference } from "@/types/catalog";
+
+/** Products sent to the model per run; enough for real SKUs without crowding the brief. */
+export const CATALOG_PROMPT_LIMIT = 40;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "our", "your", "new", "all", "from", "into", "that", "this", "run", "plan", "stay",
+]);
+
+function termsOf(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((term) => term.length >= 3 && !STOP_WORDS.has(term))
+  );
+}
+
+function relevance(product: CatalogProduct, terms: Set<string>): number {
+  let score = 0;
+  for (const term of termsOf(`${product.title} ${product.productType ?? ""} ${product.vendor ?? ""}`)) {
+    if (terms.has(term)) score += 1;
+  }
+  for (const tag of product.tags) {
+    for (const term of termsOf(tag)) if (terms.has(term)) score += 2;
+  }
+  return terms.has(product.id.toLowerCase()) ? score + 10 : score;
+}
+
+/**
+ * Picks the active products that share the most terms with the brief. Briefs
+ * with the catalog focus, or that match nothing, are topped up with the
+ * lowest-stock SKUs so the model always has real products to plan against.
+ */
+export function selectRelevantProducts(
+  products: CatalogProduct[],
+  brief: AgentBrief,
+  limit = CATALOG_PROMPT_LIMIT
+): CatalogProduct[] {
+  const terms = termsOf([brief.objective, brief.constraints ?? "", ...brief.tasks].join(" "));
+  const scored = products
+    .filter((product) => product.status === "active")
+    .map((product) => ({ product, score: relevance(product, terms) }))
+    .sort((a, b) => b.score - a.score || a.product.stock - b.product.stock || a.product.id.localeCompare(b.product.id));
+
+  const matched = scored.filter((item) => item.score > 0);
+  const selected = matched.length === 0 || brief.focusAreas.includes("catalog") ? scored : matched;
+  return selected.slice(0, limit).map((item) => item.product);
+}
+
+function describeProduct(product: CatalogProduct): string {
+  const price = `${product.price.toFixed(2)}${product.currency ? ` ${product.currency}` : ""}`;
+  const sale = product.compareAtPrice ? ` (was ${product.compareAtPrice.toFixed(2)})` : "";
+  const tags = product.tags.length > 0 ? `, tags: ${product.tags.join(", ")}` : "";
+  return `- [${product.id}] ${product.title} - ${price}${sale}, stock ${product.stock}${tags}`;
+}
+
+/** Catalog block appended to the agent prompt, or null when no products have been imported. */
+export async function buildCatalogContext(brief: AgentBrief): Promise<string | null> {
+  const products = await listProducts();
+  const selected = selectRelevantProducts(products, brief);
+  if (selected.length === 0) return null;
+
+  return [
+    `Store catalog (${selected.length} of ${products.length} SKUs, most relevant first).`,
+    `Plan against these real products and cite them by exact SKU in square brackets, e.g. [${selected[0].id}]. Do not invent SKUs.`,
+    ...selected.map(describeProduct),
+  ].join("\n");
+}
+
+function planText(plan: AgentOutput): string {
+  return [
+    plan.executiveSummary,
+    plan.seoPlan,
+    plan.loyaltyPlan,
+    ...plan.taskMatrix.flatMap((item) => [item.title, item.successMetric]),
+    ...plan.automations.flatMap((item) => [item.title, item.description, item.trigger, item.action]),
+    ...plan.channelPlaybooks.flatMap((item) => [item.content]),
+    ...plan.adStrategy.flatMap((item) => [item.audience, item.creatives, item.budgetNotes]),
+  ].join("\n");
+}
+
+/** Catalog SKUs mentioned anywhere in the plan, bracketed or bare, in order of first mention. */
+export function resolveCatalogReferences(plan: AgentOutput, products: CatalogProduct[]): CatalogReference[] {
+  const bySku = new Map(products.map((product) => [product.id, product]));
+  const references = new Map<string, CatalogReference>();
+
+  for (const match of planText(plan).matchAll(/\[([^\]\n]{1,64})\]|[A-Za-z0-9][A-Za-z0-9._/-]*[A-Za-z0-9]/g)) {
+    const product = bySku.get((match[1] ?? match[0]).trim());
+    if (!product || references.has(product.id)) continue;
+    references.set(product.id, {
+      sku: product.id,
+      title: product.title,
+      price: product.price,
+      currency: product.currency,
+      stock: product.stock,
+    });
+  }
+
+  return [...references.values()];
+}
+
+export async function withCatalogReferences(plan: AgentOutput): Promise<AgentOutput> {
+  const products = await listProducts();
+  if (products.length === 0) return plan;
+
+  const catalogReferences = resolveCatalogReferences(plan, products);
+  return catalogReferences.length > 0 ? { ...plan, catalogReferences } : plan;
+}
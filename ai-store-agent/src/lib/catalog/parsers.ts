@@ -0,0 +1,251 @@
+import { z } from "zod";
+
+import { isCurrencyCode } from "@/lib/currency";
+import type { CatalogImportIssue, CatalogProduct } from "@/types/catalog";
+
+export type ParsedProduct = Omit<CatalogProduct, "importedAt">;
+
+export interface ParsedCatalog {
+  products: ParsedProduct[];
+  skipped: CatalogImportIssue[];
+}
+
+const CSV_COLUMNS = {
+  sku: ["sku", "variant sku"],
+  title: ["title", "name", "product title"],
+  price: ["price", "variant price"],
+  compareAtPrice: ["compare at price", "compare_at_price", "variant compare at price"],
+  stock: ["stock", "quantity", "qty", "inventory", "inventory quantity", "variant inventory qty"],
+  tags: ["tags"],
+  currency: ["currency"],
+  productType: ["type", "product type", "product_type"],
+  vendor: ["vendor"],
+  handle: ["handle"],
+  status: ["status"],
+  option: ["option1 value", "variant title"],
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+/** Inherited from the first row of a handle; Shopify leaves them blank on variant rows. */
+const PRODUCT_LEVEL_COLUMNS: CsvColumn[] = ["title", "tags", "productType", "vendor", "status"];
+
+/** RFC 4180 rows: quoted fields may contain commas, doubled quotes and line breaks. */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = text.charCodeAt(0) === 0xfeff ? 1 : 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function parseMoney(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const amount = typeof value === "number" ? value : Number(value.replace(/[^0-9.-]/g, ""));
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+function parseStock(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return 0;
+  const stock = Number(value);
+  return Number.isInteger(stock) ? stock : null;
+}
+
+function parseTags(value: string | string[] | null | undefined): string[] {
+  const tags = Array.isArray(value) ? value : (value ?? "").split(/[,;]/);
+  return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+}
+
+function parseStatus(value: string | null | undefined): CatalogProduct["status"] {
+  const status = value?.trim().toLowerCase();
+  return status === "draft" || status === "archived" ? status : "active";
+}
+
+function variantTitle(title: string, option: string | null | undefined): string {
+  const name = option?.trim();
+  return name && name !== "Default Title" ? `${title} - ${name}` : title;
+}
+
+interface ProductFields {
+  sku?: string | null;
+  title: string;
+  price?: string | number | null;
+  compareAtPrice?: string | number | null;
+  stock?: string | number | null;
+  tags?: string | string[] | null;
+  currency?: string | null;
+  productType?: string | null;
+  vendor?: string | null;
+  handle?: string | null;
+  status?: string | null;
+}
+
+function toProduct(fields: ProductFields): ParsedProduct | string {
+  const sku = fields.sku?.trim();
+  if (!sku) return `"${fields.title}" has no SKU`;
+  if (!fields.title.trim()) return `SKU ${sku} has no title`;
+
+  const price = parseMoney(fields.price);
+  if (price === null) return `SKU ${sku} has an invalid price`;
+
+  const stock = parseStock(fields.stock);
+  if (stock === null) return `SKU ${sku} has a non-integer stock level`;
+
+  const currency = fields.currency?.trim().toUpperCase() || undefined;
+  if (currency && !isCurrencyCode(currency)) return `SKU ${sku} has an unknown currency "${currency}"`;
+
+  return {
+    id: sku,
+    title: fields.title.trim(),
+    price,
+    currency,
+    compareAtPrice: parseMoney(fields.compareAtPrice) ?? undefined,
+    stock,
+    tags: parseTags(fields.tags),
+    productType: fields.productType?.trim() || undefined,
+    vendor: fields.vendor?.trim() || undefined,
+    handle: fields.handle?.trim() || undefined,
+    status: parseStatus(fields.status),
+  };
+}
+
+/**
+ * Reads a product CSV with a header row. Accepts plain `sku,title,price,stock,tags`
+ * files as well as Shopify's product CSV export (`Handle`, `Variant SKU`,
+ * `Variant Price`, `Variant Inventory Qty`, ...).
+ */
+export function parseCatalogCsv(text: string): ParsedCatalog {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { products: [], skipped: [] };
+
+  const headings = header.map((cell) => cell.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as CsvColumn[]).map((column) => [
+      column,
+      headings.findIndex((heading) => (CSV_COLUMNS[column] as readonly string[]).includes(heading)),
+    ])
+  ) as Record<CsvColumn, number>;
+
+  if (columns.sku === -1 || columns.price === -1) {
+    return { products: [], skipped: [{ row: 1, message: "The header needs a SKU column and a price column" }] };
+  }
+
+  const products: ParsedProduct[] = [];
+  const skipped: CatalogImportIssue[] = [];
+  const byHandle = new Map<string, Partial<Record<CsvColumn, string>>>();
+
+  rows.forEach((cells, index) => {
+    const row = Object.fromEntries(
+      (Object.keys(columns) as CsvColumn[])
+        .filter((column) => columns[column] !== -1)
+        .map((column) => [column, cells[columns[column]]?.trim() ?? ""])
+    ) as Partial<Record<CsvColumn, string>>;
+
+    if (row.handle) {
+      const parent = byHandle.get(row.handle);
+      if (parent) {
+        for (const column of PRODUCT_LEVEL_COLUMNS) row[column] ||= parent[column];
+      } else {
+        byHandle.set(row.handle, row);
+      }
+    }
+
+    // Shopify exports image-only rows with no variant data; they are not products.
+    if (row.handle && !row.sku && !row.price) return;
+
+    const product = toProduct({ ...row, title: variantTitle(row.title ?? "", row.option) });
+    if (typeof product === "string") {
+      skipped.push({ row: index + 2, message: product });
+    } else {
+      products.push(product);
+    }
+  });
+
+  return { products, skipped };
+}
+
+const shopifyVariantSchema = z.object({
+  sku: z.string().nullish(),
+  title: z.string().nullish(),
+  price: z.union([z.string(), z.number()]).nullish(),
+  compare_at_price: z.union([z.string(), z.number()]).nullish(),
+  inventory_quantity: z.number().nullish(),
+});
+
+const shopifyProductSchema = z.object({
+  title: z.string(),
+  handle: z.string().nullish(),
+  product_type: z.string().nullish(),
+  vendor: z.string().nullish(),
+  status: z.string().nullish(),
+  tags: z.union([z.string(), z.array(z.string())]).nullish(),
+  variants: z.array(shopifyVariantSchema).default([]),
+});
+
+export const shopifyExportSchema = z.union([
+  z.object({ products: z.array(shopifyProductSchema) }),
+  z.object({ product: shopifyProductSchema }).transform(({ product }) => ({ products: [product] })),
+  z.array(shopifyProductSchema).transform((products) => ({ products })),
+]);
+
+/** Reads Shopify's product JSON (`{ products: [...] }`, one `{ product }`, or a bare array); one SKU per variant. */
+export function parseShopifyProducts(data: z.infer<typeof shopifyExportSchema>): ParsedCatalog {
+  const products: ParsedProduct[] = [];
+  const skipped: CatalogImportIssue[] = [];
+
+  data.products.forEach((product, index) => {
+    for (const variant of product.variants) {
+      const parsed = toProduct({
+        sku: variant.sku,
+        title: variantTitle(product.title, variant.title),
+        price: variant.price,
+        compareAtPrice: variant.compare_at_price,
+        stock: variant.inventory_quantity,
+        tags: product.tags,
+        productType: product.product_type,
+        vendor: product.vendor,
+        handle: product.handle,
+        status: product.status,
+      });
+      if (typeof parsed === "string") {
+        skipped.push({ row: index + 1, message: parsed });
+      } else {
+        products.push(parsed);
+      }
+    }
+  });
+
+  return { products, skipped };
+}
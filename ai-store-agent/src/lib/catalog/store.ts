@@ -0,0 +1,77 @@
+import type { ParsedCatalog } from "@/lib/catalog/parsers";
+import { createCollection } from "@/lib/storage";
+import type { CatalogImportFormat, CatalogImportResult, CatalogProduct } from "@/types/catalog";
+
+const products = createCollection<CatalogProduct>("catalog");
+
+export interface CatalogQuery {
+  q?: string;
+  tag?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export function listProducts(): Promise<CatalogProduct[]> {
+  return products.list();
+}
+
+export async function searchProducts(query: CatalogQuery = {}): Promise<{ products: CatalogProduct[]; total: number }> {
+  const needle = query.q?.trim().toLowerCase();
+  const tag = query.tag?.trim().toLowerCase();
+
+  const matches = (await products.list())
+    .filter((product) => !tag || product.tags.some((item) => item.toLowerCase() === tag))
+    .filter(
+      (product) =>
+        !needle ||
+        product.id.toLowerCase().includes(needle) ||
+        product.title.toLowerCase().includes(needle) ||
+        product.tags.some((item) => item.toLowerCase().includes(needle))
+    )
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const offset = query.offset ?? 0;
+  return { products: matches.slice(offset, offset + (query.limit ?? 100)), total: matches.length };
+}
+
+export function getProduct(sku: string): Promise<CatalogProduct | null> {
+  return products.get(sku);
+}
+
+export function deleteProduct(sku: string): Promise<boolean> {
+  return products.remove(sku);
+}
+
+/** Sets stock on the SKUs that exist in the catalog; returns how many changed. */
+export async function updateStockLevels(levels: Map<string, number>): Promise<number> {
+  const changed = (await products.list())
+    .filter((product) => levels.has(product.id) && levels.get(product.id) !== product.stock)
+    .map((product) => ({ ...product, stock: levels.get(product.id)! }));
+  if (changed.length > 0) await products.upsertMany(changed);
+  return changed.length;
+}
+
+/**
+ * Stores parsed products keyed by SKU. A SKU repeated within one import keeps
+ * its last row; `replace` removes every product the import does not mention.
+ */
+export async function importCatalog(
+  format: CatalogImportFormat,
+  parsed: ParsedCatalog,
+  options: { replace?: boolean } = {}
+): Promise<CatalogImportResult> {
+  const importedAt = new Date().toISOString();
+  const skipped = [...parsed.skipped];
+  const seen = new Set<string>();
+
+  for (const product of parsed.products) {
+    if (seen.has(product.id)) skipped.push({ message: `Duplicate SKU ${product.id}; the last occurrence was kept` });
+    seen.add(product.id);
+  }
+
+  const counts = await products.upsertMany(
+    parsed.products.map((product) => ({ ...product, importedAt })),
+    options
+  );
+  return { format, ...counts, skipped };
+}
@@ -0,0 +1,52 @@
+import { promises as fs } from "node:fs";
+import type { z } from "zod";
+
+import { formatZodIssues } from "@/lib/plan-schema";
+
+export interface ConfigFileOptions<T> {
+  /** What the file holds, for log messages, e.g. "FX rates". */
+  label: string;
+  /** Resolved on every load, so a changed env var takes effect without a restart. */
+  file: () => string;
+  schema: z.ZodType<T>;
+  fallback: T;
+}
+
+/**
+ * Loader for a JSON settings file that operators edit by hand. The file is
+ * re-read when it changes; when it is missing or invalid the built-in
+ * `fallback` is used, and an invalid file is logged.
+ */
+export function createConfigFileLoader<T>({ label, file: fileOf, schema, fallback }: ConfigFileOptions<T>) {
+  let cached: { file: string; mtimeMs: number; value: T } | null = null;
+
+  return async function load(): Promise<T> {
+    const file = fileOf();
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(file)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+      throw error;
+    }
+
+    if (cached?.file === file && cached.mtimeMs === mtimeMs) return cached.value;
+
+    let parsed: ReturnType<typeof schema.safeParse>;
+    try {
+      parsed = schema.safeParse(JSON.parse(await fs.readFile(file, "utf8")));
+    } catch (error) {
+      console.error(`Could not read ${label} from ${file}`, error);
+      return fallback;
+    }
+
+    if (!parsed.success) {
+      console.error(`Invalid ${label} in ${file}: ${formatZodIssues(parsed.error).join("; ")}`);
+      return fallback;
+    }
+
+    cached = { file, mtimeMs, value: parsed.data };
+    return parsed.data;
+  };
+}
@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+import type { FxTable } from "@/types/currency";
+
+/** Active ISO 4217 currency codes, excluding fund, precious-metal and testing codes. */
+export const ISO_4217_CODES = [
+  "AED", "AFN", "ALL", "AMD", "ANG", "AOA", "ARS", "AUD", "AWG", "AZN", "BAM", "BBD", "BDT", "BGN",
+  "BHD", "BIF", "BMD", "BND", "BOB", "BRL", "BSD", "BTN", "BWP", "BYN", "BZD", "CAD", "CDF", "CHF",
+  "CLP", "CNY", "COP", "CRC", "CUP", "CVE", "CZK", "DJF", "DKK", "DOP", "DZD", "EGP", "ERN", "ETB",
+  "EUR", "FJD", "FKP", "GBP", "GEL", "GHS", "GIP", "GMD", "GNF", "GTQ", "GYD", "HKD", "HNL", "HTG",
+  "HUF", "IDR", "ILS", "INR", "IQD", "IRR", "ISK", "JMD", "JOD", "JPY", "KES", "KGS", "KHR", "KMF",
+  "KPW", "KRW", "KWD", "KYD", "KZT", "LAK", "LBP", "LKR", "LRD", "LSL", "LYD", "MAD", "MDL", "MGA",
+  "MKD", "MMK", "MNT", "MOP", "MRU", "MUR", "MVR", "MWK", "MXN", "MYR", "MZN", "NAD", "NGN", "NIO",
+  "NOK", "NPR", "NZD", "OMR", "PAB", "PEN", "PGK", "PHP", "PKR", "PLN", "PYG", "QAR", "RON", "RSD",
+  "RUB", "RWF", "SAR", "SBD", "SCR", "SDG", "SEK", "SGD", "SHP", "SLE", "SOS", "SRD", "SSP", "STN",
+  "SVC", "SYP", "SZL", "THB", "TJS", "TMT", "TND", "TOP", "TRY", "TTD", "TWD", "TZS", "UAH", "UGX",
+  "USD", "UYU", "UZS", "VED", "VES", "VND", "VUV", "WST", "XAF", "XCD", "XCG", "XOF", "XPF", "YER",
+  "ZAR", "ZMW", "ZWG",
+];
+
+const isoCodes = new Set(ISO_4217_CODES);
+
+export const DEFAULT_REPORTING_CURRENCY = "USD";
+
+/** Reference rates used when no `FX_RATES_FILE` is configured. */
+export const DEFAULT_FX_TABLE: FxTable = {
+  base: "USD",
+  asOf: "2025-06-30",
+  rates: {
+    AED: 3.6725,
+    AUD: 1.53,
+    BRL: 5.46,
+    CAD: 1.37,
+    CHF: 0.8,
+    CNY: 7.17,
+    CZK: 21.1,
+    DKK: 6.37,
+    EUR: 0.853,
+    GBP: 0.729,
+    HKD: 7.85,
+    HUF: 340,
+    IDR: 16200,
+    INR: 85.7,
+    JPY: 144,
+    KRW: 1355,
+    MXN: 18.9,
+    MYR: 4.21,
+    NOK: 10.1,
+    NZD: 1.65,
+    PHP: 56.4,
+    PLN: 3.62,
+    SAR: 3.75,
+    SEK: 9.52,
+    SGD: 1.27,
+    THB: 32.5,
+    TRY: 39.8,
+    ZAR: 17.8,
+  },
+};
+
+export function isCurrencyCode(value: string): boolean {
+  return isoCodes.has(value);
+}
+
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.toUpperCase())
+  .refine(isCurrencyCode, { message: "Use an ISO 4217 currency code such as USD or EUR" });
+
+export const fxTableSchema = z.object({
+  base: currencyCodeSchema,
+  asOf: z.string(),
+  rates: z.record(currencyCodeSchema, z.number().positive()),
+});
+
+function rateFor(table: FxTable, currency: string): number | undefined {
+  return currency === table.base ? 1 : table.rates[currency];
+}
+
+/** Returns units of `to` per one unit of `from`, or null when either rate is missing. */
+export function exchangeRate(table: FxTable, from: string, to: string): number | null {
+  if (from === to) return 1;
+  const fromRate = rateFor(table, from);
+  const toRate = rateFor(table, to);
+  return fromRate && toRate ? toRate / fromRate : null;
+}
+
+export function convertAmount(table: FxTable, value: number, from: string, to: string): number | null {
+  const rate = exchangeRate(table, from, to);
+  return rate === null ? null : value * rate;
+}
+
+export function fxCurrencies(table: FxTable): string[] {
+  return [table.base, ...Object.keys(table.rates)].filter((code, index, list) => list.indexOf(code) === index).sort();
+}
+
+/** Decimal places of the currency's minor unit: 2 for USD, 0 for JPY, 3 for KWD. */
+export function minorUnitDigits(currency: string): number {
+  const { maximumFractionDigits } = new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions();
+  return maximumFractionDigits ?? 2;
+}
+
+/** Converts an amount to whole minor units, such as cents for USD or yen for JPY. */
+export function toMinorUnits(value: number, currency: string): number {
+  return Math.round(value * 10 ** minorUnitDigits(currency));
+}
+
+/** Rounds an amount to the currency's minor unit. */
+export function roundToMinorUnits(value: number, currency: string): number {
+  return toMinorUnits(value, currency) / 10 ** minorUnitDigits(currency);
+}
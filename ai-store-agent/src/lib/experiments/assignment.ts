@@ -0,0 +1,19 @@
+import { createHash } from "node:crypto";
+
+import type { PriceExperiment, PriceVariant } from "@/types/experiments";
+
+/**
+ * Maps a visitor to a variant by hashing the experiment and visitor ids, so a
+ * visitor sees the same price on every request without any stored assignment.
+ */
+export function assignVariant(experiment: PriceExperiment, visitorId: string): PriceVariant {
+  const digest = createHash("sha256").update(`${experiment.id}:${visitorId}`).digest();
+  const bucket = digest.readUInt32BE(0) / 2 ** 32;
+
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += variant.weight;
+    if (bucket < cumulative) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
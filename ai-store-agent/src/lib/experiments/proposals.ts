@@ -0,0 +1,77 @@
+import { getProduct } from "@/lib/catalog/store";
+import { createExperiment, listExperiments } from "@/lib/experiments/store";
+import type { PriceExperiment } from "@/types/experiments";
+import type { AgentRunRecord } from "@/types/runs";
+
+const PRICE_TEST_PATTERN = /\b(price[- ]test(ing)?|price experiments?|price points?|a\/b[- ]test(ing)? (the )?prices?|split[- ]test(ing)? (the )?prices?|test(ing)? (a |the )?(new )?prices?)\b/i;
+const DEFAULT_PRICE_STEP = 0.1;
+
+function planItems(run: AgentRunRecord): string[] {
+  const { plan } = run.response;
+  return [
+    ...plan.taskMatrix.map((item) => `${item.title}. ${item.successMetric}`),
+    ...plan.automations.map((item) => `${item.title}. ${item.description} ${item.action}`),
+    ...plan.channelPlaybooks.map((item) => item.content),
+    ...plan.adStrategy.map((item) => item.creatives),
+  ];
+}
+
+/** Relative price changes to test: the stated percentage, or 10% either side of the current price. */
+function priceSteps(text: string): number[] {
+  const percent = text.match(/(\d+(?:\.\d+)?)\s?%/);
+  if (!percent) return [-DEFAULT_PRICE_STEP, DEFAULT_PRICE_STEP];
+
+  const step = Number(percent[1]) / 100;
+  if (/\b(raise|increase|premium|higher|up)\b/i.test(text)) return [step];
+  if (/\b(off|discount|lower|cut|markdown|reduce|down)\b/i.test(text)) return [-step];
+  return [-step, step];
+}
+
+function mentions(text: string, sku: string): boolean {
+  const escaped = sku.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`).test(text);
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Turns plan items that call for price testing into draft experiments, one per
+ * catalog SKU the item cites. SKUs that already have a draft or running test
+ * are skipped.
+ */
+export async function proposePriceExperiments(run: AgentRunRecord): Promise<PriceExperiment[]> {
+  const references = run.response.plan.catalogReferences ?? [];
+  if (references.length === 0) return [];
+
+  const busy = new Set(
+    (await listExperiments())
+      .filter((experiment) => experiment.status === "draft" || experiment.status === "running")
+      .map((experiment) => experiment.sku)
+  );
+  const proposed: PriceExperiment[] = [];
+
+  for (const text of planItems(run)) {
+    if (!PRICE_TEST_PATTERN.test(text)) continue;
+
+    for (const reference of references) {
+      if (busy.has(reference.sku) || !mentions(text, reference.sku)) continue;
+      const product = await getProduct(reference.sku);
+      const price = product?.price ?? reference.price;
+      if (price <= 0) continue;
+
+      busy.add(reference.sku);
+      proposed.push(
+        await createExperiment({
+          sku: reference.sku,
+          hypothesis: text.trim(),
+          variants: [{ price }, ...priceSteps(text).map((step) => ({ price: roundPrice(price * (1 + step)) }))],
+          source: { runId: run.id },
+        })
+      );
+    }
+  }
+
+  return proposed;
+}
@@ -0,0 +1,150 @@
+import type {
+  ConfidenceLevel,
+  ExperimentEvent,
+  ExperimentResults,
+  Interval,
+  PriceExperiment,
+  PriceVariant,
+  VariantResult,
+} from "@/types/experiments";
+
+const Z_SCORES: Record<ConfidenceLevel, number> = { 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExperimentDecision {
+  winner?: string;
+  conclusion: string;
+}
+
+/** Wilson score interval; stays inside 0–1 and behaves at small counts, unlike the normal approximation. */
+export function wilsonInterval(successes: number, trials: number, z: number): Interval {
+  if (trials === 0) return { low: 0, high: 0 };
+  const rate = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const centre = rate + (z * z) / (2 * trials);
+  const margin = z * Math.sqrt((rate * (1 - rate)) / trials + (z * z) / (4 * trials * trials));
+  return { low: Math.max(0, (centre - margin) / denominator), high: Math.min(1, (centre + margin) / denominator) };
+}
+
+function meanAndVariance(values: number[]): { mean: number; variance: number } {
+  if (values.length === 0) return { mean: 0, variance: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (values.length < 2) return { mean, variance: 0 };
+  const squares = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  return { mean, variance: squares / (values.length - 1) };
+}
+
+interface VariantSample {
+  result: VariantResult;
+  variance: number;
+}
+
+function sampleVariant(variant: PriceVariant, events: ExperimentEvent[], z: number): VariantSample {
+  const revenueByVisitor = new Map<string, number>();
+  const converted = new Set<string>();
+
+  for (const event of events) {
+    if (event.variantId !== variant.id) continue;
+    revenueByVisitor.set(event.visitorId, (revenueByVisitor.get(event.visitorId) ?? 0) + (event.revenue ?? 0));
+    if (event.type === "order") converted.add(event.visitorId);
+  }
+
+  const visitors = revenueByVisitor.size;
+  const { mean, variance } = meanAndVariance([...revenueByVisitor.values()]);
+  const margin = visitors > 0 ? z * Math.sqrt(variance / visitors) : 0;
+
+  return {
+    variance,
+    result: {
+      variantId: variant.id,
+      price: variant.price,
+      visitors,
+      conversions: converted.size,
+      revenue: [...revenueByVisitor.values()].reduce((sum, value) => sum + value, 0),
+      conversionRate: visitors > 0 ? converted.size / visitors : 0,
+      conversionInterval: wilsonInterval(converted.size, visitors, z),
+      revenuePerVisitor: mean,
+      revenuePerVisitorInterval: { low: Math.max(0, mean - margin), high: mean + margin },
+    },
+  };
+}
+
+export function daysRunning(experiment: PriceExperiment, now: Date): number {
+  if (!experiment.startedAt) return 0;
+  const end = experiment.endedAt ? Date.parse(experiment.endedAt) : now.getTime();
+  return Math.max(0, (end - Date.parse(experiment.startedAt)) / DAY_MS);
+}
+
+/**
+ * Per-variant conversion and revenue per visitor with confidence intervals.
+ * Each visitor counts once; a visitor converts with at least one order. Lift
+ * intervals compare revenue per visitor with the control (variant "A").
+ */
+export function computeResults(experiment: PriceExperiment, events: ExperimentEvent[], now = new Date()): ExperimentResults {
+  const { minVisitorsPerVariant, minDays, confidence } = experiment.stoppingRules;
+  const z = Z_SCORES[confidence];
+  const samples = experiment.variants.map((variant) => sampleVariant(variant, events, z));
+  const [control, ...challengers] = samples;
+
+  for (const sample of challengers) {
+    const difference = sample.result.revenuePerVisitor - control.result.revenuePerVisitor;
+    const n1 = sample.result.visitors;
+    const n0 = control.result.visitors;
+    const standardError = n1 > 0 && n0 > 0 ? Math.sqrt(sample.variance / n1 + control.variance / n0) : Infinity;
+    sample.result.liftInterval = { low: difference - z * standardError, high: difference + z * standardError };
+  }
+
+  const days = daysRunning(experiment, now);
+  const pending: string[] = [];
+  for (const { result } of samples) {
+    if (result.visitors < minVisitorsPerVariant) {
+      pending.push(`Variant ${result.variantId} needs ${minVisitorsPerVariant - result.visitors} more visitors`);
+    }
+  }
+  if (days < minDays) {
+    pending.push(`Runs for at least ${minDays} days (${Math.ceil(minDays - days)} to go)`);
+  }
+  if (pending.length === 0) {
+    const lifts = challengers.map((sample) => sample.result.liftInterval!);
+    if (!lifts.some((lift) => lift.low > 0) && !lifts.every((lift) => lift.high < 0)) {
+      pending.push(`No significant difference in revenue per visitor yet at ${confidence * 100}% confidence`);
+    }
+  }
+
+  return { experimentId: experiment.id, variants: samples.map((sample) => sample.result), daysRunning: days, pending };
+}
+
+/**
+ * Applies the stopping rules. A challenger wins when its revenue-per-visitor
+ * lift interval sits entirely above zero; the control wins when every
+ * challenger sits entirely below. Reaching `maxDays` ends the test either way.
+ */
+export function evaluateStoppingRules(experiment: PriceExperiment, results: ExperimentResults): ExperimentDecision | null {
+  const level = `${experiment.stoppingRules.confidence * 100}%`;
+  const timedOut = results.daysRunning >= experiment.stoppingRules.maxDays;
+  if (results.pending.length > 0 && !timedOut) return null;
+
+  const [control, ...challengers] = results.variants;
+  const winners = challengers
+    .filter((variant) => variant.liftInterval && variant.liftInterval.low > 0)
+    .sort((a, b) => b.revenuePerVisitor - a.revenuePerVisitor);
+
+  if (results.pending.length === 0 && winners.length > 0) {
+    return {
+      winner: winners[0].variantId,
+      conclusion: `Variant ${winners[0].variantId} at ${winners[0].price} beats the control on revenue per visitor at ${level} confidence`,
+    };
+  }
+
+  if (results.pending.length === 0 && challengers.every((variant) => variant.liftInterval && variant.liftInterval.high < 0)) {
+    return {
+      winner: control.variantId,
+      conclusion: `The control price of ${control.price} earns more per visitor than every challenger at ${level} confidence`,
+    };
+  }
+
+  return timedOut
+    ? { conclusion: `Reached the ${experiment.stoppingRules.maxDays}-day limit without a significant difference at ${level} confidence` }
+    : null;
+}
@@ -0,0 +1,232 @@
+import { getProduct } from "@/lib/catalog/store";
+import { assignVariant } from "@/lib/experiments/assignment";
+import { computeResults, evaluateStoppingRules } from "@/lib/experiments/stats";
+import { createCollection } from "@/lib/storage";
+import type {
+  ExperimentEvent,
+  ExperimentEventType,
+  ExperimentResults,
+  ExperimentStatus,
+  PriceExperiment,
+  PriceVariant,
+  StoppingRules,
+} from "@/types/experiments";
+
+export const DEFAULT_STOPPING_RULES: StoppingRules = {
+  minVisitorsPerVariant: 200,
+  minDays: 7,
+  maxDays: 28,
+  confidence: 0.95,
+};
+
+const MAX_VARIANTS = 4;
+const VARIANT_IDS = ["A", "B", "C", "D"];
+
+const experiments = createCollection<PriceExperiment>("experiments");
+
+function eventsOf(experimentId: string) {
+  return createCollection<ExperimentEvent>(`experiment-events/${experimentId}`);
+}
+
+export class ExperimentError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ExperimentError";
+  }
+}
+
+export interface ExperimentInput {
+  sku: string;
+  title?: string;
+  hypothesis?: string;
+  /** The first entry is the control; weights default to an even split. */
+  variants: Array<{ price: number; weight?: number }>;
+  stoppingRules?: Partial<StoppingRules>;
+  source?: { runId: string };
+}
+
+export interface ExperimentEventInput {
+  experimentId: string;
+  type: ExperimentEventType;
+  visitorId: string;
+  orderId?: string;
+  revenue?: number;
+  occurredAt?: string;
+}
+
+export interface IngestResult {
+  accepted: number;
+  rejected: Array<{ index: number; message: string }>;
+  completed: PriceExperiment[];
+}
+
+function buildVariants(input: ExperimentInput["variants"]): PriceVariant[] {
+  if (input.length < 2 || input.length > MAX_VARIANTS) {
+    throw new ExperimentError(`A price test needs 2 to ${MAX_VARIANTS} variants`, 400);
+  }
+  if (new Set(input.map((variant) => variant.price)).size !== input.length) {
+    throw new ExperimentError("Each variant needs a different price", 400);
+  }
+
+  const weighted = input.filter((variant) => variant.weight !== undefined);
+  if (weighted.length > 0 && weighted.length !== input.length) {
+    throw new ExperimentError("Give every variant a weight, or none", 400);
+  }
+  const weights = weighted.length > 0 ? input.map((variant) => variant.weight!) : input.map(() => 1 / input.length);
+  if (Math.abs(weights.reduce((sum, weight) => sum + weight, 0) - 1) > 0.001) {
+    throw new ExperimentError("Variant weights must add up to 1", 400);
+  }
+
+  return input.map((variant, index) => ({ id: VARIANT_IDS[index], price: variant.price, weight: weights[index] }));
+}
+
+export async function createExperiment(input: ExperimentInput): Promise<PriceExperiment> {
+  const product = await getProduct(input.sku);
+  const variants = buildVariants(input.variants);
+  const stoppingRules = { ...DEFAULT_STOPPING_RULES, ...input.stoppingRules };
+  if (stoppingRules.minDays > stoppingRules.maxDays) {
+    throw new ExperimentError("minDays cannot exceed maxDays", 400);
+  }
+
+  return experiments.insert({
+    id: crypto.randomUUID(),
+    sku: input.sku,
+    title: input.title ?? `Price test: ${product?.title ?? input.sku}`,
+    hypothesis: input.hypothesis,
+    currency: product?.currency,
+    variants,
+    stoppingRules,
+    status: "draft",
+    source: input.source,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export async function listExperiments(): Promise<PriceExperiment[]> {
+  const records = await experiments.list();
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getExperiment(id: string): Promise<PriceExperiment | null> {
+  return experiments.get(id);
+}
+
+export async function deleteExperiment(id: string): Promise<boolean> {
+  const removed = await experiments.remove(id);
+  if (removed) await eventsOf(id).drop();
+  return removed;
+}
+
+/** Moves an experiment between draft, running and stopped; completed experiments are final. */
+export async function setExperimentStatus(id: string, status: Exclude<ExperimentStatus, "draft" | "completed">) {
+  const experiment = await experiments.get(id);
+  if (!experiment) throw new ExperimentError("Experiment not found", 404);
+  if (experiment.status === "completed") throw new ExperimentError("Experiment has already completed", 409);
+  if (experiment.status === status) return experiment;
+
+  if (status === "running") {
+    const clash = (await experiments.list()).find(
+      (other) => other.id !== id && other.sku === experiment.sku && other.status === "running"
+    );
+    if (clash) throw new ExperimentError(`"${clash.title}" is already testing ${experiment.sku}`, 409);
+  }
+
+  const now = new Date().toISOString();
+  return (await experiments.update(id, (record) => ({
+    ...record,
+    status,
+    startedAt: record.startedAt ?? now,
+    endedAt: status === "stopped" ? now : undefined,
+  })))!;
+}
+
+/** Computes results and completes a running experiment whose stopping rules are met. */
+async function settle(
+  experiment: PriceExperiment,
+  now = new Date()
+): Promise<{ experiment: PriceExperiment; results: ExperimentResults }> {
+  const results = computeResults(experiment, await eventsOf(experiment.id).list(), now);
+  if (experiment.status !== "running") return { experiment, results };
+
+  const decision = evaluateStoppingRules(experiment, results);
+  if (!decision) return { experiment, results };
+
+  const completed = await experiments.update(experiment.id, (record) => ({
+    ...record,
+    status: "completed",
+    endedAt: now.toISOString(),
+    winner: decision.winner,
+    conclusion: decision.conclusion,
+  }));
+  return { experiment: completed ?? experiment, results };
+}
+
+export async function getExperimentResults(id: string) {
+  const experiment = await experiments.get(id);
+  return experiment ? settle(experiment) : null;
+}
+
+/** The variant and price to show a visitor; null when the experiment is not running. */
+export async function assignVisitor(id: string, visitorId: string): Promise<PriceVariant | null> {
+  const experiment = await experiments.get(id);
+  if (!experiment) throw new ExperimentError("Experiment not found", 404);
+  return experiment.status === "running" ? assignVariant(experiment, visitorId) : null;
+}
+
+/**
+ * Stores exposure and order events for running experiments. Variants are
+ * re-derived from the visitor id, so clients cannot misreport a bucket, and
+ * orders are de-duplicated by `orderId`.
+ */
+export async function recordExperimentEvents(inputs: ExperimentEventInput[]): Promise<IngestResult> {
+  const result: IngestResult = { accepted: 0, rejected: [], completed: [] };
+  const byExperiment = new Map<string, Array<{ index: number; input: ExperimentEventInput }>>();
+  inputs.forEach((input, index) => {
+    byExperiment.set(input.experimentId, [...(byExperiment.get(input.experimentId) ?? []), { index, input }]);
+  });
+
+  for (const [experimentId, items] of byExperiment) {
+    const experiment = await experiments.get(experimentId);
+    if (!experiment || experiment.status !== "running") {
+      const message = experiment ? `Experiment is ${experiment.status}` : "Experiment not found";
+      result.rejected.push(...items.map(({ index }) => ({ index, message })));
+      continue;
+    }
+
+    const collection = eventsOf(experimentId);
+    const seenOrders = new Set((await collection.list()).flatMap((event) => (event.orderId ? [event.orderId] : [])));
+    const accepted: ExperimentEvent[] = [];
+
+    for (const { index, input } of items) {
+      if (input.type === "order" && (input.revenue === undefined || input.revenue < 0)) {
+        result.rejected.push({ index, message: "Orders need a non-negative revenue" });
+        continue;
+      }
+      if (input.orderId && seenOrders.has(input.orderId)) {
+        result.rejected.push({ index, message: `Order ${input.orderId} was already recorded` });
+        continue;
+      }
+      if (input.orderId) seenOrders.add(input.orderId);
+
+      accepted.push({
+        id: crypto.randomUUID(),
+        experimentId,
+        variantId: assignVariant(experiment, input.visitorId).id,
+        type: input.type,
+        visitorId: input.visitorId,
+        orderId: input.orderId,
+        revenue: input.type === "order" ? input.revenue : undefined,
+        occurredAt: input.occurredAt ?? new Date().toISOString(),
+      });
+    }
+
+    if (accepted.length === 0) continue;
+    await collection.upsertMany(accepted);
+    result.accepted += accepted.length;
+
+    const settled = await settle(experiment);
+    if (settled.experiment.status === "completed") result.completed.push(settled.experiment);
+  }
+
+  return result;
+}
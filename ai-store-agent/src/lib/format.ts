@@ -0,0 +1,16 @@
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export function formatDateTime(value: string | Date): string {
+  return dateTimeFormatter.format(typeof value === "string" ? new Date(value) : value);
+}
+
+export function formatMoney(value: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency }).format(value);
+  } catch {
+    return `${currency} ${value.toFixed(2)}`;
+  }
+}
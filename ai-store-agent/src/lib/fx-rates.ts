@@ -0,0 +1,27 @@
+import path from "node:path";
+
+import { createConfigFileLoader } from "@/lib/config-file";
+import { DEFAULT_FX_TABLE, DEFAULT_REPORTING_CURRENCY, currencyCodeSchema, fxTableSchema } from "@/lib/currency";
+import { DATA_DIR } from "@/lib/storage";
+import type { CurrencySettings, FxTable } from "@/types/currency";
+
+/**
+ * Reads the exchange-rate table from `FX_RATES_FILE` (default
+ * `.storepilot/fx-rates.json`), re-reading it when the file changes. Falls
+ * back to the built-in reference rates when the file is missing or invalid.
+ */
+export const loadFxTable = createConfigFileLoader<FxTable>({
+  label: "FX rates",
+  file: () => process.env.FX_RATES_FILE ?? path.join(DATA_DIR, "fx-rates.json"),
+  schema: fxTableSchema,
+  fallback: DEFAULT_FX_TABLE,
+});
+
+export function reportingCurrency(): string {
+  const configured = currencyCodeSchema.safeParse(process.env.REPORTING_CURRENCY ?? DEFAULT_REPORTING_CURRENCY);
+  return configured.success ? configured.data : DEFAULT_REPORTING_CURRENCY;
+}
+
+export async function loadCurrencySettings(): Promise<CurrencySettings> {
+  return { table: await loadFxTable(), reportingCurrency: reportingCurrency() };
+}
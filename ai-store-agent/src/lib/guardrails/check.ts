@@ -0,0 +1,287 @@
+import { platformFromText } from "@/lib/budget-allocation";
+import { AGENT_SECTION_ORDER } from "@/lib/plan-stream";
+import type { AgentBrief, AgentOutput, AgentSectionKey, AdPlatform } from "@/types/agent";
+import type {
+  GuardrailFix,
+  GuardrailKind,
+  GuardrailLocation,
+  GuardrailSettings,
+  GuardrailTerm,
+  GuardrailViolation,
+} from "@/types/guardrails";
+
+/** Customer-facing fields; claims, disclaimers and ad policies only apply to these. */
+const COPY_FIELDS: Partial<Record<AgentSectionKey, string[]>> = {
+  adStrategy: ["creatives"],
+  channelPlaybooks: ["content"],
+};
+
+/** Uppercase words that are names rather than shouting. */
+const ACRONYMS = new Set(["ROAS", "HTML", "HTTP", "HTTPS", "NYC", "USA", "UGC", "SEO", "SMS", "FAQ", "ASAP"]);
+
+interface AdPolicy {
+  platforms: AdPlatform[] | "all";
+  pattern: RegExp;
+  message: string;
+  fix?: (match: string) => string;
+  ignore?: (match: string) => boolean;
+}
+
+const AD_POLICIES: AdPolicy[] = [
+  {
+    platforms: "all",
+    pattern: /([!?])[!?]+/g,
+    message: "Ad platforms reject repeated punctuation",
+    fix: (match) => match[0],
+  },
+  {
+    platforms: "all",
+    pattern: /\b[A-Z]{4,}\b/g,
+    message: "Ad platforms reject words in capitals used for emphasis",
+    fix: (match) => match[0] + match.slice(1).toLowerCase(),
+    ignore: (match) => ACRONYMS.has(match),
+  },
+  {
+    platforms: ["google"],
+    pattern: /\bclick here\b/gi,
+    message: 'Google Ads disapproves vague calls to action such as "click here"',
+    fix: (match) => (match[0] === "C" ? "Learn more" : "learn more"),
+  },
+  {
+    platforms: ["google"],
+    pattern: /\p{Extended_Pictographic}/gu,
+    message: "Google Ads text ads cannot contain emoji",
+    fix: () => "",
+  },
+  {
+    platforms: ["meta"],
+    pattern:
+      /\b(?:are you|do you (?:have|suffer from)|you(?:'re| are))\s+(?:(?:still|so|too|a|an)\s+)?(?:overweight|fat|obese|depressed|anxious|diabetic|in debt|broke|bankrupt|single|divorced|pregnant|bald|balding|lonely|gay|lesbian|christian|muslim|jewish)\b/gi,
+    message: "Meta ads cannot assert or imply a person's health, finances, beliefs or other personal attributes",
+  },
+  {
+    platforms: ["meta"],
+    pattern: /\bbefore[- ](?:and|&)[- ]after\b/gi,
+    message: "Meta restricts before-and-after comparisons for health and weight loss",
+  },
+];
+
+const DISCOUNT_PATTERN = /\b(?:save|up to|discount of)\s+(\d{1,3})\s?%|\b(\d{1,3})\s?%\s?(?:off|discount)\b/gi;
+
+const CONSTRAINT_TRIGGER =
+  /\b(?:avoid(?: using| mentioning)?|never (?:say|use|mention)|(?:don't|do not) (?:say|use|mention)|no mention of)\s+([^.;\n]+)/gi;
+
+const CONSTRAINT_DISCOUNT =
+  /\b(?:discounts?|off|sales?|promotions?)\b[^.;\n]{0,30}?\b(?:above|over|more than|beyond|exceeding|greater than|higher than)\s*(\d{1,2})\s?%|\bmax(?:imum)?\s*(?:of\s*)?(\d{1,2})\s?%\s?(?:off|discount)/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Matches a term as a whole word; "best" does not match "best-selling". */
+function termPattern(term: string): RegExp {
+  const start = /^\w/.test(term) ? "\\b" : "";
+  const end = /\w$/.test(term) ? "\\b" : "";
+  return new RegExp(`${start}${escapeRegExp(term)}${end}(?![- ]?sell(?:er|ing))`, "gi");
+}
+
+/** Keeps a leading capital; words in capitals are not copied, since ad policies flag those. */
+function matchCase(original: string, replacement: string): string {
+  if (!replacement || !/^[A-Z]/.test(original)) return replacement;
+  return replacement[0].toUpperCase() + replacement.slice(1);
+}
+
+/** Terms the brief asks the plan to avoid, such as `Avoid "cheap" or "budget"` or `Never mention competitors`. */
+export function constraintTerms(constraints: string | undefined): string[] {
+  if (!constraints) return [];
+  const terms = new Set<string>();
+
+  for (const match of constraints.matchAll(CONSTRAINT_TRIGGER)) {
+    const clause = match[1];
+    if (/\d\s?%/.test(clause)) continue;
+
+    const quoted = [...clause.matchAll(/["“']([^"”']+)["”']/g)].map((quote) => quote[1]);
+    const parts =
+      quoted.length > 0
+        ? quoted
+        : clause
+            .split(/,|\bor\b|\band\b/)
+            .map((part) => part.trim().replace(/^(?:the\s+)?(?:words?|phrases?|terms?)\s+/i, ""))
+            .filter((part) => part.split(/\s+/).length <= 3);
+
+    for (const part of parts) {
+      const term = part.trim().toLowerCase();
+      if (term.length >= 2) terms.add(term);
+    }
+  }
+  return [...terms];
+}
+
+/** The discount cap from the settings, tightened by a cap stated in the brief's constraints. */
+export function discountCap(settings: GuardrailSettings, constraints: string | undefined): number | null {
+  const match = constraints?.match(CONSTRAINT_DISCOUNT);
+  const stated = match ? Number(match[1] ?? match[2]) : null;
+  if (stated === null) return settings.maxDiscountPercent;
+  return settings.maxDiscountPercent === null ? stated : Math.min(stated, settings.maxDiscountPercent);
+}
+
+interface FieldContext {
+  location: GuardrailLocation;
+  copy: boolean;
+  platform: AdPlatform | null;
+  adCopy: boolean;
+}
+
+interface CheckRules {
+  settings: GuardrailSettings;
+  banned: Array<GuardrailTerm & { fromBrief: boolean }>;
+  cap: number | null;
+}
+
+function checkText(text: string, context: FieldContext, rules: CheckRules): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+  const add = (kind: GuardrailKind, excerpt: string, message: string, fix: GuardrailFix | null) => {
+    const base = `${context.location.path}:${kind}:${excerpt.toLowerCase()}`;
+    const repeats = violations.filter((violation) => violation.id.startsWith(base)).length;
+    violations.push({
+      id: repeats === 0 ? base : `${base}:${repeats + 1}`,
+      kind,
+      location: context.location,
+      excerpt,
+      message,
+      fix,
+    });
+  };
+
+  for (const { term, replacement, fromBrief } of rules.banned) {
+    for (const [excerpt] of text.matchAll(termPattern(term))) {
+      add(
+        "banned-word",
+        excerpt,
+        fromBrief ? `"${term}" goes against the brief's constraints` : `"${term}" is banned by the brand rules`,
+        { type: "replace", find: excerpt, replace: matchCase(excerpt, replacement ?? "") }
+      );
+    }
+  }
+
+  if (rules.cap !== null) {
+    for (const match of text.matchAll(DISCOUNT_PATTERN)) {
+      const percent = Number(match[1] ?? match[2]);
+      if (percent <= rules.cap) continue;
+      add("discount", match[0], `A ${percent}% discount is above the ${rules.cap}% cap`, {
+        type: "replace",
+        find: match[0],
+        replace: match[0].replace(String(percent), String(rules.cap)),
+      });
+    }
+  }
+
+  if (!context.copy) return violations;
+
+  for (const { term, replacement } of rules.settings.restrictedClaims) {
+    for (const [excerpt] of text.matchAll(termPattern(term))) {
+      add("claim", excerpt, `"${excerpt}" is a claim the brand cannot make in customer copy`, {
+        type: "replace",
+        find: excerpt,
+        replace: matchCase(excerpt, replacement ?? ""),
+      });
+    }
+  }
+
+  for (const disclaimer of rules.settings.disclaimers) {
+    if (text.toLowerCase().includes(disclaimer.text.toLowerCase())) continue;
+    const trigger = disclaimer.triggers.map((term) => text.match(termPattern(term))?.[0]).find(Boolean);
+    if (trigger) {
+      add("disclaimer", trigger, `Copy that mentions "${trigger}" needs "${disclaimer.text}"`, {
+        type: "append",
+        text: disclaimer.text,
+      });
+    }
+  }
+
+  if (rules.settings.adPolicies && context.adCopy) {
+    for (const policy of AD_POLICIES) {
+      if (policy.platforms !== "all" && (!context.platform || !policy.platforms.includes(context.platform))) continue;
+      for (const [excerpt] of text.matchAll(policy.pattern)) {
+        if (policy.ignore?.(excerpt)) continue;
+        add(
+          "ad-policy",
+          excerpt,
+          policy.message,
+          policy.fix ? { type: "replace", find: excerpt, replace: policy.fix(excerpt) } : null
+        );
+      }
+    }
+  }
+
+  return violations;
+}
+
+function checkRules(settings: GuardrailSettings, brief?: Pick<AgentBrief, "constraints">): CheckRules {
+  const fromBrief = constraintTerms(brief?.constraints).filter(
+    (term) => !settings.bannedWords.some((word) => word.term.toLowerCase() === term)
+  );
+  return {
+    settings,
+    banned: [
+      ...settings.bannedWords.map((word) => ({ ...word, fromBrief: false })),
+      ...fromBrief.map((term) => ({ term, fromBrief: true })),
+    ],
+    cap: discountCap(settings, brief?.constraints),
+  };
+}
+
+/** Checks one list item (or a reviewer's edited copy of it) from a plan section. */
+export function checkPlanItem(
+  section: AgentSectionKey,
+  index: number,
+  item: Record<string, unknown>,
+  settings: GuardrailSettings,
+  brief?: Pick<AgentBrief, "constraints">,
+  rules = checkRules(settings, brief)
+): GuardrailViolation[] {
+  const platform =
+    section === "adStrategy"
+      ? platformFromText(String(item.platform ?? ""))
+      : section === "channelPlaybooks"
+        ? platformFromText(String(item.channel ?? ""))
+        : null;
+
+  return Object.entries(item).flatMap(([field, value]) => {
+    if (typeof value !== "string") return [];
+    const copy = COPY_FIELDS[section]?.includes(field) ?? false;
+    return checkText(
+      value,
+      {
+        location: { section, index, field, path: `${section}[${index}].${field}` },
+        copy,
+        platform,
+        adCopy: copy && (section === "adStrategy" || platform !== null),
+      },
+      rules
+    );
+  });
+}
+
+/**
+ * Runs the brand rules over every model-written string in a plan: banned words
+ * and brief constraints and discount caps everywhere, and claims, disclaimers
+ * and ad policies on customer-facing copy.
+ */
+export function checkPlan(
+  plan: AgentOutput,
+  settings: GuardrailSettings,
+  brief?: Pick<AgentBrief, "constraints">
+): GuardrailViolation[] {
+  const rules = checkRules(settings, brief);
+
+  return AGENT_SECTION_ORDER.flatMap((section) => {
+    const value = plan[section];
+    if (typeof value === "string") {
+      return checkText(value, { location: { section, path: section }, copy: false, platform: null, adCopy: false }, rules);
+    }
+    return (value as Array<Record<string, unknown>>).flatMap((item, index) =>
+      checkPlanItem(section, index, item, settings, brief, rules)
+    );
+  });
+}
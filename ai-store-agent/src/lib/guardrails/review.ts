@@ -0,0 +1,127 @@
+import { SYSTEM_ACTOR, editApproval, listApprovals } from "@/lib/approvals";
+import { checkPlan, constraintTerms } from "@/lib/guardrails/check";
+import { getGuardrailSettings } from "@/lib/guardrails/settings";
+import { getRun, updateRunPlan } from "@/lib/runs";
+import type { AgentOutput } from "@/types/agent";
+import type { ApprovalDetails } from "@/types/approvals";
+import type { GuardrailFix, GuardrailReport, GuardrailViolation } from "@/types/guardrails";
+
+export class GuardrailError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "GuardrailError";
+  }
+}
+
+export interface RewriteResult {
+  rewritten: number;
+  report: GuardrailReport;
+}
+
+/** Applies one fix, tidying the space a removed word leaves behind. */
+export function applyFix(text: string, fix: GuardrailFix): string {
+  if (fix.type === "append") {
+    const trimmed = text.trimEnd();
+    return `${trimmed}${/[.!?]$/.test(trimmed) ? "" : "."} ${fix.text}`;
+  }
+
+  const index = text.indexOf(fix.find);
+  if (index === -1) return text;
+
+  let before = text.slice(0, index);
+  let after = text.slice(index + fix.find.length);
+  if (!fix.replace) {
+    if (before === "") after = after.trimStart();
+    else if (/[ \t]$/.test(before) && /^([ \t]|[,.;:!?]|$)/.test(after)) before = before.replace(/[ \t]+$/, "");
+  }
+  return `${before}${fix.replace}${after}`;
+}
+
+function applyFixes(text: string, violations: GuardrailViolation[]): string {
+  return violations.reduce((current, violation) => (violation.fix ? applyFix(current, violation.fix) : current), text);
+}
+
+/** Checks a stored plan against the guardrails of its store; `workspaceId` limits it to that store's runs. */
+export async function checkRun(runId: string, workspaceId?: string): Promise<GuardrailReport> {
+  const run = await getRun(runId, workspaceId);
+  if (!run) throw new GuardrailError("Run not found", 404);
+
+  const settings = await getGuardrailSettings(run.workspaceId);
+  return {
+    runId,
+    violations: checkPlan(run.response.plan, settings, run.brief),
+    constraintTerms: constraintTerms(run.brief.constraints),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+function rewritePlan(plan: AgentOutput, violations: GuardrailViolation[]): AgentOutput {
+  const next = { ...plan } as Record<string, unknown>;
+
+  for (const violation of violations) {
+    const { section, index, field } = violation.location;
+    if (!violation.fix) continue;
+
+    if (index === undefined || field === undefined) {
+      next[section] = applyFix(next[section] as string, violation.fix);
+      continue;
+    }
+    const items = [...(next[section] as Array<Record<string, unknown>>)];
+    const item = items[index];
+    if (!item || typeof item[field] !== "string") continue;
+    items[index] = { ...item, [field]: applyFix(item[field] as string, violation.fix) };
+    next[section] = items;
+  }
+  return next as unknown as AgentOutput;
+}
+
+/** Carries rewrites into pending approvals for the same items, recorded as system edits. */
+async function rewritePendingApprovals(runId: string, violations: GuardrailViolation[]): Promise<void> {
+  const pending = (await listApprovals("pending")).filter(
+    (approval) => approval.source.type === "plan" && approval.source.runId === runId
+  );
+
+  for (const approval of pending) {
+    if (approval.source.type !== "plan") continue;
+    const { section, index } = approval.source;
+    const changes: ApprovalDetails = {};
+
+    for (const [field, value] of Object.entries(approval.details)) {
+      if (typeof value !== "string") continue;
+      const matching = violations.filter(
+        ({ location }) => location.section === section && location.index === index && location.field === field
+      );
+      const rewritten = applyFixes(value, matching);
+      if (rewritten !== value) changes[field] = rewritten;
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await editApproval(approval.id, SYSTEM_ACTOR, changes, "Rewritten to meet brand guardrails");
+    }
+  }
+}
+
+/**
+ * Rewrites the flagged passages of a stored plan, all of them or the given
+ * violation ids. Violations that need a human rewrite are left in the report.
+ */
+export async function rewriteRun(
+  runId: string,
+  violationIds?: string[],
+  workspaceId?: string
+): Promise<RewriteResult> {
+  const before = await checkRun(runId, workspaceId);
+  const selected = before.violations.filter(
+    (violation) => violation.fix && (!violationIds || violationIds.includes(violation.id))
+  );
+  if (violationIds && selected.length === 0) {
+    throw new GuardrailError("None of those violations can be rewritten automatically", 409);
+  }
+
+  if (selected.length > 0) {
+    await updateRunPlan(runId, (plan) => rewritePlan(plan, selected));
+    await rewritePendingApprovals(runId, selected);
+  }
+
+  return { rewritten: selected.length, report: await checkRun(runId, workspaceId) };
+}
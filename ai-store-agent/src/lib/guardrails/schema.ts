@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+const termSchema = z.object({
+  term: z.string().trim().min(1),
+  replacement: z.string().trim().optional(),
+});
+
+export const guardrailSettingsSchema = z.object({
+  bannedWords: z.array(termSchema),
+  restrictedClaims: z.array(termSchema),
+  disclaimers: z.array(
+    z.object({
+      text: z.string().trim().min(1),
+      triggers: z.array(z.string().trim().min(1)).min(1),
+    })
+  ),
+  maxDiscountPercent: z.number().int().min(0).max(100).nullable(),
+  adPolicies: z.boolean(),
+});
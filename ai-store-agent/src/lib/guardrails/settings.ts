@@ -0,0 +1,41 @@
+import { createCollection } from "@/lib/storage";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces/scope";
+import type { GuardrailSettings } from "@/types/guardrails";
+
+export const DEFAULT_GUARDRAIL_SETTINGS: GuardrailSettings = {
+  bannedWords: [],
+  restrictedClaims: [
+    { term: "best", replacement: "great" },
+    { term: "guaranteed", replacement: "designed" },
+    { term: "number one", replacement: "popular" },
+    { term: "#1", replacement: "popular" },
+    { term: "risk-free", replacement: "easy" },
+    { term: "cures", replacement: "helps with" },
+    { term: "miracle", replacement: "standout" },
+  ],
+  disclaimers: [
+    { text: "Terms and exclusions apply.", triggers: ["% off", "discount", "promo code", "coupon", "sale"] },
+  ],
+  maxDiscountPercent: 50,
+  adPolicies: true,
+};
+
+/** Keyed by store id. */
+const settingsStore = createCollection<{ id: string; settings: GuardrailSettings }>("guardrail-settings");
+
+export async function getGuardrailSettings(workspaceId = DEFAULT_WORKSPACE_ID): Promise<GuardrailSettings> {
+  return (await settingsStore.get(workspaceId))?.settings ?? DEFAULT_GUARDRAIL_SETTINGS;
+}
+
+export async function saveGuardrailSettings(
+  settings: GuardrailSettings,
+  workspaceId = DEFAULT_WORKSPACE_ID
+): Promise<GuardrailSettings> {
+  const saved = { ...settings, updatedAt: new Date().toISOString() };
+  await settingsStore.upsertMany([{ id: workspaceId, settings: saved }]);
+  return saved;
+}
+
+export async function deleteGuardrailSettings(workspaceId: string): Promise<void> {
+  await settingsStore.remove(workspaceId);
+}
@@ -0,0 +1,34 @@
+import { listAlerts } from "@/lib/inventory/store";
+import type { InventoryAlert } from "@/types/inventory";
+
+/** Alerts of each kind sent to the model per run, most recently updated first. */
+export const INVENTORY_PROMPT_LIMIT = 20;
+
+function describeAlert(alert: InventoryAlert): string {
+  const velocity = alert.dailyVelocity ? `, selling ${alert.dailyVelocity}/day` : "";
+  const cover = alert.daysOfCover === null ? "" : `, ${alert.daysOfCover} days of cover`;
+  return `- [${alert.sku}]${alert.title ? ` ${alert.title}` : ""}: ${alert.quantity} units${velocity}${cover}`;
+}
+
+/** Inventory alert block appended to the agent prompt, or null when nothing needs attention. */
+export async function buildInventoryContext(): Promise<string | null> {
+  const open = await listAlerts("open");
+  const scarce = open.filter((alert) => alert.kind !== "overstock").slice(0, INVENTORY_PROMPT_LIMIT);
+  const overstocked = open.filter((alert) => alert.kind === "overstock").slice(0, INVENTORY_PROMPT_LIMIT);
+  if (scarce.length === 0 && overstocked.length === 0) return null;
+
+  const lines = ["Inventory alerts from the latest stock snapshots."];
+  if (scarce.length > 0) {
+    lines.push(
+      "Out of stock or about to sell out. Do not promote, advertise or discount these SKUs; plan restocks or back-in-stock capture instead:",
+      ...scarce.map(describeAlert)
+    );
+  }
+  if (overstocked.length > 0) {
+    lines.push(
+      "Overstocked. Prioritise these SKUs in promotions, bundles, ads and playbooks to move excess units:",
+      ...overstocked.map(describeAlert)
+    );
+  }
+  return lines.join("\n");
+}
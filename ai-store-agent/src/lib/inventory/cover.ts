@@ -0,0 +1,75 @@
+import type { InventoryHealth, InventorySettings, InventoryStatus, StockSnapshot } from "@/types/inventory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Zero sales over a shorter history is too little evidence to call a SKU overstocked. */
+export const MIN_OVERSTOCK_HISTORY_DAYS = 7;
+
+/**
+ * Average units sold per day across the velocity window, using the last
+ * snapshot before the window as the baseline. Reported `unitsSold` wins over
+ * the stock drop between snapshots; a rise counts as a restock, not a sale.
+ */
+export function salesVelocity(
+  snapshots: StockSnapshot[],
+  settings: InventorySettings,
+  now = new Date()
+): { dailyVelocity: number | null; historyDays: number } {
+  const since = now.getTime() - settings.velocityWindowDays * DAY_MS;
+  const sorted = [...snapshots].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  const baseline = sorted.filter((snapshot) => new Date(snapshot.recordedAt).getTime() < since).at(-1);
+  const window = [
+    ...(baseline ? [baseline] : []),
+    ...sorted.filter((snapshot) => new Date(snapshot.recordedAt).getTime() >= since),
+  ];
+  if (window.length < 2) return { dailyVelocity: null, historyDays: 0 };
+
+  let sold = 0;
+  for (let index = 1; index < window.length; index += 1) {
+    const current = window[index];
+    sold += current.unitsSold ?? Math.max(window[index - 1].quantity - current.quantity, 0);
+  }
+
+  const start = Math.max(new Date(window[0].recordedAt).getTime(), since);
+  const historyDays = (new Date(window.at(-1)!.recordedAt).getTime() - start) / DAY_MS;
+  return historyDays < 1 ? { dailyVelocity: null, historyDays } : { dailyVelocity: sold / historyDays, historyDays };
+}
+
+function classify(
+  quantity: number,
+  dailyVelocity: number | null,
+  daysOfCover: number | null,
+  historyDays: number,
+  settings: InventorySettings
+): InventoryHealth {
+  if (quantity <= 0) return "out-of-stock";
+  if (dailyVelocity === null) return "no-sales-data";
+  if (dailyVelocity === 0) return historyDays >= MIN_OVERSTOCK_HISTORY_DAYS ? "overstock" : "no-sales-data";
+  if (daysOfCover! < settings.lowStockDays) return "low-stock";
+  if (daysOfCover! > settings.overstockDays) return "overstock";
+  return "healthy";
+}
+
+/** Latest stock, velocity and days of cover for one SKU's snapshots. */
+export function computeStatus(
+  sku: string,
+  snapshots: StockSnapshot[],
+  settings: InventorySettings,
+  now = new Date(),
+  title?: string
+): InventoryStatus {
+  const latest = snapshots.reduce((last, snapshot) => (snapshot.recordedAt > last.recordedAt ? snapshot : last));
+  const { dailyVelocity, historyDays } = salesVelocity(snapshots, settings, now);
+  const quantity = Math.max(latest.quantity, 0);
+  const daysOfCover = dailyVelocity ? Math.round((quantity / dailyVelocity) * 10) / 10 : null;
+
+  return {
+    sku,
+    title,
+    quantity,
+    dailyVelocity: dailyVelocity === null ? null : Math.round(dailyVelocity * 100) / 100,
+    daysOfCover,
+    health: classify(quantity, dailyVelocity, daysOfCover, historyDays, settings),
+    recordedAt: latest.recordedAt,
+  };
+}
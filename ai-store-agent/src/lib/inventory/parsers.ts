@@ -0,0 +1,103 @@
+import { z } from "zod";
+
+import { parseCsvRows } from "@/lib/catalog/parsers";
+import type { CatalogImportIssue } from "@/types/catalog";
+
+export interface ParsedSnapshot {
+  sku: string;
+  quantity: number;
+  unitsSold?: number;
+  recordedAt?: string;
+}
+
+export interface ParsedSnapshots {
+  snapshots: ParsedSnapshot[];
+  skipped: CatalogImportIssue[];
+}
+
+const CSV_COLUMNS = {
+  sku: ["sku", "variant sku"],
+  quantity: ["quantity", "qty", "stock", "on hand", "available", "inventory", "inventory quantity", "variant inventory qty"],
+  unitsSold: ["units sold", "units_sold", "sold", "sales"],
+  recordedAt: ["recorded at", "recorded_at", "date", "snapshot date", "timestamp"],
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+export const snapshotSchema = z.object({
+  sku: z.string().trim().min(1),
+  quantity: z.number().int(),
+  unitsSold: z.number().int().nonnegative().optional(),
+  recordedAt: z.iso.datetime().optional(),
+});
+
+function parseCount(value: string | undefined): number | null {
+  if (value === undefined || value === "") return null;
+  const count = Number(value.replace(/,/g, ""));
+  return Number.isInteger(count) ? count : null;
+}
+
+function parseTimestamp(value: string | undefined): string | null | undefined {
+  if (!value) return undefined;
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+/**
+ * Reads a stock snapshot CSV with `sku` and `quantity` columns. Optional
+ * `units_sold` and `recorded_at` columns carry sales since the last snapshot
+ * and the time of the count; rows without a time use the upload time.
+ */
+export function parseSnapshotCsv(text: string): ParsedSnapshots {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { snapshots: [], skipped: [] };
+
+  const headings = header.map((cell) => cell.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as CsvColumn[]).map((column) => [
+      column,
+      headings.findIndex((heading) => (CSV_COLUMNS[column] as readonly string[]).includes(heading)),
+    ])
+  ) as Record<CsvColumn, number>;
+
+  if (columns.sku === -1 || columns.quantity === -1) {
+    return { snapshots: [], skipped: [{ row: 1, message: "The header needs a SKU column and a quantity column" }] };
+  }
+
+  const snapshots: ParsedSnapshot[] = [];
+  const skipped: CatalogImportIssue[] = [];
+  const cell = (cells: string[], column: CsvColumn) =>
+    columns[column] === -1 ? undefined : cells[columns[column]]?.trim();
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    const sku = cell(cells, "sku");
+    if (!sku) {
+      skipped.push({ row, message: "Missing SKU" });
+      return;
+    }
+
+    const quantity = parseCount(cell(cells, "quantity"));
+    if (quantity === null) {
+      skipped.push({ row, message: `SKU ${sku} has a missing or non-integer quantity` });
+      return;
+    }
+
+    const sold = cell(cells, "unitsSold");
+    const unitsSold = parseCount(sold);
+    if (sold && (unitsSold === null || unitsSold < 0)) {
+      skipped.push({ row, message: `SKU ${sku} has an invalid units sold value` });
+      return;
+    }
+
+    const recordedAt = parseTimestamp(cell(cells, "recordedAt"));
+    if (recordedAt === null) {
+      skipped.push({ row, message: `SKU ${sku} has an unreadable date` });
+      return;
+    }
+
+    snapshots.push({ sku, quantity, unitsSold: unitsSold ?? undefined, recordedAt });
+  });
+
+  return { snapshots, skipped };
+}
@@ -0,0 +1,191 @@
+import { publishStoreEvent } from "@/lib/automation/engine";
+import { listProducts, updateStockLevels } from "@/lib/catalog/store";
+import { computeStatus } from "@/lib/inventory/cover";
+import type { ParsedSnapshots } from "@/lib/inventory/parsers";
+import { createCollection } from "@/lib/storage";
+import type {
+  InventoryAlert,
+  InventoryAlertKind,
+  InventorySettings,
+  InventorySnapshotSource,
+  InventoryStatus,
+  SnapshotIngestResult,
+  StockSnapshot,
+} from "@/types/inventory";
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  lowStockDays: 14,
+  overstockDays: 120,
+  velocityWindowDays: 28,
+};
+
+const MAX_SNAPSHOTS = 50_000;
+const MAX_ALERTS = 2000;
+const SETTINGS_ID = "default";
+
+const snapshots = createCollection<StockSnapshot>("inventory-snapshots");
+const alerts = createCollection<InventoryAlert>("inventory-alerts");
+const settingsStore = createCollection<{ id: string; settings: InventorySettings }>("inventory-settings");
+
+export async function getInventorySettings(): Promise<InventorySettings> {
+  return (await settingsStore.get(SETTINGS_ID))?.settings ?? DEFAULT_INVENTORY_SETTINGS;
+}
+
+export async function saveInventorySettings(settings: InventorySettings): Promise<InventorySettings> {
+  const saved = { ...settings, updatedAt: new Date().toISOString() };
+  await settingsStore.upsertMany([{ id: SETTINGS_ID, settings: saved }]);
+  return saved;
+}
+
+function groupBySku(records: StockSnapshot[]): Map<string, StockSnapshot[]> {
+  const groups = new Map<string, StockSnapshot[]>();
+  for (const record of records) groups.set(record.sku, [...(groups.get(record.sku) ?? []), record]);
+  return groups;
+}
+
+async function productTitles(): Promise<Map<string, string>> {
+  return new Map((await listProducts()).map((product) => [product.id, product.title]));
+}
+
+/** Current stock health of every SKU with snapshots, lowest cover first. */
+export async function listInventory(now = new Date()): Promise<InventoryStatus[]> {
+  const settings = await getInventorySettings();
+  const titles = await productTitles();
+
+  return [...groupBySku(await snapshots.list())]
+    .map(([sku, records]) => computeStatus(sku, records, settings, now, titles.get(sku)))
+    .sort(
+      (a, b) =>
+        (a.daysOfCover ?? Number.POSITIVE_INFINITY) - (b.daysOfCover ?? Number.POSITIVE_INFINITY) ||
+        a.sku.localeCompare(b.sku)
+    );
+}
+
+export async function listAlerts(status: "open" | "resolved" | "all" = "open"): Promise<InventoryAlert[]> {
+  const records = await alerts.list();
+  return records
+    .filter((alert) => status === "all" || (status === "open" ? !alert.resolvedAt : Boolean(alert.resolvedAt)))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+function cover(status: InventoryStatus): string {
+  return status.daysOfCover === null ? "no sales in the velocity window" : `${status.daysOfCover} days of cover`;
+}
+
+function alertMessage(status: InventoryStatus, kind: InventoryAlertKind, settings: InventorySettings): string {
+  const name = status.title ? `${status.title} (${status.sku})` : status.sku;
+  switch (kind) {
+    case "out-of-stock":
+      return `${name} is out of stock`;
+    case "low-stock":
+      return `${name} has ${status.quantity} units left, ${cover(status)} (under ${settings.lowStockDays})`;
+    case "overstock":
+      return `${name} has ${status.quantity} units, ${cover(status)}${
+        status.daysOfCover === null ? "" : ` (over ${settings.overstockDays})`
+      }`;
+  }
+}
+
+/**
+ * Opens, refreshes or resolves each SKU's alert so at most one stays open per
+ * SKU. An alert whose kind changes is resolved and replaced by a new one.
+ */
+async function reconcileAlerts(
+  statuses: InventoryStatus[],
+  settings: InventorySettings
+): Promise<Pick<SnapshotIngestResult, "raised" | "resolved">> {
+  const now = new Date().toISOString();
+  const open = new Map((await listAlerts("open")).map((alert) => [alert.sku, alert]));
+  const raised: InventoryAlert[] = [];
+  const resolved: InventoryAlert[] = [];
+  const changed: InventoryAlert[] = [];
+
+  for (const status of statuses) {
+    const current = open.get(status.sku);
+    const kind =
+      status.health === "out-of-stock" || status.health === "low-stock" || status.health === "overstock"
+        ? status.health
+        : null;
+
+    if (current && current.kind !== kind) {
+      const closed = { ...current, resolvedAt: now, updatedAt: now };
+      resolved.push(closed);
+      changed.push(closed);
+    }
+    if (!kind) continue;
+
+    const details = {
+      title: status.title,
+      quantity: status.quantity,
+      dailyVelocity: status.dailyVelocity,
+      daysOfCover: status.daysOfCover,
+      message: alertMessage(status, kind, settings),
+      updatedAt: now,
+    };
+    if (current && current.kind === kind) {
+      changed.push({ ...current, ...details });
+    } else {
+      const alert: InventoryAlert = { id: crypto.randomUUID(), sku: status.sku, kind, raisedAt: now, ...details };
+      raised.push(alert);
+      changed.push(alert);
+    }
+  }
+
+  if (changed.length > 0) {
+    await alerts.upsertMany(changed);
+    await alerts.prune(MAX_ALERTS);
+  }
+  return { raised, resolved };
+}
+
+async function publishInventoryEvents(statuses: InventoryStatus[]): Promise<void> {
+  for (const status of statuses) {
+    try {
+      await publishStoreEvent("inventory.updated", {
+        sku: status.sku,
+        quantity: status.quantity,
+        health: status.health,
+        ...(status.daysOfCover !== null && { daysOfCover: status.daysOfCover }),
+      });
+    } catch (error) {
+      console.error("Inventory event failure", status.sku, error);
+    }
+  }
+}
+
+/**
+ * Stores stock counts, syncs catalog stock to the latest count per SKU,
+ * refreshes alerts for the SKUs touched and publishes an `inventory.updated`
+ * event for each so automation rules can react.
+ */
+export async function ingestSnapshots(
+  parsed: ParsedSnapshots,
+  source: InventorySnapshotSource
+): Promise<SnapshotIngestResult> {
+  const receivedAt = new Date().toISOString();
+  const records: StockSnapshot[] = parsed.snapshots.map((snapshot) => ({
+    id: crypto.randomUUID(),
+    sku: snapshot.sku,
+    quantity: snapshot.quantity,
+    unitsSold: snapshot.unitsSold,
+    recordedAt: snapshot.recordedAt ?? receivedAt,
+    source,
+  }));
+  if (records.length === 0) return { accepted: 0, skipped: parsed.skipped, raised: [], resolved: [] };
+
+  await snapshots.upsertMany(records);
+  await snapshots.prune(MAX_SNAPSHOTS);
+
+  const touched = new Set(records.map((record) => record.sku));
+  const settings = await getInventorySettings();
+  const titles = await productTitles();
+  const statuses = [...groupBySku(await snapshots.list())]
+    .filter(([sku]) => touched.has(sku))
+    .map(([sku, history]) => computeStatus(sku, history, settings, new Date(), titles.get(sku)));
+
+  await updateStockLevels(new Map(statuses.map((status) => [status.sku, status.quantity])));
+  const changes = await reconcileAlerts(statuses, settings);
+  await publishInventoryEvents(statuses);
+
+  return { accepted: records.length, skipped: parsed.skipped, ...changes };
+}
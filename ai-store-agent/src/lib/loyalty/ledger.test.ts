@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+
+import { adjustPoints, burnPoints, earnPoints, replayLedger } from "@/lib/loyalty/ledger";
+import { DEFAULT_LOYALTY_PROGRAM } from "@/lib/loyalty/program";
+import type { LoyaltyProgram, LoyaltyTransaction } from "@/types/loyalty";
+
+const program: LoyaltyProgram = { ...DEFAULT_LOYALTY_PROGRAM, expiryDays: 30 };
+
+function transaction(
+  id: string,
+  type: LoyaltyTransaction["type"],
+  points: number,
+  occurredAt: string
+): LoyaltyTransaction {
+  return { id, customerId: "c1", type, points, occurredAt };
+}
+
+describe("replayLedger", () => {
+  it("expires unspent points after expiryDays", () => {
+    const { customer, statement } = replayLedger(
+      [transaction("e1", "earn", 100, "2025-01-01T00:00:00.000Z")],
+      program,
+      new Date("2025-03-01T00:00:00.000Z")
+    );
+
+    expect(customer.balance).toBe(0);
+    expect(customer.lifetimeEarned).toBe(100);
+    expect(statement.at(-1)).toMatchObject({ type: "expire", points: -100, occurredAt: "2025-01-31T00:00:00.000Z" });
+  });
+
+  it("spends the oldest lots first, so expiry only takes what is left", () => {
+    const { customer, statement } = replayLedger(
+      [
+        transaction("e1", "earn", 100, "2025-01-01T00:00:00.000Z"),
+        transaction("e2", "earn", 50, "2025-01-20T00:00:00.000Z"),
+        transaction("b1", "burn", -80, "2025-01-25T00:00:00.000Z"),
+      ],
+      program,
+      new Date("2025-02-10T00:00:00.000Z")
+    );
+
+    expect(statement.filter((entry) => entry.type === "expire")).toEqual([
+      { type: "expire", points: -20, balance: 50, occurredAt: "2025-01-31T00:00:00.000Z" },
+    ]);
+    expect(customer.balance).toBe(50);
+    expect(customer.nextExpiry).toEqual({ points: 50, at: "2025-02-19T00:00:00.000Z" });
+  });
+
+  it("replays transactions in time order whatever order they are stored in", () => {
+    const { statement } = replayLedger(
+      [
+        transaction("b1", "burn", -30, "2025-01-10T00:00:00.000Z"),
+        transaction("e1", "earn", 100, "2025-01-01T00:00:00.000Z"),
+      ],
+      program,
+      new Date("2025-01-15T00:00:00.000Z")
+    );
+
+    expect(statement.map((entry) => [entry.transactionId, entry.balance])).toEqual([
+      ["e1", 100],
+      ["b1", 70],
+    ]);
+  });
+
+  it("does not expire points when expiryDays is 0", () => {
+    const { customer } = replayLedger(
+      [transaction("e1", "earn", 100, "2020-01-01T00:00:00.000Z")],
+      { ...program, expiryDays: 0 },
+      new Date("2025-01-01T00:00:00.000Z")
+    );
+
+    expect(customer.balance).toBe(100);
+    expect(customer.nextExpiry).toBeUndefined();
+  });
+});
+
+describe("debits", () => {
+  const recent = (daysAgo: number) => new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+
+  it("refuses a burn larger than the balance", async () => {
+    await earnPoints({ customerId: "overdraw", amount: 100, occurredAt: recent(5) });
+
+    await expect(burnPoints({ customerId: "overdraw", points: 150 })).rejects.toMatchObject({
+      status: 409,
+      message: "Customer has 100 points; cannot redeem 150",
+    });
+  });
+
+  it("refuses a backdated burn that leaves a later burn uncovered", async () => {
+    await earnPoints({ customerId: "backdate", amount: 100, occurredAt: recent(10) });
+    await burnPoints({ customerId: "backdate", points: 80, occurredAt: recent(2) });
+
+    await expect(
+      burnPoints({ customerId: "backdate", points: 50, occurredAt: recent(5) })
+    ).rejects.toThrow(/the burn of 80 on .* would no longer be covered/);
+    await expect(
+      adjustPoints({ customerId: "backdate", points: -30, note: "Correction", occurredAt: recent(5) })
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("admits only the burns the balance covers when they race", async () => {
+    await earnPoints({ customerId: "race", amount: 100, occurredAt: recent(1) });
+
+    const results = await Promise.allSettled([
+      burnPoints({ customerId: "race", points: 60 }),
+      burnPoints({ customerId: "race", points: 60 }),
+    ]);
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+  });
+
+  it("refuses a second earn for the same order", async () => {
+    await earnPoints({ customerId: "orders", amount: 40, orderId: "o-1" });
+
+    await expect(earnPoints({ customerId: "orders", amount: 40, orderId: "o-1" })).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import { getLoyaltyProgram } from "@/lib/loyalty/program";
+import { createCollection } from "@/lib/storage";
+import type {
+  CustomerLoyalty,
+  LoyaltyProgram,
+  LoyaltyStatementEntry,
+  LoyaltySummary,
+  LoyaltyTier,
+  LoyaltyTransaction,
+} from "@/types/loyalty";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ledger = createCollection<LoyaltyTransaction>("loyalty-ledger");
+
+export class LoyaltyError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "LoyaltyError";
+  }
+}
+
+export interface EarnInput {
+  customerId: string;
+  amount: number;
+  channel?: string;
+  campaign?: string;
+  orderId?: string;
+  occurredAt?: string;
+}
+
+export interface BurnInput {
+  customerId: string;
+  points: number;
+  orderId?: string;
+  note?: string;
+  occurredAt?: string;
+}
+
+export interface AdjustInput {
+  customerId: string;
+  points: number;
+  note: string;
+  occurredAt?: string;
+}
+
+function byTime(a: LoyaltyTransaction, b: LoyaltyTransaction): number {
+  return a.occurredAt.localeCompare(b.occurredAt);
+}
+
+function sameName(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** The highest tier whose threshold the qualifying points reach. */
+export function tierFor(program: LoyaltyProgram, qualifyingPoints: number): LoyaltyTier | null {
+  return (
+    [...program.tiers]
+      .sort((a, b) => b.minPoints - a.minPoints)
+      .find((tier) => qualifyingPoints >= tier.minPoints) ?? null
+  );
+}
+
+/** Points earned within the tier window that ends at `at`. */
+function qualifyingPoints(transactions: LoyaltyTransaction[], program: LoyaltyProgram, at: Date): number {
+  const since = at.getTime() - program.tierWindowDays * DAY_MS;
+  return transactions
+    .filter((transaction) => {
+      const time = new Date(transaction.occurredAt).getTime();
+      return transaction.type === "earn" && time > since && time <= at.getTime();
+    })
+    .reduce((sum, transaction) => sum + transaction.points, 0);
+}
+
+/** Product of the tier multiplier and every channel or campaign multiplier active at `at`. */
+export function earnMultiplier(
+  program: LoyaltyProgram,
+  tier: LoyaltyTier | null,
+  order: { channel?: string; campaign?: string },
+  at: Date
+): number {
+  return program.multipliers
+    .filter(
+      (rule) =>
+        sameName(rule.scope === "channel" ? order.channel : order.campaign, rule.match) &&
+        (!rule.startsAt || new Date(rule.startsAt) <= at) &&
+        (!rule.endsAt || new Date(rule.endsAt) > at)
+    )
+    .reduce((product, rule) => product * rule.multiplier, tier?.multiplier ?? 1);
+}
+
+function earnedPoints(program: LoyaltyProgram, amount: number, multiplier: number): number {
+  return Math.floor(amount * program.pointsPerUnit * multiplier);
+}
+
+/**
+ * Replays a customer's transactions into a statement. Earned and positively
+ * adjusted points form lots that expire `expiryDays` after they were earned;
+ * burns spend the oldest lots first, so expiry only takes what is left.
+ */
+export function replayLedger(
+  transactions: LoyaltyTransaction[],
+  program: LoyaltyProgram,
+  now = new Date()
+): { customer: Omit<CustomerLoyalty, "customerId">; statement: LoyaltyStatementEntry[] } {
+  const lots: Array<{ points: number; expiresAt: number }> = [];
+  const statement: LoyaltyStatementEntry[] = [];
+  let balance = 0;
+  let lifetimeEarned = 0;
+
+  const expireUntil = (time: number) => {
+    while (lots.length > 0 && lots[0].expiresAt <= time) {
+      const lot = lots.shift()!;
+      if (lot.points <= 0) continue;
+      balance -= lot.points;
+      statement.push({
+        type: "expire",
+        points: -lot.points,
+        balance,
+        occurredAt: new Date(lot.expiresAt).toISOString(),
+      });
+    }
+  };
+
+  const sorted = [...transactions].sort(byTime);
+  for (const transaction of sorted) {
+    const time = new Date(transaction.occurredAt).getTime();
+    if (program.expiryDays > 0) expireUntil(time);
+
+    if (transaction.points > 0) {
+      lots.push({
+        points: transaction.points,
+        expiresAt: program.expiryDays > 0 ? time + program.expiryDays * DAY_MS : Number.POSITIVE_INFINITY,
+      });
+      if (transaction.type === "earn") lifetimeEarned += transaction.points;
+    } else {
+      let remaining = -transaction.points;
+      for (const lot of lots) {
+        const used = Math.min(lot.points, remaining);
+        lot.points -= used;
+        remaining -= used;
+        if (remaining === 0) break;
+      }
+    }
+
+    balance += transaction.points;
+    statement.push({
+      transactionId: transaction.id,
+      type: transaction.type,
+      points: transaction.points,
+      balance,
+      note: transaction.note,
+      occurredAt: transaction.occurredAt,
+    });
+  }
+  if (program.expiryDays > 0) expireUntil(now.getTime());
+
+  const qualifying = qualifyingPoints(sorted, program, now);
+  const next = lots.find((lot) => lot.points > 0 && Number.isFinite(lot.expiresAt));
+
+  return {
+    customer: {
+      balance,
+      lifetimeEarned,
+      qualifyingPoints: qualifying,
+      tier: tierFor(program, qualifying)?.name ?? null,
+      nextExpiry: next ? { points: next.points, at: new Date(next.expiresAt).toISOString() } : undefined,
+    },
+    statement,
+  };
+}
+
+/**
+ * Recomputes the points of earn transactions that carry an order amount under
+ * `program`, in time order so each earn sees the tier its customer held then.
+ * Earns before `since` keep their recorded points.
+ */
+export function rescoreTransactions(
+  transactions: LoyaltyTransaction[],
+  program: LoyaltyProgram,
+  since?: Date
+): LoyaltyTransaction[] {
+  const history = new Map<string, LoyaltyTransaction[]>();
+
+  return [...transactions].sort(byTime).map((transaction) => {
+    const previous = history.get(transaction.customerId) ?? [];
+    let rescored = transaction;
+
+    const at = new Date(transaction.occurredAt);
+    if (transaction.type === "earn" && transaction.amount !== undefined && (!since || at >= since)) {
+      const tier = tierFor(program, qualifyingPoints(previous, program, at));
+      const multiplier = earnMultiplier(program, tier, transaction, at);
+      rescored = { ...transaction, multiplier, points: earnedPoints(program, transaction.amount, multiplier) };
+    }
+
+    history.set(transaction.customerId, [...previous, rescored]);
+    return rescored;
+  });
+}
+
+export function listTransactions(): Promise<LoyaltyTransaction[]> {
+  return ledger.list();
+}
+
+async function customerTransactions(customerId: string): Promise<LoyaltyTransaction[]> {
+  return (await ledger.list()).filter((transaction) => transaction.customerId === customerId);
+}
+
+function ofCustomer(records: LoyaltyTransaction[], customerId: string): LoyaltyTransaction[] {
+  return records.filter((transaction) => transaction.customerId === customerId);
+}
+
+export async function earnPoints(input: EarnInput): Promise<LoyaltyTransaction> {
+  const program = await getLoyaltyProgram();
+  const at = input.occurredAt ? new Date(input.occurredAt) : new Date();
+
+  return ledger.insertWith((records) => {
+    const history = ofCustomer(records, input.customerId);
+    if (input.orderId && history.some((item) => item.type === "earn" && item.orderId === input.orderId)) {
+      throw new LoyaltyError(`Order ${input.orderId} has already earned points`, 409);
+    }
+
+    const tier = tierFor(program, qualifyingPoints(history, program, at));
+    const multiplier = earnMultiplier(program, tier, input, at);
+    return {
+      id: crypto.randomUUID(),
+      customerId: input.customerId,
+      type: "earn",
+      points: earnedPoints(program, input.amount, multiplier),
+      amount: input.amount,
+      channel: input.channel,
+      campaign: input.campaign,
+      orderId: input.orderId,
+      multiplier,
+      occurredAt: at.toISOString(),
+    };
+  });
+}
+
+/**
+ * Adds a burn or negative adjustment after replaying the customer's whole
+ * timeline with it. Refused when it overdraws the balance at its own time or,
+ * when backdated, leaves a later burn or deduction without enough points.
+ */
+async function insertDebit(transaction: LoyaltyTransaction, verb: string): Promise<LoyaltyTransaction> {
+  const program = await getLoyaltyProgram();
+
+  return ledger.insertWith((records) => {
+    const history = [...ofCustomer(records, transaction.customerId), transaction];
+    const overdraft = replayLedger(history, program).statement.find(
+      (entry) =>
+        entry.type !== "expire" && entry.points < 0 && entry.balance < 0 && entry.occurredAt >= transaction.occurredAt
+    );
+    if (!overdraft) return transaction;
+
+    const points = -transaction.points;
+    if (overdraft.transactionId === transaction.id) {
+      throw new LoyaltyError(`Customer has ${overdraft.balance + points} points; cannot ${verb} ${points}`, 409);
+    }
+    throw new LoyaltyError(
+      `Cannot ${verb} ${points} points on ${transaction.occurredAt.slice(0, 10)}: ` +
+        `the ${overdraft.type} of ${-overdraft.points} on ${overdraft.occurredAt.slice(0, 10)} would no longer be covered`,
+      409
+    );
+  });
+}
+
+export async function burnPoints(input: BurnInput): Promise<LoyaltyTransaction> {
+  const at = input.occurredAt ? new Date(input.occurredAt) : new Date();
+  return insertDebit(
+    {
+      id: crypto.randomUUID(),
+      customerId: input.customerId,
+      type: "burn",
+      points: -input.points,
+      orderId: input.orderId,
+      note: input.note,
+      occurredAt: at.toISOString(),
+    },
+    "redeem"
+  );
+}
+
+/** Manual correction; a negative adjustment cannot take the balance below zero. */
+export async function adjustPoints(input: AdjustInput): Promise<LoyaltyTransaction> {
+  const at = input.occurredAt ? new Date(input.occurredAt) : new Date();
+  const transaction: LoyaltyTransaction = {
+    id: crypto.randomUUID(),
+    customerId: input.customerId,
+    type: "adjust",
+    points: input.points,
+    note: input.note,
+    occurredAt: at.toISOString(),
+  };
+  return input.points < 0 ? insertDebit(transaction, "deduct") : ledger.insert(transaction);
+}
+
+function groupByCustomer(transactions: LoyaltyTransaction[]): Map<string, LoyaltyTransaction[]> {
+  const groups = new Map<string, LoyaltyTransaction[]>();
+  for (const transaction of transactions) {
+    groups.set(transaction.customerId, [...(groups.get(transaction.customerId) ?? []), transaction]);
+  }
+  return groups;
+}
+
+/** Current standing of every customer under `program`, highest balance first. */
+export function summarizeCustomers(
+  transactions: LoyaltyTransaction[],
+  program: LoyaltyProgram,
+  now = new Date()
+): CustomerLoyalty[] {
+  return [...groupByCustomer(transactions)]
+    .map(([customerId, items]) => ({ customerId, ...replayLedger(items, program, now).customer }))
+    .sort((a, b) => b.balance - a.balance);
+}
+
+export async function listCustomers(): Promise<CustomerLoyalty[]> {
+  return summarizeCustomers(await ledger.list(), await getLoyaltyProgram());
+}
+
+export async function getCustomerLoyalty(
+  customerId: string
+): Promise<{ customer: CustomerLoyalty; statement: LoyaltyStatementEntry[] } | null> {
+  const transactions = await customerTransactions(customerId);
+  if (transactions.length === 0) return null;
+
+  const { customer, statement } = replayLedger(transactions, await getLoyaltyProgram());
+  return { customer: { customerId, ...customer }, statement };
+}
+
+export function countTiers(customers: CustomerLoyalty[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const customer of customers) {
+    const tier = customer.tier ?? "None";
+    counts[tier] = (counts[tier] ?? 0) + 1;
+  }
+  return counts;
+}
+
+export async function getLoyaltySummary(): Promise<LoyaltySummary> {
+  const program = await getLoyaltyProgram();
+  const customers = summarizeCustomers(await ledger.list(), program);
+  const outstandingPoints = customers.reduce((sum, customer) => sum + Math.max(customer.balance, 0), 0);
+
+  return {
+    program,
+    customers: customers.length,
+    outstandingPoints,
+    liability: Math.round(outstandingPoints * program.pointValue * 100) / 100,
+    tiers: countTiers(customers),
+  };
+}
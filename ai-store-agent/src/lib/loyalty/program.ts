@@ -0,0 +1,61 @@
+import { createCollection } from "@/lib/storage";
+import type { EarnMultiplier, LoyaltyProgram, LoyaltyRuleChange, LoyaltyTier } from "@/types/loyalty";
+
+export const DEFAULT_LOYALTY_PROGRAM: LoyaltyProgram = {
+  pointsPerUnit: 1,
+  currency: "USD",
+  pointValue: 0.01,
+  expiryDays: 365,
+  tierWindowDays: 365,
+  tiers: [
+    { name: "Member", minPoints: 0, multiplier: 1 },
+    { name: "Silver", minPoints: 500, multiplier: 1.25 },
+    { name: "Gold", minPoints: 2000, multiplier: 1.5 },
+  ],
+  multipliers: [],
+};
+
+const programs = createCollection<{ id: string; program: LoyaltyProgram }>("loyalty-program");
+const PROGRAM_ID = "default";
+
+export async function getLoyaltyProgram(): Promise<LoyaltyProgram> {
+  return (await programs.get(PROGRAM_ID))?.program ?? DEFAULT_LOYALTY_PROGRAM;
+}
+
+export async function saveLoyaltyProgram(program: LoyaltyProgram): Promise<LoyaltyProgram> {
+  const saved = {
+    ...program,
+    tiers: [...program.tiers].sort((a, b) => a.minPoints - b.minPoints),
+    updatedAt: new Date().toISOString(),
+  };
+  await programs.upsertMany([{ id: PROGRAM_ID, program: saved }]);
+  return saved;
+}
+
+function sameMultiplier(a: EarnMultiplier, b: EarnMultiplier): boolean {
+  return a.scope === b.scope && a.match.toLowerCase() === b.match.toLowerCase();
+}
+
+function upsertTier(tiers: LoyaltyTier[], tier: LoyaltyTier): LoyaltyTier[] {
+  const rest = tiers.filter((item) => item.name.toLowerCase() !== tier.name.toLowerCase());
+  return [...rest, tier].sort((a, b) => a.minPoints - b.minPoints);
+}
+
+/** Returns the program with rule changes applied; multipliers and tiers with the same key are replaced. */
+export function applyRuleChanges(program: LoyaltyProgram, changes: LoyaltyRuleChange[]): LoyaltyProgram {
+  return changes.reduce<LoyaltyProgram>((next, change) => {
+    switch (change.type) {
+      case "multiplier":
+        return {
+          ...next,
+          multipliers: [...next.multipliers.filter((item) => !sameMultiplier(item, change.multiplier)), change.multiplier],
+        };
+      case "tier":
+        return { ...next, tiers: upsertTier(next.tiers, change.tier) };
+      case "expiry":
+        return { ...next, expiryDays: change.expiryDays };
+      case "earn-rate":
+        return { ...next, pointsPerUnit: change.pointsPerUnit };
+    }
+  }, program);
+}
@@ -0,0 +1,253 @@
+import {
+  LoyaltyError,
+  countTiers,
+  listTransactions,
+  rescoreTransactions,
+  summarizeCustomers,
+} from "@/lib/loyalty/ledger";
+import { applyRuleChanges, getLoyaltyProgram, saveLoyaltyProgram } from "@/lib/loyalty/program";
+import type { AgentOutput } from "@/types/agent";
+import type {
+  EarnMultiplier,
+  LoyaltyPreview,
+  LoyaltyPreviewTotals,
+  LoyaltyProgram,
+  LoyaltyRuleChange,
+  LoyaltyRuleProposal,
+  LoyaltyTransaction,
+} from "@/types/loyalty";
+import type { AgentRunRecord } from "@/types/runs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_PREVIEW_DAYS = 90;
+
+const CHANNELS = [
+  "instagram",
+  "tiktok",
+  "facebook",
+  "pinterest",
+  "youtube",
+  "whatsapp",
+  "email",
+  "sms",
+  "app",
+  "web",
+  "online",
+  "in-store",
+  "pos",
+];
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 365 / 12, year: 365 };
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?;])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function readMultiplier(sentence: string): number | null {
+  const factor = sentence.match(/\b(\d+(?:\.\d+)?)\s?[x×](?![a-z])/i);
+  if (factor) return Number(factor[1]);
+  if (/\bdouble\b/i.test(sentence)) return 2;
+  if (/\btriple\b/i.test(sentence)) return 3;
+  const bonus = sentence.match(/\b(\d+(?:\.\d+)?)%\s+(?:more|extra|bonus)\s+points\b/i);
+  return bonus ? 1 + Number(bonus[1]) / 100 : null;
+}
+
+function readDays(value: string, unit: string): number {
+  return Math.round(Number(value) * UNIT_DAYS[unit.toLowerCase()]);
+}
+
+function readMultiplierTarget(sentence: string): Pick<EarnMultiplier, "scope" | "match"> | null {
+  const quoted = sentence.match(/["“']([^"”']{2,40})["”']\s+campaign\b/i);
+  if (quoted) return { scope: "campaign", match: quoted[1].trim() };
+
+  const named = sentence.match(
+    /\b(?:[Dd]uring|[Ff]or|[Oo]n|[Ii]n)\s+(?:the\s+)?((?:[A-Z0-9][\w'-]*\s+){0,3}[A-Z0-9][\w'-]*)\s+(?:campaign|sale|launch|promo(?:tion)?|drop)\b/
+  );
+  if (named) return { scope: "campaign", match: named[1].trim() };
+
+  const lower = sentence.toLowerCase();
+  const channel = CHANNELS.find((name) => new RegExp(`(?<![a-z-])${name}(?![a-z-])`).test(lower));
+  return channel ? { scope: "channel", match: channel } : null;
+}
+
+function multiplierChange(sentence: string, now: Date): LoyaltyRuleChange | null {
+  if (/\btier\b/i.test(sentence)) return null;
+  const multiplier = readMultiplier(sentence);
+  const target = readMultiplierTarget(sentence);
+  if (!multiplier || multiplier <= 1 || !target) return null;
+
+  const window = sentence.match(/\bfor\s+(?:the\s+first\s+)?(\d+)\s+(day|week|month)s?\b/i);
+  return {
+    type: "multiplier",
+    multiplier: {
+      ...target,
+      multiplier,
+      ...(window && {
+        startsAt: now.toISOString(),
+        endsAt: new Date(now.getTime() + readDays(window[1], window[2]) * DAY_MS).toISOString(),
+      }),
+    },
+  };
+}
+
+function tierChange(sentence: string, program: LoyaltyProgram): LoyaltyRuleChange | null {
+  const match = sentence.match(
+    /\b([A-Z][A-Za-z]+)\s+tier\b[^.]*?\b(?:at|from|to|after|reaching|once|above)\s+([\d,]+)\s+points\b/
+  );
+  if (!match) return null;
+
+  const name = match[1];
+  const existing = program.tiers.find((tier) => tier.name.toLowerCase() === name.toLowerCase());
+  return {
+    type: "tier",
+    tier: {
+      name: existing?.name ?? name,
+      minPoints: Number(match[2].replace(/,/g, "")),
+      multiplier: readMultiplier(sentence) ?? existing?.multiplier ?? 1,
+    },
+  };
+}
+
+function expiryChange(sentence: string): LoyaltyRuleChange | null {
+  if (/\b(never|no longer|don't|do not|won't)\s+expire/i.test(sentence)) return { type: "expiry", expiryDays: 0 };
+
+  const match =
+    sentence.match(/\bexpir\w*\s+(?:after|in|within)\s+(\d+)\s+(day|week|month|year)s?\b/i) ??
+    sentence.match(/\b(\d+)[- ](day|week|month|year)s?\s+expiry\b/i);
+  return match ? { type: "expiry", expiryDays: readDays(match[1], match[2]) } : null;
+}
+
+function earnRateChange(sentence: string): LoyaltyRuleChange | null {
+  const match = sentence.match(
+    /\b(\d+(?:\.\d+)?)\s+points?\s+(?:per|for every|for each|on every)\s+(?:[$€£]\s?(\d+(?:\.\d+)?)|(\d+(?:\.\d+)?)\s+[a-z]+|[a-z]+)/i
+  );
+  if (!match) return null;
+
+  const spend = Number(match[2] ?? match[3] ?? 1);
+  return spend > 0 ? { type: "earn-rate", pointsPerUnit: Number(match[1]) / spend } : null;
+}
+
+export function describeRuleChange(change: LoyaltyRuleChange): string {
+  switch (change.type) {
+    case "multiplier": {
+      const { scope, match, multiplier, endsAt } = change.multiplier;
+      const until = endsAt ? ` until ${endsAt.slice(0, 10)}` : "";
+      return `${multiplier}x points on ${scope} "${match}"${until}`;
+    }
+    case "tier":
+      return `${change.tier.name} tier from ${change.tier.minPoints} points at ${change.tier.multiplier}x`;
+    case "expiry":
+      return change.expiryDays === 0 ? "Points never expire" : `Points expire after ${change.expiryDays} days`;
+    case "earn-rate":
+      return `Earn ${change.pointsPerUnit} points per unit spent`;
+  }
+}
+
+/**
+ * Reads rule changes from the plan's loyalty prose, one per sentence. Only
+ * sentences with concrete numbers become proposals; the rest stay advice.
+ */
+export function parseLoyaltyPlan(
+  text: string,
+  program: LoyaltyProgram,
+  now = new Date()
+): LoyaltyRuleProposal[] {
+  const proposals: LoyaltyRuleProposal[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const changes = [
+      multiplierChange(sentence, now),
+      tierChange(sentence, program),
+      expiryChange(sentence),
+      earnRateChange(sentence),
+    ].filter((change) => change !== null);
+
+    for (const change of changes) {
+      proposals.push({
+        id: `loyalty-${proposals.length + 1}`,
+        summary: describeRuleChange(change),
+        source: sentence,
+        change,
+      });
+    }
+  }
+
+  return proposals;
+}
+
+export async function withLoyaltyProposals(plan: AgentOutput): Promise<AgentOutput> {
+  const proposals = parseLoyaltyPlan(plan.loyaltyPlan, await getLoyaltyProgram());
+  return proposals.length > 0 ? { ...plan, loyaltyProposals: proposals } : plan;
+}
+
+/** The run's stored proposals, or ones parsed now for runs archived before proposals existed. */
+export async function getRunProposals(run: AgentRunRecord): Promise<LoyaltyRuleProposal[]> {
+  const { plan } = run.response;
+  return plan.loyaltyProposals ?? parseLoyaltyPlan(plan.loyaltyPlan, await getLoyaltyProgram());
+}
+
+export async function selectProposals(run: AgentRunRecord, ids?: string[]): Promise<LoyaltyRuleProposal[]> {
+  const proposals = await getRunProposals(run);
+  const selected = ids ? proposals.filter((proposal) => ids.includes(proposal.id)) : proposals;
+  if (selected.length === 0) throw new LoyaltyError("No matching loyalty proposals on this run", 404);
+  return selected;
+}
+
+function totals(
+  transactions: LoyaltyTransaction[],
+  program: LoyaltyProgram,
+  since: Date,
+  now: Date
+): { totals: LoyaltyPreviewTotals; tiers: Map<string, string | null> } {
+  const pointsIssued = transactions
+    .filter((transaction) => transaction.type === "earn" && new Date(transaction.occurredAt) >= since)
+    .reduce((sum, transaction) => sum + transaction.points, 0);
+  const customers = summarizeCustomers(transactions, program, now);
+
+  return {
+    totals: {
+      pointsIssued,
+      cost: Math.round(pointsIssued * program.pointValue * 100) / 100,
+      outstandingPoints: customers.reduce((sum, customer) => sum + Math.max(customer.balance, 0), 0),
+      tiers: countTiers(customers),
+    },
+    tiers: new Map(customers.map((customer) => [customer.customerId, customer.tier])),
+  };
+}
+
+/**
+ * Replays the last `days` of ledger history under the current program and
+ * under the program with the proposals applied. Earns in the window are
+ * re-scored from their order amounts; earlier history is left as recorded.
+ */
+export async function previewProposals(
+  proposals: LoyaltyRuleProposal[],
+  days = DEFAULT_PREVIEW_DAYS,
+  now = new Date()
+): Promise<LoyaltyPreview> {
+  const program = await getLoyaltyProgram();
+  const proposedProgram = applyRuleChanges(program, proposals.map((proposal) => proposal.change));
+  const since = new Date(now.getTime() - days * DAY_MS);
+  const history = (await listTransactions()).filter((transaction) => new Date(transaction.occurredAt) <= now);
+
+  const current = totals(rescoreTransactions(history, program, since), program, since, now);
+  const proposed = totals(rescoreTransactions(history, proposedProgram, since), proposedProgram, since, now);
+
+  return {
+    days,
+    transactions: history.filter((transaction) => new Date(transaction.occurredAt) >= since).length,
+    current: current.totals,
+    proposed: proposed.totals,
+    tierChanges: [...current.tiers]
+      .filter(([customerId, tier]) => proposed.tiers.get(customerId) !== tier)
+      .map(([customerId, tier]) => ({ customerId, from: tier, to: proposed.tiers.get(customerId) ?? null })),
+  };
+}
+
+export async function applyProposals(proposals: LoyaltyRuleProposal[]): Promise<LoyaltyProgram> {
+  const program = await getLoyaltyProgram();
+  return saveLoyaltyProgram(applyRuleChanges(program, proposals.map((proposal) => proposal.change)));
+}
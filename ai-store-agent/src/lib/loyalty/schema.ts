@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+import { currencyCodeSchema } from "@/lib/currency";
+
+const tierSchema = z.object({
+  name: z.string().trim().min(1),
+  minPoints: z.number().int().nonnegative(),
+  multiplier: z.number().positive(),
+});
+
+const multiplierSchema = z.object({
+  scope: z.union([z.literal("channel"), z.literal("campaign")]),
+  match: z.string().trim().min(1),
+  multiplier: z.number().positive(),
+  startsAt: z.iso.datetime().optional(),
+  endsAt: z.iso.datetime().optional(),
+});
+
+export const loyaltyProgramSchema = z.object({
+  pointsPerUnit: z.number().positive(),
+  currency: currencyCodeSchema,
+  pointValue: z.number().nonnegative(),
+  expiryDays: z.number().int().nonnegative(),
+  tierWindowDays: z.number().int().positive(),
+  tiers: z
+    .array(tierSchema)
+    .min(1)
+    .refine((tiers) => new Set(tiers.map((tier) => tier.name.toLowerCase())).size === tiers.length, {
+      message: "Tier names must be unique",
+    }),
+  multipliers: z.array(multiplierSchema),
+});
+
+export const loyaltyRuleChangeSchema = z.union([
+  z.object({ type: z.literal("multiplier"), multiplier: multiplierSchema }),
+  z.object({ type: z.literal("tier"), tier: tierSchema }),
+  z.object({ type: z.literal("expiry"), expiryDays: z.number().int().nonnegative() }),
+  z.object({ type: z.literal("earn-rate"), pointsPerUnit: z.number().positive() }),
+]);
+
+export const loyaltyRuleProposalSchema = z.object({
+  id: z.string(),
+  summary: z.string(),
+  source: z.string(),
+  change: loyaltyRuleChangeSchema,
+});
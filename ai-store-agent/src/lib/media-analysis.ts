@@ -0,0 +1,136 @@
+import { z } from "zod";
+
+import { parseJsonReply } from "@/lib/plan-schema";
+import { resolveProvider } from "@/lib/providers";
+import { meterProvider } from "@/lib/usage/meter";
+import type { MediaAnalysis, MediaAttachment, MediaCropSuggestion } from "@/types/agent";
+import type { ModelContentPart, ProviderSelection } from "@/types/provider";
+import type { UsageScope } from "@/types/usage";
+
+export const MAX_MODEL_IMAGES = 8;
+
+export const CHANNEL_CROP_RATIOS: Record<string, MediaCropSuggestion[]> = {
+  instagram: [
+    { channel: "instagram", ratio: "4:5", note: "Feed post" },
+    { channel: "instagram", ratio: "9:16", note: "Stories and Reels" },
+  ],
+  tiktok: [{ channel: "tiktok", ratio: "9:16" }],
+  youtube: [
+    { channel: "youtube", ratio: "16:9" },
+    { channel: "youtube", ratio: "9:16", note: "Shorts" },
+  ],
+  email: [{ channel: "email", ratio: "3:2", note: "Hero banner" }],
+  "meta-ads": [
+    { channel: "meta-ads", ratio: "1:1" },
+    { channel: "meta-ads", ratio: "4:5" },
+  ],
+  "google-ads": [
+    { channel: "google-ads", ratio: "1.91:1", note: "Responsive display landscape" },
+    { channel: "google-ads", ratio: "1:1" },
+  ],
+  marketplace: [{ channel: "marketplace", ratio: "1:1", note: "Listing image" }],
+  instore: [{ channel: "instore", ratio: "3:4", note: "Signage" }],
+};
+
+const analysisSchema = z.object({
+  productDetected: z.string().nullable(),
+  dominantColors: z.array(z.string().regex(/^#[0-9a-fA-F]{6}$/)).max(6),
+  altText: z.string().min(1),
+  cropSuggestions: z.array(
+    z.object({
+      channel: z.string(),
+      ratio: z.string(),
+      note: z.string().optional(),
+    })
+  ),
+});
+
+export const mediaAnalysisSchema = analysisSchema.extend({
+  source: z.union([z.literal("model"), z.literal("heuristic")]),
+});
+
+export type MediaAnalysisInput = Pick<MediaAttachment, "name" | "kind" | "notes">;
+
+export function heuristicAnalysis(asset: MediaAnalysisInput, channels: string[]): MediaAnalysis {
+  const label = asset.name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim();
+
+  return {
+    productDetected: null,
+    dominantColors: [],
+    altText: asset.kind === "video" ? `Video: ${label}` : label,
+    cropSuggestions: channels.flatMap((channel) => CHANNEL_CROP_RATIOS[channel] ?? []),
+    source: "heuristic",
+  };
+}
+
+function buildAnalysisPrompt(asset: MediaAnalysisInput, channels: string[]): string {
+  return [
+    `You are reviewing a commerce ${asset.kind} asset named "${asset.name}".`,
+    asset.kind === "video" ? "The attached images are keyframes sampled from the video." : "",
+    asset.notes ? `Merchandiser notes: ${asset.notes}` : "",
+    `Target channels: ${channels.length > 0 ? channels.join(", ") : "not specified"}.`,
+    "Reply with only a JSON object with these keys:",
+    '- "productDetected": the main product shown, or null if none is visible',
+    '- "dominantColors": up to 5 dominant colors as "#rrggbb" hex strings',
+    '- "altText": accessible alt text under 125 characters',
+    '- "cropSuggestions": an array of { "channel", "ratio", "note" } with the best crop ratio per target channel',
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Sends an asset's pixels (image data URLs of the image itself or its video
+ * keyframes) to the configured provider and returns structured findings. Falls back to
+ * filename-based findings when no provider or image data is available, or the
+ * reply cannot be validated.
+ */
+export async function analyzeMediaAsset(
+  asset: MediaAnalysisInput,
+  modelImages: string[],
+  channels: string[],
+  options: { provider?: ProviderSelection; usage?: UsageScope; signal?: AbortSignal } = {}
+): Promise<MediaAnalysis> {
+  const images = modelImages.slice(0, MAX_MODEL_IMAGES);
+  const provider = meterProvider(resolveProvider(options.provider), "media-analysis", options.usage);
+
+  if (!provider || images.length === 0) {
+    return heuristicAnalysis(asset, channels);
+  }
+
+  const content: ModelContentPart[] = [
+    { type: "text", text: buildAnalysisPrompt(asset, channels) },
+    ...images.map((dataUrl) => ({ type: "image" as const, dataUrl })),
+  ];
+
+  const outputText = await provider.complete({
+    messages: [{ role: "user", content }],
+    signal: options.signal,
+  });
+
+  const reply = parseJsonReply(outputText);
+  const result = reply.success ? analysisSchema.safeParse(reply.value) : null;
+
+  if (!result?.success) {
+    console.warn("Media analysis reply failed validation", asset.name);
+    return heuristicAnalysis(asset, channels);
+  }
+
+  return {
+    ...result.data,
+    dominantColors: result.data.dominantColors.map((color) => color.toLowerCase()),
+    source: "model",
+  };
+}
+
+export function describeMediaAnalysis(analysis: MediaAnalysis): string {
+  const findings = [
+    analysis.productDetected ? `product: ${analysis.productDetected}` : null,
+    analysis.dominantColors.length > 0 ? `colors: ${analysis.dominantColors.join(" ")}` : null,
+    `alt text: "${analysis.altText}"`,
+    analysis.cropSuggestions.length > 0
+      ? `crops: ${analysis.cropSuggestions.map((crop) => `${crop.channel} ${crop.ratio}`).join(", ")}`
+      : null,
+  ];
+  return findings.filter(Boolean).join("; ");
+}
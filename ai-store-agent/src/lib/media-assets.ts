@@ -0,0 +1,278 @@
+import { MEDIA_MIME_TYPES, MEDIA_SIZE_LIMITS, RENDITION_MIME_TYPES, formatBytes } from "@/lib/media-limits";
+import { getMediaStorage } from "@/lib/media-storage";
+import { createCollection } from "@/lib/storage";
+import { DEFAULT_WORKSPACE_ID, inWorkspace } from "@/lib/workspaces/scope";
+import type { MediaAnalysis } from "@/types/agent";
+import type { MediaAsset, MediaRendition, MediaVariant, StoredObject } from "@/types/media";
+
+const assets = createCollection<MediaAsset>("media");
+
+const MAX_KEYFRAMES = 8;
+const MODEL_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+const MODEL_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+};
+
+export class MediaUploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "MediaUploadError";
+  }
+}
+
+export interface MediaUpload {
+  mimeType: string;
+  contentLength: number | null;
+  body: ReadableStream<Uint8Array>;
+}
+
+function sniffMimeType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") return "image/png";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return "video/webm";
+  if (ascii(4, 8) === "ftyp") return ascii(8, 10) === "qt" ? "video/quicktime" : "video/mp4";
+  return null;
+}
+
+function matchesMimeType(sniffed: string | null, declared: string): boolean {
+  const isoMedia = ["video/mp4", "video/quicktime"];
+  return sniffed === declared || (sniffed !== null && isoMedia.includes(sniffed) && isoMedia.includes(declared));
+}
+
+/**
+ * Passes an upload through while enforcing the declared length and checking
+ * the leading magic bytes against the declared MIME type, so oversized or
+ * mislabelled files fail before they are fully written.
+ */
+function guardUpload(body: ReadableStream<Uint8Array>, mimeType: string, expectedBytes: number) {
+  let received = 0;
+  let header = new Uint8Array(0);
+  let checked = false;
+
+  const checkHeader = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    checked = true;
+    if (matchesMimeType(sniffMimeType(header), mimeType)) return true;
+    controller.error(new MediaUploadError(`File contents do not match ${mimeType}`, 415));
+    return false;
+  };
+
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > expectedBytes) {
+          controller.error(new MediaUploadError("Body is longer than its Content-Length", 400));
+          return;
+        }
+
+        if (!checked) {
+          const merged = new Uint8Array(header.length + chunk.length);
+          merged.set(header);
+          merged.set(chunk, header.length);
+          header = merged.subarray(0, 16);
+          if (header.length >= 12 && !checkHeader(controller)) return;
+        }
+
+        controller.enqueue(chunk);
+      },
+      flush(controller) {
+        if (received === 0) {
+          controller.error(new MediaUploadError("File is empty", 400));
+        } else if (received !== expectedBytes) {
+          controller.error(new MediaUploadError("Body is shorter than its Content-Length", 400));
+        } else if (!checked) {
+          checkHeader(controller);
+        }
+      },
+    })
+  );
+}
+
+async function writeObject(key: string, upload: MediaUpload, maxBytes: number): Promise<number> {
+  if (upload.contentLength === null) {
+    throw new MediaUploadError("Content-Length header is required", 411);
+  }
+  if (upload.contentLength > maxBytes) {
+    throw new MediaUploadError(`File exceeds the ${formatBytes(maxBytes)} limit`, 413);
+  }
+
+  await getMediaStorage().put(key, guardUpload(upload.body, upload.mimeType, upload.contentLength), {
+    contentType: upload.mimeType,
+    contentLength: upload.contentLength,
+  });
+  return upload.contentLength;
+}
+
+export async function listMediaAssets(workspaceId: string): Promise<MediaAsset[]> {
+  const records = await assets.list();
+  return records
+    .filter((asset) => inWorkspace(asset, workspaceId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Looks up an asset; with a `workspaceId`, assets of other stores are treated as missing. */
+export async function getMediaAsset(id: string, workspaceId?: string): Promise<MediaAsset | null> {
+  const asset = await assets.get(id);
+  return asset && (!workspaceId || inWorkspace(asset, workspaceId)) ? asset : null;
+}
+
+export async function storeMediaUpload(
+  name: string,
+  upload: MediaUpload,
+  workspaceId = DEFAULT_WORKSPACE_ID
+): Promise<MediaAsset> {
+  const kind = MEDIA_MIME_TYPES[upload.mimeType];
+  if (!kind) {
+    throw new MediaUploadError(`Unsupported file type ${upload.mimeType || "(unknown)"}`, 415);
+  }
+
+  const id = crypto.randomUUID();
+  const key = `${id}/original.${EXTENSIONS[upload.mimeType]}`;
+  const size = await writeObject(key, upload, MEDIA_SIZE_LIMITS[kind]);
+
+  return assets.insert({
+    id,
+    workspaceId,
+    name: name.trim() || key,
+    kind,
+    mimeType: upload.mimeType,
+    size,
+    storage: getMediaStorage().driver,
+    key,
+    renditions: [],
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Stores a browser-generated thumbnail, poster or keyframe for an asset.
+ * Thumbnails and posters replace the previous one; keyframes accumulate.
+ */
+export async function storeMediaRendition(
+  asset: MediaAsset,
+  variant: MediaRendition["variant"],
+  upload: MediaUpload
+): Promise<MediaAsset> {
+  if (!RENDITION_MIME_TYPES.includes(upload.mimeType)) {
+    throw new MediaUploadError(`Renditions must be one of ${RENDITION_MIME_TYPES.join(", ")}`, 415);
+  }
+
+  const keyframes = asset.renditions.filter((item) => item.variant === "keyframe");
+  if (variant === "keyframe" && keyframes.length >= MAX_KEYFRAMES) {
+    throw new MediaUploadError(`An asset can have at most ${MAX_KEYFRAMES} keyframes`, 409);
+  }
+
+  const suffix = variant === "keyframe" ? `keyframe-${keyframes.length}` : variant;
+  const key = `${asset.id}/${suffix}.${EXTENSIONS[upload.mimeType]}`;
+  const size = await writeObject(key, upload, MEDIA_SIZE_LIMITS.rendition);
+  const rendition: MediaRendition = { variant, key, mimeType: upload.mimeType, size };
+
+  const replaced = variant === "keyframe" ? [] : asset.renditions.filter((item) => item.variant === variant);
+  const updated = await assets.update(asset.id, (record) => ({
+    ...record,
+    renditions: [
+      ...record.renditions.filter((item) => variant === "keyframe" || item.variant !== variant),
+      rendition,
+    ],
+  }));
+
+  await Promise.all(
+    replaced.filter((item) => item.key !== key).map((item) => getMediaStorage().remove(item.key))
+  );
+
+  if (!updated) throw new MediaUploadError("Media asset not found", 404);
+  return updated;
+}
+
+export function saveMediaAnalysis(id: string, analysis: MediaAnalysis): Promise<MediaAsset | null> {
+  return assets.update(id, (record) => ({ ...record, analysis }));
+}
+
+export async function deleteMediaAsset(id: string): Promise<boolean> {
+  const asset = await assets.get(id);
+  if (!asset) return false;
+
+  const storage = getMediaStorage();
+  await Promise.all([asset.key, ...asset.renditions.map((item) => item.key)].map((key) => storage.remove(key)));
+  return assets.remove(id);
+}
+
+/**
+ * Opens the stored bytes for one variant of an asset. Image thumbnails fall
+ * back to the original when the browser never uploaded one.
+ */
+export async function openMediaVariant(
+  asset: MediaAsset,
+  variant: MediaVariant,
+  options: { index?: number; range?: { start: number; end?: number } } = {}
+): Promise<(StoredObject & { mimeType: string }) | null> {
+  let source: { key: string; mimeType: string } | undefined;
+
+  if (variant === "original") {
+    source = asset;
+  } else {
+    const matches = asset.renditions.filter((item) => item.variant === variant);
+    source = matches[options.index ?? 0];
+    if (!source && variant === "thumbnail" && asset.kind === "image") source = asset;
+  }
+
+  if (!source) return null;
+  const stored = await getMediaStorage().get(source.key, options.range);
+  return stored && { ...stored, mimeType: source.mimeType };
+}
+
+async function readAsDataUrl(key: string, mimeType: string): Promise<string | null> {
+  const stored = await getMediaStorage().get(key);
+  if (!stored) return null;
+  const bytes = Buffer.from(await new Response(stored.body).arrayBuffer());
+  return `data:${mimeType};base64,${bytes.toString("base64")}`;
+}
+
+/**
+ * Loads the pixels a vision model should see for an asset: the original image
+ * when it is small enough, otherwise its thumbnail, or a video's keyframes.
+ */
+export async function loadModelImages(asset: MediaAsset, limit = MAX_KEYFRAMES): Promise<string[]> {
+  const renditionsOf = (variant: MediaRendition["variant"]) =>
+    asset.renditions.filter((item) => item.variant === variant);
+
+  let sources: Array<{ key: string; mimeType: string }>;
+  if (asset.kind === "image") {
+    const useOriginal = MODEL_IMAGE_TYPES.includes(asset.mimeType) && asset.size <= MODEL_IMAGE_MAX_BYTES;
+    sources = useOriginal ? [asset] : renditionsOf("thumbnail");
+  } else {
+    const keyframes = renditionsOf("keyframe");
+    sources = keyframes.length > 0 ? keyframes : renditionsOf("poster");
+  }
+
+  const images = await Promise.all(
+    sources.slice(0, limit).map((source) => readAsDataUrl(source.key, source.mimeType))
+  );
+  return images.filter((image): image is string => image !== null);
+}
+
+export function uploadFromRequest(request: Request): MediaUpload {
+  if (!request.body) throw new MediaUploadError("Request body is empty", 400);
+
+  const length = request.headers.get("content-length");
+  return {
+    mimeType: (request.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase(),
+    contentLength: length === null || !/^\d+$/.test(length) ? null : Number(length),
+    body: request.body,
+  };
+}
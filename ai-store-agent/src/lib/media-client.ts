@@ -0,0 +1,128 @@
+import { validateMediaFile } from "@/lib/media-limits";
+import type { MediaAsset, MediaRendition, MediaVariant } from "@/types/media";
+
+const RENDITION_MAX_WIDTH = 768;
+const KEYFRAME_COUNT = 3;
+
+function waitFor(video: HTMLVideoElement, event: "loadeddata" | "seeked"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.addEventListener(event, () => resolve(), { once: true });
+    video.addEventListener("error", () => reject(new Error("Unable to decode video")), { once: true });
+  });
+}
+
+function scaledCanvas(width: number, height: number): HTMLCanvasElement {
+  const scale = Math.min(1, RENDITION_MAX_WIDTH / (width || RENDITION_MAX_WIDTH));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  return canvas;
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode frame"))),
+      "image/jpeg",
+      0.75
+    );
+  });
+}
+
+export function mediaContentUrl(id: string, variant: MediaVariant = "original"): string {
+  return variant === "original" ? `/api/media/${id}/content` : `/api/media/${id}/content?variant=${variant}`;
+}
+
+export async function createImageThumbnail(source: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const canvas = scaledCanvas(bitmap.width, bitmap.height);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvasToJpeg(canvas);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Samples evenly spaced frames from a video in the browser and returns them as
+ * JPEG blobs small enough to send to a vision model.
+ */
+export async function extractVideoKeyframes(source: Blob, count = KEYFRAME_COUNT): Promise<Blob[]> {
+  const url = URL.createObjectURL(source);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    const loaded = waitFor(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const canvas = scaledCanvas(video.videoWidth, video.videoHeight);
+    const context = canvas.getContext("2d");
+    if (!context) return [];
+
+    const frames: Blob[] = [];
+    for (let index = 1; index <= count; index++) {
+      const seeked = waitFor(video, "seeked");
+      video.currentTime = (duration * index) / (count + 1);
+      await seeked;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(await canvasToJpeg(canvas));
+    }
+    return frames;
+  } finally {
+    video.removeAttribute("src");
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function postBlob<T>(url: string, blob: Blob, headers: Record<string, string> = {}): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": blob.type, ...headers },
+    body: blob,
+  });
+  if (!res.ok) {
+    const data = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Upload failed with ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+function uploadRendition(id: string, variant: MediaRendition["variant"], blob: Blob): Promise<MediaAsset> {
+  return postBlob<MediaAsset>(`/api/media/${id}/renditions?variant=${variant}`, blob);
+}
+
+/**
+ * Uploads a file to `/api/media`, then generates and attaches its thumbnail
+ * (images) or poster and keyframes (videos). Rendition failures are logged but
+ * do not fail the upload.
+ */
+export async function uploadMediaFile(file: File): Promise<MediaAsset> {
+  const problem = validateMediaFile(file);
+  if (problem) throw new Error(problem);
+
+  let asset = await postBlob<MediaAsset>("/api/media", file, {
+    "X-File-Name": encodeURIComponent(file.name),
+  });
+
+  try {
+    if (asset.kind === "image") {
+      asset = await uploadRendition(asset.id, "thumbnail", await createImageThumbnail(file));
+    } else {
+      const frames = await extractVideoKeyframes(file);
+      if (frames.length > 0) asset = await uploadRendition(asset.id, "poster", frames[0]);
+      for (const frame of frames) {
+        asset = await uploadRendition(asset.id, "keyframe", frame);
+      }
+    }
+  } catch (error) {
+    console.error("Rendition generation failed", file.name, error);
+  }
+
+  return asset;
+}
@@ -0,0 +1,38 @@
+import type { MediaKind } from "@/types/agent";
+
+const MB = 1024 * 1024;
+
+export const MEDIA_MIME_TYPES: Record<string, MediaKind> = {
+  "image/jpeg": "image",
+  "image/png": "image",
+  "image/webp": "image",
+  "image/gif": "image",
+  "video/mp4": "video",
+  "video/quicktime": "video",
+  "video/webm": "video",
+};
+
+export const RENDITION_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const MEDIA_SIZE_LIMITS: Record<MediaKind | "rendition", number> = {
+  image: 25 * MB,
+  video: 200 * MB,
+  rendition: 2 * MB,
+};
+
+export function formatBytes(bytes: number): string {
+  return bytes >= MB ? `${Math.round(bytes / MB)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+}
+
+/**
+ * Returns a human-readable reason when a file cannot be uploaded, or null when
+ * its declared type and size are acceptable.
+ */
+export function validateMediaFile(file: { type: string; size: number }): string | null {
+  const kind = MEDIA_MIME_TYPES[file.type];
+  if (!kind) return `Unsupported file type ${file.type || "(unknown)"}`;
+  if (file.size > MEDIA_SIZE_LIMITS[kind]) {
+    return `File exceeds the ${formatBytes(MEDIA_SIZE_LIMITS[kind])} ${kind} limit`;
+  }
+  return null;
+}
@@ -0,0 +1,35 @@
+import path from "node:path";
+
+import { createLocalMediaStorage } from "@/lib/media-storage/local";
+import { createS3MediaStorage } from "@/lib/media-storage/s3";
+import { DATA_DIR } from "@/lib/storage";
+import type { MediaStorage } from "@/types/media";
+
+let storage: MediaStorage | null = null;
+
+/**
+ * Returns the configured media store: the local `MEDIA_DIR` (default
+ * `.storepilot/media`) or, with `MEDIA_STORAGE=s3`, an S3-compatible bucket.
+ */
+export function getMediaStorage(): MediaStorage {
+  if (storage) return storage;
+
+  if (process.env.MEDIA_STORAGE === "s3") {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error("MEDIA_STORAGE=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    storage = createS3MediaStorage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION ?? "us-east-1",
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+    });
+  } else {
+    storage = createLocalMediaStorage(process.env.MEDIA_DIR ?? path.join(DATA_DIR, "media"));
+  }
+
+  return storage;
+}
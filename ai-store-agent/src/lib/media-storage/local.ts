@@ -0,0 +1,66 @@
+import { createReadStream, createWriteStream, promises as fs } from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+
+import { resolveRange } from "@/lib/media-storage/range";
+import type { MediaStorage } from "@/types/media";
+
+export function createLocalMediaStorage(root: string): MediaStorage {
+  const resolveKey = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return file;
+  };
+
+  const removeEmptyDir = (file: string) => fs.rmdir(path.dirname(file)).catch(() => undefined);
+
+  return {
+    driver: "local",
+
+    async put(key, body) {
+      const file = resolveKey(key);
+      const tempFile = `${file}.${process.pid}.upload`;
+      await fs.mkdir(path.dirname(file), { recursive: true });
+
+      try {
+        await pipeline(Readable.fromWeb(body as NodeReadableStream<Uint8Array>), createWriteStream(tempFile));
+        await fs.rename(tempFile, file);
+      } catch (error) {
+        await fs.rm(tempFile, { force: true });
+        await removeEmptyDir(file);
+        throw error;
+      }
+    },
+
+    async get(key, range) {
+      const file = resolveKey(key);
+      let size: number;
+      try {
+        size = (await fs.stat(file)).size;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+
+      // A range that misses the file is ignored, since createReadStream throws on start > end.
+      const bounds = (range && resolveRange(range, size)) ?? undefined;
+      const stream = createReadStream(file, bounds);
+
+      return {
+        body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+        size,
+        range: bounds,
+      };
+    },
+
+    async remove(key) {
+      const file = resolveKey(key);
+      await fs.rm(file, { force: true });
+      await removeEmptyDir(file);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { parseRange, resolveRange } from "@/lib/media-storage/range";
+
+describe("parseRange", () => {
+  it("reads a closed and an open-ended range", () => {
+    expect(parseRange("bytes=0-99")).toEqual({ start: 0, end: 99 });
+    expect(parseRange("bytes=500-")).toEqual({ start: 500, end: undefined });
+  });
+
+  it("ignores missing, suffix and multipart ranges", () => {
+    expect(parseRange(null)).toBeUndefined();
+    expect(parseRange("bytes=-500")).toBeUndefined();
+    expect(parseRange("bytes=0-1,5-9")).toBeUndefined();
+    expect(parseRange("items=0-9")).toBeUndefined();
+  });
+});
+
+describe("resolveRange", () => {
+  it("clamps the end to the last byte", () => {
+    expect(resolveRange({ start: 10, end: 5000 }, 1000)).toEqual({ start: 10, end: 999 });
+    expect(resolveRange({ start: 10 }, 1000)).toEqual({ start: 10, end: 999 });
+  });
+
+  it("rejects a range that starts at or past the end of the file", () => {
+    expect(resolveRange({ start: 1000 }, 1000)).toBeNull();
+    expect(resolveRange({ start: 2000, end: 3000 }, 1000)).toBeNull();
+  });
+
+  it("rejects a range that ends before it starts", () => {
+    expect(resolveRange({ start: 50, end: 10 }, 1000)).toBeNull();
+  });
+});
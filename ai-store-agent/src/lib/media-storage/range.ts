@@ -0,0 +1,21 @@
+export interface RequestedRange {
+  start: number;
+  end?: number;
+}
+
+/** A single `bytes=start-[end]` range; multipart ranges are not supported and get the whole file. */
+export function parseRange(header: string | null): RequestedRange | undefined {
+  const match = header?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) return undefined;
+  return { start: Number(match[1]), end: match[2] ? Number(match[2]) : undefined };
+}
+
+/**
+ * Clamps a requested range to a file of `size` bytes. Returns null when the
+ * range misses the file (start past the end, or end before start), which the
+ * content route answers with 416.
+ */
+export function resolveRange(range: RequestedRange, size: number): { start: number; end: number } | null {
+  if (range.start >= size || (range.end !== undefined && range.end < range.start)) return null;
+  return { start: range.start, end: Math.min(range.end ?? size - 1, size - 1) };
+}
@@ -0,0 +1,136 @@
+import { createHash, createHmac } from "node:crypto";
+
+import type { MediaStorage } from "@/types/media";
+
+export interface S3StorageConfig {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac("sha256", key).update(value).digest();
+}
+
+function sha256Hex(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Signs a request with AWS Signature Version 4 so it is accepted by S3 and
+ * compatible stores (R2, MinIO, Spaces). Payloads are sent unsigned so large
+ * uploads can be streamed without hashing them first.
+ */
+function signRequest(
+  config: S3StorageConfig,
+  method: string,
+  url: URL,
+  headers: Record<string, string>
+): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = {
+    ...headers,
+    host: url.host,
+    "x-amz-date": amzDate,
+    "x-amz-content-sha256": UNSIGNED_PAYLOAD,
+  };
+  const names = Object.keys(signed)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerCased = Object.fromEntries(Object.entries(signed).map(([name, value]) => [name.toLowerCase(), value]));
+  const signedHeaders = names.join(";");
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    names.map((name) => `${name}:${lowerCased[name].trim()}\n`).join(""),
+    signedHeaders,
+    UNSIGNED_PAYLOAD,
+  ].join("\n");
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    ...Object.fromEntries(names.filter((name) => name !== "host").map((name) => [name, lowerCased[name]])),
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export function createS3MediaStorage(config: S3StorageConfig): MediaStorage {
+  const objectUrl = (key: string) => {
+    const endpoint = new URL(config.endpoint);
+    if (config.forcePathStyle) {
+      return new URL(`/${config.bucket}/${encodeKey(key)}`, endpoint);
+    }
+    return new URL(`/${encodeKey(key)}`, `${endpoint.protocol}//${config.bucket}.${endpoint.host}`);
+  };
+
+  return {
+    driver: "s3",
+
+    async put(key, body, { contentType, contentLength }) {
+      if (contentLength === undefined) {
+        throw new Error("S3 uploads require a known content length");
+      }
+
+      const url = objectUrl(key);
+      const headers = signRequest(config, "PUT", url, {
+        "content-type": contentType,
+        "content-length": String(contentLength),
+      });
+      const res = await fetch(url, { method: "PUT", headers, body, duplex: "half" } as RequestInit);
+      if (!res.ok) {
+        throw new Error(`S3 upload failed with ${res.status}: ${await res.text()}`);
+      }
+    },
+
+    async get(key, range) {
+      const url = objectUrl(key);
+      const rangeHeader: Record<string, string> = range
+        ? { range: `bytes=${range.start}-${range.end ?? ""}` }
+        : {};
+      const res = await fetch(url, { headers: signRequest(config, "GET", url, rangeHeader) });
+
+      if (res.status === 404) return null;
+      if (!res.ok || !res.body) {
+        throw new Error(`S3 download failed with ${res.status}`);
+      }
+
+      const contentRange = res.headers.get("content-range")?.match(/bytes (\d+)-(\d+)\/(\d+)/);
+      if (contentRange) {
+        return {
+          body: res.body,
+          size: Number(contentRange[3]),
+          range: { start: Number(contentRange[1]), end: Number(contentRange[2]) },
+        };
+      }
+      return { body: res.body, size: Number(res.headers.get("content-length") ?? 0) };
+    },
+
+    async remove(key) {
+      const url = objectUrl(key);
+      const res = await fetch(url, { method: "DELETE", headers: signRequest(config, "DELETE", url, {}) });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`S3 delete failed with ${res.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { buildScorecard } from "@/lib/metrics/store";
+import { formatMetricValue } from "@/lib/metrics/targets";
+import type { AgentBrief } from "@/types/agent";
+import type { MetricTotals, TargetResult } from "@/types/metrics";
+
+function describeTotals(totals: MetricTotals): string {
+  const parts = [
+    `spend ${formatMetricValue("spend", totals.spend)}`,
+    `revenue ${formatMetricValue("revenue", totals.revenue)}`,
+    `${totals.conversions} conversions`,
+    `${totals.clicks} clicks`,
+    `${totals.impressions} impressions`,
+  ];
+  if (totals.loyaltySignups > 0) parts.push(`${totals.loyaltySignups} loyalty sign-ups`);
+  if (totals.roas !== null) parts.push(`ROAS ${formatMetricValue("roas", totals.roas)}`);
+  if (totals.cpa !== null) parts.push(`CPA ${formatMetricValue("cpa", totals.cpa)}`);
+  if (totals.ctr !== null) parts.push(`CTR ${formatMetricValue("ctr", totals.ctr)}`);
+  return parts.join(", ");
+}
+
+function describeResult({ target, expected, actual, status }: TargetResult): string {
+  const goal = `${target.metric} ${target.direction === "min" ? "≥" : "≤"} ${formatMetricValue(target.metric, expected)}`;
+  if (actual === null) return `${goal}: no data`;
+  return `${goal}: actual ${formatMetricValue(target.metric, actual)} (${status})`;
+}
+
+/**
+ * Actuals against targets for the run a brief re-plans, so the model can keep
+ * what works and rework what does not. The run must belong to `workspaceId`.
+ */
+export async function buildPerformanceContext(brief: AgentBrief, workspaceId?: string): Promise<string | null> {
+  if (!brief.replanOf) return null;
+
+  const scorecard = await buildScorecard(brief.replanOf, {}, workspaceId);
+  if (!scorecard.from) return null;
+
+  const lines = [
+    `Measured performance of the previous plan, ${scorecard.from} to ${scorecard.to} (${scorecard.days} days):`,
+    `Overall: ${describeTotals(scorecard.totals)}.`,
+    ...scorecard.channels.map(({ channel, totals }) => `- ${channel}: ${describeTotals(totals)}`),
+    "Previous tasks against their success metrics:",
+  ];
+
+  for (const task of scorecard.tasks) {
+    const results = task.targets.map(describeResult);
+    const scope = task.scope === "run" ? " [scored on the whole run]" : "";
+    lines.push(
+      `- ${task.title} — "${task.successMetric}"${scope}: ${results.length > 0 ? results.join("; ") : "no measurable target"}`
+    );
+  }
+
+  lines.push(
+    "Keep tasks that are on track, rework or replace tasks that are off track, and give every task a successMetric with a number that can be measured from spend, impressions, clicks, conversions, revenue or loyalty sign-ups."
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+
+import { parseCsvRows } from "@/lib/catalog/parsers";
+import type { CatalogImportIssue } from "@/types/catalog";
+import type { MetricField } from "@/types/metrics";
+
+export const METRIC_FIELDS: MetricField[] = [
+  "spend",
+  "impressions",
+  "clicks",
+  "conversions",
+  "revenue",
+  "loyaltySignups",
+];
+
+export interface ParsedMetricRow extends Partial<Record<MetricField, number>> {
+  /** YYYY-MM-DD */
+  date: string;
+  runId?: string;
+  channel?: string;
+  /** 1-based position in the run's task matrix, or the task's title. */
+  task?: number | string;
+}
+
+export interface ParsedMetrics {
+  rows: ParsedMetricRow[];
+  skipped: CatalogImportIssue[];
+}
+
+const CSV_COLUMNS = {
+  date: ["date", "day", "report date", "reporting starts"],
+  runId: ["run", "run id", "run_id", "runid"],
+  channel: ["channel", "platform", "source"],
+  task: ["task", "plan item", "item"],
+  spend: ["spend", "cost", "amount spent", "ad spend"],
+  impressions: ["impressions", "impr"],
+  clicks: ["clicks", "link clicks"],
+  conversions: ["conversions", "purchases", "orders"],
+  revenue: ["revenue", "sales", "conversion value", "purchase value"],
+  loyaltySignups: ["loyalty sign-ups", "loyalty signups", "loyalty_signups", "sign-ups", "signups"],
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+const amount = z.number().nonnegative().optional();
+const count = z.number().int().nonnegative().optional();
+
+export const metricRowSchema = z.object({
+  date: z.union([z.iso.date(), z.iso.datetime({ offset: true }).transform((value) => value.slice(0, 10))]),
+  runId: z.string().min(1).optional(),
+  channel: z.string().trim().min(1).optional(),
+  task: z.union([z.number().int().positive(), z.string().trim().min(1)]).optional(),
+  spend: amount,
+  impressions: count,
+  clicks: count,
+  conversions: count,
+  revenue: amount,
+  loyaltySignups: count,
+});
+
+/** `runId`, `from` and `to` search params for reading rows and scorecards. */
+export const metricQuerySchema = z.object({
+  runId: z.string().min(1).optional(),
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+});
+
+function parseNumber(value: string | undefined): number | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  const clean = value.replace(/[,\s]/g, "").replace(/^[^\d.-]+/, "");
+  const number = clean === "" ? NaN : Number(clean);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+function parseDate(value: string | undefined): string | null {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? null : time.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a daily performance CSV with a `date` column and any of `spend`,
+ * `impressions`, `clicks`, `conversions`, `revenue` and `loyalty sign-ups`.
+ * Optional `run`, `channel` and `task` columns say what each row reports on.
+ */
+export function parseMetricCsv(text: string): ParsedMetrics {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { rows: [], skipped: [] };
+
+  const headings = header.map((cell) => cell.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as CsvColumn[]).map((column) => [
+      column,
+      headings.findIndex((heading) => (CSV_COLUMNS[column] as readonly string[]).includes(heading)),
+    ])
+  ) as Record<CsvColumn, number>;
+
+  if (columns.date === -1 || METRIC_FIELDS.every((field) => columns[field] === -1)) {
+    return {
+      rows: [],
+      skipped: [{ row: 1, message: "The header needs a date column and at least one metric column" }],
+    };
+  }
+
+  const parsed: ParsedMetricRow[] = [];
+  const skipped: CatalogImportIssue[] = [];
+  const cell = (cells: string[], column: CsvColumn) =>
+    columns[column] === -1 ? undefined : cells[columns[column]]?.trim() || undefined;
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every((value) => value.trim() === "")) return;
+
+    const date = parseDate(cell(cells, "date"));
+    if (!date) {
+      skipped.push({ row, message: "Missing or unreadable date" });
+      return;
+    }
+
+    const entry: ParsedMetricRow = { date, runId: cell(cells, "runId"), channel: cell(cells, "channel") };
+    const task = cell(cells, "task");
+    if (task) entry.task = /^\d+$/.test(task) ? Number(task) : task;
+
+    for (const field of METRIC_FIELDS) {
+      const value = parseNumber(cell(cells, field));
+      if (value === null) {
+        skipped.push({ row, message: `Invalid ${field} value on ${date}` });
+        return;
+      }
+      if (value !== undefined) entry[field] = value;
+    }
+
+    parsed.push(entry);
+  });
+
+  return { rows: parsed, skipped };
+}
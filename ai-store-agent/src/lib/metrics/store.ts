@@ -0,0 +1,245 @@
+import { platformFromText } from "@/lib/budget-allocation";
+import type { ParsedMetricRow } from "@/lib/metrics/parsers";
+import { METRIC_FIELDS } from "@/lib/metrics/parsers";
+import { evaluateTarget, parseTargets } from "@/lib/metrics/targets";
+import { getRun, listRuns } from "@/lib/runs";
+import { createCollection } from "@/lib/storage";
+import type { CatalogImportIssue } from "@/types/catalog";
+import type {
+  MetricIngestResult,
+  MetricRow,
+  MetricSource,
+  MetricTotals,
+  MetricValues,
+  Scorecard,
+  TaskScore,
+} from "@/types/metrics";
+import type { AgentRunRecord } from "@/types/runs";
+
+const MAX_METRIC_ROWS = 50_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Channel words that tie a task to channel-level rows even before any arrive. */
+const CHANNEL_WORDS = [
+  "email",
+  "sms",
+  "meta",
+  "facebook",
+  "instagram",
+  "google",
+  "youtube",
+  "tiktok",
+  "pinterest",
+  "seo",
+  "organic",
+  "affiliate",
+  "influencer",
+];
+
+const metrics = createCollection<MetricRow>("metrics");
+
+export class MetricsError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "MetricsError";
+  }
+}
+
+export interface MetricRange {
+  /** YYYY-MM-DD, inclusive. */
+  from?: string;
+  to?: string;
+}
+
+function normalizeChannel(channel: string | undefined): string | undefined {
+  return channel?.trim().toLowerCase().replace(/\s+/g, "-") || undefined;
+}
+
+function resolveTask(run: AgentRunRecord, task: ParsedMetricRow["task"]): number | null | undefined {
+  if (task === undefined) return undefined;
+  const items = run.response.plan.taskMatrix;
+  if (typeof task === "number") return task >= 1 && task <= items.length ? task - 1 : null;
+
+  const wanted = task.toLowerCase();
+  const exact = items.findIndex((item) => item.title.toLowerCase() === wanted);
+  if (exact !== -1) return exact;
+  const partial = items.findIndex((item) => item.title.toLowerCase().includes(wanted));
+  return partial === -1 ? null : partial;
+}
+
+async function latestRunId(workspaceId?: string): Promise<string | null> {
+  return (await listRuns(workspaceId)).find((run) => !run.usedSample)?.id ?? null;
+}
+
+/**
+ * Stores daily performance rows. Rows without a `runId` belong to `defaultRunId`,
+ * or to the latest run when none is given. A row for the same run, date, channel and task as an earlier one
+ * replaces it, so re-importing a report is safe. With a `workspaceId`, only that store's runs take rows.
+ */
+export async function ingestMetrics(
+  parsed: { rows: ParsedMetricRow[]; skipped: CatalogImportIssue[] },
+  source: MetricSource,
+  defaultRunId?: string,
+  workspaceId?: string
+): Promise<MetricIngestResult> {
+  const fallbackRunId = defaultRunId ?? (await latestRunId(workspaceId));
+  const runs = new Map<string, AgentRunRecord | null>();
+  const skipped = [...parsed.skipped];
+  const records = new Map<string, MetricRow>();
+  const importedAt = new Date().toISOString();
+
+  for (const [position, row] of parsed.rows.entries()) {
+    const runId = row.runId ?? fallbackRunId;
+    if (!runId) {
+      skipped.push({ row: position + 1, message: "No run to attach this row to; run the agent first or pass runId" });
+      continue;
+    }
+    if (!runs.has(runId)) runs.set(runId, await getRun(runId, workspaceId));
+    const run = runs.get(runId);
+    if (!run) {
+      skipped.push({ row: position + 1, message: `Run ${runId} was not found` });
+      continue;
+    }
+
+    const taskIndex = resolveTask(run, row.task);
+    if (taskIndex === null) {
+      skipped.push({ row: position + 1, message: `Task "${row.task}" is not in run ${runId.slice(0, 8)}` });
+      continue;
+    }
+
+    const channel = normalizeChannel(row.channel);
+    const id = [runId, row.date, channel ?? "*", taskIndex ?? "*"].join(":");
+    const values = Object.fromEntries(METRIC_FIELDS.map((field) => [field, row[field] ?? 0])) as MetricValues;
+    records.set(id, {
+      id,
+      runId,
+      date: row.date,
+      ...(channel ? { channel } : {}),
+      ...(taskIndex !== undefined ? { taskIndex } : {}),
+      ...values,
+      source,
+      importedAt,
+    });
+  }
+
+  const { created, updated } = await metrics.upsertMany([...records.values()]);
+  await metrics.prune(MAX_METRIC_ROWS);
+
+  return { runId: [...runs.keys()][0] ?? fallbackRunId ?? "", created, updated, skipped };
+}
+
+/** Rows in the range for one run, or for every run when `runId` is undefined. */
+export async function listMetricRows(runId: string | undefined, range: MetricRange = {}): Promise<MetricRow[]> {
+  const records = await metrics.list();
+  return records
+    .filter(
+      (row) =>
+        (!runId || row.runId === runId) &&
+        (!range.from || row.date >= range.from) &&
+        (!range.to || row.date <= range.to)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.channel ?? "").localeCompare(b.channel ?? ""));
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : null;
+}
+
+export function sumMetrics(rows: MetricRow[]): MetricTotals {
+  const sums = Object.fromEntries(
+    METRIC_FIELDS.map((field) => [field, rows.reduce((sum, row) => sum + row[field], 0)])
+  ) as MetricValues;
+  sums.spend = Math.round(sums.spend * 100) / 100;
+  sums.revenue = Math.round(sums.revenue * 100) / 100;
+
+  return {
+    ...sums,
+    roas: ratio(sums.revenue, sums.spend),
+    cpa: sums.conversions > 0 ? Math.round((sums.spend / sums.conversions) * 100) / 100 : null,
+    ctr: ratio(sums.clicks, sums.impressions),
+    conversionRate: ratio(sums.conversions, sums.clicks),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentionsWord(text: string, word: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(word)}\\b`, "i").test(text);
+}
+
+/** Whether task text refers to a channel such as `meta-ads`, by platform or by the channel's own words. */
+function mentionsChannel(text: string, channel: string): boolean {
+  const platform = platformFromText(channel.replace(/-/g, " "));
+  if (platform && platformFromText(text) === platform) return true;
+  return channel
+    .split(/[-_]/)
+    .filter((word) => word.length > 2 && word !== "ads")
+    .some((word) => mentionsWord(text, word));
+}
+
+export function countDays(from: string, to: string): number {
+  return Math.max(1, Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1);
+}
+
+/**
+ * Scores a run's task matrix against its performance rows. A task is scored on
+ * the rows reported for it plus the rows of the channels it names. A task that
+ * names no channel is scored on the whole run.
+ */
+export async function buildScorecard(
+  runId: string,
+  range: MetricRange = {},
+  workspaceId?: string
+): Promise<Scorecard> {
+  const run = await getRun(runId, workspaceId);
+  if (!run) throw new MetricsError("Run not found", 404);
+
+  const rows = await listMetricRows(runId, range);
+  const from = rows[0]?.date ?? null;
+  const to = rows.at(-1)?.date ?? null;
+  const days = range.from && range.to ? countDays(range.from, range.to) : from && to ? countDays(from, to) : 0;
+  const totals = sumMetrics(rows);
+
+  const channelNames = [...new Set(rows.flatMap((row) => (row.channel ? [row.channel] : [])))].sort();
+  const channels = channelNames.map((channel) => ({
+    channel,
+    totals: sumMetrics(rows.filter((row) => row.channel === channel)),
+  }));
+
+  const tasks: TaskScore[] = run.response.plan.taskMatrix.map((item, index) => {
+    const text = `${item.title} ${item.successMetric}`;
+    const named = channelNames.filter((channel) => mentionsChannel(text, channel));
+    const scoped = rows.filter(
+      (row) => row.taskIndex === index || (row.taskIndex === undefined && row.channel && named.includes(row.channel))
+    );
+    const runWide = scoped.length === 0 && !CHANNEL_WORDS.some((word) => mentionsWord(text, word));
+    const scopedTotals = runWide ? totals : sumMetrics(scoped);
+    const hasData = runWide ? rows.length > 0 : scoped.length > 0;
+
+    return {
+      index,
+      title: item.title,
+      successMetric: item.successMetric,
+      scope: runWide ? "run" : "task",
+      channels: named,
+      totals: scopedTotals,
+      targets: parseTargets(item.successMetric).map((target) =>
+        evaluateTarget(target, hasData ? scopedTotals : null, days)
+      ),
+    };
+  });
+
+  return { runId, from, to, days, totals, channels, tasks };
+}
+
+/** The run the scorecard defaults to: the latest live run, of one store when `workspaceId` is given. */
+export async function defaultScorecardRunId(workspaceId?: string): Promise<string> {
+  const runId = await latestRunId(workspaceId);
+  if (!runId) throw new MetricsError("No runs yet", 404);
+  return runId;
+}
@@ -0,0 +1,147 @@
+import type { MetricTarget, MetricTotals, TargetMetric, TargetPeriod, TargetResult } from "@/types/metrics";
+
+const NUMBER = String.raw`([$€£¥₹]?\s?\d[\d,]*(?:\.\d+)?\s?[kKmM]?)\b`;
+/** A ROAS such as `3`, `3x` or `300%`. */
+const MULTIPLE = String.raw`(\d+(?:\.\d+)?(?:\s?%|(?:\s?x)?\b))`;
+const PLAIN_NUMBER = String.raw`(?<![$€£¥₹]\s?)\b(\d[\d,]*(?:\.\d+)?[kK]?)`;
+const LEAD = String.raw`[^\d$€£¥₹.;]{0,24}?`;
+
+const PERIOD_DAYS: Record<TargetPeriod, number> = { day: 1, week: 7, month: 365 / 12 };
+
+/** Ratios are compared as they are; counts and amounts can be stated per period. */
+const RATIO_METRICS: TargetMetric[] = ["roas", "cpa", "ctr", "conversionRate"];
+
+interface TargetMatcher {
+  metric: TargetMetric;
+  direction: MetricTarget["direction"];
+  patterns: RegExp[];
+  percent?: boolean;
+}
+
+const MATCHERS: TargetMatcher[] = [
+  {
+    metric: "roas",
+    direction: "min",
+    patterns: [
+      new RegExp(String.raw`\b(?:roas|return on ad spend)\b${LEAD}${MULTIPLE}`, "i"),
+      new RegExp(String.raw`\b(\d+(?:\.\d+)?)\s?x\s+(?:roas|return on ad spend)`, "i"),
+    ],
+  },
+  {
+    metric: "cpa",
+    direction: "max",
+    patterns: [
+      new RegExp(String.raw`\b(?:cpa|cost per (?:acquisition|conversion|order|purchase))\b${LEAD}${NUMBER}`, "i"),
+    ],
+  },
+  {
+    metric: "ctr",
+    direction: "min",
+    percent: true,
+    patterns: [
+      new RegExp(String.raw`\b(?:ctr|click[- ]through(?: rate)?)\b${LEAD}${NUMBER}\s?%`, "i"),
+      new RegExp(String.raw`${NUMBER}\s?%\s+(?:ctr|click[- ]through)`, "i"),
+    ],
+  },
+  {
+    metric: "conversionRate",
+    direction: "min",
+    percent: true,
+    patterns: [
+      new RegExp(String.raw`\b(?:conversion rate|cvr)\b${LEAD}${NUMBER}\s?%`, "i"),
+      new RegExp(String.raw`${NUMBER}\s?%\s+(?:conversion rate|cvr)`, "i"),
+    ],
+  },
+  {
+    metric: "loyaltySignups",
+    direction: "min",
+    patterns: [
+      new RegExp(String.raw`${PLAIN_NUMBER}\s+(?:new\s+)?(?:loyalty\s+)?(?:sign[- ]?ups|members|enrol?ments)\b`, "i"),
+    ],
+  },
+  {
+    metric: "conversions",
+    direction: "min",
+    patterns: [new RegExp(String.raw`${PLAIN_NUMBER}\s+(?:new\s+)?(?:conversions|orders|purchases|sales)\b`, "i")],
+  },
+  {
+    metric: "revenue",
+    direction: "min",
+    patterns: [
+      new RegExp(String.raw`\b(?:revenue|sales)\b${LEAD}${NUMBER}`, "i"),
+      new RegExp(String.raw`([$€£¥₹]\s?\d[\d,]*(?:\.\d+)?\s?[kKmM]?)\b\s+(?:in\s+)?(?:revenue|sales)\b`, "i"),
+    ],
+  },
+  {
+    metric: "spend",
+    direction: "max",
+    patterns: [
+      new RegExp(String.raw`\b(?:spend|budget)\b\s+(?:under|below|within|at most|max(?:imum)?|≤|<=|<)\s*${NUMBER}`, "i"),
+    ],
+  },
+  {
+    metric: "clicks",
+    direction: "min",
+    patterns: [new RegExp(String.raw`${PLAIN_NUMBER}\s+(?:link\s+)?clicks\b`, "i")],
+  },
+  {
+    metric: "impressions",
+    direction: "min",
+    patterns: [new RegExp(String.raw`${PLAIN_NUMBER}\s+impressions\b`, "i")],
+  },
+];
+
+function parseAmount(raw: string): number {
+  const clean = raw.replace(/[$€£¥₹,%x\s]/gi, "");
+  const multiplier = /k$/i.test(clean) ? 1_000 : /m$/i.test(clean) ? 1_000_000 : 1;
+  return Number(clean.replace(/[kKmM]$/, "")) * multiplier;
+}
+
+function parsePeriod(text: string): TargetPeriod | undefined {
+  const match = text.match(/\b(?:per|a|each|every|\/)\s?(day|week|month)\b|\b(daily|weekly|monthly)\b/i);
+  if (!match) return undefined;
+  const word = (match[1] ?? match[2]).toLowerCase();
+  return word.startsWith("d") ? "day" : word.startsWith("w") ? "week" : "month";
+}
+
+/**
+ * Reads measurable goals from a success metric such as "ROAS ≥ 3 and CPA
+ * under $25" or "500 loyalty sign-ups per month". Each metric is read at most
+ * once; goals that cannot be measured from the ingested rows are ignored.
+ */
+export function parseTargets(successMetric: string): MetricTarget[] {
+  const period = parsePeriod(successMetric);
+  const targets: MetricTarget[] = [];
+
+  for (const matcher of MATCHERS) {
+    const match = matcher.patterns.map((pattern) => successMetric.match(pattern)).find(Boolean);
+    if (!match) continue;
+
+    const value = parseAmount(match[1]) / (matcher.percent || match[1].endsWith("%") ? 100 : 1);
+    if (!Number.isFinite(value) || value <= 0) continue;
+
+    targets.push({
+      metric: matcher.metric,
+      direction: matcher.direction,
+      value,
+      ...(period && !RATIO_METRICS.includes(matcher.metric) ? { per: period } : {}),
+      text: match[0].trim(),
+    });
+  }
+  return targets;
+}
+
+export function formatMetricValue(metric: TargetMetric, value: number): string {
+  if (metric === "ctr" || metric === "conversionRate") return `${(value * 100).toFixed(2)}%`;
+  if (metric === "roas") return `${value.toFixed(2)}x`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+export function evaluateTarget(target: MetricTarget, totals: MetricTotals | null, days: number): TargetResult {
+  const expected = target.per ? (target.value * days) / PERIOD_DAYS[target.per] : target.value;
+  const actual = totals ? totals[target.metric] : null;
+  if (actual === null) return { target, expected, actual, status: "no-data" };
+
+  const met = target.direction === "min" ? actual >= expected : actual <= expected;
+  return { target, expected, actual, status: met ? "on-track" : "off-track" };
+}
@@ -0,0 +1,130 @@
+import type { AgentOutput } from "@/types/agent";
+import type { DiffStatus, ListItemDiff, PlanDiff, TextDiffSegment } from "@/types/diff";
+
+const MAX_DIFF_TOKENS = 1500;
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Keys items by `keyOf`; repeats get their occurrence number, such as `title#2`, so none collapse. */
+function withKeys<T>(items: T[], keyOf: (item: T) => string): Array<[string, T]> {
+  const seen = new Map<string, number>();
+  return items.map((item) => {
+    const base = keyOf(item);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return [count === 1 ? base : `${base}#${count}`, item];
+  });
+}
+
+function diffList<T extends object>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string
+): Array<ListItemDiff<T>> {
+  const beforeKeyed = withKeys(before, keyOf);
+  const afterKeyed = withKeys(after, keyOf);
+  const beforeByKey = new Map(beforeKeyed);
+  const afterKeys = new Set(afterKeyed.map(([key]) => key));
+  const result: Array<ListItemDiff<T>> = [];
+
+  for (const [key, item] of afterKeyed) {
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      result.push({ key, status: "added", after: item, changedFields: [] });
+      continue;
+    }
+
+    const changedFields = (Object.keys(item) as Array<keyof T & string>).filter(
+      (field) => previous[field] !== item[field]
+    );
+    const status: DiffStatus = changedFields.length > 0 ? "changed" : "unchanged";
+    result.push({ key, status, before: previous, after: item, changedFields });
+  }
+
+  for (const [key, item] of beforeKeyed) {
+    if (!afterKeys.has(key)) {
+      result.push({ key, status: "removed", before: item, changedFields: [] });
+    }
+  }
+
+  return result;
+}
+
+function pushSegment(segments: TextDiffSegment[], type: TextDiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff via longest common subsequence. Texts longer than
+ * `MAX_DIFF_TOKENS` words are reported as a whole replacement.
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  if (before === after) return before ? [{ type: "equal", text: before }] : [];
+
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return [
+      { type: "removed", text: before },
+      { type: "added", text: after },
+    ];
+  }
+
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, "removed", a[i]);
+      i += 1;
+    } else {
+      pushSegment(segments, "added", b[j]);
+      j += 1;
+    }
+  }
+  for (; i < a.length; i++) pushSegment(segments, "removed", a[i]);
+  for (; j < b.length; j++) pushSegment(segments, "added", b[j]);
+
+  return segments;
+}
+
+function textSection(before: string, after: string) {
+  return { changed: before !== after, segments: diffText(before, after) };
+}
+
+export function diffPlans(before: AgentOutput, after: AgentOutput): PlanDiff {
+  return {
+    executiveSummary: textSection(before.executiveSummary, after.executiveSummary),
+    taskMatrix: diffList(before.taskMatrix, after.taskMatrix, (task) => normalize(task.title)),
+    automations: diffList(
+      before.automations,
+      after.automations,
+      (automation) => `${normalize(automation.trigger)} → ${normalize(automation.action)}`
+    ),
+    channelPlaybooks: diffList(before.channelPlaybooks, after.channelPlaybooks, (playbook) =>
+      normalize(playbook.channel)
+    ),
+    adStrategy: diffList(before.adStrategy, after.adStrategy, (ad) => normalize(ad.platform)),
+    seoPlan: textSection(before.seoPlan, after.seoPlan),
+    loyaltyPlan: textSection(before.loyaltyPlan, after.loyaltyPlan),
+  };
+}
@@ -0,0 +1,271 @@
+import { formatMoney } from "@/lib/format";
+import type { AgentOutput, ExportFormat } from "@/types/agent";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ics: { contentType: "text/calendar; charset=utf-8", extension: "ics" },
+};
+
+export interface ExportContext {
+  objective?: string;
+  generatedAt?: Date;
+  start?: Date;
+  uidPrefix?: string;
+  /** The store's loyalty program name, used in the loyalty heading. */
+  loyaltyProgramName?: string;
+  /** BCP 47 locale used to format amounts; defaults to the server locale. */
+  locale?: string;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+export function planToMarkdown(plan: AgentOutput, context: ExportContext = {}): string {
+  const lines: string[] = ["# StorePilot Growth Plan", ""];
+
+  if (context.objective) lines.push(`**Objective:** ${context.objective}`, "");
+  if (context.generatedAt) lines.push(`_Generated ${context.generatedAt.toISOString()}_`, "");
+
+  lines.push("## Executive Summary", "", plan.executiveSummary, "");
+
+  lines.push("## Task Matrix", "", "| Task | Owner | Cadence | Success metric |", "| --- | --- | --- | --- |");
+  for (const task of plan.taskMatrix) {
+    lines.push(
+      `| ${[task.title, task.owner, task.cadence, task.successMetric].map(markdownCell).join(" | ")} |`
+    );
+  }
+  lines.push("");
+
+  lines.push("## Automations", "");
+  for (const automation of plan.automations) {
+    lines.push(
+      `### ${automation.title}`,
+      "",
+      automation.description,
+      "",
+      `- **Trigger:** ${automation.trigger}`,
+      `- **Action:** ${automation.action}`,
+      ""
+    );
+  }
+
+  lines.push("## Channel Playbooks", "");
+  for (const playbook of plan.channelPlaybooks) {
+    lines.push(`### ${playbook.channel}`, "", playbook.content, "", `- **Cadence:** ${playbook.cadence}`, "");
+  }
+
+  lines.push("## Paid Media Strategy", "");
+  for (const ad of plan.adStrategy) {
+    lines.push(
+      `### ${ad.platform}`,
+      "",
+      `- **Audience:** ${ad.audience}`,
+      `- **Creatives:** ${ad.creatives}`,
+      `- **Budget:** ${ad.budgetNotes}`,
+      ""
+    );
+  }
+
+  if (plan.budgetAllocation) {
+    const { currency, lines: allocations, reporting } = plan.budgetAllocation;
+    const amount = (value: number) => formatMoney(value, currency, context.locale);
+    lines.push(
+      "## Budget Allocation",
+      "",
+      "| Platform | Channel | Share | Daily | Weekly | Monthly |",
+      "| --- | --- | --- | --- | --- | --- |",
+      ...allocations.map(
+        (line) =>
+          `| ${line.platform} | ${markdownCell(line.channel)} | ${Math.round(line.share * 100)}% | ${amount(line.daily)} | ${amount(line.weekly)} | ${amount(line.monthly)} |`
+      ),
+      `| **Total** | | | ${amount(plan.budgetAllocation.daily)} | ${amount(plan.budgetAllocation.weekly)} | ${amount(plan.budgetAllocation.monthly)} |`,
+      ""
+    );
+
+    if (reporting && reporting.currency !== currency) {
+      const converted = (value: number) => formatMoney(value, reporting.currency, context.locale);
+      lines.push(
+        `Reporting currency: ${converted(reporting.daily)} daily, ${converted(reporting.weekly)} weekly, ${converted(reporting.monthly)} monthly (rates as of ${reporting.asOf}).`,
+        ""
+      );
+    }
+
+    const flags = [
+      ...plan.budgetAllocation.warnings,
+      ...plan.budgetAllocation.noteChecks
+        .filter((check) => check.status === "contradiction")
+        .map((check) => `${check.platform}: ${check.message}`),
+    ];
+    if (flags.length > 0) lines.push(...flags.map((flag) => `> ${flag}`), "");
+  }
+
+  const loyaltyHeading = context.loyaltyProgramName ? `${context.loyaltyProgramName} Loyalty` : "Loyalty";
+  lines.push("## SU / SEO", "", plan.seoPlan, "", `## ${loyaltyHeading}`, "", plan.loyaltyPlan, "");
+
+  return lines.join("\n");
+}
+
+/**
+ * Quotes a cell for CSV. Model-written text that starts like a formula gets a
+ * leading `'`, so spreadsheets show it as text instead of evaluating it.
+ */
+function csvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function taskMatrixToCsv(plan: AgentOutput): string {
+  const rows = [
+    ["title", "owner", "cadence", "successMetric"],
+    ...plan.taskMatrix.map((task) => [task.title, task.owner, task.cadence, task.successMetric]),
+  ];
+  return `${rows.map((row) => row.map(csvField).join(",")).join("\r\n")}\r\n`;
+}
+
+const WEEKDAYS: Array<[RegExp, string]> = [
+  [/\bmon(day)?s?\b/, "MO"],
+  [/\btue(s|sday)?s?\b/, "TU"],
+  [/\bwed(nesday)?s?\b/, "WE"],
+  [/\bthu(r|rs|rsday)?s?\b/, "TH"],
+  [/\bfri(day)?s?\b/, "FR"],
+  [/\bsat(urday)?s?\b/, "SA"],
+  [/\bsun(day)?s?\b/, "SU"],
+];
+
+const SPREAD_DAYS: Record<number, string[]> = {
+  2: ["TU", "TH"],
+  3: ["MO", "WE", "FR"],
+  4: ["MO", "TU", "TH", "FR"],
+  5: ["MO", "TU", "WE", "TH", "FR"],
+};
+
+/**
+ * Translates free-text cadences such as "daily", "bi-weekly", "3x per week"
+ * or "Mon/Wed/Fri" into an RFC 5545 RRULE. Returns null when the text does
+ * not describe a recurrence.
+ */
+export function cadenceToRRule(cadence: string): string | null {
+  const text = cadence.toLowerCase();
+
+  if (/\bweekdays?\b/.test(text)) return "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR";
+  if (/\bweekends?\b/.test(text)) return "FREQ=WEEKLY;BYDAY=SA,SU";
+
+  const days = WEEKDAYS.filter(([pattern]) => pattern.test(text)).map(([, code]) => code);
+  if (days.length > 0) return `FREQ=WEEKLY;BYDAY=${days.join(",")}`;
+
+  const timesPerWeek = text.match(/(\d)\s*(?:x|times)\s*(?:a|per|\/)?\s*week/);
+  if (timesPerWeek && SPREAD_DAYS[Number(timesPerWeek[1])]) {
+    return `FREQ=WEEKLY;BYDAY=${SPREAD_DAYS[Number(timesPerWeek[1])].join(",")}`;
+  }
+
+  if (/\b(daily|every ?day|nightly)\b/.test(text)) return "FREQ=DAILY";
+  if (/\b(bi-?weekly|fortnightly|every (2|two|other) weeks?)\b/.test(text)) return "FREQ=WEEKLY;INTERVAL=2";
+  if (/\b(weekly|every week)\b/.test(text)) return "FREQ=WEEKLY";
+  if (/\bquarterly\b/.test(text)) return "FREQ=MONTHLY;INTERVAL=3";
+  if (/\b(monthly|every month)\b/.test(text)) return "FREQ=MONTHLY";
+
+  return null;
+}
+
+const ICS_DAY_INDEX: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+function firstOccurrence(start: Date, rrule: string | null): Date {
+  const byDay = rrule?.match(/BYDAY=([A-Z,]+)/)?.[1].split(",");
+  if (!byDay) return start;
+
+  const date = new Date(start);
+  for (let offset = 0; offset < 7; offset++) {
+    if (byDay.some((code) => ICS_DAY_INDEX[code] === date.getUTCDay())) return date;
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return start;
+}
+
+function icsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function icsTimestamp(date: Date): string {
+  return `${date.toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+const MAX_ICS_LINE_OCTETS = 75;
+const utf8 = new TextEncoder();
+
+/**
+ * Folds a content line so no physical line exceeds 75 UTF-8 octets (RFC 5545
+ * 3.1). Breaks fall between code points, so multi-byte characters and
+ * surrogate pairs stay whole; continuation lines spend one octet on the space.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8.encode(char).length;
+    if (octets + size > MAX_ICS_LINE_OCTETS) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+export function planToIcs(plan: AgentOutput, context: ExportContext = {}): string {
+  const start = context.start ?? new Date();
+  const stamp = icsTimestamp(context.generatedAt ?? new Date());
+  const uidPrefix = context.uidPrefix ?? icsTimestamp(start);
+
+  const items = [
+    ...plan.taskMatrix.map((task) => ({
+      summary: task.title,
+      cadence: task.cadence,
+      description: `Owner: ${task.owner}\nSuccess metric: ${task.successMetric}`,
+    })),
+    ...plan.channelPlaybooks.map((playbook) => ({
+      summary: `${playbook.channel} playbook`,
+      cadence: playbook.cadence,
+      description: playbook.content,
+    })),
+  ];
+
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//StorePilot//Agent Plan//EN", "CALSCALE:GREGORIAN"];
+
+  items.forEach((item, index) => {
+    const rrule = cadenceToRRule(item.cadence);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uidPrefix}-${index}@storepilot`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(firstOccurrence(start, rrule))}`,
+      `SUMMARY:${icsText(item.summary)}`,
+      `DESCRIPTION:${icsText(`${item.description}\nCadence: ${item.cadence}`)}`
+    );
+    if (rrule) lines.push(`RRULE:${rrule}`);
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+export function renderExport(format: ExportFormat, plan: AgentOutput, context: ExportContext = {}): string {
+  switch (format) {
+    case "markdown":
+      return planToMarkdown(plan, context);
+    case "csv":
+      return taskMatrixToCsv(plan);
+    case "ics":
+      return planToIcs(plan, context);
+  }
+}
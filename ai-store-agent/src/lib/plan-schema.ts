@@ -0,0 +1,209 @@
+import { z } from "zod";
+
+import { loyaltyRuleProposalSchema } from "@/lib/loyalty/schema";
+import type { AgentOutput, AgentSection } from "@/types/agent";
+
+export const agentOutputSchema = z.object({
+  executiveSummary: z.string(),
+  taskMatrix: z.array(
+    z.object({
+      title: z.string(),
+      owner: z.string(),
+      cadence: z.string(),
+      successMetric: z.string(),
+    })
+  ),
+  automations: z.array(
+    z.object({
+      title: z.string(),
+      description: z.string(),
+      trigger: z.string(),
+      action: z.string(),
+    })
+  ),
+  channelPlaybooks: z.array(
+    z.object({
+      channel: z.string(),
+      content: z.string(),
+      cadence: z.string(),
+    })
+  ),
+  adStrategy: z.array(
+    z.object({
+      platform: z.string(),
+      audience: z.string(),
+      creatives: z.string(),
+      budgetNotes: z.string(),
+    })
+  ),
+  seoPlan: z.string(),
+  loyaltyPlan: z.string(),
+});
+
+const budgetAmountsSchema = {
+  daily: z.number(),
+  weekly: z.number(),
+  monthly: z.number(),
+};
+
+export const budgetAllocationSchema = z.object({
+  currency: z.string(),
+  cadence: z.union([z.literal("daily"), z.literal("weekly"), z.literal("monthly")]),
+  amount: z.number(),
+  ...budgetAmountsSchema,
+  lines: z.array(
+    z.object({
+      platform: z.union([z.literal("meta"), z.literal("google")]),
+      channel: z.string(),
+      share: z.number(),
+      ...budgetAmountsSchema,
+    })
+  ),
+  warnings: z.array(z.string()),
+  noteChecks: z.array(
+    z.object({
+      platform: z.string(),
+      status: z.union([z.literal("consistent"), z.literal("contradiction"), z.literal("unverifiable")]),
+      message: z.string(),
+    })
+  ),
+  reporting: z
+    .object({
+      currency: z.string(),
+      rate: z.number(),
+      asOf: z.string(),
+      amount: z.number(),
+      ...budgetAmountsSchema,
+    })
+    .optional(),
+});
+
+/** A stored or exported plan: the model's sections plus server-computed fields. */
+export const planSchema = agentOutputSchema.extend({
+  budgetAllocation: budgetAllocationSchema.optional(),
+  catalogReferences: z
+    .array(
+      z.object({
+        sku: z.string(),
+        title: z.string(),
+        price: z.number(),
+        currency: z.string().optional(),
+        stock: z.number(),
+      })
+    )
+    .optional(),
+  loyaltyProposals: z.array(loyaltyRuleProposalSchema).optional(),
+});
+
+const arraySectionKeys = ["taskMatrix", "automations", "channelPlaybooks", "adStrategy"] as const;
+
+export type PlanParseResult =
+  | { success: true; plan: AgentOutput; repairs: string[] }
+  | { success: false; issues: string[]; repairs: string[] };
+
+function extractJsonObject(text: string): { json: string; start: number; end: number } | null {
+  const start = text.indexOf("{");
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return { json: text.slice(start, index + 1), start, end: index + 1 };
+      }
+    }
+  }
+
+  return null;
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.map(String).join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+/**
+ * Strips markdown fences and surrounding prose from a model reply and parses
+ * the JSON object inside, recording each repair that was needed.
+ */
+export function parseJsonReply(
+  outputText: string
+): { success: true; value: unknown; repairs: string[] } | { success: false; issue: string; repairs: string[] } {
+  const repairs: string[] = [];
+  let text = outputText.trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    text = fenced[1].trim();
+    repairs.push("Removed markdown code fences");
+  }
+
+  const extracted = extractJsonObject(text);
+  if (!extracted) {
+    return { success: false, issue: "Output does not contain a JSON object", repairs };
+  }
+  if (extracted.start > 0) repairs.push("Removed prose before the JSON object");
+  if (text.slice(extracted.end).trim()) repairs.push("Removed prose after the JSON object");
+
+  try {
+    return { success: true, value: JSON.parse(extracted.json), repairs };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, issue: `Output is not valid JSON: ${message}`, repairs };
+  }
+}
+
+export function parsePlanOutput(outputText: string): PlanParseResult {
+  const reply = parseJsonReply(outputText);
+  if (!reply.success) {
+    return { success: false, issues: [reply.issue], repairs: reply.repairs };
+  }
+
+  const { repairs } = reply;
+  const candidate = reply.value;
+
+  if (candidate && typeof candidate === "object" && !Array.isArray(candidate)) {
+    const record = candidate as Record<string, unknown>;
+    for (const key of arraySectionKeys) {
+      if (record[key] === undefined || record[key] === null) {
+        record[key] = [];
+        repairs.push(`Filled missing ${key} with an empty list`);
+      }
+    }
+  }
+
+  const result = agentOutputSchema.safeParse(candidate);
+  if (!result.success) {
+    return { success: false, issues: formatZodIssues(result.error), repairs };
+  }
+
+  return { success: true, plan: result.data, repairs };
+}
+
+export function parsePlanSection(section: AgentSection): AgentSection | null {
+  const result = agentOutputSchema.shape[section.key].safeParse(section.value);
+  return result.success ? section : null;
+}
+
+export function buildRepairPrompt(issues: string[]): string {
+  return [
+    "Your previous reply could not be used because it failed validation:",
+    ...issues.map((issue) => `- ${issue}`),
+    "Reply again with only the corrected JSON object, no markdown fences or commentary.",
+  ].join("\n");
+}
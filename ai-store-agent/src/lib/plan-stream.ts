@@ -0,0 +1,156 @@
+import type {
+  AgentOutput,
+  AgentResponse,
+  AgentSection,
+  AgentSectionKey,
+  AgentStreamEvent,
+} from "@/types/agent";
+
+export const AGENT_SECTION_ORDER: AgentSectionKey[] = [
+  "executiveSummary",
+  "taskMatrix",
+  "automations",
+  "channelPlaybooks",
+  "adStrategy",
+  "seoPlan",
+  "loyaltyPlan",
+];
+
+export const AGENT_STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+const sectionKeys = new Set<string>(AGENT_SECTION_ORDER);
+
+function toSection(key: string, value: unknown): AgentSection | null {
+  if (!sectionKeys.has(key)) return null;
+  return { key, value } as AgentSection;
+}
+
+export function splitPlanSections(plan: AgentOutput): AgentSection[] {
+  return AGENT_SECTION_ORDER.map((key) => ({ key, value: plan[key] }) as AgentSection);
+}
+
+/**
+ * Incrementally scans the model's JSON text and yields each top-level
+ * `AgentOutput` property as soon as its value is syntactically complete.
+ */
+export function createSectionExtractor() {
+  let buffer = "";
+  let cursor = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let keyStart = -1;
+  let currentKey: string | null = null;
+  let valueStart = -1;
+
+  const complete = (end: number, sections: AgentSection[]) => {
+    if (currentKey !== null && valueStart >= 0) {
+      try {
+        const section = toSection(currentKey, JSON.parse(buffer.slice(valueStart, end)));
+        if (section) sections.push(section);
+      } catch {
+        // Incomplete or malformed values are left for the final parse to report.
+      }
+    }
+    currentKey = null;
+    valueStart = -1;
+  };
+
+  return function push(chunk: string): AgentSection[] {
+    buffer += chunk;
+    const sections: AgentSection[] = [];
+
+    for (; cursor < buffer.length; cursor++) {
+      const char = buffer[cursor];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1 && keyStart >= 0) {
+            currentKey = JSON.parse(buffer.slice(keyStart, cursor + 1)) as string;
+            keyStart = -1;
+          } else if (depth === 1 && valueStart >= 0) {
+            complete(cursor + 1, sections);
+          }
+        }
+        continue;
+      }
+
+      if (depth === 0) {
+        if (char === "{") depth = 1;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        if (depth === 1 && currentKey === null) {
+          keyStart = cursor;
+        } else if (depth === 1 && valueStart < 0) {
+          valueStart = cursor;
+        }
+      } else if (char === "{" || char === "[") {
+        if (depth === 1 && valueStart < 0) valueStart = cursor;
+        depth += 1;
+      } else if (char === "}" || char === "]") {
+        depth -= 1;
+        if (depth === 1 && valueStart >= 0) {
+          complete(cursor + 1, sections);
+        } else if (depth === 0) {
+          complete(cursor, sections);
+        }
+      } else if (depth === 1 && char === ",") {
+        complete(cursor, sections);
+      } else if (depth === 1 && currentKey !== null && valueStart < 0 && !/[\s:]/.test(char)) {
+        valueStart = cursor;
+      }
+    }
+
+    return sections;
+  };
+}
+
+export function encodeStreamEvent(event: AgentStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/** Reads the run's events; `onReset` fires when a repair attempt replaces the sections received so far. */
+export async function readAgentStream(
+  body: ReadableStream<Uint8Array>,
+  onSection: (section: AgentSection) => void,
+  onReset: () => void
+): Promise<AgentResponse | null> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  let response: AgentResponse | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as AgentStreamEvent;
+    if (event.type === "done") {
+      response = event.response;
+    } else if (event.type === "reset") {
+      onReset();
+    } else {
+      onSection({ key: event.key, value: event.value } as AgentSection);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    pending += decoder.decode(value, { stream: !done });
+
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    lines.forEach(handleLine);
+
+    if (done) break;
+  }
+
+  handleLine(pending);
+  return response;
+}
@@ -0,0 +1,49 @@
+import { FOCUS_OPTIONS } from "@/lib/templates/options";
+import type { AgentBrief, CampaignBudget } from "@/types/agent";
+
+const OUTPUT_SHAPE = `{
+  "executiveSummary": string,
+  "taskMatrix": [{ "title": string, "owner": string, "cadence": string, "successMetric": string }],
+  "automations": [{ "title": string, "description": string, "trigger": string, "action": string }],
+  "channelPlaybooks": [{ "channel": string, "content": string, "cadence": string }],
+  "adStrategy": [{ "platform": string, "audience": string, "creatives": string, "budgetNotes": string }],
+  "seoPlan": string,
+  "loyaltyPlan": string
+}`;
+
+function describeBudget({ amount, currency, cadence, platform }: CampaignBudget): string {
+  const split =
+    platform && platform !== "both"
+      ? `Spend it all on ${platform === "meta" ? "Meta" : "Google"}.`
+      : "Split it between Meta and Google.";
+  return `Ad budget: ${amount} ${currency} ${cadence}. ${split} State each platform's amount or share in its budgetNotes.`;
+}
+
+/**
+ * Opening block of the brief message: who the agent is, the brief itself and
+ * the exact JSON shape `parsePlanOutput` validates. Store, catalog, inventory,
+ * support and performance context follow it.
+ */
+export function buildAgentPrompt(brief: AgentBrief, mediaTokens: string[]): string {
+  const focus = brief.focusAreas.map(
+    (value) => FOCUS_OPTIONS.find((option) => option.value === value)?.label ?? value
+  );
+
+  const lines = [
+    "You are StorePilot, an ecommerce operations agent. Turn the brief below into a plan the store team can run this week.",
+    "",
+    `Objective: ${brief.objective}`,
+    focus.length > 0 ? `Focus areas: ${focus.join(", ")}` : null,
+    brief.targetChannels.length > 0 ? `Target channels: ${brief.targetChannels.join(", ")}` : null,
+    brief.tasks.length > 0 ? `Tasks to cover:\n${brief.tasks.map((task) => `- ${task}`).join("\n")}` : null,
+    brief.tone ? `Tone: ${brief.tone}` : null,
+    brief.constraints ? `Constraints: ${brief.constraints}` : null,
+    brief.budget ? describeBudget(brief.budget) : null,
+    mediaTokens.length > 0 ? `Media:\n${mediaTokens.map((token) => `- ${token}`).join("\n")}` : null,
+    "",
+    "Reply with a single JSON object and nothing else: no markdown fences, no commentary. Use exactly these keys:",
+    OUTPUT_SHAPE,
+    "Every task needs an owner and a measurable success metric. Write loyaltyPlan as plain sentences with concrete numbers (multipliers, thresholds, expiry windows).",
+  ];
+  return lines.filter((line) => line !== null).join("\n");
+}
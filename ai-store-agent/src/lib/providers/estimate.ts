@@ -0,0 +1,28 @@
+import type { ModelMessage, ModelUsage } from "@/types/provider";
+
+const CHARS_PER_TOKEN = 4;
+/** OpenAI's cost for a 1024×1024 image at `auto` detail, used as a flat guess per image. */
+const TOKENS_PER_IMAGE = 765;
+
+/**
+ * Rough token counts, about four characters per token, for calls whose
+ * provider reports no usage: the mock provider and streams cut off early.
+ */
+export function estimateUsage(messages: ModelMessage[], output: string): ModelUsage {
+  let chars = 0;
+  let images = 0;
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      chars += message.content.length;
+      continue;
+    }
+    for (const part of message.content) {
+      if (part.type === "text") chars += part.text.length;
+      else images += 1;
+    }
+  }
+  return {
+    inputTokens: Math.ceil(chars / CHARS_PER_TOKEN) + images * TOKENS_PER_IMAGE,
+    outputTokens: Math.ceil(output.length / CHARS_PER_TOKEN),
+  };
+}
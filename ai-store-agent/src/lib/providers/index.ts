@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+import { createMockProvider } from "@/lib/providers/mock";
+import { createOpenAIChatProvider } from "@/lib/providers/openai-chat";
+import { createOpenAIResponsesProvider } from "@/lib/providers/openai-responses";
+import type { ModelProvider, ProviderId, ProviderSelection } from "@/types/provider";
+
+const PROVIDER_IDS: ProviderId[] = ["openai-responses", "openai-chat", "mock"];
+
+export const providerSelectionSchema = z.object({
+  id: z.union([z.literal("openai-responses"), z.literal("openai-chat"), z.literal("mock")]).optional(),
+  model: z.string().min(1).optional(),
+});
+
+const DEFAULT_PROVIDER: ProviderId = "openai-responses";
+const DEFAULT_MODEL = "gpt-4.1-mini";
+const DEFAULT_MAX_OUTPUT_TOKENS = 1400;
+
+function isProviderId(value: string | undefined): value is ProviderId {
+  return PROVIDER_IDS.includes(value as ProviderId);
+}
+
+/**
+ * Picks the provider for a run from the per-request selection, falling back to
+ * `AGENT_PROVIDER` / `AGENT_MODEL`. Returns null when the chosen provider has
+ * no credentials, so callers can serve the sample plan instead.
+ */
+export function resolveProvider(selection: ProviderSelection = {}): ModelProvider | null {
+  const envProvider = process.env.AGENT_PROVIDER;
+  const id = selection.id ?? (isProviderId(envProvider) ? envProvider : DEFAULT_PROVIDER);
+
+  if (id === "mock") {
+    return createMockProvider({ model: selection.model ?? "mock" });
+  }
+
+  const baseURL = process.env.OPENAI_BASE_URL || undefined;
+  // Local OpenAI-compatible servers (llama.cpp, Ollama) accept any key.
+  const apiKey = process.env.OPENAI_API_KEY || (baseURL ? "local" : undefined);
+  if (!apiKey) return null;
+
+  const config = {
+    model: selection.model ?? process.env.AGENT_MODEL ?? DEFAULT_MODEL,
+    apiKey,
+    baseURL,
+    maxOutputTokens: Number(process.env.AGENT_MAX_OUTPUT_TOKENS) || DEFAULT_MAX_OUTPUT_TOKENS,
+  };
+
+  return id === "openai-chat"
+    ? createOpenAIChatProvider(config)
+    : createOpenAIResponsesProvider(config);
+}
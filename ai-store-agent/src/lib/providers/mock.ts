@@ -0,0 +1,31 @@
+import { estimateUsage } from "@/lib/providers/estimate";
+import { SAMPLE_AGENT_RESPONSE } from "@/lib/sample-plan";
+import type { ModelProvider, ModelRequest, ProviderConfig } from "@/types/provider";
+
+const CHUNK_SIZE = 48;
+/**
+ * Offline provider that always answers with the sample blueprint, so the
+ * agent route can be exercised end to end without network access.
+ */
+export function createMockProvider(config: Pick<ProviderConfig, "model">): ModelProvider {
+  const output = JSON.stringify(SAMPLE_AGENT_RESPONSE.plan);
+
+  return {
+    id: "mock",
+    model: config.model,
+
+    async complete({ messages, signal, onUsage }: ModelRequest) {
+      signal?.throwIfAborted();
+      onUsage?.(estimateUsage(messages, output));
+      return output;
+    },
+
+    async *stream({ messages, signal, onUsage }: ModelRequest) {
+      for (let index = 0; index < output.length; index += CHUNK_SIZE) {
+        signal?.throwIfAborted();
+        yield output.slice(index, index + CHUNK_SIZE);
+      }
+      onUsage?.(estimateUsage(messages, output));
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import OpenAI from "openai";
+
+import type { ModelMessage, ModelProvider, ModelRequest, ProviderConfig } from "@/types/provider";
+
+function toChatMessages(messages: ModelMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message) => {
+    if (typeof message.content === "string") {
+      return { role: message.role, content: message.content };
+    }
+
+    if (message.role === "assistant") {
+      return {
+        role: "assistant",
+        content: message.content.map((part) => (part.type === "text" ? part.text : "")).join(""),
+      };
+    }
+
+    return {
+      role: "user",
+      content: message.content.map((part) =>
+        part.type === "text"
+          ? { type: "text" as const, text: part.text }
+          : { type: "image_url" as const, image_url: { url: part.dataUrl } }
+      ),
+    };
+  });
+}
+
+export function createOpenAIChatProvider(config: ProviderConfig): ModelProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+
+  return {
+    id: "openai-chat",
+    model: config.model,
+
+    async complete({ messages, signal, onUsage }: ModelRequest) {
+      const completion = await client.chat.completions.create(
+        {
+          model: config.model,
+          messages: toChatMessages(messages),
+          max_tokens: config.maxOutputTokens,
+        },
+        { signal }
+      );
+      if (completion.usage) {
+        onUsage?.({ inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens });
+      }
+      return completion.choices[0]?.message.content ?? "";
+    },
+
+    async *stream({ messages, signal, onUsage }: ModelRequest) {
+      const stream = await client.chat.completions.create(
+        {
+          model: config.model,
+          messages: toChatMessages(messages),
+          max_tokens: config.maxOutputTokens,
+          stream: true,
+          // The final chunk then carries the token counts, with no choices.
+          stream_options: { include_usage: true },
+        },
+        { signal }
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta.content;
+        if (delta) yield delta;
+        if (chunk.usage) {
+          onUsage?.({ inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens });
+        }
+      }
+    },
+  };
+}
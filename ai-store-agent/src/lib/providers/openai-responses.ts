@@ -0,0 +1,62 @@
+import OpenAI from "openai";
+
+import type { ModelMessage, ModelProvider, ModelRequest, ProviderConfig } from "@/types/provider";
+
+function toResponsesInput(messages: ModelMessage[]): OpenAI.Responses.ResponseInput {
+  return messages.map((message) => ({
+    role: message.role,
+    content:
+      typeof message.content === "string"
+        ? message.content
+        : message.content.map((part) =>
+            part.type === "text"
+              ? { type: "input_text" as const, text: part.text }
+              : { type: "input_image" as const, image_url: part.dataUrl, detail: "auto" as const }
+          ),
+  }));
+}
+
+export function createOpenAIResponsesProvider(config: ProviderConfig): ModelProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+
+  return {
+    id: "openai-responses",
+    model: config.model,
+
+    async complete({ messages, signal, onUsage }: ModelRequest) {
+      const response = await client.responses.create(
+        {
+          model: config.model,
+          input: toResponsesInput(messages),
+          max_output_tokens: config.maxOutputTokens,
+        },
+        { signal }
+      );
+      if (response.usage) {
+        onUsage?.({ inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens });
+      }
+      return response.output_text;
+    },
+
+    async *stream({ messages, signal, onUsage }: ModelRequest) {
+      const stream = await client.responses.create(
+        {
+          model: config.model,
+          input: toResponsesInput(messages),
+          max_output_tokens: config.maxOutputTokens,
+          stream: true,
+        },
+        { signal }
+      );
+
+      for await (const event of stream) {
+        if (event.type === "response.output_text.delta") yield event.delta;
+        // Truncated replies end with `response.incomplete`, which still reports usage.
+        if ((event.type === "response.completed" || event.type === "response.incomplete") && event.response.usage) {
+          const { usage } = event.response;
+          onUsage?.({ inputTokens: usage.input_tokens, outputTokens: usage.output_tokens });
+        }
+      }
+    },
+  };
+}
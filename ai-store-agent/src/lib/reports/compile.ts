@@ -0,0 +1,186 @@
+import { listApprovals } from "@/lib/approvals";
+import { listExecutions } from "@/lib/automation/rules";
+import { buildScorecard, countDays, listMetricRows, sumMetrics } from "@/lib/metrics/store";
+import { formatMetricValue } from "@/lib/metrics/targets";
+import { listRuns } from "@/lib/runs";
+import type { MetricTotals, TargetMetric } from "@/types/metrics";
+import type { GrowthReport, ReportActivity, ReportKpi } from "@/types/reports";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The execution log keeps at most this many entries, so reading them all is cheap. */
+const EXECUTION_LIMIT = 1000;
+
+/** A KPI has to move by this much before it counts as a win or a miss. */
+const NOTABLE_CHANGE = 0.1;
+
+/** Next actions listed per report; the most pressing come first. */
+const MAX_NEXT_ACTIONS = 8;
+
+export type CompiledReport = Omit<GrowthReport, "id" | "trigger" | "narrative" | "generatedAt">;
+
+export interface ReportRange {
+  /** YYYY-MM-DD, inclusive. */
+  from: string;
+  to: string;
+}
+
+const KPI_DEFINITIONS: Array<{ metric: TargetMetric; label: string; unit: ReportKpi["unit"]; better: "up" | "down" }> = [
+  { metric: "revenue", label: "Revenue", unit: "amount", better: "up" },
+  { metric: "spend", label: "Ad spend", unit: "amount", better: "down" },
+  { metric: "roas", label: "ROAS", unit: "ratio", better: "up" },
+  { metric: "cpa", label: "CPA", unit: "amount", better: "down" },
+  { metric: "conversions", label: "Conversions", unit: "count", better: "up" },
+  { metric: "ctr", label: "CTR", unit: "percent", better: "up" },
+  { metric: "conversionRate", label: "Conversion rate", unit: "percent", better: "up" },
+  { metric: "loyaltySignups", label: "Loyalty sign-ups", unit: "count", better: "up" },
+];
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** The seven full days before `now`, which is what a weekly report covers. */
+export function lastWeek(now = new Date()): ReportRange {
+  const to = shiftDate(now.toISOString().slice(0, 10), -1);
+  return { from: shiftDate(to, -6), to };
+}
+
+function previousRange({ from, to }: ReportRange): ReportRange {
+  const days = countDays(from, to);
+  const previousTo = shiftDate(from, -1);
+  return { from: shiftDate(previousTo, -(days - 1)), to: previousTo };
+}
+
+function change(value: number | null, previous: number | null): number | null {
+  if (value === null || previous === null || previous === 0) return null;
+  return Math.round(((value - previous) / previous) * 1000) / 1000;
+}
+
+function percent(value: number): string {
+  return `${Math.round(Math.abs(value) * 100)}%`;
+}
+
+function buildKpis(totals: MetricTotals, previous: MetricTotals, hasPrevious: boolean): ReportKpi[] {
+  return KPI_DEFINITIONS.map(({ metric, label, unit }) => {
+    const before = hasPrevious ? previous[metric] : null;
+    return { label, value: totals[metric], previous: before, change: change(totals[metric], before), unit };
+  });
+}
+
+/**
+ * Gathers what happened between `from` and `to`: the runs started, approvals
+ * decided, automations executed and the performance rows ingested, with each
+ * scored run's targets turned into wins, misses and next actions. Reports are
+ * team-wide, so this covers every store.
+ */
+export async function compileReport(range: ReportRange): Promise<CompiledReport> {
+  const within = (iso: string | undefined) => !!iso && iso.slice(0, 10) >= range.from && iso.slice(0, 10) <= range.to;
+
+  const [runs, approvals, executions, rows, previousRows] = await Promise.all([
+    listRuns(),
+    listApprovals(),
+    listExecutions({ limit: EXECUTION_LIMIT }),
+    listMetricRows(undefined, range),
+    listMetricRows(undefined, previousRange(range)),
+  ]);
+
+  const periodRuns = runs.filter((run) => within(run.createdAt));
+  const periodExecutions = executions.filter((execution) => within(execution.startedAt));
+  const liveExecutions = periodExecutions.filter((execution) => !execution.dryRun);
+
+  const activity: ReportActivity = {
+    runs: periodRuns.filter((run) => !run.usedSample).length,
+    sampleRuns: periodRuns.filter((run) => run.usedSample).length,
+    approvals: {
+      requested: approvals.filter((approval) => within(approval.createdAt)).length,
+      approved: approvals.filter((approval) => approval.status === "approved" && within(approval.decidedAt)).length,
+      rejected: approvals.filter((approval) => approval.status === "rejected" && within(approval.decidedAt)).length,
+      pending: approvals.filter((approval) => approval.status === "pending").length,
+    },
+    automations: {
+      succeeded: liveExecutions.filter((execution) => execution.status === "succeeded").length,
+      failed: liveExecutions.filter((execution) => execution.status === "failed").length,
+      awaitingApproval: liveExecutions.filter((execution) => execution.status === "awaiting-approval").length,
+      dryRun: periodExecutions.length - liveExecutions.length,
+    },
+  };
+
+  const totals = sumMetrics(rows);
+  const kpis = buildKpis(totals, sumMetrics(previousRows), previousRows.length > 0);
+
+  const wins: string[] = [];
+  const misses: string[] = [];
+  const nextActions: string[] = [];
+
+  for (const [index, kpi] of kpis.entries()) {
+    if (kpi.change === null || Math.abs(kpi.change) < NOTABLE_CHANGE) continue;
+    const improved = (kpi.change > 0) === (KPI_DEFINITIONS[index].better === "up");
+    const text = `${kpi.label} ${kpi.change > 0 ? "up" : "down"} ${percent(kpi.change)} on the previous period`;
+    (improved ? wins : misses).push(text);
+  }
+
+  const scoredRunIds = [...new Set(rows.map((row) => row.runId))];
+  for (const runId of scoredRunIds) {
+    const scorecard = await buildScorecard(runId, range).catch(() => null);
+    if (!scorecard) continue;
+
+    for (const task of scorecard.tasks) {
+      for (const result of task.targets) {
+        if (result.actual === null) continue;
+        const { metric, direction } = result.target;
+        const goal = `${direction === "min" ? "≥" : "≤"} ${formatMetricValue(metric, result.expected)}`;
+        const detail = `${formatMetricValue(metric, result.actual)} against ${goal}`;
+        if (result.status === "on-track") {
+          wins.push(`${task.title}: ${metric} ${detail}`);
+        } else {
+          misses.push(`${task.title}: ${metric} ${detail}`);
+          nextActions.push(`Rework "${task.title}" or re-plan run ${runId.slice(0, 8)} with actuals (${result.target.text}).`);
+        }
+      }
+    }
+  }
+
+  if (activity.automations.succeeded > 0) {
+    wins.push(`${activity.automations.succeeded} automation action${activity.automations.succeeded === 1 ? "" : "s"} ran`);
+  }
+
+  const failedRules = [
+    ...new Set(
+      liveExecutions.filter((execution) => execution.status === "failed").map((execution) => execution.ruleTitle)
+    ),
+  ];
+  if (failedRules.length > 0) {
+    misses.push(`${activity.automations.failed} automation run${activity.automations.failed === 1 ? "" : "s"} failed`);
+    nextActions.push(...failedRules.map((title) => `Check why the "${title}" automation is failing.`));
+  }
+
+  if (activity.approvals.rejected > 0) {
+    misses.push(`${activity.approvals.rejected} approval request${activity.approvals.rejected === 1 ? " was" : "s were"} rejected`);
+  }
+  if (activity.approvals.pending > 0) {
+    nextActions.push(
+      `Review ${activity.approvals.pending} pending approval${activity.approvals.pending === 1 ? "" : "s"} in the queue.`
+    );
+  }
+  if (rows.length === 0) {
+    nextActions.push("Upload this period's performance metrics so plans can be scored against their success metrics.");
+  }
+  if (activity.runs === 0) {
+    nextActions.push("Run the agent with this week's priorities to refresh the plan.");
+  }
+
+  return {
+    from: range.from,
+    to: range.to,
+    totals,
+    kpis,
+    activity,
+    runs: periodRuns
+      .filter((run) => !run.usedSample)
+      .map((run) => ({ id: run.id, objective: run.objective, createdAt: run.createdAt })),
+    wins,
+    misses,
+    nextActions: [...new Set(nextActions)].slice(0, MAX_NEXT_ACTIONS),
+  };
+}
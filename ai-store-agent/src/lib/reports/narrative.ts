@@ -0,0 +1,81 @@
+import { resolveProvider } from "@/lib/providers";
+import type { CompiledReport } from "@/lib/reports/compile";
+import { formatKpiChange, formatKpiValue } from "@/lib/reports/render";
+import { meterProvider } from "@/lib/usage/meter";
+import type { ProviderSelection } from "@/types/provider";
+import type { ReportKpi, ReportNarrative } from "@/types/reports";
+import type { UsageScope } from "@/types/usage";
+
+const MAX_NARRATIVE_LENGTH = 2000;
+
+interface NarrativeOptions {
+  provider?: ProviderSelection;
+  usage?: UsageScope;
+  signal?: AbortSignal;
+}
+
+function describeKpi(kpi: ReportKpi): string {
+  if (kpi.value === null) return `${kpi.label}: no data`;
+  const value = formatKpiValue(kpi, kpi.value);
+  if (kpi.change === null) return `${kpi.label}: ${value}`;
+  return `${kpi.label}: ${value} (${formatKpiChange(kpi.change)} on the previous period)`;
+}
+
+function describeReport(report: CompiledReport): string {
+  const { runs, approvals, automations } = report.activity;
+  return [
+    `Period: ${report.from} to ${report.to}`,
+    "KPIs:",
+    ...report.kpis.map((kpi) => `- ${describeKpi(kpi)}`),
+    `Activity: ${runs} agent runs, ${approvals.approved} approvals granted, ${approvals.rejected} rejected, ` +
+      `${approvals.pending} pending, ${automations.succeeded} automation actions ran, ${automations.failed} failed.`,
+    "Wins:",
+    ...(report.wins.length > 0 ? report.wins.map((win) => `- ${win}`) : ["- none recorded"]),
+    "Misses:",
+    ...(report.misses.length > 0 ? report.misses.map((miss) => `- ${miss}`) : ["- none recorded"]),
+    "Next actions:",
+    ...report.nextActions.map((action) => `- ${action}`),
+  ].join("\n");
+}
+
+/** A plain summary used when no provider is configured or the model call fails. */
+export function heuristicNarrative(report: CompiledReport): ReportNarrative {
+  const revenue = report.kpis.find((kpi) => kpi.label === "Revenue");
+  const sentences = [
+    revenue?.value
+      ? `Between ${report.from} and ${report.to} the store recorded ${formatKpiValue(revenue, revenue.value)} in tracked revenue.`
+      : `No performance metrics were ingested between ${report.from} and ${report.to}.`,
+    `${report.wins.length} win${report.wins.length === 1 ? "" : "s"} and ${report.misses.length} miss${report.misses.length === 1 ? "" : "es"} stood out.`,
+  ];
+  if (report.wins[0]) sentences.push(`The strongest result: ${report.wins[0]}.`);
+  if (report.misses[0]) sentences.push(`The main concern: ${report.misses[0]}.`);
+  if (report.nextActions[0]) sentences.push(`First priority next week: ${report.nextActions[0]}`);
+  return { text: sentences.join(" "), source: "heuristic" };
+}
+
+/**
+ * Asks the configured provider for a short narrative on top of the compiled
+ * numbers. Falls back to a templated summary when no provider is available or
+ * the reply is empty.
+ */
+export async function writeNarrative(report: CompiledReport, options: NarrativeOptions = {}): Promise<ReportNarrative> {
+  const provider = meterProvider(resolveProvider(options.provider), "report", options.usage);
+  if (!provider) return heuristicNarrative(report);
+
+  const prompt = [
+    "You write the weekly growth report for an online store's team.",
+    describeReport(report),
+    "Write three short paragraphs of plain text with no headings, lists or Markdown: what happened, why it matters, and what to focus on next week.",
+    "Only use the numbers above and do not invent results.",
+  ].join("\n\n");
+
+  try {
+    const reply = await provider.complete({ messages: [{ role: "user", content: prompt }], signal: options.signal });
+    const text = reply.trim();
+    if (text) return { text: text.slice(0, MAX_NARRATIVE_LENGTH), source: "model" };
+    console.warn("Report narrative reply was empty");
+  } catch (error) {
+    console.error("Report narrative failure", error);
+  }
+  return heuristicNarrative(report);
+}
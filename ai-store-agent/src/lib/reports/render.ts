@@ -0,0 +1,143 @@
+import type { GrowthReport, ReportFormat, ReportKpi } from "@/types/reports";
+
+export const REPORT_FORMATS: Record<ReportFormat, { contentType: string; extension: string }> = {
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+};
+
+export function formatKpiValue(kpi: Pick<ReportKpi, "unit">, value: number | null): string {
+  if (value === null) return "—";
+  switch (kpi.unit) {
+    case "percent":
+      return `${(value * 100).toFixed(2)}%`;
+    case "ratio":
+      return `${value.toFixed(2)}x`;
+    case "amount":
+      return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    default:
+      return value.toLocaleString("en-US");
+  }
+}
+
+export function formatKpiChange(change: number | null): string {
+  if (change === null) return "—";
+  return `${change > 0 ? "+" : ""}${Math.round(change * 100)}%`;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function activityLines(report: GrowthReport): string[] {
+  const { runs, sampleRuns, approvals, automations } = report.activity;
+  return [
+    `Agent runs: ${runs}${sampleRuns > 0 ? ` (plus ${sampleRuns} sample)` : ""}`,
+    `Approvals: ${approvals.requested} requested, ${approvals.approved} approved, ${approvals.rejected} rejected, ${approvals.pending} pending`,
+    `Automations: ${automations.succeeded} succeeded, ${automations.failed} failed, ${automations.awaitingApproval} awaiting approval, ${automations.dryRun} dry runs`,
+  ];
+}
+
+export function reportToMarkdown(report: GrowthReport): string {
+  const list = (items: string[], empty: string) => (items.length > 0 ? items.map((item) => `- ${item}`) : [`_${empty}_`]);
+
+  return [
+    `# Growth Report: ${report.from} to ${report.to}`,
+    "",
+    `_Generated ${report.generatedAt}_`,
+    "",
+    "## Summary",
+    "",
+    report.narrative.text,
+    "",
+    "## KPIs",
+    "",
+    "| KPI | This period | Previous period | Change |",
+    "| --- | --- | --- | --- |",
+    ...report.kpis.map(
+      (kpi) =>
+        `| ${markdownCell(kpi.label)} | ${formatKpiValue(kpi, kpi.value)} | ${formatKpiValue(kpi, kpi.previous)} | ${formatKpiChange(kpi.change)} |`
+    ),
+    "",
+    "## Activity",
+    "",
+    ...activityLines(report).map((line) => `- ${line}`),
+    ...report.runs.map((run) => `  - Run ${run.id.slice(0, 8)}: ${run.objective}`),
+    "",
+    "## Wins",
+    "",
+    ...list(report.wins, "No wins recorded."),
+    "",
+    "## Misses",
+    "",
+    ...list(report.misses, "No misses recorded."),
+    "",
+    "## Next Actions",
+    "",
+    ...list(report.nextActions, "Nothing outstanding."),
+    "",
+  ].join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function reportToHtml(report: GrowthReport): string {
+  const title = `Growth Report: ${report.from} to ${report.to}`;
+  const list = (items: string[], empty: string) =>
+    items.length > 0
+      ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`
+      : `<p><em>${escapeHtml(empty)}</em></p>`;
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border-bottom: 1px solid #e2e8f0; padding: 0.4rem 0.6rem; text-align: left; }
+.muted { color: #64748b; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">Generated ${escapeHtml(report.generatedAt)}</p>
+<h2>Summary</h2>
+${report.narrative.text
+  .split(/\n{2,}/)
+  .map((paragraph) => `<p>${escapeHtml(paragraph.trim())}</p>`)
+  .join("\n")}
+<h2>KPIs</h2>
+<table>
+<thead><tr><th>KPI</th><th>This period</th><th>Previous period</th><th>Change</th></tr></thead>
+<tbody>
+${report.kpis
+  .map(
+    (kpi) =>
+      `<tr><td>${escapeHtml(kpi.label)}</td><td>${formatKpiValue(kpi, kpi.value)}</td><td>${formatKpiValue(kpi, kpi.previous)}</td><td>${formatKpiChange(kpi.change)}</td></tr>`
+  )
+  .join("\n")}
+</tbody>
+</table>
+<h2>Activity</h2>
+${list(activityLines(report), "")}
+<h2>Wins</h2>
+${list(report.wins, "No wins recorded.")}
+<h2>Misses</h2>
+${list(report.misses, "No misses recorded.")}
+<h2>Next Actions</h2>
+${list(report.nextActions, "Nothing outstanding.")}
+</body>
+</html>
+`;
+}
+
+export function renderReport(format: ReportFormat, report: GrowthReport): string {
+  return format === "html" ? reportToHtml(report) : reportToMarkdown(report);
+}
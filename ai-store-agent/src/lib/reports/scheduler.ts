@@ -0,0 +1,27 @@
+import { runDueReport } from "@/lib/reports/store";
+
+const TICK_MS = 5 * 60_000;
+
+const globalScheduler = globalThis as typeof globalThis & { storePilotReportScheduler?: NodeJS.Timeout };
+
+/**
+ * Checks the weekly report schedule every few minutes for the lifetime of the
+ * server process. Set `REPORT_SCHEDULER=off` when an external cron calls
+ * `POST /api/reports/schedule` instead.
+ */
+export function startReportScheduler(): void {
+  if (process.env.REPORT_SCHEDULER === "off" || globalScheduler.storePilotReportScheduler) return;
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runDueReport()
+      .catch((error) => console.error("Report scheduler tick failed", error))
+      .finally(() => {
+        running = false;
+      });
+  }, TICK_MS);
+  timer.unref();
+  globalScheduler.storePilotReportScheduler = timer;
+}
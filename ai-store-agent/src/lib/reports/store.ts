@@ -0,0 +1,99 @@
+import { compileReport, lastWeek, type ReportRange } from "@/lib/reports/compile";
+import { writeNarrative } from "@/lib/reports/narrative";
+import { createCollection } from "@/lib/storage";
+import type { ProviderSelection } from "@/types/provider";
+import type { GrowthReport, ReportSchedule, ReportTrigger } from "@/types/reports";
+import type { UsageScope } from "@/types/usage";
+
+export const DEFAULT_REPORT_SCHEDULE: ReportSchedule = { enabled: false, weekday: 1, hour: 8 };
+
+const MAX_REPORTS = 200;
+const SETTINGS_ID = "default";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reports = createCollection<GrowthReport>("reports");
+const scheduleStore = createCollection<{ id: string; schedule: ReportSchedule }>("report-schedule");
+
+export class ReportError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ReportError";
+  }
+}
+
+export interface GenerateOptions {
+  trigger?: ReportTrigger;
+  provider?: ProviderSelection;
+  /** Who the narrative's model call is billed to; scheduled reports have no user. */
+  usage?: UsageScope;
+  now?: Date;
+}
+
+/** Compiles and stores a report for `range`, or for the last seven full days. */
+export async function generateReport(range?: ReportRange, options: GenerateOptions = {}): Promise<GrowthReport> {
+  const period = range ?? lastWeek(options.now);
+  if (period.from > period.to) throw new ReportError("The report range starts after it ends", 400);
+
+  const compiled = await compileReport(period);
+  const narrative = await writeNarrative(compiled, { provider: options.provider, usage: options.usage });
+  const report: GrowthReport = {
+    id: crypto.randomUUID(),
+    ...compiled,
+    trigger: options.trigger ?? "manual",
+    narrative,
+    generatedAt: (options.now ?? new Date()).toISOString(),
+  };
+
+  await reports.insert(report);
+  await reports.prune(MAX_REPORTS);
+  return report;
+}
+
+export async function listReports(): Promise<GrowthReport[]> {
+  const records = await reports.list();
+  return records.sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+}
+
+export function getReport(id: string): Promise<GrowthReport | null> {
+  return reports.get(id);
+}
+
+export function deleteReport(id: string): Promise<boolean> {
+  return reports.remove(id);
+}
+
+export async function getReportSchedule(): Promise<ReportSchedule> {
+  return (await scheduleStore.get(SETTINGS_ID))?.schedule ?? DEFAULT_REPORT_SCHEDULE;
+}
+
+export async function saveReportSchedule(change: Omit<ReportSchedule, "lastRunAt" | "updatedAt">): Promise<ReportSchedule> {
+  const current = await getReportSchedule();
+  const saved: ReportSchedule = { ...current, ...change, updatedAt: new Date().toISOString() };
+  await scheduleStore.upsertMany([{ id: SETTINGS_ID, schedule: saved }]);
+  return saved;
+}
+
+/** The most recent weekday-and-hour slot at or before `now`. */
+function latestSlot(schedule: ReportSchedule, now: Date): Date {
+  const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), schedule.hour));
+  const daysBack = (now.getUTCDay() - schedule.weekday + 7) % 7;
+  slot.setTime(slot.getTime() - daysBack * DAY_MS);
+  if (slot > now) slot.setTime(slot.getTime() - 7 * DAY_MS);
+  return slot;
+}
+
+/**
+ * Generates the weekly report when the schedule is on and its slot has passed
+ * since the last scheduled report. A missed slot is caught up once.
+ */
+export async function runDueReport(now = new Date()): Promise<GrowthReport | null> {
+  const schedule = await getReportSchedule();
+  if (!schedule.enabled) return null;
+
+  const slot = latestSlot(schedule, now);
+  const last = Date.parse(schedule.lastRunAt ?? schedule.updatedAt ?? "");
+  if (Number.isFinite(last) && last >= slot.getTime()) return null;
+
+  await scheduleStore.upsertMany([{ id: SETTINGS_ID, schedule: { ...schedule, lastRunAt: now.toISOString() } }]);
+  return generateReport(undefined, { trigger: "schedule", now });
+}
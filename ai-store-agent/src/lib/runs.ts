@@ -0,0 +1,66 @@
+import { createCollection } from "@/lib/storage";
+import { DEFAULT_WORKSPACE_ID, inWorkspace } from "@/lib/workspaces/scope";
+import type { AgentBrief, AgentResponse } from "@/types/agent";
+import type { UserRef } from "@/types/auth";
+import type { AgentRunRecord, AgentRunSummary } from "@/types/runs";
+
+const runs = createCollection<AgentRunRecord>("runs");
+
+export function summarizeRun(run: AgentRunRecord): AgentRunSummary {
+  return {
+    id: run.id,
+    objective: run.brief.objective,
+    focusAreas: run.brief.focusAreas,
+    usedSample: run.usedSample,
+    createdBy: run.createdBy,
+    createdAt: run.createdAt,
+    completedAt: run.completedAt,
+  };
+}
+
+/** Runs of one store, or of every store when `workspaceId` is undefined. */
+export async function listRuns(workspaceId?: string): Promise<AgentRunSummary[]> {
+  const records = await runs.list();
+  return records
+    .filter((run) => !workspaceId || inWorkspace(run, workspaceId))
+    .map(summarizeRun)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Looks up a run; with a `workspaceId`, runs of other stores are treated as missing. */
+export async function getRun(id: string, workspaceId?: string): Promise<AgentRunRecord | null> {
+  const run = await runs.get(id);
+  return run && (!workspaceId || inWorkspace(run, workspaceId)) ? run : null;
+}
+
+export function deleteRun(id: string): Promise<boolean> {
+  return runs.remove(id);
+}
+
+export async function saveRun(
+  brief: AgentBrief,
+  response: AgentResponse,
+  createdAt: Date,
+  workspaceId = DEFAULT_WORKSPACE_ID,
+  createdBy?: UserRef
+): Promise<AgentRunRecord> {
+  const id = crypto.randomUUID();
+
+  return runs.insert({
+    id,
+    workspaceId,
+    createdBy,
+    brief,
+    response: { ...response, runId: id },
+    usedSample: response.usedSample,
+    createdAt: createdAt.toISOString(),
+    completedAt: new Date().toISOString(),
+  });
+}
+
+export function updateRunPlan(
+  id: string,
+  change: (plan: AgentResponse["plan"]) => AgentResponse["plan"]
+): Promise<AgentRunRecord | null> {
+  return runs.update(id, (run) => ({ ...run, response: { ...run.response, plan: change(run.response.plan) } }));
+}
@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+
+import { parsePlanOutput } from "@/lib/plan-schema";
+import { SAMPLE_AGENT_RESPONSE } from "@/lib/sample-plan";
+
+describe("SAMPLE_AGENT_RESPONSE", () => {
+  it("passes the plan validation the mock provider's replies go through", () => {
+    const result = parsePlanOutput(SAMPLE_AGENT_RESPONSE.raw);
+
+    expect(result).toEqual({ success: true, plan: SAMPLE_AGENT_RESPONSE.plan, repairs: [] });
+  });
+});
@@ -0,0 +1,100 @@
+import type { AgentOutput, AgentResponse } from "@/types/agent";
+
+const SAMPLE_PLAN: AgentOutput = {
+  executiveSummary:
+    "Lead the month with the new-arrivals drop: list and price-test the collection in week one, support it with daily short-form social and a Meta/Google split weighted to prospecting, and use a double-points window to pull lapsed members back. Support escalations and inventory gaps are reviewed daily so paid traffic never lands on sold-out products.",
+  taskMatrix: [
+    {
+      title: "List new arrivals with two price points each",
+      owner: "Merchandising",
+      cadence: "Once, before launch",
+      successMetric: "All new SKUs live with complete copy and images",
+    },
+    {
+      title: "Publish daily drops on Instagram and TikTok",
+      owner: "Social",
+      cadence: "Daily",
+      successMetric: "Engagement rate above 4% on drop posts",
+    },
+    {
+      title: "Launch Meta and Google campaigns",
+      owner: "Performance marketing",
+      cadence: "Weekly review",
+      successMetric: "Blended ROAS of 3 or better",
+    },
+    {
+      title: "Review inventory gaps and pause ads on low stock",
+      owner: "Operations",
+      cadence: "Daily",
+      successMetric: "No ad spend on out-of-stock SKUs",
+    },
+    {
+      title: "Draft the weekly growth report",
+      owner: "Growth lead",
+      cadence: "Weekly, Monday",
+      successMetric: "Report shared before the Monday stand-up",
+    },
+  ],
+  automations: [
+    {
+      title: "Low-stock ad pause",
+      description: "Keeps paid traffic off products that are about to sell out.",
+      trigger: "Inventory below 5 units",
+      action: "Pause ads for the SKU and notify operations",
+    },
+    {
+      title: "Points expiry reminder",
+      description: "Brings members back before their balance lapses.",
+      trigger: "Points expire within 14 days",
+      action: "Send an email with the balance and the new arrivals",
+    },
+    {
+      title: "Support escalation",
+      description: "Routes urgent tickets to a person instead of a drafted reply.",
+      trigger: "Ticket marked urgent or waiting longer than 24 hours",
+      action: "Assign to the support lead and post in the team channel",
+    },
+  ],
+  channelPlaybooks: [
+    {
+      channel: "Instagram",
+      content: "Reels of each new arrival styled three ways, with a product sticker on every post.",
+      cadence: "Daily at 18:00",
+    },
+    {
+      channel: "TikTok",
+      content: "Behind-the-scenes unboxing and try-on clips that end on the drop date.",
+      cadence: "Daily",
+    },
+    {
+      channel: "Email",
+      content: "Launch announcement to the full list, then a members-only early-access send.",
+      cadence: "Launch day and three days after",
+    },
+  ],
+  adStrategy: [
+    {
+      platform: "Meta",
+      audience: "Lookalikes of repeat buyers, plus site visitors from the last 30 days",
+      creatives: "Carousel of the new arrivals and the best-performing reel",
+      budgetNotes: "60% of the budget, weighted to prospecting in week one",
+    },
+    {
+      platform: "Google",
+      audience: "Shopping and branded search for the new collection",
+      creatives: "Product feed with refreshed titles and lifestyle images",
+      budgetNotes: "40% of the budget on Shopping and branded search",
+    },
+  ],
+  seoPlan:
+    "Build a collection page for the new arrivals around its main keyword, write unique titles and meta descriptions for every new SKU, add alt text to all product images and link the collection from the home page and the launch blog post.",
+  loyaltyPlan:
+    "Offer double points on Instagram orders during the launch week. Send members a reminder 14 days before their points expire. Give members who lapsed over 90 days a 200-point welcome-back bonus on their next order.",
+};
+
+/** Plan shown when no model is configured or the model's reply cannot be used. */
+export const SAMPLE_AGENT_RESPONSE: AgentResponse = {
+  plan: SAMPLE_PLAN,
+  raw: JSON.stringify(SAMPLE_PLAN, null, 2),
+  usedSample: true,
+};
@@ -0,0 +1,133 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export const DATA_DIR = process.env.STOREPILOT_DATA_DIR ?? path.join(process.cwd(), ".storepilot");
+
+export interface Collection<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  insert(record: T): Promise<T>;
+  /**
+   * Inserts the record `build` makes from the current records, in the same
+   * locked write, so checks against them cannot race; a throw aborts the write.
+   */
+  insertWith(build: (records: T[]) => T): Promise<T>;
+  update(id: string, change: (record: T) => T): Promise<T | null>;
+  remove(id: string): Promise<boolean>;
+  /** Drops the oldest records so at most `keep` remain. */
+  prune(keep: number): Promise<number>;
+  /** Drops every record `match` selects in one write; returns how many went. */
+  removeWhere(match: (record: T) => boolean): Promise<number>;
+  /** Inserts or replaces records by id in one write; `replace` also drops records not given. */
+  upsertMany(
+    records: T[],
+    options?: { replace?: boolean }
+  ): Promise<{ created: number; updated: number; removed: number }>;
+  /** Deletes the collection's file. */
+  drop(): Promise<void>;
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<R>(file: string, task: () => Promise<R>): Promise<R> {
+  const previous = locks.get(file) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(file, next);
+  return next;
+}
+
+async function readRecords<T>(file: string): Promise<T[]> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function writeRecords<T>(file: string, records: T[]): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(records, null, 2));
+  await fs.rename(tempFile, file);
+}
+
+/**
+ * JSON-file backed collection under `STOREPILOT_DATA_DIR`. Writes are
+ * serialised per file so concurrent requests cannot drop each other's changes.
+ */
+export function createCollection<T extends { id: string }>(name: string): Collection<T> {
+  const file = path.join(DATA_DIR, `${name}.json`);
+
+  const mutate = <R>(change: (records: T[]) => { records: T[]; result: R }) =>
+    withLock(file, async () => {
+      const { records, result } = change(await readRecords<T>(file));
+      await writeRecords(file, records);
+      return result;
+    });
+
+  return {
+    list: () => withLock(file, () => readRecords<T>(file)),
+
+    async get(id) {
+      const records = await withLock(file, () => readRecords<T>(file));
+      return records.find((record) => record.id === id) ?? null;
+    },
+
+    insert: (record) =>
+      mutate((records) => ({ records: [...records, record], result: record })),
+
+    insertWith: (build) =>
+      mutate((records) => {
+        const record = build(records);
+        return { records: [...records, record], result: record };
+      }),
+
+    update: (id, change) =>
+      mutate((records) => {
+        let updated: T | null = null;
+        const next = records.map((record) => {
+          if (record.id !== id) return record;
+          updated = change(record);
+          return updated;
+        });
+        return { records: next, result: updated as T | null };
+      }),
+
+    remove: (id) =>
+      mutate((records) => {
+        const next = records.filter((record) => record.id !== id);
+        return { records: next, result: next.length !== records.length };
+      }),
+
+    prune: (keep) =>
+      mutate((records) => {
+        const next = records.slice(Math.max(0, records.length - keep));
+        return { records: next, result: records.length - next.length };
+      }),
+
+    removeWhere: (match) =>
+      mutate((records) => {
+        const next = records.filter((record) => !match(record));
+        return { records: next, result: records.length - next.length };
+      }),
+
+    upsertMany: (incoming, options = {}) =>
+      mutate((records) => {
+        const byId = new Map(incoming.map((record) => [record.id, record]));
+        const kept = records.filter((record) => !options.replace || byId.has(record.id));
+        const existing = new Set(kept.map((record) => record.id));
+        const next = [
+          ...kept.map((record) => byId.get(record.id) ?? record),
+          ...[...byId.values()].filter((record) => !existing.has(record.id)),
+        ];
+        const updated = kept.filter((record) => byId.has(record.id)).length;
+        return {
+          records: next,
+          result: { created: byId.size - updated, updated, removed: records.length - kept.length },
+        };
+      }),
+
+    drop: () => withLock(file, () => fs.rm(file, { force: true })),
+  };
+}
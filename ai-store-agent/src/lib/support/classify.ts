@@ -0,0 +1,176 @@
+import { z } from "zod";
+
+import { parseJsonReply } from "@/lib/plan-schema";
+import { resolveProvider } from "@/lib/providers";
+import { meterProvider } from "@/lib/usage/meter";
+import type { ProviderSelection } from "@/types/provider";
+import type { SupportTicket, TicketClassification, TicketDraft, TicketIntent } from "@/types/support";
+import type { UsageScope } from "@/types/usage";
+
+export const DEFAULT_SUPPORT_TONE = "Calm professional";
+
+export const ticketIntentSchema = z.union([
+  z.literal("order-status"),
+  z.literal("shipping-issue"),
+  z.literal("return-refund"),
+  z.literal("product-question"),
+  z.literal("billing"),
+  z.literal("account"),
+  z.literal("complaint"),
+  z.literal("other"),
+]);
+
+const classificationSchema = z.object({
+  intent: ticketIntentSchema,
+  urgency: z.union([z.literal("low"), z.literal("normal"), z.literal("high"), z.literal("urgent")]),
+  sentiment: z.union([z.literal("positive"), z.literal("neutral"), z.literal("negative")]),
+  summary: z.string().min(1).max(240),
+});
+
+const draftSchema = z.object({ reply: z.string().min(1) });
+
+export type TicketContent = Pick<SupportTicket, "subject" | "body" | "channel" | "customer" | "orderId">;
+
+interface ModelOptions {
+  provider?: ProviderSelection;
+  usage?: UsageScope;
+  signal?: AbortSignal;
+}
+
+const INTENT_PATTERNS: Array<[TicketIntent, RegExp]> = [
+  ["billing", /\b(charged?|charges|double[- ]charged|invoice|billing|payment|card|chargeback)\b/],
+  ["return-refund", /\b(refund|return|exchange|money back|send (it )?back)\b/],
+  ["shipping-issue", /\b(damaged|broken|lost|missing|wrong (item|size|colou?r)|never arrived|not arrived|stuck in transit)\b/],
+  ["order-status", /\b(where is|where's|tracking|track my|order status|when will|shipped yet|delivery date)\b/],
+  ["account", /\b(password|log ?in|sign ?in|account|unsubscribe|email address)\b/],
+  ["complaint", /\b(terrible|awful|worst|disappointed|unacceptable|complain|rude)\b/],
+  ["product-question", /\b(size|sizing|fit|material|in stock|restock|does it|is it|how do i|compatible|ingredients)\b/],
+];
+
+const NEGATIVE_WORDS = /\b(angry|furious|terrible|awful|worst|disappointed|unacceptable|ridiculous|never again|scam|useless|upset)\b/;
+const POSITIVE_WORDS = /\b(love|thanks|thank you|great|amazing|happy|awesome|appreciate)\b/;
+
+/** Keyword triage used when no provider is configured or its reply fails validation. */
+export function heuristicClassification(ticket: TicketContent): TicketClassification {
+  const text = `${ticket.subject}\n${ticket.body}`.toLowerCase();
+  const intent = INTENT_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? "other";
+  const sentiment = NEGATIVE_WORDS.test(text) ? "negative" : POSITIVE_WORDS.test(text) ? "positive" : "neutral";
+
+  const urgency = /\b(urgent|asap|immediately|right now|lawyer|legal|fraud|chargeback|dispute)\b/.test(text)
+    ? "urgent"
+    : sentiment === "negative" || intent === "billing" || intent === "shipping-issue" || /!{2,}/.test(text)
+      ? "high"
+      : intent === "product-question" || sentiment === "positive"
+        ? "low"
+        : "normal";
+
+  const firstSentence = ticket.body.split(/(?<=[.!?])\s+|\n/)[0]?.trim() ?? "";
+  const summary = (ticket.subject || firstSentence || "Customer message").slice(0, 240);
+
+  return { intent, urgency, sentiment, summary, source: "heuristic" };
+}
+
+function describeTicket(ticket: TicketContent): string {
+  return [
+    `Channel: ${ticket.channel}`,
+    ticket.customer.name ? `Customer: ${ticket.customer.name}` : "",
+    ticket.orderId ? `Order: ${ticket.orderId}` : "",
+    `Subject: ${ticket.subject || "(none)"}`,
+    "Message:",
+    ticket.body,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Asks the configured provider for the ticket's intent, urgency and sentiment.
+ * Falls back to keyword triage when no provider is available or the reply
+ * cannot be validated.
+ */
+export async function classifyTicket(ticket: TicketContent, options: ModelOptions = {}): Promise<TicketClassification> {
+  const provider = meterProvider(resolveProvider(options.provider), "support", options.usage);
+  if (!provider) return heuristicClassification(ticket);
+
+  const prompt = [
+    "You triage customer support tickets for an online store.",
+    describeTicket(ticket),
+    "Reply with only a JSON object with these keys:",
+    `- "intent": one of ${ticketIntentSchema.options.map((option) => `"${option.value}"`).join(", ")}`,
+    '- "urgency": "low", "normal", "high" or "urgent" (legal threats, fraud, chargebacks and safety issues are urgent)',
+    '- "sentiment": "positive", "neutral" or "negative"',
+    '- "summary": one sentence under 200 characters for the triage queue',
+  ].join("\n");
+
+  try {
+    const outputText = await provider.complete({
+      messages: [{ role: "user", content: prompt }],
+      signal: options.signal,
+    });
+    const reply = parseJsonReply(outputText);
+    const result = reply.success ? classificationSchema.safeParse(reply.value) : null;
+    if (result?.success) return { ...result.data, source: "model" };
+    console.warn("Ticket classification reply failed validation");
+  } catch (error) {
+    console.error("Ticket classification failure", error);
+  }
+  return heuristicClassification(ticket);
+}
+
+const TEMPLATE_BODIES: Record<TicketIntent, string> = {
+  "order-status": "I'm checking on your order now and will send you the latest tracking details shortly.",
+  "shipping-issue": "I'm sorry your delivery didn't arrive as it should. I'm looking into it and will make it right.",
+  "return-refund": "I can help with your return. I'll confirm the next steps and the refund timeline for you.",
+  "product-question": "Thanks for asking. I'm getting you the product details you need.",
+  billing: "I'm sorry about the trouble with your payment. I'm reviewing the charge and will follow up with what I find.",
+  account: "I can help with your account. I'm looking into it now.",
+  complaint: "I'm sorry about your experience. Thank you for telling us. I'm looking into it personally.",
+  other: "Thanks for getting in touch. I'm looking into your message and will reply with an update shortly.",
+};
+
+/** Tone-neutral reply used when no provider is configured or the model reply is unusable. */
+export function templateReply(ticket: TicketContent, classification: TicketClassification): string {
+  const greeting = ticket.customer.name ? `Hi ${ticket.customer.name.split(/\s+/)[0]},` : "Hi there,";
+  const order = ticket.orderId ? `\n\nOrder reference: ${ticket.orderId}` : "";
+  return `${greeting}\n\n${TEMPLATE_BODIES[classification.intent]}${order}\n\nBest regards,\nCustomer Care`;
+}
+
+/**
+ * Drafts a reply in the store's voice. Drafts never promise refunds, credits
+ * or dates; a person reviews and sends them.
+ */
+export async function draftReply(
+  ticket: TicketContent,
+  classification: TicketClassification,
+  tone: string,
+  options: ModelOptions = {}
+): Promise<TicketDraft> {
+  const draftedAt = new Date().toISOString();
+  const provider = meterProvider(resolveProvider(options.provider), "support", options.usage);
+
+  if (provider) {
+    const prompt = [
+      `You are the customer support voice of an online store. Write in this tone: ${tone}.`,
+      `The ticket is about ${classification.intent} (${classification.urgency} urgency, ${classification.sentiment} sentiment).`,
+      describeTicket(ticket),
+      "Draft a reply for a support agent to review before sending. Keep it under 150 words, address the customer by",
+      "first name when known, and do not promise refunds, credits or delivery dates the store has not confirmed.",
+      'Reply with only a JSON object: { "reply": "..." }',
+    ].join("\n");
+
+    try {
+      const outputText = await provider.complete({
+      messages: [{ role: "user", content: prompt }],
+      signal: options.signal,
+    });
+      const reply = parseJsonReply(outputText);
+      const result = reply.success ? draftSchema.safeParse(reply.value) : null;
+      if (result?.success) return { text: result.data.reply.trim(), tone, source: "model", draftedAt };
+      console.warn("Ticket draft reply failed validation");
+    } catch (error) {
+      console.error("Ticket draft failure", error);
+    }
+  }
+
+  return { text: templateReply(ticket, classification), tone, source: "template", draftedAt };
+}
@@ -0,0 +1,34 @@
+import { listTickets } from "@/lib/support/tickets";
+import type { AgentBrief } from "@/types/agent";
+
+/** Ticket summaries sent to the model per run. */
+export const SUPPORT_PROMPT_LIMIT = 10;
+
+/**
+ * Open support load for briefs with the support focus: what customers are
+ * asking about and what is escalated, so the plan can address the causes.
+ */
+export async function buildSupportContext(brief: AgentBrief): Promise<string | null> {
+  if (!brief.focusAreas.includes("support")) return null;
+
+  const active = await listTickets("active");
+  if (active.length === 0) return null;
+
+  const byIntent = new Map<string, number>();
+  for (const ticket of active) {
+    byIntent.set(ticket.classification.intent, (byIntent.get(ticket.classification.intent) ?? 0) + 1);
+  }
+  const escalated = active.filter((ticket) => ticket.status === "escalated").length;
+  const breached = active.filter((ticket) => ticket.breaches.length > 0).length;
+
+  const intents = [...byIntent].sort((a, b) => b[1] - a[1]).map(([intent, count]) => `${intent} ${count}`);
+
+  return [
+    `Support queue: ${active.length} open tickets, ${escalated} escalated, ${breached} past SLA.`,
+    `By intent: ${intents.join(", ")}.`,
+    "Tickets due soonest:",
+    ...active.slice(0, SUPPORT_PROMPT_LIMIT).map(({ classification }) => {
+      return `- (${classification.urgency}, ${classification.intent}) ${classification.summary}`;
+    }),
+  ].join("\n");
+}
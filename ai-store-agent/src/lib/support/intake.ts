@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+export interface TicketInput {
+  externalId?: string;
+  channel: string;
+  customer: { email?: string; name?: string };
+  subject: string;
+  body: string;
+  orderId?: string;
+  receivedAt?: string;
+}
+
+const MAX_BODY_LENGTH = 20_000;
+
+const ticketPayloadSchema = z.object({
+  externalId: z.string().trim().min(1).optional(),
+  channel: z.string().trim().min(1).default("webhook"),
+  customer: z
+    .object({
+      email: z.string().trim().min(1).optional(),
+      name: z.string().trim().min(1).optional(),
+    })
+    .default({}),
+  subject: z.string().trim().default(""),
+  body: z.string().trim().min(1, "Ticket body is empty"),
+  orderId: z.string().trim().min(1).optional(),
+  receivedAt: z.iso.datetime().optional(),
+});
+
+/** Inbound email as most mail webhooks post it, lower-case or Postmark-style keys. */
+const emailPayloadSchema = z
+  .object({
+    from: z.string().optional(),
+    From: z.string().optional(),
+    subject: z.string().optional(),
+    Subject: z.string().optional(),
+    text: z.string().optional(),
+    TextBody: z.string().optional(),
+    html: z.string().optional(),
+    HtmlBody: z.string().optional(),
+    messageId: z.string().optional(),
+    MessageID: z.string().optional(),
+    date: z.string().optional(),
+    Date: z.string().optional(),
+  })
+  .refine((email) => Boolean(email.from ?? email.From), { message: "Email has no sender", path: ["from"] })
+  .refine((email) => Boolean(email.text ?? email.TextBody ?? email.html ?? email.HtmlBody), {
+    message: "Email has no body",
+    path: ["text"],
+  });
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+/** Drops quoted history below "On ... wrote:" and "> " lines so only the new message is triaged. */
+function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const cut = lines.findIndex(
+    (line) => /^On .+wrote:\s*$/.test(line.trim()) || /^-{2,}\s*Original Message/i.test(line)
+  );
+  return (cut === -1 ? lines : lines.slice(0, cut))
+    .filter((line) => !line.startsWith(">"))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Splits `"Jane Doe" <jane@shop.com>` into a name and an address. */
+export function parseSender(from: string): { email?: string; name?: string } {
+  const match = from.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (match) return { name: match[1].trim() || undefined, email: match[2].trim() };
+  return from.includes("@") ? { email: from.trim() } : { name: from.trim() || undefined };
+}
+
+function findOrderId(text: string): string | undefined {
+  return text.match(/\border\s*(?:number|no\.?|#)?\s*:?\s*#?\s*([A-Z0-9-]{4,})\b/i)?.[1];
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Normalises a webhook body into a ticket. Accepts the native ticket shape or
+ * an inbound email; returns the zod error of the closest shape otherwise.
+ */
+export function parseTicketPayload(
+  payload: unknown
+): { success: true; ticket: TicketInput } | { success: false; error: z.ZodError } {
+  const looksLikeEmail =
+    typeof payload === "object" && payload !== null && ("from" in payload || "From" in payload);
+
+  if (!looksLikeEmail) {
+    const result = ticketPayloadSchema.safeParse(payload);
+    if (!result.success) return { success: false, error: result.error };
+    const ticket = result.data;
+    const body = ticket.body.slice(0, MAX_BODY_LENGTH);
+    return { success: true, ticket: { ...ticket, body, orderId: ticket.orderId ?? findOrderId(body) } };
+  }
+
+  const result = emailPayloadSchema.safeParse(payload);
+  if (!result.success) return { success: false, error: result.error };
+
+  const email = result.data;
+  const rawText = email.text ?? email.TextBody ?? htmlToText(email.html ?? email.HtmlBody ?? "");
+  const body = stripQuotedReply(rawText).slice(0, MAX_BODY_LENGTH);
+  const subject = (email.subject ?? email.Subject ?? "").replace(/^\s*((re|fwd?):\s*)+/i, "").trim();
+
+  return {
+    success: true,
+    ticket: {
+      externalId: email.messageId ?? email.MessageID,
+      channel: "email",
+      customer: parseSender(email.from ?? email.From ?? ""),
+      subject,
+      body: body || rawText.trim().slice(0, MAX_BODY_LENGTH),
+      orderId: findOrderId(`${subject}\n${body}`),
+      receivedAt: toIsoDate(email.date ?? email.Date),
+    },
+  };
+}
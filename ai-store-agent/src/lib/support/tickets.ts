@@ -0,0 +1,275 @@
+import { getRun, listRuns } from "@/lib/runs";
+import { createCollection } from "@/lib/storage";
+import { DEFAULT_SUPPORT_TONE, classifyTicket, draftReply } from "@/lib/support/classify";
+import type { TicketInput } from "@/lib/support/intake";
+import type { ProviderSelection } from "@/types/provider";
+import type {
+  EscalationRule,
+  SlaBreach,
+  SupportSettings,
+  SupportTicket,
+  TicketStatus,
+} from "@/types/support";
+import type { UsageScope } from "@/types/usage";
+
+export const DEFAULT_SUPPORT_SETTINGS: SupportSettings = {
+  sla: {
+    urgent: { firstResponse: 60, resolution: 8 * 60 },
+    high: { firstResponse: 4 * 60, resolution: 24 * 60 },
+    normal: { firstResponse: 12 * 60, resolution: 48 * 60 },
+    low: { firstResponse: 24 * 60, resolution: 72 * 60 },
+  },
+  escalationRules: [
+    {
+      id: "legal-risk",
+      name: "Legal, fraud or chargeback",
+      team: "Escalations",
+      keywords: ["lawyer", "legal", "fraud", "chargeback", "dispute", "trading standards"],
+    },
+    { id: "urgent", name: "Urgent tickets", team: "Support lead", urgencies: ["urgent"] },
+    {
+      id: "unhappy-money",
+      name: "Unhappy customer with a money issue",
+      team: "Finance",
+      intents: ["billing", "return-refund"],
+      sentiments: ["negative"],
+    },
+    { id: "sla-breach", name: "SLA breached", team: "Support lead", onBreach: true },
+  ],
+};
+
+const MAX_TICKETS = 5000;
+const SETTINGS_ID = "default";
+const MINUTE_MS = 60 * 1000;
+
+const tickets = createCollection<SupportTicket>("support-tickets");
+const settingsStore = createCollection<{ id: string; settings: SupportSettings }>("support-settings");
+
+export class SupportError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "SupportError";
+  }
+}
+
+export async function getSupportSettings(): Promise<SupportSettings> {
+  return (await settingsStore.get(SETTINGS_ID))?.settings ?? DEFAULT_SUPPORT_SETTINGS;
+}
+
+export async function saveSupportSettings(settings: SupportSettings): Promise<SupportSettings> {
+  const saved = { ...settings, updatedAt: new Date().toISOString() };
+  await settingsStore.upsertMany([{ id: SETTINGS_ID, settings: saved }]);
+  return saved;
+}
+
+/** The tone of the store's most recent brief, so replies sound like the rest of its output. */
+export async function currentBriefTone(workspaceId: string): Promise<string> {
+  const [latest] = await listRuns(workspaceId);
+  const run = latest ? await getRun(latest.id, workspaceId) : null;
+  return run?.brief.tone?.trim() || DEFAULT_SUPPORT_TONE;
+}
+
+function addMinutes(iso: string, minutes: number): string {
+  return new Date(new Date(iso).getTime() + minutes * MINUTE_MS).toISOString();
+}
+
+function slaBreaches(ticket: SupportTicket, now: Date): SlaBreach[] {
+  const breaches: SlaBreach[] = [];
+  if (!ticket.repliedAt && !ticket.resolvedAt && now > new Date(ticket.sla.respondBy)) breaches.push("response");
+  if (!ticket.resolvedAt && now > new Date(ticket.sla.resolveBy)) breaches.push("resolution");
+  return breaches;
+}
+
+function ruleMatches(rule: EscalationRule, ticket: SupportTicket): boolean {
+  const { intent, urgency, sentiment } = ticket.classification;
+  const text = `${ticket.subject}\n${ticket.body}`.toLowerCase();
+
+  if (rule.intents?.length && !rule.intents.includes(intent)) return false;
+  if (rule.urgencies?.length && !rule.urgencies.includes(urgency)) return false;
+  if (rule.sentiments?.length && !rule.sentiments.includes(sentiment)) return false;
+  if (rule.keywords?.length && !rule.keywords.some((keyword) => text.includes(keyword.toLowerCase()))) return false;
+  if (rule.onBreach && ticket.breaches.length === 0) return false;
+  // A rule with no conditions would escalate everything; treat it as disabled.
+  return Boolean(
+    rule.intents?.length || rule.urgencies?.length || rule.sentiments?.length || rule.keywords?.length || rule.onBreach
+  );
+}
+
+function describeMatch(rule: EscalationRule, ticket: SupportTicket): string {
+  if (rule.onBreach) return `${ticket.breaches.join(" and ")} SLA breached`;
+  return [
+    rule.intents?.length ? ticket.classification.intent : null,
+    rule.urgencies?.length ? `${ticket.classification.urgency} urgency` : null,
+    rule.sentiments?.length ? `${ticket.classification.sentiment} sentiment` : null,
+    rule.keywords?.length ? "matched keywords" : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Refreshes SLA breaches and escalates unresolved tickets that match a rule.
+ * The first matching rule wins, and an escalated ticket keeps its escalation.
+ */
+function applyEscalation(ticket: SupportTicket, settings: SupportSettings, now: Date): SupportTicket {
+  if (ticket.status === "resolved") return ticket;
+
+  const updated = { ...ticket, breaches: slaBreaches(ticket, now) };
+  if (updated.escalation) return updated;
+
+  const rule = settings.escalationRules.find((candidate) => ruleMatches(candidate, updated));
+  if (!rule) return updated;
+
+  return {
+    ...updated,
+    status: updated.status === "replied" ? "replied" : "escalated",
+    escalation: {
+      ruleId: rule.id,
+      rule: rule.name,
+      team: rule.team,
+      reason: describeMatch(rule, updated),
+      escalatedAt: now.toISOString(),
+    },
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Classifies, drafts a reply for and stores an incoming ticket. A ticket whose
+ * `externalId` was already received is returned as is.
+ */
+export async function ingestTicket(
+  input: TicketInput,
+  options: { workspaceId: string; provider?: ProviderSelection; usage?: UsageScope }
+): Promise<{ ticket: SupportTicket; duplicate: boolean }> {
+  if (input.externalId) {
+    const existing = (await tickets.list()).find((ticket) => ticket.externalId === input.externalId);
+    if (existing) return { ticket: existing, duplicate: true };
+  }
+
+  const now = new Date();
+  const receivedAt = input.receivedAt ?? now.toISOString();
+  const settings = await getSupportSettings();
+  const classification = await classifyTicket(input, options);
+  const draft = await draftReply(input, classification, await currentBriefTone(options.workspaceId), options);
+  const target = settings.sla[classification.urgency];
+
+  const ticket = applyEscalation(
+    {
+      id: crypto.randomUUID(),
+      ...input,
+      receivedAt,
+      classification,
+      status: "open",
+      draft,
+      sla: {
+        respondBy: addMinutes(receivedAt, target.firstResponse),
+        resolveBy: addMinutes(receivedAt, target.resolution),
+      },
+      breaches: [],
+      updatedAt: now.toISOString(),
+    },
+    settings,
+    now
+  );
+
+  await tickets.insert(ticket);
+  await tickets.prune(MAX_TICKETS);
+  return { ticket, duplicate: false };
+}
+
+function escalationChanged(before: SupportTicket, after: SupportTicket): boolean {
+  return (
+    after.status !== before.status ||
+    after.escalation !== before.escalation ||
+    after.breaches.join() !== before.breaches.join()
+  );
+}
+
+/**
+ * Re-evaluates SLA timers and escalation rules, saving tickets whose state
+ * changed. Each save re-applies the rules to the stored record under the lock,
+ * so a reply or resolution that lands meanwhile is kept.
+ */
+async function settleTickets(records: SupportTicket[], now = new Date()): Promise<SupportTicket[]> {
+  const settings = await getSupportSettings();
+  const settled: SupportTicket[] = [];
+  for (const ticket of records) {
+    const next = applyEscalation(ticket, settings, now);
+    if (!escalationChanged(ticket, next)) {
+      settled.push(next);
+      continue;
+    }
+    const saved = await tickets.update(ticket.id, (record) => applyEscalation(record, settings, now));
+    if (saved) settled.push(saved);
+  }
+  return settled;
+}
+
+export type TicketFilter = TicketStatus | "active" | "all";
+
+/** The triage queue: escalated first, then by the earliest response deadline. */
+export async function listTickets(filter: TicketFilter = "active"): Promise<SupportTicket[]> {
+  const settled = await settleTickets(await tickets.list());
+  return settled
+    .filter((ticket) =>
+      filter === "all" ? true : filter === "active" ? ticket.status !== "resolved" : ticket.status === filter
+    )
+    .sort(
+      (a, b) =>
+        Number(b.status === "escalated") - Number(a.status === "escalated") ||
+        a.sla.respondBy.localeCompare(b.sla.respondBy)
+    );
+}
+
+export async function getTicket(id: string): Promise<SupportTicket | null> {
+  const ticket = await tickets.get(id);
+  return ticket ? (await settleTickets([ticket]))[0] : null;
+}
+
+export interface TicketChange {
+  status?: Exclude<TicketStatus, "escalated">;
+  reply?: string;
+}
+
+/**
+ * Records a sent reply or moves a ticket between states. Reopening clears the
+ * resolution but keeps any escalation on record.
+ */
+export async function updateTicket(id: string, change: TicketChange): Promise<SupportTicket> {
+  const ticket = await tickets.get(id);
+  if (!ticket) throw new SupportError("Ticket not found", 404);
+  if (change.status === "replied" && !change.reply?.trim() && !ticket.reply) {
+    throw new SupportError("Include the reply that was sent", 400);
+  }
+
+  const now = new Date().toISOString();
+  const updated = (await tickets.update(id, (record) => {
+    const next: SupportTicket = { ...record, reply: change.reply?.trim() || record.reply, updatedAt: now };
+    if (change.status === "replied") {
+      next.status = "replied";
+      next.repliedAt = record.repliedAt ?? now;
+    } else if (change.status === "resolved") {
+      next.status = "resolved";
+      next.resolvedAt = now;
+    } else if (change.status === "open") {
+      next.status = record.escalation ? "escalated" : "open";
+      next.resolvedAt = undefined;
+    }
+    return next;
+  }))!;
+
+  return (await settleTickets([updated]))[0];
+}
+
+/** Replaces a ticket's draft, in the given tone or the current brief's. */
+export async function redraftTicket(
+  id: string,
+  options: { workspaceId: string; tone?: string; provider?: ProviderSelection; usage?: UsageScope }
+): Promise<SupportTicket> {
+  const ticket = await tickets.get(id);
+  if (!ticket) throw new SupportError("Ticket not found", 404);
+
+  const draft = await draftReply(ticket, ticket.classification, options.tone ?? (await currentBriefTone(options.workspaceId)), options);
+  return (await tickets.update(id, (record) => ({ ...record, draft, updatedAt: draft.draftedAt })))!;
+}
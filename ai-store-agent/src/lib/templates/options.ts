@@ -0,0 +1,55 @@
+import type { TeamLibrary } from "@/types/templates";
+
+export const FOCUS_OPTIONS = [
+  { label: "Catalog", value: "catalog" },
+  { label: "Sales", value: "sales" },
+  { label: "Loyalty", value: "loyalty" },
+  { label: "SU / SEO", value: "seo" },
+  { label: "Automation", value: "automation" },
+  { label: "Ads", value: "ads" },
+  { label: "Support", value: "support" },
+] as const;
+
+export const CHANNEL_OPTIONS = [
+  { label: "Instagram", value: "instagram" },
+  { label: "TikTok", value: "tiktok" },
+  { label: "YouTube", value: "youtube" },
+  { label: "Email", value: "email" },
+  { label: "Meta Ads", value: "meta-ads" },
+  { label: "Google Ads", value: "google-ads" },
+  { label: "Marketplace", value: "marketplace" },
+  { label: "In-store", value: "instore" },
+] as const;
+
+export type FocusKey = (typeof FOCUS_OPTIONS)[number]["value"];
+export type ChannelKey = (typeof CHANNEL_OPTIONS)[number]["value"];
+
+/** Tasks and tones offered until the team edits its library. */
+export const DEFAULT_TASKS = [
+  "List new arrivals with price testing",
+  "Launch Meta and Google campaigns",
+  "Schedule daily social drops",
+  "Refresh loyalty rewards",
+  "Draft weekly growth report",
+  "Monitor inventory gaps",
+  "Escalate support tickets",
+  "Coordinate influencer outreach",
+];
+
+export const DEFAULT_TONES = [
+  "Energetic merchandiser",
+  "Luxury concierge",
+  "Playful trendsetter",
+  "Data-first strategist",
+  "Calm professional",
+];
+
+export const DEFAULT_TEAM_LIBRARY: TeamLibrary = {
+  tasks: DEFAULT_TASKS,
+  tones: DEFAULT_TONES,
+  defaultTemplateId: null,
+};
+
+export function isChannelKey(value: string): value is ChannelKey {
+  return CHANNEL_OPTIONS.some((option) => option.value === value);
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+import { currencyCodeSchema } from "@/lib/currency";
+import { CHANNEL_OPTIONS, FOCUS_OPTIONS } from "@/lib/templates/options";
+
+const label = z.string().trim().min(1).max(120);
+
+const uniqueLabels = z
+  .array(label)
+  .refine((items) => new Set(items.map((item) => item.toLowerCase())).size === items.length, {
+    message: "Entries must be unique",
+  });
+
+export const templateBriefSchema = z.object({
+  objective: z.string().trim().max(2000),
+  focusAreas: z.array(z.enum(FOCUS_OPTIONS.map((option) => option.value))),
+  targetChannels: z.array(z.enum(CHANNEL_OPTIONS.map((option) => option.value))),
+  tasks: z.array(label),
+  tone: z.string().trim().min(1).optional(),
+  constraints: z.string().optional(),
+  budget: z
+    .object({
+      amount: z.number().positive(),
+      currency: currencyCodeSchema,
+      cadence: z.union([z.literal("daily"), z.literal("weekly"), z.literal("monthly")]),
+      platform: z.union([z.literal("meta"), z.literal("google"), z.literal("both")]).optional(),
+    })
+    .optional(),
+});
+
+export const templateInputSchema = z.object({
+  name: label,
+  description: z.string().trim().max(500).optional(),
+  brief: templateBriefSchema,
+});
+
+export const teamLibrarySchema = z.object({
+  tasks: uniqueLabels,
+  tones: uniqueLabels.min(1, "Keep at least one tone"),
+  defaultTemplateId: z.string().min(1).nullable(),
+});
+
+export const templateExportSchema = z.object({
+  version: z.literal(1),
+  templates: z.array(templateInputSchema),
+  library: z
+    .object({
+      tasks: z.array(label),
+      tones: z.array(label),
+    })
+    .optional(),
+});
@@ -0,0 +1,257 @@
+import { createCollection } from "@/lib/storage";
+import { DEFAULT_TEAM_LIBRARY } from "@/lib/templates/options";
+import { DEFAULT_WORKSPACE_ID, inWorkspace } from "@/lib/workspaces/scope";
+import type {
+  BriefTemplate,
+  TeamLibrary,
+  TemplateBrief,
+  TemplateExport,
+  TemplateImportResult,
+} from "@/types/templates";
+
+const BUILT_IN_CREATED_AT = "2025-01-01T00:00:00.000Z";
+
+function builtIn(id: string, name: string, description: string, brief: TemplateBrief): BriefTemplate {
+  return { id, name, description, brief, builtIn: true, createdAt: BUILT_IN_CREATED_AT, updatedAt: BUILT_IN_CREATED_AT };
+}
+
+export const BUILT_IN_TEMPLATES: BriefTemplate[] = [
+  builtIn("builtin-seasonal-drop", "Seasonal drop", "Launch a new seasonal collection across social and paid.", {
+    objective:
+      "Launch our new seasonal drop: list the new arrivals, build launch-week hype on social and paid, and sell through the first production run within four weeks.",
+    focusAreas: ["catalog", "sales", "ads"],
+    targetChannels: ["instagram", "tiktok", "meta-ads", "google-ads", "email"],
+    tasks: [
+      "List new arrivals with price testing",
+      "Launch Meta and Google campaigns",
+      "Schedule daily social drops",
+      "Coordinate influencer outreach",
+    ],
+    tone: "Energetic merchandiser",
+    constraints: "Hold full price for launch week. Respect brand tone and surface approvals before any spend goes live.",
+    budget: { amount: 8000, currency: "USD", cadence: "monthly", platform: "both" },
+  }),
+  builtIn("builtin-clearance", "Clearance", "Move aged and overstocked items without eroding the brand.", {
+    objective:
+      "Clear aged and overstocked inventory before the next collection lands, recovering cash while protecting margin on core lines.",
+    focusAreas: ["sales", "catalog", "automation"],
+    targetChannels: ["email", "marketplace", "meta-ads", "instore"],
+    tasks: ["Monitor inventory gaps", "Launch Meta and Google campaigns", "Draft weekly growth report"],
+    tone: "Data-first strategist",
+    constraints:
+      "No discounts above 40%. Keep core and new-season lines at full price, and never mention competitors.",
+    budget: { amount: 1500, currency: "USD", cadence: "monthly", platform: "meta" },
+  }),
+  builtIn("builtin-loyalty-relaunch", "Loyalty relaunch", "Re-engage members with refreshed loyalty rewards.", {
+    objective:
+      "Relaunch the loyalty program: refresh the rewards, win back lapsed members and grow sign-ups by 20% over the next quarter.",
+    focusAreas: ["loyalty", "sales", "support"],
+    targetChannels: ["email", "instagram", "instore"],
+    tasks: ["Refresh loyalty rewards", "Escalate support tickets", "Draft weekly growth report"],
+    tone: "Luxury concierge",
+    constraints: "Keep existing point balances whole and route any change to earn rates through approvals.",
+  }),
+];
+
+const templates = createCollection<BriefTemplate>("brief-templates");
+
+/** Keyed by store id. */
+const libraryStore = createCollection<{ id: string; library: TeamLibrary }>("team-library");
+
+export class TemplateError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export interface TemplateInput {
+  name: string;
+  description?: string;
+  brief: TemplateBrief;
+}
+
+function isBuiltIn(id: string): boolean {
+  return BUILT_IN_TEMPLATES.some((template) => template.id === id);
+}
+
+async function teamTemplates(workspaceId: string): Promise<BriefTemplate[]> {
+  return (await templates.list()).filter((template) => inWorkspace(template, workspaceId));
+}
+
+/** Built-in templates first, then the store's own by name. */
+export async function listTemplates(workspaceId = DEFAULT_WORKSPACE_ID): Promise<BriefTemplate[]> {
+  const custom = await teamTemplates(workspaceId);
+  return [...BUILT_IN_TEMPLATES, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+export async function getTemplate(id: string, workspaceId = DEFAULT_WORKSPACE_ID): Promise<BriefTemplate | null> {
+  const builtIn = BUILT_IN_TEMPLATES.find((template) => template.id === id);
+  if (builtIn) return builtIn;
+
+  const template = await templates.get(id);
+  return template && inWorkspace(template, workspaceId) ? template : null;
+}
+
+async function assertUniqueName(name: string, workspaceId: string, exceptId?: string): Promise<void> {
+  const clash = (await listTemplates(workspaceId)).find(
+    (template) => template.id !== exceptId && template.name.toLowerCase() === name.toLowerCase()
+  );
+  if (clash) throw new TemplateError(`A template named "${clash.name}" already exists`, 409);
+}
+
+export async function createTemplate(input: TemplateInput, workspaceId = DEFAULT_WORKSPACE_ID): Promise<BriefTemplate> {
+  await assertUniqueName(input.name, workspaceId);
+
+  const now = new Date().toISOString();
+  return templates.insert({
+    id: crypto.randomUUID(),
+    workspaceId,
+    name: input.name,
+    description: input.description,
+    brief: input.brief,
+    builtIn: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function updateTemplate(
+  id: string,
+  change: Partial<TemplateInput>,
+  workspaceId = DEFAULT_WORKSPACE_ID
+): Promise<BriefTemplate | null> {
+  if (isBuiltIn(id)) {
+    throw new TemplateError("Built-in templates cannot be changed; save a copy instead", 409);
+  }
+  if (!(await getTemplate(id, workspaceId))) return null;
+  if (change.name) await assertUniqueName(change.name, workspaceId, id);
+
+  return templates.update(id, (record) => ({
+    ...record,
+    ...change,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+/** Removes a team template, and clears it as the default when it was one. */
+export async function deleteTemplate(id: string, workspaceId = DEFAULT_WORKSPACE_ID): Promise<boolean> {
+  if (isBuiltIn(id)) {
+    throw new TemplateError("Built-in templates cannot be deleted", 409);
+  }
+
+  const removed = (await getTemplate(id, workspaceId)) !== null && (await templates.remove(id));
+  if (removed) {
+    const library = await getTeamLibrary(workspaceId);
+    if (library.defaultTemplateId === id) {
+      await saveTeamLibrary({ ...library, defaultTemplateId: null }, workspaceId);
+    }
+  }
+  return removed;
+}
+
+/** Drops a store's own templates and team library. */
+export async function deleteWorkspaceTemplates(workspaceId: string): Promise<void> {
+  for (const template of await teamTemplates(workspaceId)) await templates.remove(template.id);
+  await libraryStore.remove(workspaceId);
+}
+
+export async function getTeamLibrary(workspaceId = DEFAULT_WORKSPACE_ID): Promise<TeamLibrary> {
+  return (await libraryStore.get(workspaceId))?.library ?? DEFAULT_TEAM_LIBRARY;
+}
+
+export async function saveTeamLibrary(library: TeamLibrary, workspaceId = DEFAULT_WORKSPACE_ID): Promise<TeamLibrary> {
+  if (library.defaultTemplateId && !(await getTemplate(library.defaultTemplateId, workspaceId))) {
+    throw new TemplateError("Default template not found", 404);
+  }
+
+  const saved = { ...library, updatedAt: new Date().toISOString() };
+  await libraryStore.upsertMany([{ id: workspaceId, library: saved }]);
+  return saved;
+}
+
+/** A store's templates and task and tone lists, in the shape `importTemplates` reads back. */
+export async function exportTemplates(
+  workspaceId = DEFAULT_WORKSPACE_ID,
+  options: { includeBuiltIn?: boolean } = {}
+): Promise<TemplateExport> {
+  const [all, library] = await Promise.all([listTemplates(workspaceId), getTeamLibrary(workspaceId)]);
+
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    templates: all
+      .filter((template) => options.includeBuiltIn || !template.builtIn)
+      .map(({ name, description, brief }) => ({ name, description, brief })),
+    library: { tasks: library.tasks, tones: library.tones },
+  };
+}
+
+function mergeLabels(current: string[], incoming: string[]): { merged: string[]; added: number } {
+  const seen = new Set(current.map((item) => item.toLowerCase()));
+  const added = incoming.filter((item) => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { merged: [...current, ...added], added: added.length };
+}
+
+/**
+ * Loads exported templates into a store. Templates match the store's existing
+ * ones by name; ones that share a built-in's name are skipped. Tasks and tones
+ * are added to the library. `replace` removes the store's templates missing
+ * from the file.
+ */
+export async function importTemplates(
+  data: Pick<TemplateExport, "templates"> & { library?: TemplateExport["library"] },
+  workspaceId = DEFAULT_WORKSPACE_ID,
+  options: { replace?: boolean } = {}
+): Promise<TemplateImportResult> {
+  const builtInNames = new Set(BUILT_IN_TEMPLATES.map((template) => template.name.toLowerCase()));
+  const current = await teamTemplates(workspaceId);
+  const byName = new Map(current.map((template) => [template.name.toLowerCase(), template]));
+  const now = new Date().toISOString();
+
+  const incoming = new Map<string, BriefTemplate>();
+  for (const input of data.templates) {
+    const key = input.name.toLowerCase();
+    if (builtInNames.has(key)) continue;
+
+    const existing = byName.get(key);
+    incoming.set(key, {
+      id: existing?.id ?? crypto.randomUUID(),
+      workspaceId,
+      name: input.name,
+      description: input.description,
+      brief: input.brief,
+      builtIn: false,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  const { created, updated } = await templates.upsertMany([...incoming.values()]);
+  const stale = options.replace ? current.filter((template) => !incoming.has(template.name.toLowerCase())) : [];
+  for (const template of stale) await templates.remove(template.id);
+
+  const library = await getTeamLibrary(workspaceId);
+  const tasks = mergeLabels(library.tasks, data.library?.tasks ?? []);
+  const tones = mergeLabels(library.tones, data.library?.tones ?? []);
+
+  const defaultRemoved =
+    library.defaultTemplateId !== null && !(await getTemplate(library.defaultTemplateId, workspaceId));
+  if (tasks.added > 0 || tones.added > 0 || defaultRemoved) {
+    await saveTeamLibrary(
+      {
+        tasks: tasks.merged,
+        tones: tones.merged,
+        defaultTemplateId: defaultRemoved ? null : library.defaultTemplateId,
+      },
+      workspaceId
+    );
+  }
+
+  return { created, updated, removed: stale.length, tasksAdded: tasks.added, tonesAdded: tones.added };
+}
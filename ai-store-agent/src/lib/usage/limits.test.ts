@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { admitAgentRun, checkQuotas, limitExceeded } from "@/lib/usage/limits";
+import { DEFAULT_USAGE_SETTINGS, recordUsage, saveUsageSettings } from "@/lib/usage/store";
+import type { UsageSettings } from "@/types/usage";
+
+const NOW = new Date("2025-06-30T23:59:00.000Z");
+const MOCK = { id: "mock" as const };
+
+function settings(change: Partial<UsageSettings>): Promise<UsageSettings> {
+  return saveUsageSettings({ ...DEFAULT_USAGE_SETTINGS, ...change });
+}
+
+/** Records a call costing `dollars` at the gpt-4.1 input price of $2 per million tokens. */
+function spend(scope: { userId?: string; workspaceId?: string }, dollars: number, at = NOW) {
+  return recordUsage(
+    {
+      feature: "agent",
+      provider: "openai-responses",
+      model: "gpt-4.1",
+      user: scope.userId ? { id: scope.userId, name: scope.userId } : undefined,
+      workspaceId: scope.workspaceId,
+    },
+    { inputTokens: dollars * 500_000, outputTokens: 0 },
+    at
+  );
+}
+
+describe("checkQuotas", () => {
+  beforeEach(() => settings({}));
+
+  it("admits every call while no budget is set", async () => {
+    await spend({ workspaceId: "unbudgeted" }, 1000);
+
+    expect(await checkQuotas({ workspaceId: "unbudgeted" }, MOCK, NOW)).toBeNull();
+  });
+
+  it("refuses once the month's spend reaches the budget, until the month ends", async () => {
+    await settings({ workspaceMonthlyBudget: 5 });
+    await spend({ workspaceId: "spent" }, 6);
+
+    const breach = await checkQuotas({ workspaceId: "spent" }, MOCK, NOW);
+    expect(breach).toMatchObject({
+      kind: "quota",
+      scope: "workspace",
+      limit: 5,
+      used: 6,
+      retryAfterSeconds: 60,
+      error: "This store has used $6.00 of the $5.00 monthly model budget for 2025-06.",
+    });
+    expect(limitExceeded(breach!).status).toBe(429);
+  });
+
+  it("only counts the current month", async () => {
+    await settings({ userMonthlyBudget: 5 });
+    await spend({ userId: "last-month" }, 6, new Date("2025-05-31T12:00:00.000Z"));
+
+    expect(await checkQuotas({ user: { id: "last-month", name: "Ana" } }, MOCK, NOW)).toBeNull();
+  });
+
+  it("refuses a model without a price while a budget is set", async () => {
+    await settings({ userMonthlyBudget: 5 });
+
+    const breach = await checkQuotas({ user: { id: "unpriced", name: "Ana" } }, { id: "mock", model: "house-model" }, NOW);
+    expect(breach).toMatchObject({ kind: "unpriced", scope: "user" });
+    expect(limitExceeded(breach!).status).toBe(422);
+  });
+});
+
+describe("admitAgentRun", () => {
+  it("refuses runs past the per-user rate limit until the window passes", async () => {
+    await settings({ userRateLimit: { requests: 2, windowSeconds: 60 }, workspaceRateLimit: null });
+    const user = { id: "rate", name: "Ana" };
+
+    expect(await admitAgentRun(user, "w-rate", MOCK, NOW)).toBeNull();
+    expect(await admitAgentRun(user, "w-rate", MOCK, new Date(NOW.getTime() + 10_000))).toBeNull();
+
+    const breach = await admitAgentRun(user, "w-rate", MOCK, new Date(NOW.getTime() + 20_000));
+    expect(breach).toMatchObject({ kind: "rate", scope: "user", limit: 2, used: 2, retryAfterSeconds: 40 });
+
+    expect(await admitAgentRun(user, "w-rate", MOCK, new Date(NOW.getTime() + 61_000))).toBeNull();
+  });
+
+  it("does not count a refused run against the other limit", async () => {
+    await settings({
+      userRateLimit: { requests: 10, windowSeconds: 60 },
+      workspaceRateLimit: { requests: 1, windowSeconds: 60 },
+    });
+    const user = { id: "store-rate", name: "Ana" };
+
+    expect(await admitAgentRun(user, "w-store-rate", MOCK, NOW)).toBeNull();
+    for (let run = 0; run < 10; run++) {
+      expect(await admitAgentRun(user, "w-store-rate", MOCK, NOW)).toMatchObject({ scope: "workspace" });
+    }
+    expect(await admitAgentRun(user, "w-other", MOCK, NOW)).toBeNull();
+  });
+
+  it("checks the budget before the rate limits", async () => {
+    await settings({ workspaceMonthlyBudget: 1, userRateLimit: { requests: 1, windowSeconds: 60 } });
+    await spend({ workspaceId: "w-over" }, 2);
+
+    expect(await admitAgentRun({ id: "budget-first", name: "Ana" }, "w-over", MOCK, NOW)).toMatchObject({
+      kind: "quota",
+    });
+    expect(await admitAgentRun({ id: "budget-first", name: "Ana" }, "w-fine", MOCK, NOW)).toBeNull();
+  });
+});
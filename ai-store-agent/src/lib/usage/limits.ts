@@ -0,0 +1,164 @@
+import { NextResponse } from "next/server";
+
+import { formatMoney } from "@/lib/format";
+import { resolveProvider } from "@/lib/providers";
+import { loadPriceTable, priceFor } from "@/lib/usage/prices";
+import { getUsageSettings, monthOf, monthlySpend } from "@/lib/usage/store";
+import type { UserRef } from "@/types/auth";
+import type { ProviderSelection } from "@/types/provider";
+import type { LimitBreach, LimitScope, QuotaStatus, RateLimit, UsageScope, UsageSettings } from "@/types/usage";
+
+/**
+ * Start times of recent agent runs per `user:<id>` / `workspace:<id>` key.
+ * Kept in memory, so limits reset when the server restarts and are per
+ * process when several run behind a load balancer.
+ */
+const recentRuns = new Map<string, number[]>();
+
+function describeWindow(seconds: number): string {
+  if (seconds % 3600 === 0) return seconds === 3600 ? "hour" : `${seconds / 3600} hours`;
+  if (seconds % 60 === 0) return seconds === 60 ? "minute" : `${seconds / 60} minutes`;
+  return `${seconds} seconds`;
+}
+
+function secondsUntilNextMonth(now: Date): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+}
+
+function checkRate(key: string, scope: LimitScope, limit: RateLimit, now: number): LimitBreach | null {
+  const windowStart = now - limit.windowSeconds * 1000;
+  const recent = (recentRuns.get(key) ?? []).filter((time) => time > windowStart);
+  recentRuns.set(key, recent);
+  if (recent.length < limit.requests) return null;
+
+  const who = scope === "user" ? "You have" : "This store has";
+  const retryAfterSeconds = Math.max(1, Math.ceil((recent[0] + limit.windowSeconds * 1000 - now) / 1000));
+  return {
+    error:
+      `${who} reached the limit of ${limit.requests} agent runs per ${describeWindow(limit.windowSeconds)}. ` +
+      `Try again in ${retryAfterSeconds}s.`,
+    scope,
+    kind: "rate",
+    limit: limit.requests,
+    used: recent.length,
+    retryAfterSeconds,
+  };
+}
+
+/** The budgets that apply to calls billed to `scope`. */
+async function budgets(settings: UsageSettings, scope: UsageScope, now: Date): Promise<QuotaStatus[]> {
+  const quotas: QuotaStatus[] = [];
+  if (scope.user) {
+    quotas.push({
+      scope: "user",
+      used: await monthlySpend({ userId: scope.user.id }, now),
+      budget: settings.userMonthlyBudget,
+    });
+  }
+  if (scope.workspaceId) {
+    quotas.push({
+      scope: "workspace",
+      used: await monthlySpend({ workspaceId: scope.workspaceId }, now),
+      budget: settings.workspaceMonthlyBudget,
+    });
+  }
+  return quotas;
+}
+
+/** Month-to-date spend against the configured budgets, for the usage panel. */
+export async function quotaStatus(user: UserRef, workspaceId: string, now = new Date()): Promise<QuotaStatus[]> {
+  return budgets(await getUsageSettings(), { user, workspaceId }, now);
+}
+
+async function checkBudgets(
+  settings: UsageSettings,
+  scope: UsageScope,
+  selection: ProviderSelection | undefined,
+  now: Date
+): Promise<LimitBreach | null> {
+  const quotas = (await budgets(settings, scope, now)).filter((quota) => quota.budget !== null);
+  if (quotas.length === 0) return null;
+
+  const table = await loadPriceTable();
+  for (const quota of quotas) {
+    if (quota.used < quota.budget!) continue;
+
+    const who = quota.scope === "user" ? "You have" : "This store has";
+    return {
+      error:
+        `${who} used ${formatMoney(quota.used, table.currency)} of the ${formatMoney(quota.budget!, table.currency)} ` +
+        `monthly model budget for ${monthOf(now)}.`,
+      scope: quota.scope,
+      kind: "quota",
+      limit: quota.budget!,
+      used: quota.used,
+      retryAfterSeconds: secondsUntilNextMonth(now),
+    };
+  }
+
+  // An unpriced call is recorded at zero cost, so it would never count against the budget.
+  const model = resolveProvider(selection)?.model;
+  if (model && !priceFor(table, model)) {
+    return {
+      error: `${model} has no price in the model price table, so it cannot be used while a monthly budget is set.`,
+      scope: quotas[0].scope,
+      kind: "unpriced",
+      limit: quotas[0].budget!,
+      used: quotas[0].used,
+    };
+  }
+  return null;
+}
+
+/**
+ * Checks the monthly budgets that apply to a model call billed to `scope`,
+ * and that the model `selection` resolves to can be costed while a budget is
+ * set. Returns why the call is refused, or null when it may go ahead.
+ */
+export async function checkQuotas(
+  scope: UsageScope,
+  selection?: ProviderSelection,
+  now = new Date()
+): Promise<LimitBreach | null> {
+  return checkBudgets(await getUsageSettings(), scope, selection, now);
+}
+
+/**
+ * Checks the monthly budgets and the per-user and per-store rate limits
+ * before an agent run, and counts the run against the rate limits when it
+ * may go ahead. Returns why the run is refused otherwise.
+ */
+export async function admitAgentRun(
+  user: UserRef,
+  workspaceId: string,
+  selection?: ProviderSelection,
+  now = new Date()
+): Promise<LimitBreach | null> {
+  const settings = await getUsageSettings();
+
+  const quotaBreach = await checkBudgets(settings, { user, workspaceId }, selection, now);
+  if (quotaBreach) return quotaBreach;
+
+  const limits: Array<[string, LimitScope, RateLimit | null]> = [
+    [`user:${user.id}`, "user", settings.userRateLimit],
+    [`workspace:${workspaceId}`, "workspace", settings.workspaceRateLimit],
+  ];
+  for (const [key, scope, limit] of limits) {
+    const breach = limit ? checkRate(key, scope, limit, now.getTime()) : null;
+    if (breach) return breach;
+  }
+
+  for (const [key, , limit] of limits) {
+    if (limit) recentRuns.get(key)!.push(now.getTime());
+  }
+  return null;
+}
+
+/** The refusal as a response; `Retry-After` is when the call would be admitted again. */
+export function limitExceeded(breach: LimitBreach): Response {
+  return NextResponse.json(breach, {
+    status: breach.kind === "unpriced" ? 422 : 429,
+    headers: breach.retryAfterSeconds === undefined ? undefined : { "Retry-After": String(breach.retryAfterSeconds) },
+  });
+}
@@ -0,0 +1,76 @@
+import { estimateUsage } from "@/lib/providers/estimate";
+import { recordUsage } from "@/lib/usage/store";
+import type { ModelProvider, ModelRequest, ModelUsage } from "@/types/provider";
+import type { UsageFeature, UsageScope } from "@/types/usage";
+
+/**
+ * Wraps a provider so every call's token counts are priced and added to the
+ * usage ledger under `scope`. A call the provider never reports usage for,
+ * such as a stream the client cancels before the final event, is recorded
+ * from an estimate of its prompt and the text received so far. Ledger writes
+ * never fail the model call.
+ */
+export function meterProvider(
+  provider: ModelProvider | null,
+  feature: UsageFeature,
+  scope: UsageScope = {}
+): ModelProvider | null {
+  if (!provider) return null;
+
+  const record = (tokens: ModelUsage, estimated: boolean) => {
+    const call = { ...scope, feature, provider: provider.id, model: provider.model, ...(estimated ? { estimated } : {}) };
+    recordUsage(call, tokens).catch((error) => {
+      console.error("Usage ledger write failure", error);
+    });
+  };
+
+  const metered = (request: ModelRequest) => {
+    let reported = false;
+    return {
+      request: {
+        ...request,
+        onUsage: (tokens: ModelUsage) => {
+          reported = true;
+          request.onUsage?.(tokens);
+          record(tokens, false);
+        },
+      },
+      settle: (output: string) => {
+        if (!reported) record(estimateUsage(request.messages, output), true);
+      },
+    };
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    async complete(request) {
+      const call = metered(request);
+      try {
+        const output = await provider.complete(call.request);
+        call.settle(output);
+        return output;
+      } catch (error) {
+        if (request.signal?.aborted) call.settle("");
+        throw error;
+      }
+    },
+    async *stream(request) {
+      const call = metered(request);
+      let output = "";
+      let failed = false;
+      try {
+        for await (const chunk of provider.stream(call.request)) {
+          output += chunk;
+          yield chunk;
+        }
+      } catch (error) {
+        failed = !request.signal?.aborted;
+        throw error;
+      } finally {
+        // Also reached when the consumer stops iterating early.
+        if (!failed) call.settle(output);
+      }
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import path from "node:path";
+import { z } from "zod";
+
+import { createConfigFileLoader } from "@/lib/config-file";
+import { currencyCodeSchema } from "@/lib/currency";
+import { DATA_DIR } from "@/lib/storage";
+import type { ModelUsage } from "@/types/provider";
+import type { ModelPrice, PriceTable } from "@/types/usage";
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/** OpenAI list prices, per million tokens, used when no `MODEL_PRICES_FILE` is configured. */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: "USD",
+  asOf: "2025-06-30",
+  models: {
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    o3: { input: 2, output: 8 },
+    "o4-mini": { input: 1.1, output: 4.4 },
+    mock: { input: 0, output: 0 },
+  },
+};
+
+const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+});
+
+export const priceTableSchema = z.object({
+  currency: currencyCodeSchema,
+  asOf: z.string(),
+  models: z.record(z.string().min(1), modelPriceSchema),
+});
+
+/**
+ * Reads the price table from `MODEL_PRICES_FILE` (default
+ * `.storepilot/model-prices.json`), re-reading it when the file changes. Falls
+ * back to the built-in list prices when the file is missing or invalid.
+ */
+export const loadPriceTable = createConfigFileLoader<PriceTable>({
+  label: "model prices",
+  file: () => process.env.MODEL_PRICES_FILE ?? path.join(DATA_DIR, "model-prices.json"),
+  schema: priceTableSchema,
+  fallback: DEFAULT_PRICE_TABLE,
+});
+
+/** The exact model's price, else the longest key it starts with, so `gpt-4o-mini-2024-07-18` uses `gpt-4o-mini`. */
+export function priceFor(table: PriceTable, model: string): ModelPrice | null {
+  if (table.models[model]) return table.models[model];
+
+  const prefix = Object.keys(table.models)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table.models[prefix] : null;
+}
+
+/** Cost of one call in the table's currency, or null when the model has no price. */
+export function costOf(table: PriceTable, model: string, usage: ModelUsage): number | null {
+  const price = priceFor(table, model);
+  if (!price) return null;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / TOKENS_PER_PRICE_UNIT;
+}
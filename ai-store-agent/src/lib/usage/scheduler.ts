@@ -0,0 +1,22 @@
+import { pruneUsage } from "@/lib/usage/store";
+
+const TICK_MS = 24 * 60 * 60_000;
+
+const globalScheduler = globalThis as typeof globalThis & { storePilotUsagePruner?: NodeJS.Timeout };
+
+function prune(): void {
+  pruneUsage().catch((error) => console.error("Usage pruning failed", error));
+}
+
+/**
+ * Trims the usage ledger at startup and then once a day, so model calls never
+ * wait on it.
+ */
+export function startUsagePruner(): void {
+  if (globalScheduler.storePilotUsagePruner) return;
+
+  prune();
+  const timer = setInterval(prune, TICK_MS);
+  timer.unref();
+  globalScheduler.storePilotUsagePruner = timer;
+}
@@ -0,0 +1,168 @@
+import { createCollection } from "@/lib/storage";
+import { costOf, loadPriceTable } from "@/lib/usage/prices";
+import { listWorkspaces } from "@/lib/workspaces/store";
+import type { ModelUsage, ProviderId } from "@/types/provider";
+import type {
+  UsageBreakdown,
+  UsageFeature,
+  UsageRecord,
+  UsageScope,
+  UsageSettings,
+  UsageSummary,
+  UsageTotals,
+} from "@/types/usage";
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  userRateLimit: { requests: 5, windowSeconds: 60 },
+  workspaceRateLimit: { requests: 30, windowSeconds: 60 * 60 },
+  userMonthlyBudget: null,
+  workspaceMonthlyBudget: null,
+};
+
+/** Months kept before the current one; budgets only ever read the current month. */
+const RETENTION_MONTHS = 12;
+const SETTINGS_ID = "default";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const usage = createCollection<UsageRecord>("usage");
+const settingsStore = createCollection<{ id: string; settings: UsageSettings }>("usage-settings");
+
+export async function getUsageSettings(): Promise<UsageSettings> {
+  return (await settingsStore.get(SETTINGS_ID))?.settings ?? DEFAULT_USAGE_SETTINGS;
+}
+
+export async function saveUsageSettings(settings: UsageSettings): Promise<UsageSettings> {
+  const saved = { ...settings, updatedAt: new Date().toISOString() };
+  await settingsStore.upsertMany([{ id: SETTINGS_ID, settings: saved }]);
+  return saved;
+}
+
+export interface UsageCall extends UsageScope {
+  feature: UsageFeature;
+  provider: ProviderId;
+  model: string;
+  estimated?: boolean;
+}
+
+/** Prices a model call with the current price table and adds it to the ledger. */
+export async function recordUsage(call: UsageCall, tokens: ModelUsage, at = new Date()): Promise<UsageRecord> {
+  const table = await loadPriceTable();
+  const cost = costOf(table, call.model, tokens);
+  const record: UsageRecord = {
+    id: crypto.randomUUID(),
+    at: at.toISOString(),
+    ...call,
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    // Micro-units keep sub-cent calls without floating-point noise.
+    cost: cost === null ? 0 : Math.round(cost * 1e6) / 1e6,
+    currency: table.currency,
+    priced: cost !== null,
+  };
+
+  await usage.insert(record);
+  return record;
+}
+
+/** Deletes records from before the retention window; the current month is always kept. */
+export async function pruneUsage(now = new Date()): Promise<number> {
+  const cutoff = monthOf(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - RETENTION_MONTHS, 1)));
+  return usage.removeWhere((record) => monthOf(new Date(record.at)) < cutoff);
+}
+
+/** YYYY-MM in UTC, the period monthly budgets reset on. */
+export function monthOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+async function monthRecords(month: string): Promise<UsageRecord[]> {
+  return (await usage.list()).filter((record) => record.at.startsWith(month));
+}
+
+/** Spend so far this month by one user or in one store, in the price table's currency. */
+export async function monthlySpend(
+  filter: { userId?: string; workspaceId?: string },
+  now = new Date()
+): Promise<number> {
+  const records = await monthRecords(monthOf(now));
+  return records
+    .filter(
+      (record) =>
+        (!filter.userId || record.user?.id === filter.userId) &&
+        (!filter.workspaceId || record.workspaceId === filter.workspaceId)
+    )
+    .reduce((total, record) => total + record.cost, 0);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cost += record.cost;
+}
+
+function breakdown(
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+  labelOf: (key: string, record: UsageRecord) => string
+): UsageBreakdown[] {
+  const groups = new Map<string, UsageBreakdown>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key) ?? { key, label: labelOf(key, record), ...emptyTotals() };
+    addRecord(group, record);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+}
+
+/** Days of `month` up to today, so quiet days still show in the chart. */
+function monthDays(month: string, now: Date): string[] {
+  const days: string[] = [];
+  const today = now.toISOString().slice(0, 10);
+  for (let day = new Date(`${month}-01T00:00:00Z`); monthOf(day) === month; day = new Date(day.getTime() + DAY_MS)) {
+    const key = day.toISOString().slice(0, 10);
+    if (key > today) break;
+    days.push(key);
+  }
+  return days;
+}
+
+/** Spend in `month` (YYYY-MM) across every store, broken down by user, store and day. */
+export async function summarizeUsage(month: string, now = new Date()): Promise<UsageSummary> {
+  const [records, table, workspaces] = await Promise.all([monthRecords(month), loadPriceTable(), listWorkspaces()]);
+  const storeNames = new Map(workspaces.map((workspace) => [workspace.id, workspace.name]));
+  // Newest first, so each user is labelled with the name on their latest call.
+  const sorted = [...records].sort((a, b) => b.at.localeCompare(a.at));
+
+  const totals = emptyTotals();
+  sorted.forEach((record) => addRecord(totals, record));
+
+  const days = new Map(monthDays(month, now).map((day) => [day, { key: day, label: day, ...emptyTotals() }]));
+  for (const record of sorted) {
+    const day = days.get(record.at.slice(0, 10));
+    if (day) addRecord(day, record);
+  }
+
+  return {
+    month,
+    currency: table.currency,
+    totals,
+    byUser: breakdown(
+      sorted,
+      (record) => record.user?.id ?? "",
+      (key, record) => (key ? record.user!.name : "Scheduled and system calls")
+    ),
+    byWorkspace: breakdown(
+      sorted,
+      (record) => record.workspaceId ?? "",
+      (key) => (key ? storeNames.get(key) ?? `Deleted store (${key})` : "Not tied to a store")
+    ),
+    byDay: [...days.values()],
+    unpricedModels: [...new Set(sorted.filter((record) => !record.priced).map((record) => record.model))].sort(),
+  };
+}
@@ -0,0 +1,18 @@
+import { CHANNEL_OPTIONS } from "@/lib/templates/options";
+import type { Workspace } from "@/types/workspaces";
+
+/** Brand profile block placed right after the brief, so the plan speaks as the active store. */
+export function buildBrandContext({ name, profile }: Workspace): string {
+  const channels = profile.enabledChannels.map(
+    (value) => CHANNEL_OPTIONS.find((option) => option.value === value)?.label ?? value
+  );
+
+  const lines = [
+    `Store: ${name}. Plan for this store only.`,
+    profile.voice ? `Brand voice: ${profile.voice}` : null,
+    `Loyalty program: ${profile.loyaltyProgramName}. Use this name wherever the plan refers to loyalty points, rewards or tiers.`,
+    `Default currency: ${profile.defaultCurrency}. Quote prices and budgets in it unless the brief gives another.`,
+    channels.length > 0 ? `Channels the store runs: ${channels.join(", ")}. Do not plan work on other channels.` : null,
+  ];
+  return lines.filter(Boolean).join("\n");
+}
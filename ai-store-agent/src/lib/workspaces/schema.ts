@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { currencyCodeSchema } from "@/lib/currency";
+import { guardrailSettingsSchema } from "@/lib/guardrails/schema";
+import { CHANNEL_OPTIONS } from "@/lib/templates/options";
+
+export const brandProfileSchema = z.object({
+  voice: z.string().trim().max(2000),
+  logoUrl: z.url().optional(),
+  loyaltyProgramName: z.string().trim().min(1).max(80),
+  defaultCurrency: currencyCodeSchema,
+  enabledChannels: z
+    .array(z.enum(CHANNEL_OPTIONS.map((option) => option.value)))
+    .min(1, "Enable at least one channel"),
+});
+
+export const workspaceInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  profile: brandProfileSchema,
+  /** Starting guardrails for the store; the guardrails panel edits them afterwards. */
+  guardrails: guardrailSettingsSchema.optional(),
+});
+
+export const workspaceChangeSchema = workspaceInputSchema.partial();
@@ -0,0 +1,23 @@
+import { CHANNEL_OPTIONS } from "@/lib/templates/options";
+import type { BrandProfile } from "@/types/workspaces";
+
+/** Records saved before workspaces existed have no `workspaceId` and belong to this one. */
+export const DEFAULT_WORKSPACE_ID = "default";
+
+/** Cookie the dashboard's store switcher sets. */
+export const WORKSPACE_COOKIE = "storepilot-workspace";
+
+/** Header API clients can send instead of the cookie. */
+export const WORKSPACE_HEADER = "x-storepilot-workspace";
+
+export function inWorkspace(record: { workspaceId?: string }, workspaceId: string): boolean {
+  return (record.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId;
+}
+
+/** Profile of the main store until it is edited, and the starting point for new stores. */
+export const DEFAULT_BRAND_PROFILE: BrandProfile = {
+  voice: "",
+  loyaltyProgramName: "Aeon Money",
+  defaultCurrency: "USD",
+  enabledChannels: CHANNEL_OPTIONS.map((option) => option.value),
+};
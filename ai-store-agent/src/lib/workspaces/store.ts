@@ -0,0 +1,125 @@
+import { cookieValue } from "@/lib/cookies";
+import { deleteGuardrailSettings, saveGuardrailSettings } from "@/lib/guardrails/settings";
+import { listMediaAssets } from "@/lib/media-assets";
+import { listRuns } from "@/lib/runs";
+import { createCollection } from "@/lib/storage";
+import { deleteWorkspaceTemplates } from "@/lib/templates/store";
+import {
+  DEFAULT_BRAND_PROFILE,
+  DEFAULT_WORKSPACE_ID,
+  WORKSPACE_COOKIE,
+  WORKSPACE_HEADER,
+} from "@/lib/workspaces/scope";
+import type { GuardrailSettings } from "@/types/guardrails";
+import type { BrandProfile, Workspace } from "@/types/workspaces";
+
+const DEFAULT_WORKSPACE: Workspace = {
+  id: DEFAULT_WORKSPACE_ID,
+  name: "Main store",
+  profile: DEFAULT_BRAND_PROFILE,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const workspaces = createCollection<Workspace>("workspaces");
+
+export class WorkspaceError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+export interface WorkspaceInput {
+  name: string;
+  profile: BrandProfile;
+  /** Saved to the store's guardrail settings rather than on the workspace record. */
+  guardrails?: GuardrailSettings;
+}
+
+/** The default store first, then the others by name. */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const records = await workspaces.list();
+  const main = records.find((workspace) => workspace.id === DEFAULT_WORKSPACE_ID) ?? DEFAULT_WORKSPACE;
+  const others = records.filter((workspace) => workspace.id !== DEFAULT_WORKSPACE_ID);
+  return [main, ...others.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+  const stored = await workspaces.get(id);
+  return stored ?? (id === DEFAULT_WORKSPACE_ID ? DEFAULT_WORKSPACE : null);
+}
+
+async function assertUniqueName(name: string, exceptId?: string): Promise<void> {
+  const clash = (await listWorkspaces()).find(
+    (workspace) => workspace.id !== exceptId && workspace.name.toLowerCase() === name.toLowerCase()
+  );
+  if (clash) throw new WorkspaceError(`A store named "${clash.name}" already exists`, 409);
+}
+
+export async function createWorkspace(input: WorkspaceInput): Promise<Workspace> {
+  await assertUniqueName(input.name);
+
+  const now = new Date().toISOString();
+  const workspace = await workspaces.insert({
+    id: crypto.randomUUID(),
+    name: input.name,
+    profile: input.profile,
+    createdAt: now,
+    updatedAt: now,
+  });
+  if (input.guardrails) await saveGuardrailSettings(input.guardrails, workspace.id);
+  return workspace;
+}
+
+export async function updateWorkspace(id: string, change: Partial<WorkspaceInput>): Promise<Workspace | null> {
+  const current = await getWorkspace(id);
+  if (!current) return null;
+  const { guardrails, ...fields } = change;
+  if (fields.name) await assertUniqueName(fields.name, id);
+
+  const updated: Workspace = {
+    ...current,
+    ...fields,
+    updatedAt: new Date().toISOString(),
+  };
+  await workspaces.upsertMany([updated]);
+  if (guardrails) await saveGuardrailSettings(guardrails, id);
+  return updated;
+}
+
+/**
+ * Removes a store along with its templates, team library and guardrails. Stores
+ * that still have runs or media are kept so their plans, metrics (which belong
+ * to runs) and uploads are not orphaned.
+ */
+export async function deleteWorkspace(id: string): Promise<boolean> {
+  if (id === DEFAULT_WORKSPACE_ID) throw new WorkspaceError("The main store cannot be deleted", 409);
+  if (!(await workspaces.get(id))) return false;
+
+  const runs = await listRuns(id);
+  if (runs.length > 0) {
+    throw new WorkspaceError(`Delete this store's ${runs.length} run(s) first`, 409);
+  }
+  const media = await listMediaAssets(id);
+  if (media.length > 0) {
+    throw new WorkspaceError(`Delete this store's ${media.length} media asset(s) first`, 409);
+  }
+
+  await deleteWorkspaceTemplates(id);
+  await deleteGuardrailSettings(id);
+  return workspaces.remove(id);
+}
+
+/**
+ * The store a request works in: the `x-storepilot-workspace` header, else the
+ * switcher's cookie, else the main store. Null when the header names an unknown
+ * store; a stale cookie falls back to the main store.
+ */
+export async function workspaceFromRequest(request: Request): Promise<Workspace | null> {
+  const requested = request.headers.get(WORKSPACE_HEADER);
+  if (requested) return getWorkspace(requested);
+
+  const selected = cookieValue(request, WORKSPACE_COOKIE);
+  return (selected ? await getWorkspace(selected) : null) ?? (await getWorkspace(DEFAULT_WORKSPACE_ID))!;
+}
@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { SESSION_COOKIE } from "@/lib/auth/roles";
+
+/**
+ * Sends visitors without a session cookie to the sign-in page. This is only a
+ * shortcut for pages: API routes check the session or API key themselves.
+ */
+export default function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", request.nextUrl.pathname);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!api|login|_next/static|_next/image|favicon.ico).*)"],
+};
@@ -0,0 +1,112 @@
+import type { AdPlatform, MediaKind } from "@/types/agent";
+
+export type AdLaunchStatus = "draft" | "sent" | "failed";
+
+export type AdGender = "male" | "female";
+
+/** Audience read from an ad strategy item's prose. */
+export interface AdTargeting {
+  /** ISO 3166-1 alpha-2 codes. */
+  countries: string[];
+  ageMin: number;
+  ageMax: number;
+  /** Empty means every gender. */
+  genders: AdGender[];
+  /** ISO 639-1 codes. */
+  languages: string[];
+  interests: string[];
+  keywords: string[];
+}
+
+/** Uploaded media used as ad creative. */
+export interface AdCreativeReference {
+  mediaId: string;
+  name: string;
+  kind: MediaKind;
+  url: string;
+  /** Poster frame for videos. */
+  thumbnailUrl?: string;
+}
+
+export interface AdSchedule {
+  /** ISO timestamp. */
+  start: string;
+  end?: string;
+}
+
+/** One approved `adStrategy` item and what the launch makes of it. */
+export interface AdLaunchItem {
+  /** Index into the run's `adStrategy`. */
+  index: number;
+  approvalId: string;
+  audience: string;
+  /** The item's `creatives` line, used as ad copy. */
+  copy: string;
+  targeting: AdTargeting;
+  dailyBudget: number;
+  creatives: AdCreativeReference[];
+}
+
+/**
+ * One Marketing API call. Later calls refer to the IDs earlier ones return
+ * with `{result=<name>:$.id}`, as in a Graph API batch request.
+ */
+export interface MetaRequest {
+  name: string;
+  method: "POST";
+  /** Path under the Graph API version, e.g. `act_123/campaigns`. */
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export interface MetaLaunchPayload {
+  platform: "meta";
+  adAccountId: string;
+  requests: MetaRequest[];
+}
+
+/** Body of one `googleAds:mutate` call; resources refer to each other by negative temporary IDs. */
+export interface GoogleMutateRequest {
+  mutateOperations: Array<Record<string, unknown>>;
+  partialFailure: boolean;
+  validateOnly: boolean;
+}
+
+export interface GoogleLaunchPayload {
+  platform: "google";
+  customerId: string;
+  request: GoogleMutateRequest;
+}
+
+export type AdLaunchPayload = MetaLaunchPayload | GoogleLaunchPayload;
+
+export interface AdLaunchResult {
+  /** Request names (Meta) or temporary resource names (Google) mapped to what the platform created. */
+  created: Record<string, string>;
+  endpoint: string;
+  sentAt: string;
+}
+
+export interface AdLaunch {
+  id: string;
+  runId: string;
+  platform: AdPlatform;
+  status: AdLaunchStatus;
+  currency: string;
+  dailyBudget: number;
+  schedule: AdSchedule;
+  landingUrl: string;
+  items: AdLaunchItem[];
+  payload: AdLaunchPayload;
+  /** Things a reviewer should check before sending. */
+  notes: string[];
+  result?: AdLaunchResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdLaunchSkip {
+  index: number;
+  message: string;
+}
@@ -1,11 +1,30 @@
+import type { CatalogReference } from "@/types/catalog";
+import type { LoyaltyRuleProposal } from "@/types/loyalty";
+import type { ProviderId } from "@/types/provider";
+
 export type MediaKind = "image" | "video";
 
+export interface MediaCropSuggestion {
+  channel: string;
+  ratio: string;
+  note?: string;
+}
+
+export interface MediaAnalysis {
+  productDetected: string | null;
+  dominantColors: string[];
+  altText: string;
+  cropSuggestions: MediaCropSuggestion[];
+  source: "model" | "heuristic";
+}
+
 export interface MediaAttachment {
+  /** Asset ID returned by `POST /api/media`. */
   id: string;
   name: string;
   kind: MediaKind;
-  dataUrl: string;
   notes?: string;
+  analysis?: MediaAnalysis;
 }
 
 export type AgentFocus =
@@ -17,11 +36,54 @@ export type AgentFocus =
   | "ads"
   | "support";
 
+export type AdPlatform = "meta" | "google";
+
+export type BudgetCadence = "daily" | "weekly" | "monthly";
+
 export interface CampaignBudget {
   amount: number;
   currency: string;
-  cadence: "daily" | "weekly" | "monthly";
-  platform?: "meta" | "google" | "both";
+  cadence: BudgetCadence;
+  platform?: AdPlatform | "both";
+}
+
+export interface BudgetAllocationLine {
+  platform: AdPlatform;
+  channel: string;
+  share: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface BudgetNoteCheck {
+  platform: string;
+  status: "consistent" | "contradiction" | "unverifiable";
+  message: string;
+}
+
+export interface BudgetReporting {
+  currency: string;
+  /** Units of the reporting currency per unit of the budget currency. */
+  rate: number;
+  asOf: string;
+  amount: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface BudgetAllocation {
+  currency: string;
+  cadence: BudgetCadence;
+  amount: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+  lines: BudgetAllocationLine[];
+  warnings: string[];
+  noteChecks: BudgetNoteCheck[];
+  reporting?: BudgetReporting;
 }
 
 export interface AgentBrief {
@@ -33,6 +95,8 @@ export interface AgentBrief {
   tasks: string[];
   media: MediaAttachment[];
   budget?: CampaignBudget;
+  /** Run whose measured performance this brief re-plans against. */
+  replanOf?: string;
 }
 
 export interface AgentOutput {
@@ -62,10 +126,47 @@ export interface AgentOutput {
   }>;
   seoPlan: string;
   loyaltyPlan: string;
+  /** Computed from the brief's budget after the model replies, never by the model. */
+  budgetAllocation?: BudgetAllocation;
+  /** Catalog SKUs the plan mentions, resolved against the catalog after the model replies. */
+  catalogReferences?: CatalogReference[];
+  /** Structured rules read from `loyaltyPlan`, ready to preview and apply. */
+  loyaltyProposals?: LoyaltyRuleProposal[];
+}
+
+export type AgentFallbackReason = "missing-api-key" | "model-error" | "invalid-output";
+
+export interface AgentDiagnostics {
+  provider?: ProviderId;
+  model?: string;
+  attempts: number;
+  repaired: boolean;
+  repairs: string[];
+  issues: string[];
+  fallback?: AgentFallbackReason;
 }
 
 export interface AgentResponse {
+  runId?: string;
   plan: AgentOutput;
   raw: string;
   usedSample: boolean;
+  diagnostics?: AgentDiagnostics;
 }
+
+export type AgentSectionKey = Exclude<
+  keyof AgentOutput,
+  "budgetAllocation" | "catalogReferences" | "loyaltyProposals"
+>;
+
+export type AgentSection = {
+  [K in AgentSectionKey]: { key: K; value: AgentOutput[K] };
+}[AgentSectionKey];
+
+/** `reset` means the sections so far failed validation and a repair attempt follows. */
+export type AgentStreamEvent =
+  | ({ type: "section" } & AgentSection)
+  | { type: "reset"; attempt: number }
+  | { type: "done"; response: AgentResponse };
+
+export type ExportFormat = "markdown" | "csv" | "ics";
@@ -0,0 +1,50 @@
+import type { StoreEvent } from "@/types/automation";
+
+export type ApprovalCategory = "spend" | "publish" | "pricing";
+
+export type ApprovalStatus = "pending" | "approved" | "rejected";
+
+export type ApprovalDecision = "approve" | "reject";
+
+export type PlanApprovalSection = "taskMatrix" | "automations" | "channelPlaybooks" | "adStrategy";
+
+/** Flat copy of the item under review; reviewers edit these fields before approving. */
+export type ApprovalDetails = Record<string, string | number>;
+
+export type ApprovalSource =
+  | { type: "plan"; runId: string; section: PlanApprovalSection; index: number }
+  | { type: "automation"; ruleId: string; event: StoreEvent };
+
+export interface ApprovalRequest {
+  id: string;
+  category: ApprovalCategory;
+  status: ApprovalStatus;
+  title: string;
+  details: ApprovalDetails;
+  source: ApprovalSource;
+  createdAt: string;
+  updatedAt: string;
+  /** Name of the reviewer who decided, as it was at the time. */
+  decidedBy?: string;
+  /** User id of that reviewer; missing on decisions made before sign-in existed. */
+  decidedById?: string;
+  decidedAt?: string;
+}
+
+export interface ApprovalFieldChange {
+  field: string;
+  from: string | number;
+  to: string | number;
+}
+
+export interface ApprovalAuditEntry {
+  id: string;
+  approvalId: string;
+  action: "requested" | "edited" | "approved" | "rejected";
+  actor: string;
+  /** User id of the actor; missing on StorePilot's own entries. */
+  actorId?: string;
+  note?: string;
+  changes?: ApprovalFieldChange[];
+  at: string;
+}
@@ -0,0 +1,43 @@
+/** Each role can do everything the roles before it can. */
+export type Role = "viewer" | "planner" | "approver" | "admin";
+
+export interface UserAccount {
+  id: string;
+  /** Stored lower-cased; used to sign in. */
+  email: string;
+  name: string;
+  role: Role;
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type User = Omit<UserAccount, "passwordHash">;
+
+/** Who created or decided a record, kept even after the account is deleted. */
+export interface UserRef {
+  id: string;
+  name: string;
+}
+
+export interface Session {
+  /** SHA-256 of the cookie token, so the token itself is never stored. */
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  /** First characters of the key, shown so people can tell keys apart. */
+  prefix: string;
+  /** SHA-256 of the key; the key itself is shown once, when it is created. */
+  hash: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export type ApiKeySummary = Omit<ApiKey, "hash">;
@@ -0,0 +1,71 @@
+import type { AdPlatform } from "@/types/agent";
+
+export type StoreEventType =
+  | "inventory.updated"
+  | "order.created"
+  | "cart.abandoned"
+  | "review.posted"
+  | "ad.performance"
+  | "schedule.tick";
+
+export type StoreEventPayload = Record<string, string | number | boolean>;
+
+export interface StoreEvent {
+  id: string;
+  type: StoreEventType;
+  payload: StoreEventPayload;
+  occurredAt: string;
+}
+
+export interface TriggerCondition {
+  field: string;
+  operator: "lt" | "gt" | "eq";
+  value: string | number | boolean;
+}
+
+export type ScheduleInterval = "hour" | "day" | "week";
+
+export type AutomationTrigger =
+  | { type: "event"; event: Exclude<StoreEventType, "schedule.tick">; conditions: TriggerCondition[] }
+  | { type: "schedule"; every: ScheduleInterval };
+
+export type AutomationAction =
+  | { type: "pause-ads"; platform: AdPlatform | "all" }
+  | { type: "adjust-budget"; platform: AdPlatform | "all"; changePercent: number }
+  | { type: "send-email"; audience: "customer" | "team"; template: string }
+  | { type: "notify"; channel: "slack" | "dashboard"; message: string }
+  | { type: "update-price"; changePercent: number }
+  | { type: "tag-customer"; tag: string }
+  | { type: "create-task"; title: string };
+
+export type AutomationActionType = AutomationAction["type"];
+
+export interface AutomationRule {
+  id: string;
+  title: string;
+  description: string;
+  source: { runId?: string; trigger: string; action: string };
+  trigger: AutomationTrigger | null;
+  action: AutomationAction | null;
+  enabled: boolean;
+  /** Parts of the source text that could not be turned into a definition. */
+  issues: string[];
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+}
+
+export type AutomationExecutionStatus = "succeeded" | "failed" | "awaiting-approval";
+
+export interface AutomationExecution {
+  id: string;
+  ruleId: string;
+  ruleTitle: string;
+  eventId: string;
+  eventType: StoreEventType;
+  dryRun: boolean;
+  status: AutomationExecutionStatus;
+  output: string;
+  startedAt: string;
+  finishedAt: string;
+}
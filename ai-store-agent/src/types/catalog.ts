@@ -0,0 +1,40 @@
+export type CatalogImportFormat = "csv" | "shopify";
+
+export interface CatalogProduct {
+  /** The SKU; products are keyed by it so re-imports update in place. */
+  id: string;
+  title: string;
+  price: number;
+  currency?: string;
+  compareAtPrice?: number;
+  stock: number;
+  tags: string[];
+  productType?: string;
+  vendor?: string;
+  handle?: string;
+  status: "active" | "draft" | "archived";
+  importedAt: string;
+}
+
+export interface CatalogImportIssue {
+  /** 1-based CSV line, or the product's position in a Shopify export. */
+  row?: number;
+  message: string;
+}
+
+export interface CatalogImportResult {
+  format: CatalogImportFormat;
+  created: number;
+  updated: number;
+  removed: number;
+  skipped: CatalogImportIssue[];
+}
+
+/** A catalog product the plan mentions, captured when the run finishes. */
+export interface CatalogReference {
+  sku: string;
+  title: string;
+  price: number;
+  currency?: string;
+  stock: number;
+}
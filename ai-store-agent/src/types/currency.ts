@@ -0,0 +1,12 @@
+export interface FxTable {
+  /** Currency every rate is quoted against; its own rate is implicitly 1. */
+  base: string;
+  asOf: string;
+  /** Units of each currency per one unit of `base`. */
+  rates: Record<string, number>;
+}
+
+export interface CurrencySettings {
+  table: FxTable;
+  reportingCurrency: string;
+}
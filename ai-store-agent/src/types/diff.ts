@@ -0,0 +1,32 @@
+import type { AgentOutput } from "@/types/agent";
+import type { AgentRunSummary } from "@/types/runs";
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface TextDiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface ListItemDiff<T> {
+  key: string;
+  status: DiffStatus;
+  before?: T;
+  after?: T;
+  changedFields: Array<keyof T & string>;
+}
+
+type ListSectionKey = "taskMatrix" | "automations" | "channelPlaybooks" | "adStrategy";
+type TextSectionKey = "executiveSummary" | "seoPlan" | "loyaltyPlan";
+
+export type PlanDiff = {
+  [K in ListSectionKey]: Array<ListItemDiff<AgentOutput[K][number]>>;
+} & {
+  [K in TextSectionKey]: { changed: boolean; segments: TextDiffSegment[] };
+};
+
+export interface RunComparison {
+  base: AgentRunSummary;
+  target: AgentRunSummary;
+  diff: PlanDiff;
+}
@@ -0,0 +1,76 @@
+export type ExperimentStatus = "draft" | "running" | "stopped" | "completed";
+
+export type ConfidenceLevel = 0.9 | 0.95 | 0.99;
+
+export interface PriceVariant {
+  /** "A" is always the control at the current catalog price. */
+  id: string;
+  price: number;
+  /** Share of traffic, 0–1; the weights of an experiment sum to 1. */
+  weight: number;
+}
+
+export interface StoppingRules {
+  minVisitorsPerVariant: number;
+  minDays: number;
+  maxDays: number;
+  confidence: ConfidenceLevel;
+}
+
+export interface PriceExperiment {
+  id: string;
+  sku: string;
+  title: string;
+  hypothesis?: string;
+  currency?: string;
+  variants: PriceVariant[];
+  stoppingRules: StoppingRules;
+  status: ExperimentStatus;
+  source?: { runId: string };
+  createdAt: string;
+  startedAt?: string;
+  endedAt?: string;
+  /** Variant id of the winner; absent when the test ended without one. */
+  winner?: string;
+  conclusion?: string;
+}
+
+export type ExperimentEventType = "exposure" | "order";
+
+export interface ExperimentEvent {
+  id: string;
+  experimentId: string;
+  variantId: string;
+  type: ExperimentEventType;
+  visitorId: string;
+  orderId?: string;
+  revenue?: number;
+  occurredAt: string;
+}
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+export interface VariantResult {
+  variantId: string;
+  price: number;
+  visitors: number;
+  conversions: number;
+  revenue: number;
+  conversionRate: number;
+  conversionInterval: Interval;
+  revenuePerVisitor: number;
+  revenuePerVisitorInterval: Interval;
+  /** Revenue-per-visitor difference against the control; absent for the control itself. */
+  liftInterval?: Interval;
+}
+
+export interface ExperimentResults {
+  experimentId: string;
+  variants: VariantResult[];
+  daysRunning: number;
+  /** Stopping rules that still block a decision. */
+  pending: string[];
+}
@@ -0,0 +1,58 @@
+import type { AgentSectionKey } from "@/types/agent";
+
+export interface GuardrailTerm {
+  term: string;
+  /** Text that replaces the term on rewrite; the term is removed when this is missing. */
+  replacement?: string;
+}
+
+export interface DisclaimerRule {
+  text: string;
+  /** Copy that mentions any of these needs the disclaimer. */
+  triggers: string[];
+}
+
+export interface GuardrailSettings {
+  bannedWords: GuardrailTerm[];
+  restrictedClaims: GuardrailTerm[];
+  disclaimers: DisclaimerRule[];
+  /** Highest discount the copy may promise, in percent; null for no cap. */
+  maxDiscountPercent: number | null;
+  /** Built-in Meta and Google ad policy checks on ad and playbook copy. */
+  adPolicies: boolean;
+  updatedAt?: string;
+}
+
+export type GuardrailKind = "banned-word" | "claim" | "disclaimer" | "discount" | "ad-policy";
+
+/** How a rewrite resolves a violation: swap the matched passage, or add a missing sentence. */
+export type GuardrailFix = { type: "replace"; find: string; replace: string } | { type: "append"; text: string };
+
+export interface GuardrailLocation {
+  section: AgentSectionKey;
+  /** Position in the section's list; missing for the plain-text sections. */
+  index?: number;
+  /** Field of the list item; missing for the plain-text sections. */
+  field?: string;
+  /** Readable path such as `adStrategy[0].creatives`. */
+  path: string;
+}
+
+export interface GuardrailViolation {
+  id: string;
+  kind: GuardrailKind;
+  location: GuardrailLocation;
+  /** The flagged passage as it appears in the text. */
+  excerpt: string;
+  message: string;
+  /** Null when the passage needs a human rewrite. */
+  fix: GuardrailFix | null;
+}
+
+export interface GuardrailReport {
+  runId?: string;
+  violations: GuardrailViolation[];
+  /** Terms read from the brief's constraints and checked like banned words. */
+  constraintTerms: string[];
+  checkedAt: string;
+}
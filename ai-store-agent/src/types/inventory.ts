@@ -0,0 +1,59 @@
+import type { CatalogImportIssue } from "@/types/catalog";
+
+export type InventorySnapshotSource = "csv" | "webhook";
+
+export interface StockSnapshot {
+  id: string;
+  sku: string;
+  quantity: number;
+  /** Units sold since the SKU's previous snapshot; inferred from the stock drop when absent. */
+  unitsSold?: number;
+  recordedAt: string;
+  source: InventorySnapshotSource;
+}
+
+export interface InventorySettings {
+  /** SKUs with fewer days of cover than this are low on stock. */
+  lowStockDays: number;
+  /** SKUs with more days of cover than this, or no sales at all, are overstocked. */
+  overstockDays: number;
+  /** Sales velocity is averaged over this many days of snapshots. */
+  velocityWindowDays: number;
+  updatedAt?: string;
+}
+
+export type InventoryHealth = "out-of-stock" | "low-stock" | "healthy" | "overstock" | "no-sales-data";
+
+export interface InventoryStatus {
+  sku: string;
+  title?: string;
+  quantity: number;
+  /** Units sold per day over the velocity window; null until there is enough history. */
+  dailyVelocity: number | null;
+  daysOfCover: number | null;
+  health: InventoryHealth;
+  recordedAt: string;
+}
+
+export type InventoryAlertKind = Extract<InventoryHealth, "out-of-stock" | "low-stock" | "overstock">;
+
+export interface InventoryAlert {
+  id: string;
+  sku: string;
+  title?: string;
+  kind: InventoryAlertKind;
+  quantity: number;
+  dailyVelocity: number | null;
+  daysOfCover: number | null;
+  message: string;
+  raisedAt: string;
+  updatedAt: string;
+  resolvedAt?: string;
+}
+
+export interface SnapshotIngestResult {
+  accepted: number;
+  skipped: CatalogImportIssue[];
+  raised: InventoryAlert[];
+  resolved: InventoryAlert[];
+}
@@ -0,0 +1,107 @@
+export interface LoyaltyTier {
+  name: string;
+  /** Points earned within the tier window needed to reach this tier. */
+  minPoints: number;
+  /** Applied to points earned while a customer holds the tier. */
+  multiplier: number;
+}
+
+export interface EarnMultiplier {
+  scope: "channel" | "campaign";
+  /** Channel or campaign name, matched case-insensitively against earn transactions. */
+  match: string;
+  multiplier: number;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export interface LoyaltyProgram {
+  /** Points earned per unit of `currency` spent. */
+  pointsPerUnit: number;
+  currency: string;
+  /** What a redeemed point costs the store, in `currency`. */
+  pointValue: number;
+  /** Points expire this many days after they are earned, oldest first; 0 disables expiry. */
+  expiryDays: number;
+  tierWindowDays: number;
+  tiers: LoyaltyTier[];
+  multipliers: EarnMultiplier[];
+  updatedAt?: string;
+}
+
+export type LoyaltyTransactionType = "earn" | "burn" | "adjust";
+
+export interface LoyaltyTransaction {
+  id: string;
+  customerId: string;
+  type: LoyaltyTransactionType;
+  /** Positive for earn, negative for burn; adjustments may be either. */
+  points: number;
+  /** Order value that produced an earn, in the program currency. */
+  amount?: number;
+  channel?: string;
+  campaign?: string;
+  orderId?: string;
+  multiplier?: number;
+  note?: string;
+  occurredAt: string;
+}
+
+export interface LoyaltyStatementEntry {
+  transactionId?: string;
+  type: LoyaltyTransactionType | "expire";
+  points: number;
+  balance: number;
+  note?: string;
+  occurredAt: string;
+}
+
+export interface CustomerLoyalty {
+  customerId: string;
+  balance: number;
+  lifetimeEarned: number;
+  /** Points earned within the tier window; decides the tier. */
+  qualifyingPoints: number;
+  tier: string | null;
+  nextExpiry?: { points: number; at: string };
+}
+
+export interface LoyaltySummary {
+  program: LoyaltyProgram;
+  customers: number;
+  outstandingPoints: number;
+  /** Outstanding points valued at `program.pointValue`. */
+  liability: number;
+  tiers: Record<string, number>;
+}
+
+export type LoyaltyRuleChange =
+  | { type: "multiplier"; multiplier: EarnMultiplier }
+  | { type: "tier"; tier: LoyaltyTier }
+  | { type: "expiry"; expiryDays: number }
+  | { type: "earn-rate"; pointsPerUnit: number };
+
+export interface LoyaltyRuleProposal {
+  id: string;
+  summary: string;
+  /** The sentence of the loyalty plan the proposal was read from. */
+  source: string;
+  change: LoyaltyRuleChange;
+}
+
+export interface LoyaltyPreviewTotals {
+  /** Points earned within the preview window. */
+  pointsIssued: number;
+  /** `pointsIssued` valued at the program's point value. */
+  cost: number;
+  outstandingPoints: number;
+  tiers: Record<string, number>;
+}
+
+export interface LoyaltyPreview {
+  days: number;
+  transactions: number;
+  current: LoyaltyPreviewTotals;
+  proposed: LoyaltyPreviewTotals;
+  tierChanges: Array<{ customerId: string; from: string | null; to: string | null }>;
+}
@@ -0,0 +1,44 @@
+import type { MediaAnalysis, MediaKind } from "@/types/agent";
+
+export type MediaVariant = "original" | "thumbnail" | "poster" | "keyframe";
+
+export type MediaStorageDriver = "local" | "s3";
+
+export interface MediaRendition {
+  variant: Exclude<MediaVariant, "original">;
+  key: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface MediaAsset {
+  id: string;
+  /** Store the asset was uploaded to; missing on assets uploaded before stores existed. */
+  workspaceId?: string;
+  name: string;
+  kind: MediaKind;
+  mimeType: string;
+  size: number;
+  storage: MediaStorageDriver;
+  key: string;
+  renditions: MediaRendition[];
+  analysis?: MediaAnalysis;
+  createdAt: string;
+}
+
+export interface StoredObject {
+  body: ReadableStream<Uint8Array>;
+  size: number;
+  range?: { start: number; end: number };
+}
+
+export interface MediaStorage {
+  driver: MediaStorageDriver;
+  put(
+    key: string,
+    body: ReadableStream<Uint8Array>,
+    options: { contentType: string; contentLength?: number }
+  ): Promise<void>;
+  get(key: string, range?: { start: number; end?: number }): Promise<StoredObject | null>;
+  remove(key: string): Promise<void>;
+}
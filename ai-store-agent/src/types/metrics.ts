@@ -0,0 +1,87 @@
+import type { CatalogImportIssue } from "@/types/catalog";
+
+export type MetricField = "spend" | "impressions" | "clicks" | "conversions" | "revenue" | "loyaltySignups";
+
+export type MetricValues = Record<MetricField, number>;
+
+export type MetricSource = "csv" | "api";
+
+/** One day of performance for a run, optionally narrowed to a channel and a task. */
+export interface MetricRow extends MetricValues {
+  id: string;
+  runId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  channel?: string;
+  /** Index into the run's `taskMatrix` when the row reports on one task. */
+  taskIndex?: number;
+  source: MetricSource;
+  importedAt: string;
+}
+
+export interface MetricTotals extends MetricValues {
+  /** Revenue per unit of spend. */
+  roas: number | null;
+  /** Spend per conversion. */
+  cpa: number | null;
+  /** Clicks per impression. */
+  ctr: number | null;
+  /** Conversions per click. */
+  conversionRate: number | null;
+}
+
+export type TargetMetric = keyof MetricTotals;
+
+export type TargetPeriod = "day" | "week" | "month";
+
+/** A measurable goal read from a task's `successMetric`. */
+export interface MetricTarget {
+  metric: TargetMetric;
+  direction: "min" | "max";
+  value: number;
+  /** Counts and amounts stated per period are scaled to the scored date range. */
+  per?: TargetPeriod;
+  text: string;
+}
+
+export type TargetStatus = "on-track" | "off-track" | "no-data";
+
+export interface TargetResult {
+  target: MetricTarget;
+  /** The target after scaling to the scored date range. */
+  expected: number;
+  actual: number | null;
+  status: TargetStatus;
+}
+
+export interface TaskScore {
+  index: number;
+  title: string;
+  successMetric: string;
+  /**
+   * `task` when rows were reported for the task or its channels, `run` when the
+   * task names no channel and is scored against the whole run.
+   */
+  scope: "task" | "run";
+  channels: string[];
+  totals: MetricTotals;
+  targets: TargetResult[];
+}
+
+export interface Scorecard {
+  runId: string;
+  /** First and last dates with data in the scored range. */
+  from: string | null;
+  to: string | null;
+  days: number;
+  totals: MetricTotals;
+  channels: Array<{ channel: string; totals: MetricTotals }>;
+  tasks: TaskScore[];
+}
+
+export interface MetricIngestResult {
+  runId: string;
+  created: number;
+  updated: number;
+  skipped: CatalogImportIssue[];
+}
@@ -0,0 +1,42 @@
+export type ProviderId = "openai-responses" | "openai-chat" | "mock";
+
+export type ModelContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; dataUrl: string };
+
+export interface ModelMessage {
+  role: "user" | "assistant";
+  content: string | ModelContentPart[];
+}
+
+/** Tokens a single model call consumed, as reported by the provider. */
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelRequest {
+  messages: ModelMessage[];
+  signal?: AbortSignal;
+  /** Called once per call with the token counts, when the provider reports them. */
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  model: string;
+  complete(request: ModelRequest): Promise<string>;
+  stream(request: ModelRequest): AsyncIterable<string>;
+}
+
+export interface ProviderSelection {
+  id?: ProviderId;
+  model?: string;
+}
+
+export interface ProviderConfig {
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  maxOutputTokens: number;
+}
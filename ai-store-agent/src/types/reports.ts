@@ -0,0 +1,60 @@
+import type { MetricTotals } from "@/types/metrics";
+
+export type ReportFormat = "markdown" | "html";
+
+export type ReportTrigger = "manual" | "schedule";
+
+export interface ReportKpi {
+  label: string;
+  value: number | null;
+  /** The same KPI over the period of equal length just before `from`. */
+  previous: number | null;
+  /** Fractional change from `previous`, null when either side is missing or zero. */
+  change: number | null;
+  unit: "count" | "amount" | "ratio" | "percent";
+}
+
+export interface ReportActivity {
+  runs: number;
+  sampleRuns: number;
+  approvals: { requested: number; approved: number; rejected: number; pending: number };
+  automations: { succeeded: number; failed: number; awaitingApproval: number; dryRun: number };
+}
+
+export interface ReportRunSummary {
+  id: string;
+  objective: string;
+  createdAt: string;
+}
+
+export interface ReportNarrative {
+  text: string;
+  source: "model" | "heuristic";
+}
+
+export interface GrowthReport {
+  id: string;
+  /** YYYY-MM-DD, inclusive. */
+  from: string;
+  to: string;
+  trigger: ReportTrigger;
+  totals: MetricTotals;
+  kpis: ReportKpi[];
+  activity: ReportActivity;
+  runs: ReportRunSummary[];
+  wins: string[];
+  misses: string[];
+  nextActions: string[];
+  narrative: ReportNarrative;
+  generatedAt: string;
+}
+
+export interface ReportSchedule {
+  enabled: boolean;
+  /** 0 is Sunday, as in `Date.getUTCDay`. */
+  weekday: number;
+  /** Hour of the day in UTC. */
+  hour: number;
+  lastRunAt?: string;
+  updatedAt?: string;
+}
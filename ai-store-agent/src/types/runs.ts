@@ -0,0 +1,25 @@
+import type { AgentBrief, AgentResponse } from "@/types/agent";
+import type { UserRef } from "@/types/auth";
+
+export interface AgentRunRecord {
+  id: string;
+  /** Store the run belongs to; missing on runs saved before stores existed. */
+  workspaceId?: string;
+  /** Missing on runs saved before sign-in existed. */
+  createdBy?: UserRef;
+  brief: AgentBrief;
+  response: AgentResponse;
+  usedSample: boolean;
+  createdAt: string;
+  completedAt: string;
+}
+
+export interface AgentRunSummary {
+  id: string;
+  objective: string;
+  focusAreas: AgentBrief["focusAreas"];
+  usedSample: boolean;
+  createdBy?: UserRef;
+  createdAt: string;
+  completedAt: string;
+}
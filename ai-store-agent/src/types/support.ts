@@ -0,0 +1,88 @@
+export type TicketIntent =
+  | "order-status"
+  | "shipping-issue"
+  | "return-refund"
+  | "product-question"
+  | "billing"
+  | "account"
+  | "complaint"
+  | "other";
+
+export type TicketUrgency = "low" | "normal" | "high" | "urgent";
+
+export type TicketSentiment = "positive" | "neutral" | "negative";
+
+export type TicketStatus = "open" | "escalated" | "replied" | "resolved";
+
+export type SlaBreach = "response" | "resolution";
+
+export interface TicketClassification {
+  intent: TicketIntent;
+  urgency: TicketUrgency;
+  sentiment: TicketSentiment;
+  summary: string;
+  source: "model" | "heuristic";
+}
+
+export interface TicketDraft {
+  text: string;
+  tone: string;
+  source: "model" | "template";
+  draftedAt: string;
+}
+
+export interface TicketEscalation {
+  ruleId: string;
+  rule: string;
+  team: string;
+  reason: string;
+  escalatedAt: string;
+}
+
+export interface SupportTicket {
+  id: string;
+  /** Message or ticket id from the sending system; repeats are ignored. */
+  externalId?: string;
+  channel: string;
+  customer: { email?: string; name?: string };
+  subject: string;
+  body: string;
+  orderId?: string;
+  receivedAt: string;
+  classification: TicketClassification;
+  status: TicketStatus;
+  draft?: TicketDraft;
+  reply?: string;
+  sla: { respondBy: string; resolveBy: string };
+  breaches: SlaBreach[];
+  escalation?: TicketEscalation;
+  repliedAt?: string;
+  resolvedAt?: string;
+  updatedAt: string;
+}
+
+export interface SlaTarget {
+  /** Minutes until the first reply is due. */
+  firstResponse: number;
+  /** Minutes until the ticket should be resolved. */
+  resolution: number;
+}
+
+export interface EscalationRule {
+  id: string;
+  name: string;
+  team: string;
+  /** Each list matches any of its values; every condition given must hold. */
+  intents?: TicketIntent[];
+  urgencies?: TicketUrgency[];
+  sentiments?: TicketSentiment[];
+  keywords?: string[];
+  /** Matches once a ticket has breached an SLA timer. */
+  onBreach?: boolean;
+}
+
+export interface SupportSettings {
+  sla: Record<TicketUrgency, SlaTarget>;
+  escalationRules: EscalationRule[];
+  updatedAt?: string;
+}
@@ -0,0 +1,44 @@
+import type { AgentBrief } from "@/types/agent";
+
+/** The parts of a brief a template pre-fills; media and provider are chosen per run. */
+export type TemplateBrief = Pick<
+  AgentBrief,
+  "objective" | "focusAreas" | "targetChannels" | "tasks" | "tone" | "constraints" | "budget"
+>;
+
+export interface BriefTemplate {
+  id: string;
+  /** Store that owns a team template; missing on built-ins and on templates saved before stores existed. */
+  workspaceId?: string;
+  name: string;
+  description?: string;
+  brief: TemplateBrief;
+  /** Shipped with StorePilot; read-only, but can be saved as a copy. */
+  builtIn: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Team-wide choices offered in the brief form. */
+export interface TeamLibrary {
+  tasks: string[];
+  tones: string[];
+  /** Template that pre-fills the form when the dashboard opens; null for the blank brief. */
+  defaultTemplateId: string | null;
+  updatedAt?: string;
+}
+
+export interface TemplateExport {
+  version: 1;
+  exportedAt: string;
+  templates: Array<Pick<BriefTemplate, "name" | "description" | "brief">>;
+  library: Pick<TeamLibrary, "tasks" | "tones">;
+}
+
+export interface TemplateImportResult {
+  created: number;
+  updated: number;
+  removed: number;
+  tasksAdded: number;
+  tonesAdded: number;
+}
@@ -0,0 +1,104 @@
+import type { UserRef } from "@/types/auth";
+import type { ProviderId } from "@/types/provider";
+
+/** The part of StorePilot that made a model call. */
+export type UsageFeature = "agent" | "media-analysis" | "support" | "report";
+
+export interface ModelPrice {
+  /** Cost per million input (prompt) tokens. */
+  input: number;
+  /** Cost per million output (completion) tokens. */
+  output: number;
+}
+
+export interface PriceTable {
+  currency: string;
+  asOf: string;
+  /** Keyed by model name; a key also prices dated snapshots it prefixes, such as `gpt-4.1-2025-04-14`. */
+  models: Record<string, ModelPrice>;
+}
+
+/** Who a model call is billed to; background work such as scheduled reports has neither. */
+export interface UsageScope {
+  user?: UserRef;
+  workspaceId?: string;
+}
+
+export interface UsageRecord extends UsageScope {
+  id: string;
+  at: string;
+  feature: UsageFeature;
+  provider: ProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** In the price table's currency; 0 when the model has no price. */
+  cost: number;
+  currency: string;
+  priced: boolean;
+  /** Token counts guessed from the text because the provider never reported them, as for a cancelled stream. */
+  estimated?: boolean;
+}
+
+export interface RateLimit {
+  requests: number;
+  windowSeconds: number;
+}
+
+/** Limits on agent runs; null turns a limit off. */
+export interface UsageSettings {
+  userRateLimit: RateLimit | null;
+  workspaceRateLimit: RateLimit | null;
+  /** Monthly spend caps, in the price table's currency. */
+  userMonthlyBudget: number | null;
+  workspaceMonthlyBudget: number | null;
+  updatedAt?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  /** User id, store id or day (YYYY-MM-DD); empty for calls with no user or store. */
+  key: string;
+  label: string;
+}
+
+export interface UsageSummary {
+  /** YYYY-MM */
+  month: string;
+  currency: string;
+  totals: UsageTotals;
+  byUser: UsageBreakdown[];
+  byWorkspace: UsageBreakdown[];
+  /** Every day of the month up to today, including days with no calls. */
+  byDay: UsageBreakdown[];
+  /** Models called this month that the price table does not cover. */
+  unpricedModels: string[];
+}
+
+export type LimitScope = "user" | "workspace";
+
+/**
+ * Why a model call was refused: a 429 for a rate limit or spent budget, or a
+ * 422 for a model the price table cannot cost while a budget applies.
+ */
+export interface LimitBreach {
+  error: string;
+  scope: LimitScope;
+  kind: "rate" | "quota" | "unpriced";
+  limit: number;
+  used: number;
+  /** Absent when waiting will not help. */
+  retryAfterSeconds?: number;
+}
+
+export interface QuotaStatus {
+  scope: LimitScope;
+  used: number;
+  budget: number | null;
+}
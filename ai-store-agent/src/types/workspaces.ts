@@ -0,0 +1,17 @@
+export interface BrandProfile {
+  /** How the store speaks to customers; given to the model with every brief. */
+  voice: string;
+  logoUrl?: string;
+  loyaltyProgramName: string;
+  defaultCurrency: string;
+  /** Channel keys offered in the brief form. */
+  enabledChannels: string[];
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  profile: BrandProfile;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,7 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+// `DATA_DIR` is read when `@/lib/storage` loads, so each test file gets its own
+// empty data directory before any collection is created.
+process.env.STOREPILOT_DATA_DIR = mkdtempSync(path.join(tmpdir(), "storepilot-test-"));